@@ -30,6 +30,18 @@ logger.info('Workspace routes loaded');
 import adminRoutes from './routes/admin';
 logger.info('Admin routes loaded');
 
+import operationRoutes from './routes/operations';
+logger.info('Operation routes loaded');
+
+import templateRoutes from './routes/templates';
+logger.info('Template routes loaded');
+
+import tokenRoutes from './routes/tokens';
+logger.info('Token routes loaded');
+
+import scimRoutes from './routes/scim';
+logger.info('SCIM routes loaded');
+
 import healthRoutes from './routes/health';
 logger.info('Health routes loaded');
 
@@ -66,7 +78,7 @@ app.use(compression());
 logger.info('Compression middleware configured');
 
 // Body parsing
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({ limit: '10mb', type: ['application/json', 'application/scim+json'] }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 logger.info('Body parsing middleware configured');
 
@@ -97,6 +109,7 @@ const limiter = rateLimit({
 });
 
 app.use('/api/', limiter);
+app.use('/scim/', limiter);
 logger.info('Rate limiting middleware configured');
 
 logger.info('Mounting routes...');
@@ -121,6 +134,19 @@ logger.info('Workspace routes mounted at /api/workspaces');
 app.use('/api/admin', adminRoutes);
 logger.info('Admin routes mounted at /api/admin');
 
+app.use('/api/operations', operationRoutes);
+logger.info('Operation routes mounted at /api/operations');
+
+app.use('/api/templates', templateRoutes);
+logger.info('Template routes mounted at /api/templates');
+
+app.use('/api/tokens', tokenRoutes);
+logger.info('Token routes mounted at /api/tokens');
+
+// SCIM provisioning for the identity provider, outside /api as SCIM clients expect
+app.use('/scim/v2', scimRoutes);
+logger.info('SCIM routes mounted at /scim/v2');
+
 logger.info('All routes mounted successfully');
 
 // 404 handler
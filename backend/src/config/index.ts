@@ -1,3 +1,5 @@
+import { parseOidcProviders } from './oidcProviders';
+
 export const config = {
   // Server
   port: parseInt(process.env.PORT || '3001', 10),
@@ -7,6 +9,12 @@ export const config = {
   jwtSecret: process.env.JWT_SECRET || 'your-secret-key',
   jwtExpiresIn: parseInt(process.env.JWT_EXPIRES_IN || '3600', 10),
 
+  // Development sign-in: platform-signed tokens for seeded users, never in production
+  devAuthEnabled: process.env.DEV_AUTH_ENABLED === 'true',
+
+  // Encrypts workspace and group secret environment variables at rest; required, there is no default
+  secretsEncryptionKey: process.env.SECRETS_ENCRYPTION_KEY || '',
+
   // AWS
   awsRegion: process.env.AWS_REGION || 'us-west-2',
   cognitoUserPoolId: process.env.AWS_COGNITO_USER_POOL_ID || '',
@@ -15,6 +23,12 @@ export const config = {
   // Google OAuth
   googleClientId: process.env.GOOGLE_CLIENT_ID || '',
 
+  // Further OIDC identity providers (JSON array, see config/oidcProviders.ts)
+  oidcProviders: parseOidcProviders(process.env.OIDC_PROVIDERS),
+
+  // Bearer token of the identity provider's SCIM client; SCIM is off without one
+  scimToken: process.env.SCIM_TOKEN || '',
+
   // Database
   dynamodbRegion: process.env.DYNAMODB_REGION || 'us-west-2',
   dynamodbTablePrefix: process.env.DYNAMODB_TABLE_PREFIX || 'codex-platform',
@@ -25,6 +39,49 @@ export const config = {
   kubernetesNamespacePrefix: process.env.KUBERNETES_NAMESPACE_PREFIX || 'group-',
   kubernetesServiceAccount: process.env.KUBERNETES_SERVICE_ACCOUNT || 'backend-api-sa',
 
+  // Workspace reconciliation
+  workspaceResyncIntervalMs: parseInt(process.env.WORKSPACE_RESYNC_INTERVAL_MS || '60000', 10),
+
+  // Idle shutdown
+  idleCheckIntervalMs: parseInt(process.env.IDLE_CHECK_INTERVAL_MS || '60000', 10),
+  defaultIdleTimeoutMinutes: parseInt(process.env.DEFAULT_IDLE_TIMEOUT_MINUTES || '0', 10),
+
+  // Auto-archive (the threshold is a system setting)
+  archiveCheckIntervalMs: parseInt(process.env.ARCHIVE_CHECK_INTERVAL_MS || '3600000', 10),
+
+  // Trash: soft-deleted workspaces and groups are purged after the retention period
+  trashRetentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '7', 10),
+  trashPurgeIntervalMs: parseInt(process.env.TRASH_PURGE_INTERVAL_MS || '3600000', 10),
+
+  // Workspace expiry: owners are warned ahead of expiresAt, and expired workspaces
+  // are stopped and then deleted once the grace period has passed
+  expiryCheckIntervalMs: parseInt(process.env.EXPIRY_CHECK_INTERVAL_MS || '300000', 10),
+  expiryWarningDays: parseInt(process.env.WORKSPACE_EXPIRY_WARNING_DAYS || '3', 10),
+  expiryGraceDays: parseInt(process.env.WORKSPACE_EXPIRY_GRACE_DAYS || '7', 10),
+
+  // Workspace file browser (transfers to and from the project volume)
+  fileDownloadMaxBytes: parseInt(process.env.WORKSPACE_FILE_DOWNLOAD_MAX_MB || '500', 10) * 1024 * 1024,
+  fileUploadMaxBytes: parseInt(process.env.WORKSPACE_FILE_UPLOAD_MAX_MB || '100', 10) * 1024 * 1024,
+
+  // Exec sessions: a dropped terminal can reattach to its shell until the reattach
+  // timeout, and shells without input or output for the idle timeout are closed
+  execSessionReattachTimeoutMs: parseInt(process.env.EXEC_SESSION_REATTACH_TIMEOUT_MS || '300000', 10),
+  execSessionIdleTimeoutMs: parseInt(process.env.EXEC_SESSION_IDLE_TIMEOUT_MS || '3600000', 10),
+  execSessionMaxPerWorkspace: parseInt(process.env.EXEC_SESSION_MAX_PER_WORKSPACE || '5', 10),
+
+  // Exec session recordings; output past the limit is not recorded
+  execRecordingMaxBytes: parseInt(process.env.EXEC_RECORDING_MAX_MB || '50', 10) * 1024 * 1024,
+
+  // Workspace schedules
+  workspaceScheduleIntervalMs: parseInt(process.env.WORKSPACE_SCHEDULE_INTERVAL_MS || '30000', 10),
+
+  // Volume snapshots
+  volumeSnapshotClass: process.env.VOLUME_SNAPSHOT_CLASS || 'csi-aws-vsc',
+
+  // Provisioning operations
+  operationSweepIntervalMs: parseInt(process.env.OPERATION_SWEEP_INTERVAL_MS || '60000', 10),
+  operationLeaseMs: parseInt(process.env.OPERATION_LEASE_MS || '120000', 10),
+
   // Rate Limiting
   rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10),
   rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
@@ -0,0 +1,92 @@
+/**
+ * Additional OIDC identity providers (Keycloak, Azure AD, ...) whose tokens the
+ * API accepts next to Cognito and Google. Configured as a JSON array in
+ * OIDC_PROVIDERS, e.g.
+ *
+ *   [{ "id": "keycloak", "name": "Company SSO",
+ *      "issuer": "https://sso.example.com/realms/dev", "audience": "codex-web",
+ *      "jwksUri": "https://sso.example.com/realms/dev/protocol/openid-connect/certs",
+ *      "claims": { "groups": "realm_access.roles" } }]
+ */
+export interface OidcProviderConfig {
+  id: string;
+  name: string; // Shown on the login page
+  issuer: string; // Must equal the tokens' iss claim
+  audience: string; // Expected aud claim, usually the client id
+  jwksUri: string;
+  clientId: string; // Client the frontend signs in with; defaults to the audience
+  scope: string;
+  // Claim names, dotted for nested claims (e.g. "realm_access.roles")
+  claims: {
+    email: string;
+    name: string;
+    groups: string;
+    admin: string; // Defaults to the groups claim
+  };
+  // The user is a platform admin when the admin claim is true or contains one of these
+  adminValues: string[];
+  // Accept the email claim without email_verified, for providers that only hold verified addresses
+  trustEmail: boolean;
+}
+
+const DEFAULT_SCOPE = 'openid email profile';
+const DEFAULT_ADMIN_VALUES = ['platform-admins'];
+
+/**
+ * Parse and validate OIDC_PROVIDERS. A broken value stops the server rather
+ * than silently disabling a provider.
+ */
+export function parseOidcProviders(raw: string | undefined): OidcProviderConfig[] {
+  if (!raw || !raw.trim()) {
+    return [];
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch (error) {
+    throw new Error('OIDC_PROVIDERS must be a JSON array of provider objects');
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error('OIDC_PROVIDERS must be a JSON array of provider objects');
+  }
+
+  const providers = entries.map((entry: any, index) => {
+    for (const field of ['id', 'issuer', 'audience', 'jwksUri']) {
+      if (typeof entry?.[field] !== 'string' || !entry[field]) {
+        throw new Error(`OIDC_PROVIDERS[${index}] is missing "${field}"`);
+      }
+    }
+
+    const claims = entry.claims || {};
+    const groups = claims.groups || 'groups';
+
+    return {
+      id: entry.id,
+      name: entry.name || entry.id,
+      issuer: entry.issuer,
+      audience: entry.audience,
+      jwksUri: entry.jwksUri,
+      clientId: entry.clientId || entry.audience,
+      scope: entry.scope || DEFAULT_SCOPE,
+      claims: {
+        email: claims.email || 'email',
+        name: claims.name || 'name',
+        groups,
+        admin: claims.admin || groups,
+      },
+      adminValues: Array.isArray(entry.adminValues) ? entry.adminValues : DEFAULT_ADMIN_VALUES,
+      trustEmail: entry.trustEmail === true,
+    };
+  });
+
+  const ids = new Set<string>();
+  for (const provider of providers) {
+    if (ids.has(provider.id)) {
+      throw new Error(`OIDC_PROVIDERS has more than one provider with id "${provider.id}"`);
+    }
+    ids.add(provider.id);
+  }
+
+  return providers;
+}
@@ -4,6 +4,15 @@ import app from './app';
 import { config } from './config';
 import { logger } from './config/logger';
 import { setupWebSocketServer } from './websocket';
+import { workspaceReconciler } from './services/workspaceReconciler';
+import { workspaceIdleService } from './services/workspaceIdleService';
+import { workspaceArchiveService } from './services/workspaceArchiveService';
+import { trashService } from './services/trashService';
+import { workspaceExpiryService } from './services/workspaceExpiryService';
+import { execSessionService } from './services/execSessionService';
+import { workspaceScheduler } from './services/workspaceScheduler';
+import { operationService } from './services/operationService';
+import { devAuthService } from './services/devAuthService';
 
 // Log startup immediately
 logger.info('=== Application Starting ===');
@@ -25,6 +34,7 @@ logger.info('Configuration loaded:', {
 // Check required environment variables
 const requiredEnvVars = [
   'JWT_SECRET',
+  'SECRETS_ENCRYPTION_KEY',
   'AWS_REGION',
   'DYNAMODB_REGION',
   'DYNAMODB_TABLE_PREFIX',
@@ -56,7 +66,44 @@ try {
     logger.info(`Codex Platform API server running on port ${port}`);
     logger.info(`Environment: ${config.nodeEnv}`);
     logger.info(`Health check available at: http://localhost:${port}/api/health/live`);
-    logger.info(`WebSocket endpoint available at: ws://localhost:${port}/api/admin/workspaces/:workspaceId/exec`);
+    logger.info(`WebSocket exec endpoints available at: ws://localhost:${port}/api/workspaces/:workspaceId/exec and /api/admin/workspaces/:workspaceId/exec`);
+    logger.info(`Workspace status stream available at: ws://localhost:${port}/api/workspaces/events`);
+
+    // Start background reconciliation of workspace status against Kubernetes
+    workspaceReconciler.start().catch(error => {
+      logger.error('Failed to start workspace reconciler:', error);
+    });
+
+    // Stop workspaces that have been idle past their timeout
+    workspaceIdleService.start();
+
+    // Archive stopped workspaces nobody has accessed for the configured number of days
+    workspaceArchiveService.start();
+
+    // Purge workspaces and groups that have been in the trash past the retention period
+    trashService.start();
+
+    // Warn about, stop and eventually delete workspaces past their expiry date
+    workspaceExpiryService.start();
+
+    // Close terminal sessions left detached past the reattach timeout, or idle
+    execSessionService.start();
+
+    // Run owner-defined start/stop schedules
+    workspaceScheduler.start();
+
+    // Resume or roll back provisioning operations interrupted by a previous shutdown
+    operationService.start();
+
+    // Seed the users development sign-in issues tokens for
+    if (devAuthService.isEnabled()) {
+      logger.warn('Development sign-in is enabled: anyone can sign in as a seeded user');
+      devAuthService.seed().catch(error => {
+        logger.error('Failed to seed development users:', error);
+      });
+    } else if (config.devAuthEnabled) {
+      logger.warn('DEV_AUTH_ENABLED is ignored in production');
+    }
   });
 
   server.on('error', (error: NodeJS.ErrnoException) => {
@@ -113,10 +160,26 @@ process.on('warning', (warning: Error) => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM signal received: closing HTTP server');
+  workspaceReconciler.stop();
+  workspaceIdleService.stop();
+  workspaceArchiveService.stop();
+  trashService.stop();
+  workspaceExpiryService.stop();
+  execSessionService.stop();
+  workspaceScheduler.stop();
+  operationService.stop();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
   logger.info('SIGINT signal received: closing HTTP server');
+  workspaceReconciler.stop();
+  workspaceIdleService.stop();
+  workspaceArchiveService.stop();
+  trashService.stop();
+  workspaceExpiryService.stop();
+  execSessionService.stop();
+  workspaceScheduler.stop();
+  operationService.stop();
   process.exit(0);
 });
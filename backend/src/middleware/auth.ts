@@ -2,10 +2,13 @@ import { Request, Response, NextFunction } from 'express';
 import { CognitoJwtVerifier } from 'aws-jwt-verify';
 import * as jose from 'jose';
 import { config } from '../config';
+import { OidcProviderConfig } from '../config/oidcProviders';
 import { logger } from '../config/logger';
 import { AuthenticationError, AuthorizationError } from '../utils/errors';
-import { AuthenticatedRequest, User, JwtPayload, GroupRole } from '../types';
+import { AuthenticatedRequest, User, JwtPayload, GroupRole, PersonalAccessToken } from '../types';
 import { userService } from '../services/userService';
+import { personalAccessTokenService } from '../services/personalAccessTokenService';
+import { devAuthService } from '../services/devAuthService';
 
 // Initialize Cognito JWT verifier for ID tokens
 const cognitoIdTokenVerifier = config.cognitoUserPoolId ? CognitoJwtVerifier.create({
@@ -90,6 +93,78 @@ async function verifyCognitoToken(token: string): Promise<JwtPayload> {
   }
 }
 
+// JWKS of the configured OIDC providers, fetched and cached on first use
+const oidcKeySets = new Map<string, ReturnType<typeof jose.createRemoteJWKSet>>();
+
+// Read a claim by name, following dots into nested objects (e.g. "realm_access.roles")
+function readClaim(payload: jose.JWTPayload, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), payload);
+}
+
+function claimValues(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  return typeof value === 'string' ? [value] : [];
+}
+
+// Verification for a configured OIDC provider, mapping its claims onto ours
+async function verifyOidcToken(token: string, provider: OidcProviderConfig): Promise<JwtPayload> {
+  let keySet = oidcKeySets.get(provider.id);
+  if (!keySet) {
+    keySet = jose.createRemoteJWKSet(new URL(provider.jwksUri));
+    oidcKeySets.set(provider.id, keySet);
+  }
+
+  let payload: jose.JWTPayload;
+  try {
+    ({ payload } = await jose.jwtVerify(token, keySet, {
+      issuer: provider.issuer,
+      audience: provider.audience,
+    }));
+  } catch (error) {
+    logger.error(`OIDC token verification failed for provider ${provider.id}:`, error);
+    throw new AuthenticationError('Invalid token');
+  }
+
+  const email = readClaim(payload, provider.claims.email);
+  if (typeof email !== 'string' || !email) {
+    throw new AuthenticationError(`Token from ${provider.name} has no ${provider.claims.email} claim`);
+  }
+  // Users are matched to accounts by email, so an unverified address could take over someone else's
+  if (!provider.trustEmail && payload.email_verified !== true) {
+    throw new AuthenticationError(`${provider.name} has not verified the email address of this token`);
+  }
+
+  const name = readClaim(payload, provider.claims.name);
+  const admin = readClaim(payload, provider.claims.admin);
+
+  return {
+    sub: payload.sub as string,
+    name: typeof name === 'string' ? name : undefined,
+    email,
+    groups: claimValues(readClaim(payload, provider.claims.groups)),
+    isAdmin: admin === true || admin === 'true' ||
+      claimValues(admin).some(value => provider.adminValues.includes(value)),
+    iat: payload.iat as number,
+    exp: payload.exp as number,
+  };
+}
+
+// The configured OIDC provider that issued a token, judged by its unverified iss claim
+function findOidcProvider(token: string): OidcProviderConfig | undefined {
+  if (config.oidcProviders.length === 0) {
+    return undefined;
+  }
+
+  try {
+    const { iss } = jose.decodeJwt(token);
+    return config.oidcProviders.find(provider => provider.issuer === iss);
+  } catch (error) {
+    return undefined;
+  }
+}
+
 /**
  * Verify JWT token and return user (for use in WebSocket handlers)
  */
@@ -97,23 +172,49 @@ export async function verifyToken(token: string): Promise<User> {
   // Determine token type (simplified - in production, you might use different endpoints or headers)
   let jwtPayload: JwtPayload;
 
-  try {
-    // Try Cognito first
-    jwtPayload = await verifyCognitoToken(token);
-  } catch (cognitoError) {
+  const oidcProvider = findOidcProvider(token);
+
+  if (devAuthService.isDevToken(token)) {
+    // Platform-signed development tokens; refused unless development sign-in is enabled
+    jwtPayload = await devAuthService.verify(token);
+  } else if (oidcProvider) {
+    // Tokens from a configured OIDC provider are only checked against that provider
+    jwtPayload = await verifyOidcToken(token, oidcProvider);
+  } else {
     try {
-      // Fallback to Google
-      jwtPayload = await verifyGoogleToken(token);
-    } catch (googleError) {
-      throw new AuthenticationError('Invalid token');
+      // Try Cognito first
+      jwtPayload = await verifyCognitoToken(token);
+    } catch (cognitoError) {
+      try {
+        // Fallback to Google
+        jwtPayload = await verifyGoogleToken(token);
+      } catch (googleError) {
+        throw new AuthenticationError('Invalid token');
+      }
     }
   }
 
   // Get or create user from database
   const user = await userService.getOrCreateUser(jwtPayload);
+  if (user.disabled) {
+    throw new AuthenticationError('Account is disabled');
+  }
   return user;
 }
 
+/**
+ * Verify a bearer token that may also be a personal access token. Callers must
+ * check the token's scopes before acting on a personal access token.
+ */
+export async function verifyCredentials(
+  token: string
+): Promise<{ user: User; personalAccessToken?: PersonalAccessToken }> {
+  if (personalAccessTokenService.isPersonalAccessToken(token)) {
+    return personalAccessTokenService.verify(token);
+  }
+  return { user: await verifyToken(token) };
+}
+
 export async function authenticate(
   req: AuthenticatedRequest,
   res: Response,
@@ -127,7 +228,12 @@ export async function authenticate(
     }
 
     const token = authHeader.split(' ')[1];
-    const user = await verifyToken(token);
+    const { user, personalAccessToken } = await verifyCredentials(token);
+
+    if (personalAccessToken) {
+      await personalAccessTokenService.authorizeRequest(personalAccessToken, user, req.method, req.baseUrl + req.path);
+      req.personalAccessToken = personalAccessToken;
+    }
 
     req.user = user;
     next();
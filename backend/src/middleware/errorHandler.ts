@@ -86,6 +86,16 @@ export function errorHandler(
     return;
   }
 
+  // Handle request bodies over the parser's limit (e.g. file uploads)
+  if ((err as any).type === 'entity.too.large') {
+    res.status(413).json({
+      message: 'Request body too large',
+      code: 'PAYLOAD_TOO_LARGE',
+      details: { limit: (err as any).limit },
+    });
+    return;
+  }
+
   // Handle syntax errors (malformed JSON, etc.)
   if (err instanceof SyntaxError && 'body' in err) {
     res.status(400).json({
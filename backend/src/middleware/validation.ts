@@ -1,6 +1,95 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { ValidationError } from '../utils/errors';
+import { isValidCronExpression, isValidTimeZone } from '../utils/cron';
+
+const cronExpression = Joi.string().max(100).custom((value, helpers) => {
+  if (!isValidCronExpression(value)) {
+    return helpers.error('any.invalid');
+  }
+  return value;
+}).messages({
+  'any.invalid': '{{#label}} must be a valid 5-field cron expression (e.g. "0 8 * * 1-5")',
+});
+
+const containerImage = Joi.string()
+  .regex(/^[a-z0-9\-\.\/\:]+$/i)
+  .min(1)
+  .max(255)
+  .messages({
+    'string.pattern.base': 'Image must be a valid container image reference (e.g., registry.io/org/image:tag)',
+  });
+
+const resourceTier = Joi.string()
+  .valid('single-user', 'small-team', 'enterprise')
+  .messages({
+    'any.only': 'Tier must be one of: single-user, small-team, enterprise',
+  });
+
+const collaboratorRole = Joi.string()
+  .valid('viewer', 'operator', 'editor')
+  .messages({
+    'any.only': 'Role must be one of: viewer, operator, editor',
+  });
+
+const tokenScope = Joi.string()
+  .valid('workspaces:read', 'workspaces:control', 'workspaces:write', 'workspaces:exec')
+  .messages({
+    'any.only': 'Scope must be one of: workspaces:read, workspaces:control, workspaces:write, workspaces:exec',
+  });
+
+const archiveMode = Joi.string()
+  .valid('volume', 'snapshot')
+  .messages({
+    'any.only': 'Archive mode must be one of: volume, snapshot',
+  });
+
+const kubernetesQuantity = (label: string, pattern: RegExp, example: string) =>
+  Joi.string().regex(pattern).messages({ 'string.pattern.base': `${label} must be a Kubernetes quantity (e.g. "${example}")` });
+
+const cpuQuantity = kubernetesQuantity('CPU', /^\d+(\.\d+)?m?$/, '2" or "500m');
+const memoryQuantity = kubernetesQuantity('Memory', /^\d+(\.\d+)?(Ki|Mi|Gi|Ti|K|M|G|T)?$/, '4Gi');
+const storageQuantity = kubernetesQuantity('Storage', /^\d+(\.\d+)?(Ki|Mi|Gi|Ti|K|M|G|T)?$/, '20Gi');
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const environmentVariableName = Joi.string().regex(ENV_NAME_PATTERN).max(255).messages({
+  'string.pattern.base': 'Name must be a valid environment variable name',
+});
+
+// Plain (non-secret) container environment variables
+const environmentVariables = Joi.object()
+  .pattern(ENV_NAME_PATTERN, Joi.string().max(4096).allow(''))
+  .max(100)
+  .messages({
+    'object.unknown': '{{#label}} must be a valid environment variable name',
+  });
+
+const gitRepository = Joi.object({
+  url: Joi.string()
+    .regex(/^(https?:\/\/|ssh:\/\/|git@)[^\s'"`$\\]+$/)
+    .max(500)
+    .required()
+    .messages({
+      'string.pattern.base': 'Repository URL must be an https, ssh or git@ URL',
+    }),
+  branch: Joi.string().regex(/^[\w.\-\/]+$/).max(255).optional(),
+  credentialsSecret: Joi.string()
+    .regex(/^[a-z0-9]([-a-z0-9.]*[a-z0-9])?$/)
+    .max(253)
+    .optional()
+    .messages({
+      'string.pattern.base': 'Credentials secret must be the name of a Kubernetes Secret',
+    }),
+});
+
+// VS Code extension ids (publisher.name, optionally @version)
+const extensionIds = Joi.array()
+  .items(Joi.string().regex(/^[a-z0-9][a-z0-9\-]*\.[a-z0-9][a-z0-9\-.]*(@[\w.\-]+)?$/i).max(200).messages({
+    'string.pattern.base': 'Extensions must be VS Code extension ids (e.g. "ms-python.python")',
+  }))
+  .max(50)
+  .unique();
 
 export function validate(schema: Joi.ObjectSchema) {
   return (req: Request, res: Response, next: NextFunction): void => {
@@ -80,6 +169,55 @@ export const commonSchemas = {
     workspaceId: Joi.string().required(),
   }),
 
+  groupId: Joi.object({
+    groupId: Joi.string().required(),
+  }),
+
+  workspaceSnapshot: Joi.object({
+    workspaceId: Joi.string().required(),
+    snapshotName: Joi.string().max(253).required(),
+  }),
+
+  operationId: Joi.object({
+    operationId: Joi.string().required(),
+  }),
+
+  templateId: Joi.object({
+    templateId: Joi.string().required(),
+  }),
+
+  recordingId: Joi.object({
+    recordingId: Joi.string().required(),
+  }),
+
+  tokenId: Joi.object({
+    tokenId: Joi.string().required(),
+  }),
+
+  ruleId: Joi.object({
+    ruleId: Joi.string().required(),
+  }),
+
+  workspaceExecSession: Joi.object({
+    workspaceId: Joi.string().required(),
+    sessionId: Joi.string().required(),
+  }),
+
+  workspaceCollaborator: Joi.object({
+    workspaceId: Joi.string().required(),
+    userId: Joi.string().required(),
+  }),
+
+  workspaceEnvironmentVariable: Joi.object({
+    workspaceId: Joi.string().required(),
+    name: environmentVariableName.required(),
+  }),
+
+  groupEnvironmentVariable: Joi.object({
+    groupId: Joi.string().required(),
+    name: environmentVariableName.required(),
+  }),
+
   // Pagination
   pagination: Joi.object({
     limit: Joi.number().integer().min(1).max(100).default(20),
@@ -123,6 +261,22 @@ export const commonSchemas = {
       pods: Joi.number().integer().min(1).optional(),
     }).optional(),
   }).min(1),
+
+  updateGroupIdlePolicy: Joi.object({
+    idleTimeoutMinutes: Joi.number().integer().min(0).max(10080).allow(null).optional(),
+    maxIdleTimeoutMinutes: Joi.number().integer().min(5).max(10080).allow(null).optional(),
+  }).min(1),
+
+  updateGroupLifetimePolicy: Joi.object({
+    // null lifts the limit; existing workspaces keep their expiry
+    maxLifetimeDays: Joi.number().integer().min(1).max(3650).allow(null).required(),
+  }),
+
+  updateGroupTemplatePolicy: Joi.object({
+    // null or an empty list lifts the restriction
+    allowedTemplateIds: Joi.array().items(Joi.string()).max(100).unique().allow(null).required(),
+  }),
+
   groupAndUserId: Joi.object({
     groupId: Joi.string().required(),
     userId: Joi.string().required(),
@@ -156,6 +310,51 @@ export const commonSchemas = {
       memory: Joi.string().required(),
       storage: Joi.string().required(),
     }).optional(),
+    templateId: Joi.string().optional(),
+    repository: gitRepository.optional(),
+    expiresAt: Joi.string().isoDate().optional(),
+  }),
+
+  // Workspace templates
+  createTemplate: Joi.object({
+    name: Joi.string().min(1).max(100).required(),
+    description: Joi.string().max(500).allow('', null).optional(),
+    groupId: Joi.string().allow(null).optional(),
+    image: containerImage.required(),
+    tier: resourceTier.optional(),
+    resources: Joi.object({
+      cpu: cpuQuantity.required(),
+      memory: memoryQuantity.required(),
+      storage: storageQuantity.required(),
+    }).optional(),
+    env: environmentVariables.optional(),
+    repository: gitRepository.optional(),
+    extensions: extensionIds.optional(),
+  }),
+
+  updateTemplate: Joi.object({
+    name: Joi.string().min(1).max(100).optional(),
+    description: Joi.string().max(500).allow('', null).optional(),
+    image: containerImage.optional(),
+    tier: resourceTier.allow(null).optional(),
+    resources: Joi.object({
+      cpu: cpuQuantity.required(),
+      memory: memoryQuantity.required(),
+      storage: storageQuantity.required(),
+    }).allow(null).optional(),
+    env: environmentVariables.optional(),
+    repository: gitRepository.allow(null).optional(),
+    extensions: extensionIds.optional(),
+  }).min(1),
+
+  cloneWorkspace: Joi.object({
+    name: Joi.string()
+      .regex(/^[a-zA-Z0-9]([a-zA-Z0-9\-\ ])*[a-zA-Z0-9]$/)
+      .min(1)
+      .max(63)
+      .required(),
+    groupId: Joi.string().optional(),
+    copyVolume: Joi.boolean().default(false),
   }),
 
   updateWorkspace: Joi.object({
@@ -165,17 +364,87 @@ export const commonSchemas = {
       .max(63)
       .optional(),
     description: Joi.string().max(500).allow('', null).optional(),
+    // Applied to the StatefulSet and PVC; tier presets are overridden by explicit resources
+    tier: resourceTier.optional(),
     resources: Joi.object({
-      cpu: Joi.string().optional(),
-      memory: Joi.string().optional(),
-      storage: Joi.string().optional(),
-    }).optional(),
+      cpu: cpuQuantity.optional(),
+      memory: memoryQuantity.optional(),
+      storage: storageQuantity.optional(),
+    }).min(1).optional(),
+    // Minutes without activity before the workspace is stopped (0 = never, null = group default)
+    idleTimeoutMinutes: Joi.number().integer().min(0).max(10080).allow(null).optional(),
+    // null removes the expiry, unless the group has a max lifetime
+    expiresAt: Joi.string().isoDate().allow(null).optional(),
   }).min(1),
 
+  workspaceSchedule: Joi.object({
+    enabled: Joi.boolean().default(true),
+    timezone: Joi.string().max(64).required().custom((value, helpers) => {
+      if (!isValidTimeZone(value)) {
+        return helpers.error('any.invalid');
+      }
+      return value;
+    }).messages({
+      'any.invalid': 'Timezone must be a valid IANA time zone (e.g. "Europe/London")',
+    }),
+    startCron: cronExpression.optional(),
+    stopCron: cronExpression.optional(),
+  }).or('startCron', 'stopCron'),
+
+  createWorkspaceSnapshot: Joi.object({
+    description: Joi.string().max(200).allow('').optional(),
+  }),
+
+  workspaceSnapshotPolicy: Joi.object({
+    enabled: Joi.boolean().default(true),
+    timezone: Joi.string().max(64).required().custom((value, helpers) => {
+      if (!isValidTimeZone(value)) {
+        return helpers.error('any.invalid');
+      }
+      return value;
+    }).messages({
+      'any.invalid': 'Timezone must be a valid IANA time zone (e.g. "Europe/London")',
+    }),
+    cron: cronExpression.required(),
+    retain: Joi.number().integer().min(1).max(50).required(),
+  }),
+
+  addCollaborator: Joi.object({
+    email: Joi.string().email().required(),
+    role: collaboratorRole.required(),
+  }),
+
+  updateCollaborator: Joi.object({
+    role: collaboratorRole.required(),
+  }),
+
+  transferWorkspace: Joi.object({
+    email: Joi.string().email().required(),
+  }),
+
+  moveWorkspace: Joi.object({
+    groupId: Joi.string().required(),
+  }),
+
+  archiveWorkspace: Joi.object({
+    mode: archiveMode.default('volume'),
+  }),
+
+  setEnvironmentVariable: Joi.object({
+    value: Joi.string().max(32768).allow('').required(),
+    secret: Joi.boolean().default(false),
+  }),
+
   workspaceAction: Joi.object({
     type: Joi.string().valid('start', 'stop', 'restart').required(),
   }),
 
+  createPersonalAccessToken: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required(),
+    scopes: Joi.array().items(tokenScope).min(1).unique().required(),
+    expiresInDays: Joi.number().integer().min(1).max(365).required(),
+  }),
+
   // User validation
   createUser: Joi.object({
     email: Joi.string().email().required(),
@@ -207,14 +476,66 @@ export const commonSchemas = {
     role: Joi.string().valid('admin', 'member').optional(),
   }),
 
+  createGroupMappingRule: Joi.object({
+    source: Joi.string().valid('idpGroup', 'emailDomain').required().messages({
+      'any.only': 'Source must be one of: idpGroup, emailDomain',
+    }),
+    value: Joi.when('source', {
+      is: 'emailDomain',
+      then: Joi.string().trim().replace(/^@/, '').domain().required().messages({
+        'string.domain': 'Value must be an email domain like example.com',
+      }),
+      otherwise: Joi.string().trim().min(1).max(256).required(),
+    }),
+    groupId: Joi.string().required(),
+    role: Joi.string().valid('admin', 'member').default('member'),
+  }),
+
+  // SCIM 2.0 resources; attributes the platform doesn't store are dropped
+  scimUser: Joi.object({
+    userName: Joi.string().trim().email().required(),
+    externalId: Joi.string().max(256).optional(),
+    displayName: Joi.string().max(100).allow('').optional(),
+    name: Joi.object({
+      formatted: Joi.string().max(100).allow('').optional(),
+      givenName: Joi.string().max(100).allow('').optional(),
+      familyName: Joi.string().max(100).allow('').optional(),
+    }).optional(),
+    active: Joi.boolean().default(true),
+  }),
+
+  scimGroup: Joi.object({
+    displayName: Joi.string().trim().min(1).max(100).required(),
+    members: Joi.array().items(Joi.object({ value: Joi.string().required() })).default([]),
+  }),
+
+  scimPatch: Joi.object({
+    Operations: Joi.array().items(Joi.object({
+      op: Joi.string().lowercase().valid('add', 'remove', 'replace').required(),
+      path: Joi.string().max(256).optional(),
+      value: Joi.any().optional(),
+    })).min(1).required(),
+  }),
+
+  scimListQuery: Joi.object({
+    filter: Joi.string().max(500).optional(),
+    startIndex: Joi.number().integer().min(1).default(1),
+    count: Joi.number().integer().min(0).default(100),
+    excludedAttributes: Joi.string().optional(),
+  }),
+
   // Query filters
   workspaceQuery: Joi.object({
     groupId: Joi.string().optional(),
-    status: Joi.string().valid('running', 'stopped', 'starting', 'stopping', 'error', 'pending').optional(),
+    status: Joi.string().valid('running', 'stopped', 'starting', 'stopping', 'error', 'pending', 'deleting', 'archived').optional(),
     limit: Joi.number().integer().min(1).max(100).default(20),
     offset: Joi.number().integer().min(0).default(0),
   }),
 
+  trashQuery: Joi.object({
+    groupId: Joi.string().optional(),
+  }),
+
   auditLogQuery: Joi.object({
     startDate: Joi.date().optional(),
     endDate: Joi.date().optional(),
@@ -224,12 +545,37 @@ export const commonSchemas = {
     limit: Joi.number().integer().min(1).max(100).default(20),
   }),
 
+  execRecordingQuery: Joi.object({
+    workspaceId: Joi.string().optional(),
+    nextToken: Joi.string().optional(),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+  }),
+
   userQuery: Joi.object({
     limit: Joi.number().integer().min(1).max(100).default(20),
     nextToken: Joi.string().optional(),
     search: Joi.string().min(1).max(100).optional(),
   }),
 
+  templateQuery: Joi.object({
+    groupId: Joi.string().optional(),
+  }),
+
+  // Paths are relative to the workspace's project volume
+  workspaceFilesQuery: Joi.object({
+    path: Joi.string().allow('').max(4096).default(''),
+  }),
+
+  workspaceFileDownloadQuery: Joi.object({
+    path: Joi.string().allow('').max(4096).default(''),
+    format: Joi.string().valid('tar', 'zip').optional(),
+  }),
+
+  workspaceFileUploadQuery: Joi.object({
+    path: Joi.string().min(1).max(4096).required(),
+    overwrite: Joi.boolean().default(false),
+  }),
+
   workspaceLogsQuery: Joi.object({
     lines: Joi.number().integer().min(1).max(1000).default(100),
     since: Joi.string().isoDate().optional(),
@@ -245,5 +591,7 @@ export const commonSchemas = {
       .messages({
         'string.pattern.base': 'Image must be a valid container image reference (e.g., registry.io/org/image:tag)',
       }),
+    autoArchiveAfterDays: Joi.number().integer().min(0).max(3650).optional(),
+    autoArchiveMode: archiveMode.optional(),
   }).min(1),
 };
@@ -2,12 +2,15 @@ import { Router, Response } from 'express';
 import { authenticate, requireAdmin } from '../middleware/auth';
 import { validate, validateQuery, validateParams, commonSchemas } from '../middleware/validation';
 import { adminRateLimit } from '../middleware/rateLimiting';
-import { AuthenticatedRequest, User, PaginatedResponse, AuditLog, SystemSettings, UpdateSystemSettingsRequest, GroupRole } from '../types';
+import { AuthenticatedRequest, User, PaginatedResponse, AuditLog, ExecRecording, SystemSettings, UpdateSystemSettingsRequest, GroupRole } from '../types';
 import { dynamodbService } from '../services/dynamodbService';
 import { kubernetesService } from '../services/kubernetesService';
 import { userService } from '../services/userService';
 import { cognitoService } from '../services/cognitoService';
 import { costService } from '../services/costService';
+import { trashService } from '../services/trashService';
+import { execRecordingService } from '../services/execRecordingService';
+import { groupMappingService } from '../services/groupMappingService';
 import { logger } from '../config/logger';
 import { NotFoundError, ValidationError } from '../utils/errors';
 import { v4 as uuidv4 } from 'uuid';
@@ -340,6 +343,7 @@ router.post('/users/:userId/enable',
       } else {
         throw new ValidationError('User enable/disable is only available when Cognito is configured');
       }
+      await userService.updateUser(userId, { disabled: false });
 
       // Log admin action
       await dynamodbService.createAuditLog({
@@ -386,6 +390,7 @@ router.post('/users/:userId/disable',
       } else {
         throw new ValidationError('User enable/disable is only available when Cognito is configured');
       }
+      await userService.updateUser(userId, { disabled: true });
 
       // Log admin action
       await dynamodbService.createAuditLog({
@@ -436,6 +441,68 @@ router.get('/audit-logs',
   }
 );
 
+// List exec session recordings, newest first
+router.get('/exec-recordings',
+  validateQuery(commonSchemas.execRecordingQuery),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { workspaceId, nextToken, limit } = req.query as any;
+
+      const result = await dynamodbService.listExecRecordings(workspaceId, limit, nextToken);
+
+      const response: PaginatedResponse<ExecRecording> = {
+        items: result.recordings,
+        nextToken: result.nextToken,
+        hasMore: !!result.nextToken,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Failed to list exec recordings:', error);
+      throw error;
+    }
+  }
+);
+
+router.get('/exec-recordings/:recordingId',
+  validateParams(commonSchemas.recordingId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      res.json(await execRecordingService.get(req.params.recordingId));
+    } catch (error) {
+      logger.error(`Failed to get exec recording ${req.params.recordingId}:`, error);
+      throw error;
+    }
+  }
+);
+
+// The recording as an asciicast v2 file; viewing a recording is audited too
+router.get('/exec-recordings/:recordingId/cast',
+  validateParams(commonSchemas.recordingId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { recordingId } = req.params;
+      const { recording, cast } = await execRecordingService.getCast(recordingId);
+
+      await dynamodbService.createAuditLog({
+        userId: req.user!.id,
+        username: req.user!.username,
+        action: 'exec_recording_viewed',
+        resource: `workspace:${recording.workspaceId}`,
+        details: { recordingId, sessionUserId: recording.userId },
+        success: true,
+      });
+
+      res.setHeader('Content-Type', 'application/x-asciicast');
+      res.setHeader('Content-Disposition', `attachment; filename="${recordingId}.cast"`);
+      res.send(cast);
+    } catch (error) {
+      logger.error(`Failed to get exec recording ${req.params.recordingId}:`, error);
+      throw error;
+    }
+  }
+);
+
 // Platform statistics
 router.get('/stats', async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -813,6 +880,65 @@ router.post('/users/:userId/groups/:groupId/demote',
   }
 );
 
+// List group mapping rules
+router.get('/group-mappings',
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      res.json(await groupMappingService.list());
+    } catch (error) {
+      logger.error('Failed to list group mapping rules:', error);
+      throw error;
+    }
+  }
+);
+
+// Map an IdP group or email domain to an application group, applied at login
+router.post('/group-mappings',
+  validate(commonSchemas.createGroupMappingRule),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const rule = await groupMappingService.create(req.body, req.user!);
+
+      await dynamodbService.createAuditLog({
+        userId: req.user!.id,
+        username: req.user!.username,
+        action: 'group_mapping_created',
+        resource: `group:${rule.groupId}`,
+        details: { ruleId: rule.id, source: rule.source, value: rule.value, role: rule.role },
+        success: true,
+      });
+
+      res.status(201).json(rule);
+    } catch (error) {
+      logger.error('Failed to create group mapping rule:', error);
+      throw error;
+    }
+  }
+);
+
+router.delete('/group-mappings/:ruleId',
+  validateParams(commonSchemas.ruleId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const rule = await groupMappingService.delete(req.params.ruleId);
+
+      await dynamodbService.createAuditLog({
+        userId: req.user!.id,
+        username: req.user!.username,
+        action: 'group_mapping_deleted',
+        resource: `group:${rule.groupId}`,
+        details: { ruleId: rule.id, source: rule.source, value: rule.value, role: rule.role },
+        success: true,
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      logger.error(`Failed to delete group mapping rule ${req.params.ruleId}:`, error);
+      throw error;
+    }
+  }
+);
+
 // List all workspaces (across all users)
 router.get('/workspaces',
   async (req: AuthenticatedRequest, res: Response) => {
@@ -850,7 +976,8 @@ router.get('/workspaces',
   }
 );
 
-// Delete workspace (admin override - can delete any workspace)
+// Delete workspace (admin override - can delete any workspace). It goes to the
+// trash like any other delete; POST /api/workspaces/:id/purge removes it for good.
 router.delete('/workspaces/:workspaceId',
   validateParams(commonSchemas.workspaceId),
   async (req: AuthenticatedRequest, res: Response) => {
@@ -862,37 +989,7 @@ router.delete('/workspaces/:workspaceId',
         throw new NotFoundError('Workspace not found');
       }
 
-      const k8sName = `workspace-${workspaceId.substring(3)}`.toLowerCase();
-
-      // Get the group to find the namespace
-      const group = await dynamodbService.getGroup(workspace.groupId);
-      const namespace = group?.namespace;
-
-      // Delete Kubernetes resources (if namespace exists)
-      if (namespace) {
-        try {
-          await kubernetesService.deleteStatefulSet(namespace, k8sName);
-          await kubernetesService.deleteNamespacedService(k8sName, namespace);
-          await kubernetesService.deleteNamespacedSecret(`${k8sName}-config`, namespace);
-
-          // Delete PVC created by StatefulSet volumeClaimTemplates
-          // StatefulSet volumeClaimTemplates create PVCs with naming pattern: <volumeName>-<statefulSetName>-<ordinal>
-          await kubernetesService.deleteNamespacedPVC(`workspace-storage-${k8sName}-0`, namespace);
-
-          // Remove this workspace from the nginx proxy ConfigMap
-          await kubernetesService.removeWorkspaceFromNginxProxyConfig(namespace, k8sName);
-
-          logger.info(`Kubernetes resources deleted for workspace ${workspaceId} in namespace ${namespace} by admin ${req.user!.id}`);
-        } catch (k8sError) {
-          logger.error(`Failed to delete K8s resources for workspace ${workspaceId}:`, k8sError);
-          // Continue with database deletion even if K8s deletion fails
-        }
-      } else {
-        logger.warn(`Group ${workspace.groupId} not found for workspace ${workspaceId}, skipping K8s cleanup`);
-      }
-
-      // Delete from database
-      await dynamodbService.deleteWorkspace(workspaceId);
+      const trashed = await trashService.trashWorkspace(workspace, req.user!.id);
 
       // Log admin action
       await dynamodbService.createAuditLog({
@@ -903,13 +1000,14 @@ router.delete('/workspaces/:workspaceId',
         details: {
           workspaceName: workspace.name,
           workspaceUserId: workspace.userId,
-          groupId: workspace.groupId
+          groupId: workspace.groupId,
+          purgeAt: trashed.trash?.purgeAt,
         },
         success: true,
       });
 
-      logger.info(`Workspace ${workspaceId} deleted by admin ${req.user!.id}`);
-      res.status(204).send();
+      logger.info(`Workspace ${workspaceId} moved to the trash by admin ${req.user!.id}`);
+      res.json(trashed);
     } catch (error) {
       // Log failed admin action
       await dynamodbService.createAuditLog({
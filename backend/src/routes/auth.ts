@@ -1,8 +1,11 @@
-import { Router, Response } from 'express';
+import { Router, Request, Response } from 'express';
 import { AuthenticatedRequest } from '../types';
 import { authenticate } from '../middleware/auth';
+import { config } from '../config';
 import { logger } from '../config/logger';
 import { userService } from '../services/userService';
+import { devAuthService } from '../services/devAuthService';
+import { AppError } from '../utils/errors';
 import Joi from 'joi';
 
 const router = Router();
@@ -11,9 +14,32 @@ const router = Router();
  * POST /api/auth/login
  * User login endpoint
  * This is typically handled by an external auth provider (Cognito, Google, etc.)
+ * With development sign-in enabled it issues a token for a seeded user: { "email": "admin@dev.local" }
  */
 router.post('/login', async (req: AuthenticatedRequest, res: Response) => {
   try {
+    if (devAuthService.isEnabled()) {
+      const schema = Joi.object({
+        email: Joi.string().email().required(),
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: error.details[0].message
+        });
+      }
+
+      const { token, expiresIn, user } = await devAuthService.login(value.email);
+      return res.json({
+        success: true,
+        token,
+        expiresIn,
+        user
+      });
+    }
+
     // Token validation would be done by external auth provider
     res.json({
       success: true,
@@ -23,9 +49,27 @@ router.post('/login', async (req: AuthenticatedRequest, res: Response) => {
     logger.error('Login error:', error);
     res.status(401).json({
       success: false,
-      error: 'Authentication failed'
+      error: error instanceof AppError ? error.message : 'Authentication failed'
+    });
+  }
+});
+
+/**
+ * GET /api/auth/dev-users
+ * Seeded users the login page offers while development sign-in is enabled
+ */
+router.get('/dev-users', (req: Request, res: Response) => {
+  if (!devAuthService.isEnabled()) {
+    return res.status(404).json({
+      success: false,
+      error: 'Development sign-in is disabled'
     });
   }
+
+  res.json({
+    success: true,
+    users: devAuthService.listUsers()
+  });
 });
 
 /**
@@ -40,6 +84,24 @@ router.post('/logout', async (req: AuthenticatedRequest, res: Response) => {
   });
 });
 
+/**
+ * GET /api/auth/providers
+ * Configured OIDC identity providers the login page offers next to the default one.
+ * Public: the login page calls it before anyone has signed in
+ */
+router.get('/providers', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    providers: config.oidcProviders.map(({ id, name, issuer, clientId, scope }) => ({
+      id,
+      name,
+      issuer,
+      clientId,
+      scope,
+    })),
+  });
+});
+
 /**
  * GET /api/auth/me
  * Get current user info
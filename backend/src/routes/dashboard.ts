@@ -15,8 +15,9 @@ router.get('/stats', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const user = req.user!;
     
-    // Get user's workspaces
-    const userWorkspaces = await dynamodbService.getUserWorkspaces(user.id);
+    // Get user's workspaces, leaving out the ones in the trash
+    const userWorkspaces = (await dynamodbService.getUserWorkspaces(user.id))
+      .filter(ws => ws.status !== 'trashed');
     
     // Count running workspaces
     const runningWorkspaces = userWorkspaces.filter(ws => ws.status === 'running').length;
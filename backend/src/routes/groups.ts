@@ -1,14 +1,17 @@
 import { Router, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { authenticate, requireAdmin, requireGroupMembership } from '../middleware/auth';
+import { authenticate, requireAdmin, requireGroupMembership, requireGroupAdmin } from '../middleware/auth';
 import { validate, validateQuery, validateParams, commonSchemas } from '../middleware/validation';
 import { operationRateLimits } from '../middleware/rateLimiting';
-import { AuthenticatedRequest, Group, CreateGroupRequest } from '../types';
+import { AuthenticatedRequest, Group, CreateGroupRequest, SetEnvironmentVariableRequest } from '../types';
 import { dynamodbService } from '../services/dynamodbService';
 import { kubernetesService } from '../services/kubernetesService';
 import { userService } from '../services/userService';
+import { templateService } from '../services/templateService';
+import { workspaceEnvironmentService } from '../services/workspaceEnvironmentService';
+import { trashService } from '../services/trashService';
 import { logger } from '../config/logger';
-import { NotFoundError, ConflictError } from '../utils/errors';
+import { NotFoundError, ConflictError, ValidationError } from '../utils/errors';
 
 const router = Router();
 
@@ -36,7 +39,7 @@ router.get('/', async (req: AuthenticatedRequest, res: Response) => {
         })
       );
       
-      res.json(groups.filter(g => g !== null));
+      res.json(groups.filter(g => g !== null && !g.trash));
     } else {
       // Regular users see only their groups
       const groups = await Promise.all(
@@ -50,7 +53,7 @@ router.get('/', async (req: AuthenticatedRequest, res: Response) => {
         })
       );
       
-      res.json(groups.filter(g => g !== null));
+      res.json(groups.filter(g => g !== null && !g.trash));
     }
   } catch (error) {
     logger.error('Failed to list groups:', error);
@@ -58,6 +61,22 @@ router.get('/', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+// List groups in the trash (admin only)
+router.get('/trash',
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const groups = await dynamodbService.listAllGroups();
+      res.json(groups
+        .filter(group => group.trash)
+        .sort((a, b) => b.trash!.deletedAt.localeCompare(a.trash!.deletedAt)));
+    } catch (error) {
+      logger.error('Failed to list trashed groups:', error);
+      throw error;
+    }
+  }
+);
+
 // Create new group (admin only)
 router.post('/',
   requireAdmin,
@@ -185,45 +204,253 @@ router.patch('/:groupId',
   }
 );
 
-// Delete group (admin only)
-router.delete('/:groupId',
-  validateParams(commonSchemas.id),
-  requireAdmin,
+// Update group idle shutdown policy (group admin)
+router.patch('/:groupId/idle-policy',
+  validateParams(commonSchemas.groupId),
+  requireGroupAdmin(),
+  validate(commonSchemas.updateGroupIdlePolicy),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
+      const user = req.user!;
       const { groupId } = req.params;
-      
+      const { idleTimeoutMinutes, maxIdleTimeoutMinutes } = req.body;
+
       const group = await dynamodbService.getGroup(groupId);
       if (!group) {
         throw new NotFoundError('Group not found');
       }
-      
-      // Check if group has any workspaces
-      const workspaces = await dynamodbService.getGroupWorkspaces(groupId);
-      if (workspaces.length > 0) {
-        throw new ConflictError('Cannot delete group with active workspaces');
+
+      // The default has to respect the bound that applies to owner overrides
+      const effectiveMax = maxIdleTimeoutMinutes !== undefined ? maxIdleTimeoutMinutes : group.maxIdleTimeoutMinutes;
+      const effectiveDefault = idleTimeoutMinutes !== undefined ? idleTimeoutMinutes : group.idleTimeoutMinutes;
+      if (effectiveMax && effectiveDefault !== undefined && effectiveDefault !== null &&
+          (effectiveDefault === 0 || effectiveDefault > effectiveMax)) {
+        throw new ValidationError(`Default idle timeout must be between 1 and ${effectiveMax} minutes`);
       }
-      
-      // Remove group from all users
-      const { users } = await dynamodbService.listUsers(1000); // Get all users
-      const usersInGroup = users.filter(user => user.groups.includes(groupId));
-      
-      for (const user of usersInGroup) {
-        await userService.removeUserFromGroup(user.id, groupId);
+
+      const updatedGroup = await dynamodbService.updateGroup(groupId, { idleTimeoutMinutes, maxIdleTimeoutMinutes });
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'group_idle_policy_updated',
+        resource: `group:${groupId}`,
+        details: { idleTimeoutMinutes, maxIdleTimeoutMinutes },
+        success: true,
+      });
+
+      logger.info(`Idle policy updated for group ${groupId} by user ${user.id}`);
+      res.json(updatedGroup);
+    } catch (error) {
+      logger.error('Failed to update group idle policy:', error);
+      throw error;
+    }
+  }
+);
+
+// Set the longest a workspace in the group may live before it expires (group admin).
+// Applies to workspaces created, moved in or given a new expiry from now on
+router.patch('/:groupId/lifetime-policy',
+  validateParams(commonSchemas.groupId),
+  requireGroupAdmin(),
+  validate(commonSchemas.updateGroupLifetimePolicy),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { groupId } = req.params;
+      const { maxLifetimeDays } = req.body;
+
+      const group = await dynamodbService.getGroup(groupId);
+      if (!group) {
+        throw new NotFoundError('Group not found');
       }
-      
-      // Delete Kubernetes namespace (this will delete all resources in it)
-      try {
-        await kubernetesService.deleteNamespace(group.namespace);
-      } catch (k8sError) {
-        logger.warn(`Failed to delete namespace ${group.namespace}:`, k8sError);
+
+      const updatedGroup = await dynamodbService.updateGroup(groupId, { maxLifetimeDays });
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'group_lifetime_policy_updated',
+        resource: `group:${groupId}`,
+        details: { from: group.maxLifetimeDays ?? null, to: maxLifetimeDays },
+        success: true,
+      });
+
+      logger.info(`Lifetime policy updated for group ${groupId} by user ${user.id}`);
+      res.json(updatedGroup);
+    } catch (error) {
+      logger.error('Failed to update group lifetime policy:', error);
+      throw error;
+    }
+  }
+);
+
+// Restrict the templates workspaces in the group can be created from (group admin)
+router.put('/:groupId/template-policy',
+  validateParams(commonSchemas.groupId),
+  requireGroupAdmin(),
+  validate(commonSchemas.updateGroupTemplatePolicy),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { groupId } = req.params;
+      const allowedTemplateIds: string[] | null = req.body.allowedTemplateIds?.length ? req.body.allowedTemplateIds : null;
+
+      const group = await dynamodbService.getGroup(groupId);
+      if (!group) {
+        throw new NotFoundError('Group not found');
+      }
+
+      // Only platform-wide templates and the group's own can be allowed
+      for (const templateId of allowedTemplateIds || []) {
+        const template = await templateService.get(templateId);
+        if (template.groupId && template.groupId !== groupId) {
+          throw new ValidationError(`Template ${template.name} belongs to another group`);
+        }
+      }
+
+      const updatedGroup = await dynamodbService.updateGroup(groupId, { allowedTemplateIds });
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'group_template_policy_updated',
+        resource: `group:${groupId}`,
+        details: { allowedTemplateIds },
+        success: true,
+      });
+
+      logger.info(`Template policy updated for group ${groupId} by user ${user.id}`);
+      res.json(updatedGroup);
+    } catch (error) {
+      logger.error('Failed to update group template policy:', error);
+      throw error;
+    }
+  }
+);
+
+// List environment variables set on every workspace in the group. Secret values are never returned.
+router.get('/:groupId/environment',
+  validateParams(commonSchemas.groupId),
+  requireGroupMembership(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { groupId } = req.params;
+
+      const group = await dynamodbService.getGroup(groupId);
+      if (!group) {
+        throw new NotFoundError('Group not found');
+      }
+
+      const variables = await workspaceEnvironmentService.list('group', groupId);
+      res.json({ variables });
+    } catch (error) {
+      logger.error('Failed to list group environment:', error);
+      throw error;
+    }
+  }
+);
+
+// Set a group environment variable (group admin). Running workspaces in the group restart to pick it up.
+router.put('/:groupId/environment/:name',
+  validateParams(commonSchemas.groupEnvironmentVariable),
+  requireGroupAdmin(),
+  validate(commonSchemas.setEnvironmentVariable),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { groupId, name } = req.params;
+      const { value, secret }: SetEnvironmentVariableRequest = req.body;
+
+      const group = await dynamodbService.getGroup(groupId);
+      if (!group) {
+        throw new NotFoundError('Group not found');
+      }
+
+      const variable = await workspaceEnvironmentService.set('group', groupId, name, value, !!secret, user.id);
+      const failedWorkspaceIds = await workspaceEnvironmentService.syncGroup(groupId);
+
+      // Never log the value itself
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'group_env_updated',
+        resource: `group:${groupId}`,
+        details: { name, secret: variable.secret, failedWorkspaceIds },
+        success: true,
+      });
+
+      logger.info(`Group environment variable ${name} set: ${groupId} by user ${user.id}`);
+      res.json({ ...variable, failedWorkspaceIds });
+    } catch (error) {
+      logger.error('Failed to set group environment variable:', error);
+      throw error;
+    }
+  }
+);
+
+// Remove a group environment variable (group admin)
+router.delete('/:groupId/environment/:name',
+  validateParams(commonSchemas.groupEnvironmentVariable),
+  requireGroupAdmin(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { groupId, name } = req.params;
+
+      const group = await dynamodbService.getGroup(groupId);
+      if (!group) {
+        throw new NotFoundError('Group not found');
       }
+
+      await workspaceEnvironmentService.remove('group', groupId, name);
+      const failedWorkspaceIds = await workspaceEnvironmentService.syncGroup(groupId);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'group_env_removed',
+        resource: `group:${groupId}`,
+        details: { name, failedWorkspaceIds },
+        success: true,
+      });
+
+      logger.info(`Group environment variable ${name} removed: ${groupId} by user ${user.id}`);
+      res.status(204).send();
+    } catch (error) {
+      logger.error('Failed to remove group environment variable:', error);
+      throw error;
+    }
+  }
+);
+
+// Delete group (admin only). It goes to the trash until it is restored or
+// purged; its workspaces must be in the trash already.
+router.delete('/:groupId',
+  validateParams(commonSchemas.id),
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { groupId } = req.params;
       
-      // Delete from database
-      await dynamodbService.deleteGroup(groupId);
+      const group = await dynamodbService.getGroup(groupId);
+      if (!group) {
+        throw new NotFoundError('Group not found');
+      }
+
+      const trashed = await trashService.trashGroup(group, req.user!.id);
+
+      await dynamodbService.createAuditLog({
+        userId: req.user!.id,
+        username: req.user!.username,
+        action: 'group_trashed',
+        resource: `group:${groupId}`,
+        details: { namespace: group.namespace, purgeAt: trashed.trash?.purgeAt },
+        success: true,
+      });
       
-      logger.info(`Group deleted: ${groupId}`);
-      res.status(204).send();
+      logger.info(`Group moved to the trash: ${groupId}`);
+      res.json(trashed);
     } catch (error) {
       logger.error('Failed to delete group:', error);
       throw error;
@@ -231,6 +458,38 @@ router.delete('/:groupId',
   }
 );
 
+// Take a group out of the trash (admin only)
+router.post('/:groupId/restore',
+  validateParams(commonSchemas.id),
+  requireAdmin,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { groupId } = req.params;
+
+      const group = await dynamodbService.getGroup(groupId);
+      if (!group) {
+        throw new NotFoundError('Group not found');
+      }
+
+      const restored = await trashService.restoreGroup(group);
+
+      await dynamodbService.createAuditLog({
+        userId: req.user!.id,
+        username: req.user!.username,
+        action: 'group_restored',
+        resource: `group:${groupId}`,
+        details: { deletedAt: group.trash?.deletedAt, deletedBy: group.trash?.deletedBy },
+        success: true,
+      });
+
+      res.json(restored);
+    } catch (error) {
+      logger.error('Failed to restore group:', error);
+      throw error;
+    }
+  }
+);
+
 // Get group members
 router.get('/:groupId/members',
   validateParams(commonSchemas.id),
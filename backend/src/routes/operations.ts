@@ -0,0 +1,41 @@
+import { Router, Response } from 'express';
+import { authenticate, isGroupAdmin } from '../middleware/auth';
+import { validateParams, commonSchemas } from '../middleware/validation';
+import { AuthenticatedRequest } from '../types';
+import { dynamodbService } from '../services/dynamodbService';
+import { operationService } from '../services/operationService';
+import { logger } from '../config/logger';
+import { NotFoundError } from '../utils/errors';
+
+const router = Router();
+
+// All operation routes require authentication
+router.use(authenticate);
+
+// Get operation progress
+router.get('/:operationId',
+  validateParams(commonSchemas.operationId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { operationId } = req.params;
+
+      const operation = await dynamodbService.getOperation(operationId);
+      if (!operation) {
+        throw new NotFoundError('Operation not found');
+      }
+
+      // Visible to whoever started it, admins of the group and platform admins
+      if (operation.userId !== user.id && !isGroupAdmin(user, operation.groupId) && !user.isAdmin) {
+        throw new NotFoundError('Operation not found');
+      }
+
+      res.json(operationService.toResponse(operation));
+    } catch (error) {
+      logger.error('Failed to get operation:', error);
+      throw error;
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,143 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { validate, validateQuery, validateParams, commonSchemas } from '../middleware/validation';
+import { scimService, SCIM_SCHEMAS } from '../services/scimService';
+import { logger } from '../config/logger';
+import { AppError, AuthenticationError, NotFoundError, NotImplementedError } from '../utils/errors';
+
+const router = Router();
+
+const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+function send(res: Response, status: number, body: unknown): void {
+  res.status(status).type(SCIM_CONTENT_TYPE).json(body);
+}
+
+// SCIM clients authenticate with the dedicated SCIM_TOKEN, not with user tokens
+router.use((req: Request, res: Response, next: NextFunction) => {
+  if (!scimService.isEnabled()) {
+    throw new NotFoundError('SCIM provisioning is not enabled');
+  }
+
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ') || !scimService.isAuthorized(authHeader.slice(7))) {
+    throw new AuthenticationError('Invalid SCIM token');
+  }
+  next();
+});
+
+router.get('/ServiceProviderConfig', (req: Request, res: Response) => {
+  send(res, 200, scimService.serviceProviderConfig());
+});
+
+// Users
+router.get('/Users',
+  validateQuery(commonSchemas.scimListQuery),
+  async (req: Request, res: Response) => {
+    const { filter, startIndex, count } = req.query as any;
+    send(res, 200, await scimService.listUsers({ filter, startIndex, count }));
+  }
+);
+
+router.post('/Users',
+  validate(commonSchemas.scimUser),
+  async (req: Request, res: Response) => {
+    send(res, 201, await scimService.createUser(req.body));
+  }
+);
+
+router.get('/Users/:id',
+  validateParams(commonSchemas.id),
+  async (req: Request, res: Response) => {
+    send(res, 200, await scimService.getUser(req.params.id));
+  }
+);
+
+router.put('/Users/:id',
+  validateParams(commonSchemas.id),
+  validate(commonSchemas.scimUser),
+  async (req: Request, res: Response) => {
+    send(res, 200, await scimService.replaceUser(req.params.id, req.body));
+  }
+);
+
+router.patch('/Users/:id',
+  validateParams(commonSchemas.id),
+  validate(commonSchemas.scimPatch),
+  async (req: Request, res: Response) => {
+    send(res, 200, await scimService.patchUser(req.params.id, req.body.Operations));
+  }
+);
+
+router.delete('/Users/:id',
+  validateParams(commonSchemas.id),
+  async (req: Request, res: Response) => {
+    await scimService.deleteUser(req.params.id);
+    res.status(204).send();
+  }
+);
+
+// Groups; members are left out when the client excludes them, as listing them is expensive
+const includeMembers = (req: Request) =>
+  !String(req.query.excludedAttributes || '').split(',').map(attribute => attribute.trim()).includes('members');
+
+router.get('/Groups',
+  validateQuery(commonSchemas.scimListQuery),
+  async (req: Request, res: Response) => {
+    const { filter, startIndex, count } = req.query as any;
+    send(res, 200, await scimService.listGroups({ filter, startIndex, count }, includeMembers(req)));
+  }
+);
+
+router.post('/Groups', () => {
+  throw new NotImplementedError('Groups are created in the platform; link to them by displayName');
+});
+
+router.get('/Groups/:id',
+  validateParams(commonSchemas.id),
+  validateQuery(commonSchemas.scimListQuery),
+  async (req: Request, res: Response) => {
+    send(res, 200, await scimService.getGroup(req.params.id, includeMembers(req)));
+  }
+);
+
+router.put('/Groups/:id',
+  validateParams(commonSchemas.id),
+  validate(commonSchemas.scimGroup),
+  async (req: Request, res: Response) => {
+    send(res, 200, await scimService.replaceGroup(req.params.id, req.body));
+  }
+);
+
+router.patch('/Groups/:id',
+  validateParams(commonSchemas.id),
+  validate(commonSchemas.scimPatch),
+  async (req: Request, res: Response) => {
+    send(res, 200, await scimService.patchGroup(req.params.id, req.body.Operations));
+  }
+);
+
+router.delete('/Groups/:id', () => {
+  throw new NotImplementedError('Groups are deleted in the platform');
+});
+
+// Errors in the SCIM error format (RFC 7644, section 3.12)
+router.use((err: Error, req: Request, res: Response, next: NextFunction) => {
+  const status = err instanceof AppError ? err.statusCode : 500;
+  if (status >= 500) {
+    logger.error(`SCIM ${req.method} ${req.path} failed:`, err);
+  }
+
+  const details = err instanceof AppError ? err.details : undefined;
+  const fields: Array<{ message: string }> = details?.fields || [];
+
+  send(res, status, {
+    schemas: [SCIM_SCHEMAS.error],
+    status: String(status),
+    scimType: details?.scimType ?? (fields.length > 0 ? 'invalidValue' : undefined),
+    detail: err instanceof AppError
+      ? err.message + (fields.length > 0 ? `: ${fields.map(field => field.message).join('; ')}` : '')
+      : 'Internal server error',
+  });
+});
+
+export default router;
@@ -0,0 +1,194 @@
+import { Router, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { authenticate, isGroupAdmin } from '../middleware/auth';
+import { validate, validateQuery, validateParams, commonSchemas } from '../middleware/validation';
+import { AuthenticatedRequest, User, WorkspaceTemplate } from '../types';
+import { dynamodbService } from '../services/dynamodbService';
+import { templateService } from '../services/templateService';
+import { logger } from '../config/logger';
+import { AuthorizationError, NotFoundError } from '../utils/errors';
+
+const router = Router();
+
+// All template routes require authentication
+router.use(authenticate);
+
+// Platform-wide templates belong to admins, group templates to the group's admins
+function canManageTemplate(user: User, groupId?: string | null): boolean {
+  if (user.isAdmin) {
+    return true;
+  }
+  return !!groupId && isGroupAdmin(user, groupId);
+}
+
+function canViewTemplate(user: User, template: WorkspaceTemplate): boolean {
+  return !template.groupId || user.isAdmin || user.groups.includes(template.groupId);
+}
+
+// List templates
+router.get('/',
+  validateQuery(commonSchemas.templateQuery),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { groupId } = req.query as { groupId?: string };
+
+      if (groupId) {
+        // What a new workspace in this group can be created from
+        if (!user.groups.includes(groupId) && !user.isAdmin) {
+          throw new NotFoundError('Group not found');
+        }
+        const group = await dynamodbService.getGroup(groupId);
+        if (!group) {
+          throw new NotFoundError('Group not found');
+        }
+        res.json(await templateService.listForGroup(group));
+        return;
+      }
+
+      res.json(await templateService.listVisible(user.isAdmin ? null : user.groups));
+    } catch (error) {
+      logger.error('Failed to list templates:', error);
+      throw error;
+    }
+  }
+);
+
+// Get template
+router.get('/:templateId',
+  validateParams(commonSchemas.templateId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const template = await templateService.get(req.params.templateId);
+
+      if (!canViewTemplate(user, template)) {
+        throw new NotFoundError('Template not found');
+      }
+
+      res.json(template);
+    } catch (error) {
+      logger.error('Failed to get template:', error);
+      throw error;
+    }
+  }
+);
+
+// Create template (admin, or group admin for group templates)
+router.post('/',
+  validate(commonSchemas.createTemplate),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { groupId, ...fields } = req.body;
+
+      if (!canManageTemplate(user, groupId)) {
+        throw new AuthorizationError(groupId
+          ? 'Group admin access required to create templates for this group'
+          : 'Admin access required to create platform-wide templates');
+      }
+
+      if (groupId && !(await dynamodbService.getGroup(groupId))) {
+        throw new NotFoundError('Group not found');
+      }
+
+      const template = await dynamodbService.createTemplate({
+        id: `tpl_${uuidv4().replace(/-/g, '')}`,
+        ...fields,
+        groupId: groupId || null,
+        createdBy: user.id,
+      });
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'template_created',
+        resource: `template:${template.id}`,
+        details: { name: template.name, groupId: template.groupId, image: template.image },
+        success: true,
+      });
+
+      logger.info(`Template ${template.id} created by user ${user.id}`);
+      res.status(201).json(template);
+    } catch (error) {
+      logger.error('Failed to create template:', error);
+      throw error;
+    }
+  }
+);
+
+// Update template
+router.patch('/:templateId',
+  validateParams(commonSchemas.templateId),
+  validate(commonSchemas.updateTemplate),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { templateId } = req.params;
+
+      const template = await templateService.get(templateId);
+      if (!canViewTemplate(user, template)) {
+        throw new NotFoundError('Template not found');
+      }
+      if (!canManageTemplate(user, template.groupId)) {
+        throw new AuthorizationError('Insufficient permissions to modify this template');
+      }
+
+      // Existing workspaces keep what they were created with
+      const updatedTemplate = await dynamodbService.updateTemplate(templateId, req.body);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'template_updated',
+        resource: `template:${templateId}`,
+        details: { updates: Object.keys(req.body) },
+        success: true,
+      });
+
+      logger.info(`Template ${templateId} updated by user ${user.id}`);
+      res.json(updatedTemplate);
+    } catch (error) {
+      logger.error('Failed to update template:', error);
+      throw error;
+    }
+  }
+);
+
+// Delete template
+router.delete('/:templateId',
+  validateParams(commonSchemas.templateId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { templateId } = req.params;
+
+      const template = await templateService.get(templateId);
+      if (!canViewTemplate(user, template)) {
+        throw new NotFoundError('Template not found');
+      }
+      if (!canManageTemplate(user, template.groupId)) {
+        throw new AuthorizationError('Insufficient permissions to delete this template');
+      }
+
+      await dynamodbService.deleteTemplate(templateId);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'template_deleted',
+        resource: `template:${templateId}`,
+        details: { name: template.name, groupId: template.groupId },
+        success: true,
+      });
+
+      logger.info(`Template ${templateId} deleted by user ${user.id}`);
+      res.status(204).send();
+    } catch (error) {
+      logger.error('Failed to delete template:', error);
+      throw error;
+    }
+  }
+);
+
+export default router;
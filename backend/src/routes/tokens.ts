@@ -0,0 +1,83 @@
+import { Router, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import { validate, validateParams, commonSchemas } from '../middleware/validation';
+import { AuthenticatedRequest, CreatePersonalAccessTokenRequest } from '../types';
+import { dynamodbService } from '../services/dynamodbService';
+import { personalAccessTokenService } from '../services/personalAccessTokenService';
+import { logger } from '../config/logger';
+
+const router = Router();
+
+// All token routes require authentication. Personal access tokens themselves
+// are refused here, so a leaked token cannot mint new ones
+router.use(authenticate);
+
+// List the caller's personal access tokens
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await personalAccessTokenService.list(req.user!.id));
+  } catch (error) {
+    logger.error('Failed to list personal access tokens:', error);
+    throw error;
+  }
+});
+
+// Create a personal access token; the secret is only in this response
+router.post('/',
+  validate(commonSchemas.createPersonalAccessToken),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { token, personalAccessToken } = await personalAccessTokenService.create(
+        user,
+        req.body as CreatePersonalAccessTokenRequest
+      );
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'personal_access_token_created',
+        resource: `user:${user.id}`,
+        details: {
+          tokenId: personalAccessToken.id,
+          tokenName: personalAccessToken.name,
+          scopes: personalAccessToken.scopes,
+          expiresAt: personalAccessToken.expiresAt,
+        },
+        success: true,
+      });
+
+      res.status(201).json({ ...personalAccessToken, token });
+    } catch (error) {
+      logger.error('Failed to create personal access token:', error);
+      throw error;
+    }
+  }
+);
+
+// Revoke a personal access token
+router.delete('/:tokenId',
+  validateParams(commonSchemas.tokenId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const personalAccessToken = await personalAccessTokenService.revoke(user.id, req.params.tokenId);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'personal_access_token_revoked',
+        resource: `user:${user.id}`,
+        details: { tokenId: personalAccessToken.id, tokenName: personalAccessToken.name },
+        success: true,
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      logger.error('Failed to revoke personal access token:', error);
+      throw error;
+    }
+  }
+);
+
+export default router;
@@ -1,18 +1,36 @@
-import { Router, Response } from 'express';
+import express, { Router, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { randomBytes } from 'crypto';
 import { authenticate, requireGroupMembership, requireGroupAdmin, isGroupAdmin } from '../middleware/auth';
 import { validate, validateQuery, validateParams, commonSchemas } from '../middleware/validation';
 import { workspaceRateLimit, operationRateLimits } from '../middleware/rateLimiting';
-import { AuthenticatedRequest, WorkspaceStatus, Workspace, CreateWorkspaceRequest, WorkspaceActionRequest, ResourceTier } from '../types';
+import { AuthenticatedRequest, User, WorkspaceStatus, Workspace, CreateWorkspaceRequest, CloneWorkspaceRequest, WorkspaceActionRequest, WorkspaceSchedule, WorkspaceSnapshotPolicy, WorkspaceResources, ResourceTier, SetEnvironmentVariableRequest, CollaboratorRole, AddCollaboratorRequest, TransferWorkspaceRequest, MoveWorkspaceRequest, WorkspaceRepository, ArchiveWorkspaceRequest } from '../types';
 import { dynamodbService } from '../services/dynamodbService';
 import { kubernetesService } from '../services/kubernetesService';
+import { workspaceService, ResourceUpdateResult } from '../services/workspaceService';
+import { operationService } from '../services/operationService';
+import { workspaceEvents } from '../services/workspaceEvents';
+import { workspaceSnapshotService } from '../services/workspaceSnapshotService';
+import { templateService } from '../services/templateService';
+import { workspaceEnvironmentService } from '../services/workspaceEnvironmentService';
+import { workspaceAccessService } from '../services/workspaceAccessService';
+import { workspaceArchiveService } from '../services/workspaceArchiveService';
+import { trashService } from '../services/trashService';
+import { workspaceFileService } from '../services/workspaceFileService';
+import { execSessionService } from '../services/execSessionService';
+import { maxExpiresAt, resolveExpiresAt } from '../services/workspaceExpiryService';
+import { config } from '../config';
 import { logger } from '../config/logger';
 import { NotFoundError, ConflictError, ValidationError, AuthorizationError } from '../utils/errors';
 import { getResourcesForTier } from '../config/resourceTiers';
 
 const router = Router();
 
+// Secrets a workspace repository can be cloned with. Group admins opt each one
+// in with the label, so other Secrets in the namespace can't be mounted this way
+const GIT_CREDENTIALS_SECRET_TYPES = ['kubernetes.io/basic-auth', 'kubernetes.io/ssh-auth'];
+const GIT_CREDENTIALS_SECRET_LABEL = 'codex-platform/repository-credentials';
+
 // Helper function to generate a secure random password
 function generatePassword(length: number = 24): string {
   return randomBytes(length).toString('hex').substring(0, length);
@@ -36,6 +54,10 @@ router.get('/',
       const { groupId, status, limit, offset } = req.query as any;
       
       let workspaces: Workspace[];
+
+      // Workspaces shared with the user, and with which role
+      const collaborations = await dynamodbService.listUserCollaborations(user.id);
+      const sharedRoles = new Map(collaborations.map(collaboration => [collaboration.workspaceId, collaboration.role]));
       
       if (groupId) {
         // Verify user has access to this group
@@ -52,6 +74,14 @@ router.get('/',
           const groupWorkspaces = await dynamodbService.getGroupWorkspaces(groupId);
           workspaces = [...workspaces, ...groupWorkspaces];
         }
+
+        // And the ones shared with the user
+        for (const collaboration of collaborations) {
+          const sharedWorkspace = await dynamodbService.getWorkspace(collaboration.workspaceId);
+          if (sharedWorkspace) {
+            workspaces.push(sharedWorkspace);
+          }
+        }
         
         // Remove duplicates
         const uniqueWorkspaces = workspaces.reduce((acc, workspace) => {
@@ -64,6 +94,9 @@ router.get('/',
         workspaces = uniqueWorkspaces;
       }
       
+      // Trashed workspaces are only listed by GET /trash
+      workspaces = workspaces.filter(ws => ws.status !== WorkspaceStatus.TRASHED);
+
       // Filter by status if provided
       if (status) {
         workspaces = workspaces.filter(ws => ws.status === status);
@@ -74,49 +107,11 @@ router.get('/',
       const endIndex = startIndex + (limit || 20);
       const paginatedWorkspaces = workspaces.slice(startIndex, endIndex);
       
-      // Update workspace statuses and metrics from Kubernetes
-      const updatedWorkspaces = await Promise.all(
-        paginatedWorkspaces.map(async (workspace) => {
-          try {
-            const namespace = await getWorkspaceNamespace(workspace);
-            if (!namespace) {
-              logger.warn(`No namespace found for workspace ${workspace.id}`);
-              return workspace;
-            }
-
-            const k8sName = `workspace-${workspace.id.substring(3)}`.toLowerCase();
-            const k8sStatus = await kubernetesService.getStatefulSetStatus(namespace, k8sName);
-
-            // Fetch metrics for running workspaces
-            let metrics: any = undefined;
-            if (k8sStatus === 'running') {
-              try {
-                metrics = await kubernetesService.getNamespaceMetrics(namespace);
-              } catch (metricsError) {
-                logger.warn(`Failed to get metrics for workspace ${workspace.id}:`, metricsError);
-                // Continue without metrics rather than failing the whole request
-              }
-            }
-
-            if (k8sStatus !== workspace.status) {
-              // Update status and metrics in database
-              const updatedWorkspace = await dynamodbService.updateWorkspace(workspace.id, {
-                status: k8sStatus,
-                ...(metrics && { usage: metrics })
-              });
-              return updatedWorkspace;
-            }
-
-            // Return workspace with fresh metrics even if status hasn't changed
-            return { ...workspace, ...(metrics && { usage: metrics }) };
-          } catch (error) {
-            logger.warn(`Failed to get K8s status for workspace ${workspace.id}:`, error);
-            return workspace;
-          }
-        })
-      );
-      
-      res.json(updatedWorkspaces);
+      // Status, replicas, image and usage are kept current by the workspace reconciler,
+      // so the list is served straight from DynamoDB
+      res.json(paginatedWorkspaces.map(workspace =>
+        workspaceAccessService.toResponse(workspace, workspaceAccessService.resolve(user, workspace, sharedRoles.get(workspace.id)))
+      ));
     } catch (error) {
       logger.error('Failed to list workspaces:', error);
       throw error;
@@ -124,6 +119,173 @@ router.get('/',
   }
 );
 
+// List trashed workspaces the caller can restore: their own and those of the
+// groups they administer, or one group's with ?groupId=
+router.get('/trash',
+  validateQuery(commonSchemas.trashQuery),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { groupId } = req.query as any;
+
+      let workspaces: Workspace[];
+      if (groupId) {
+        if (!isGroupAdmin(user, groupId)) {
+          throw new AuthorizationError('Insufficient permissions to view the trash of this group');
+        }
+        workspaces = await dynamodbService.getGroupWorkspaces(groupId);
+      } else {
+        workspaces = await dynamodbService.getUserWorkspaces(user.id);
+        for (const adminGroupId of user.groups.filter(id => isGroupAdmin(user, id))) {
+          workspaces = [...workspaces, ...await dynamodbService.getGroupWorkspaces(adminGroupId)];
+        }
+      }
+
+      const trashed = new Map<string, Workspace>();
+      for (const workspace of workspaces) {
+        if (workspace.status === WorkspaceStatus.TRASHED) {
+          trashed.set(workspace.id, workspace);
+        }
+      }
+
+      // Most recently deleted first
+      res.json([...trashed.values()]
+        .sort((a, b) => (b.trash?.deletedAt || '').localeCompare(a.trash?.deletedAt || ''))
+        .map(workspace => workspaceAccessService.toResponse(workspace, 'owner')));
+    } catch (error) {
+      logger.error('Failed to list trashed workspaces:', error);
+      throw error;
+    }
+  }
+);
+
+// The clone runs with the workspace, so its credentials have to live in the workspace's namespace
+async function checkRepositoryCredentials(repository: WorkspaceRepository | undefined, namespace: string): Promise<void> {
+  if (!repository?.credentialsSecret) {
+    return;
+  }
+
+  const secret = await kubernetesService.getSecretMetadata(namespace, repository.credentialsSecret);
+  if (!secret) {
+    throw new ValidationError(`Secret ${repository.credentialsSecret} not found in namespace ${namespace}`);
+  }
+  if (secret.labels[GIT_CREDENTIALS_SECRET_LABEL] !== 'true') {
+    throw new ValidationError(
+      `Secret ${repository.credentialsSecret} is not labeled ${GIT_CREDENTIALS_SECRET_LABEL}=true for use as repository credentials`
+    );
+  }
+  if (!GIT_CREDENTIALS_SECRET_TYPES.includes(secret.type)) {
+    throw new ValidationError(
+      `Secret ${repository.credentialsSecret} must be of type ${GIT_CREDENTIALS_SECRET_TYPES.join(' or ')}`
+    );
+  }
+}
+
+/**
+ * Record a new workspace as pending for the caller. Creating and cloning both
+ * come through here so they get the same group access, template and quota
+ * checks; the caller then starts the operation that provisions it.
+ *
+ * Anything set on `request` overrides the template's value. Without an expiry
+ * the workspace gets the longest lifetime its group allows.
+ */
+async function acceptWorkspaceCreate(
+  user: User,
+  request: Pick<Workspace, 'name' | 'description' | 'groupId' | 'templateId' | 'env' | 'extensions' | 'repository' | 'clonedFrom'> & {
+    image?: string;
+    resources?: WorkspaceResources;
+    expiresAt?: string;
+  }
+): Promise<{ workspace: Workspace; namespace: string }> {
+  // Verify user has access to the target group
+  if (!user.groups.includes(request.groupId) && !user.isAdmin) {
+    throw new NotFoundError('Group not found');
+  }
+
+  // Get group information
+  const group = await dynamodbService.getGroup(request.groupId);
+  if (!group || group.trash) {
+    throw new NotFoundError('Group not found');
+  }
+
+  const template = request.templateId ? await templateService.getForGroup(request.templateId, group) : null;
+  if (templateService.isRestricted(group)) {
+    if (!template) {
+      throw new ValidationError(`Workspaces in group ${group.displayName} must be created from one of its templates`);
+    }
+    if (request.image && request.image !== template.image) {
+      throw new ValidationError(`Workspaces in group ${group.displayName} must use their template's image`);
+    }
+  }
+
+  // Generate workspace ID and Kubernetes-compatible name
+  const workspaceId = `ws_${uuidv4().replace(/-/g, '')}`;
+  const k8sName = `workspace-${workspaceId.substring(3)}`.toLowerCase();
+  const namespace = group.namespace;
+
+  const resources = request.resources ||
+    (template && templateService.resolveResources(template)) ||
+    getResourcesForTier(ResourceTier.SMALL_TEAM);
+
+  // The volume is the only thing a stopped workspace holds on to, so make sure it fits;
+  // CPU and memory are checked against the quota when the workspace starts
+  const headroom = await kubernetesService.checkResourceQuotaHeadroom(namespace, {
+    storage: resources.storage,
+  }, { pods: 0 });
+  if (!headroom.fits) {
+    throw new ValidationError(`Workspace exceeds the group quota: ${headroom.reason}`);
+  }
+
+  // Generate secure password for code-server authentication
+  const password = generatePassword(24);
+
+  // Get default workspace image from system settings if not provided
+  let workspaceImage = request.image || template?.image;
+  if (!workspaceImage) {
+    try {
+      const settings = await dynamodbService.getSystemSettings();
+      workspaceImage = settings.defaultWorkspaceImage;
+    } catch (error) {
+      logger.warn('Failed to get system settings, using fallback default image:', error);
+      workspaceImage = 'ghcr.io/andrewhertog/code-server:0.0.1-alpha.2';
+    }
+  }
+
+  const description = request.description !== undefined ? request.description : template?.description;
+  const env = request.env || template?.env;
+  const extensions = request.extensions || template?.extensions;
+  const repository = request.repository || template?.repository;
+
+  await checkRepositoryCredentials(repository, namespace);
+
+  const expiresAt = resolveExpiresAt(request.expiresAt, group, new Date().toISOString());
+
+  // Record the workspace as pending; the operation moves it to STOPPED once its
+  // Kubernetes resources exist (StatefulSets are created with 0 replicas)
+  const workspace = await dynamodbService.createWorkspace({
+    id: workspaceId,
+    name: request.name,
+    description,
+    groupId: request.groupId,
+    groupName: group.displayName,
+    userId: user.id,
+    status: WorkspaceStatus.PENDING,
+    url: `https://preview.codexeditor.app/${namespace}/${k8sName}`,
+    password,
+    resources,
+    image: workspaceImage,
+    replicas: 0, // Start stopped
+    ...(template ? { templateId: template.id } : {}),
+    ...(env && Object.keys(env).length > 0 ? { env } : {}),
+    ...(extensions && extensions.length > 0 ? { extensions } : {}),
+    ...(repository ? { repository } : {}),
+    ...(request.clonedFrom ? { clonedFrom: request.clonedFrom } : {}),
+    ...(expiresAt ? { expiresAt } : {}),
+  });
+
+  return { workspace, namespace };
+}
+
 // Create workspace
 router.post('/',
   operationRateLimits.createWorkspace,
@@ -132,113 +294,29 @@ router.post('/',
     try {
       const user = req.user!;
       const createRequest: CreateWorkspaceRequest = req.body;
-      
-      // Verify user has access to the target group
-      if (!user.groups.includes(createRequest.groupId) && !user.isAdmin) {
-        throw new NotFoundError('Group not found');
-      }
-      
-      // Get group information
-      const group = await dynamodbService.getGroup(createRequest.groupId);
-      if (!group) {
-        throw new NotFoundError('Group not found');
-      }
-      
-      // Generate workspace ID and Kubernetes-compatible name
-      const workspaceId = `ws_${uuidv4().replace(/-/g, '')}`;
-      const k8sName = `workspace-${workspaceId.substring(3)}`.toLowerCase();
-      const namespace = group.namespace;
-
-      // Generate secure password for code-server authentication
-      const password = generatePassword(24);
-
-      // Determine resources based on tier or custom resources
-      let resources = createRequest.resources ||
-        (createRequest.tier ? getResourcesForTier(createRequest.tier) : getResourcesForTier(ResourceTier.SMALL_TEAM));
-
-      // Get default workspace image from system settings if not provided
-      let workspaceImage = createRequest.image;
-      if (!workspaceImage) {
-        try {
-          const settings = await dynamodbService.getSystemSettings();
-          workspaceImage = settings.defaultWorkspaceImage;
-        } catch (error) {
-          logger.warn('Failed to get system settings, using fallback default image:', error);
-          workspaceImage = 'ghcr.io/andrewhertog/code-server:0.0.1-alpha.2';
-        }
-      }
 
-      // Create workspace in database with STOPPED status since it will be created with 0 replicas
-      const workspace = await dynamodbService.createWorkspace({
-        id: workspaceId,
+      // Custom resources win over the tier, either of which wins over the template
+      const resources = createRequest.resources ||
+        (createRequest.tier ? getResourcesForTier(createRequest.tier) : undefined);
+
+      const { workspace, namespace } = await acceptWorkspaceCreate(user, {
         name: createRequest.name,
         description: createRequest.description,
         groupId: createRequest.groupId,
-        groupName: group.displayName,
-        userId: user.id,
-        status: WorkspaceStatus.STOPPED,
-        url: `https://preview.codexeditor.app/${namespace}/${k8sName}`,
-        password,
+        image: createRequest.image,
         resources,
-        image: workspaceImage,
-        replicas: 0, // Start stopped
+        templateId: createRequest.templateId,
+        repository: createRequest.repository,
+        expiresAt: createRequest.expiresAt,
       });
 
-      // Create Kubernetes resources
-      try {
-        // Ensure namespace exists (create if it doesn't)
-        const namespaceExists = await kubernetesService.namespaceExists(namespace);
-        if (!namespaceExists) {
-          logger.warn(`Namespace ${namespace} does not exist for group ${createRequest.groupId}, creating it now`);
-          await kubernetesService.createNamespace(namespace, {
-            'codex-platform/group-id': createRequest.groupId,
-            'codex-platform/group-name': group.name,
-          });
-
-          // Create resource quota for the namespace
-          if (group.resourceQuota) {
-            await kubernetesService.createResourceQuota(namespace, group.resourceQuota);
-          }
-        }
+      // Kubernetes resources are provisioned in the background
+      const operation = await operationService.startWorkspaceCreate(workspace, namespace);
 
-        // Create secret with code-server config
-        await kubernetesService.createCodeServerSecret(namespace, k8sName, password);
-
-        // Create StatefulSet with persistent storage (PVC created automatically via volumeClaimTemplates)
-        await kubernetesService.createStatefulSet(namespace, k8sName, workspace.image, resources);
-        await kubernetesService.createService(namespace, k8sName);
-
-        // Create nginx proxy infrastructure (Deployment, Service) - only once per namespace
-        await kubernetesService.createNginxProxyDeployment(namespace);
-        await kubernetesService.createNginxProxyService(namespace);
-
-        // Add this workspace to the nginx proxy ConfigMap and update HTTPRoute
-        await kubernetesService.addWorkspaceToNginxProxyConfig(namespace, k8sName);
-
-        // Create or update HTTPRoute for Gateway API (rebuilds from all workspaces in namespace)
-        const pathPrefix = `/${namespace}/${k8sName}`;
-        await kubernetesService.createOrUpdateHTTPRoute(namespace, pathPrefix);
-
-        logger.info(`Workspace created: ${workspaceId} for user ${user.id}`);
-        res.status(201).json(workspace);
-      } catch (k8sError) {
-        // Clean up any resources that were created before the failure
-        logger.error(`Workspace creation failed, cleaning up resources for ${workspaceId}:`, k8sError);
-        try {
-          await kubernetesService.deleteStatefulSet(namespace, k8sName);
-          await kubernetesService.deleteNamespacedService(k8sName, namespace);
-          await kubernetesService.deleteNamespacedSecret(`${k8sName}-config`, namespace);
-          await kubernetesService.deleteNamespacedConfigMap('code-server-nginx-config', namespace);
-          await kubernetesService.deleteDeployment(namespace, 'code-server-proxy');
-          await kubernetesService.deleteNamespacedService('code-server-proxy-service', namespace);
-          await kubernetesService.deleteHTTPRoute(namespace);
-        } catch (cleanupError) {
-          logger.warn(`Failed to clean up K8s resources during rollback for ${workspaceId}:`, cleanupError);
-        }
-        // Clean up database record
-        await dynamodbService.deleteWorkspace(workspaceId);
-        throw k8sError;
-      }
+      logger.info(`Workspace creation accepted: ${workspace.id} for user ${user.id} (operation ${operation.id})`);
+      res.status(202)
+        .location(`/api/operations/${operation.id}`)
+        .json(operationService.toResponse(operation));
     } catch (error) {
       logger.error('Failed to create workspace:', error);
       throw error;
@@ -260,35 +338,14 @@ router.get('/:workspaceId',
       }
       
       // Verify user has access
-      if (workspace.userId !== user.id && !user.groups.includes(workspace.groupId) && !user.isAdmin) {
+      const access = await workspaceAccessService.require(user, workspace, CollaboratorRole.VIEWER, 'view this workspace');
+
+      // Only those who could restore a trashed workspace still see it
+      if (workspace.status === WorkspaceStatus.TRASHED && access !== 'owner') {
         throw new NotFoundError('Workspace not found');
       }
       
-      // Get current status from Kubernetes
-      try {
-        const namespace = await getWorkspaceNamespace(workspace);
-        if (!namespace) {
-          logger.warn(`No namespace found for workspace ${workspaceId}`);
-          return res.json(workspace);
-        }
-
-        const k8sName = `workspace-${workspaceId.substring(3)}`.toLowerCase();
-        const k8sStatus = await kubernetesService.getStatefulSetStatus(namespace, k8sName);
-        const metrics = await kubernetesService.getNamespaceMetrics(namespace);
-
-        if (k8sStatus !== workspace.status) {
-          const updatedWorkspace = await dynamodbService.updateWorkspace(workspaceId, {
-            status: k8sStatus,
-            usage: metrics,
-          });
-          res.json(updatedWorkspace);
-        } else {
-          res.json({ ...workspace, usage: metrics });
-        }
-      } catch (error) {
-        logger.warn(`Failed to get K8s status for workspace ${workspaceId}:`, error);
-        res.json(workspace);
-      }
+      res.json(workspaceAccessService.toResponse(workspace, access));
     } catch (error) {
       logger.error('Failed to get workspace:', error);
       throw error;
@@ -310,21 +367,74 @@ router.patch('/:workspaceId',
         throw new NotFoundError('Workspace not found');
       }
 
-      // Verify user has permission to update:
-      // - Owner can update their own workspace
-      // - Group admins can update any workspace in their group
-      // - Platform admins can update any workspace
-      const isOwner = workspace.userId === user.id;
-      const isGroupAdminForWorkspace = isGroupAdmin(user, workspace.groupId);
+      const access = await workspaceAccessService.require(user, workspace, 'owner', 'update this workspace');
 
-      if (!isOwner && !isGroupAdminForWorkspace && !user.isAdmin) {
-        throw new AuthorizationError('Insufficient permissions to update this workspace');
+      // Idle timeout overrides must stay within the bound set by the group
+      const { idleTimeoutMinutes } = req.body;
+      if (idleTimeoutMinutes !== undefined && idleTimeoutMinutes !== null) {
+        const group = await dynamodbService.getGroup(workspace.groupId);
+        const maxIdleTimeoutMinutes = group?.maxIdleTimeoutMinutes;
+        if (maxIdleTimeoutMinutes && (idleTimeoutMinutes === 0 || idleTimeoutMinutes > maxIdleTimeoutMinutes)) {
+          throw new ValidationError(`Idle timeout must be between 1 and ${maxIdleTimeoutMinutes} minutes for this group`);
+        }
       }
       
-      const updatedWorkspace = await dynamodbService.updateWorkspace(workspaceId, req.body);
+      // Resources are applied to Kubernetes before they are recorded
+      const { resources, tier, ...updates } = req.body;
+
+      // A new expiry must stay within the group's max lifetime, and earns a new warning
+      if (updates.expiresAt !== undefined) {
+        const group = await dynamodbService.getGroup(workspace.groupId);
+        updates.expiresAt = resolveExpiresAt(updates.expiresAt, group, workspace.createdAt);
+        updates.expiryWarnedAt = null;
+      }
+
+      // Resources go first: when the quota, storage or status checks refuse
+      // them, none of the other fields have been saved either
+      let updatedWorkspace = workspace;
+      let resourceUpdate: ResourceUpdateResult | undefined;
+      if (resources || tier) {
+        const requested = { ...(tier ? getResourcesForTier(tier) : {}), ...resources };
+        resourceUpdate = await workspaceService.updateResources(workspace, requested);
+        updatedWorkspace = resourceUpdate.workspace;
+
+        if (resourceUpdate.changed.length > 0) {
+          await dynamodbService.createAuditLog({
+            userId: user.id,
+            username: user.username,
+            action: 'workspace_resources_updated',
+            resource: `workspace:${workspaceId}`,
+            details: {
+              from: workspace.resources,
+              to: resourceUpdate.workspace.resources,
+              tier,
+              restarting: resourceUpdate.restarting,
+              restartRequired: resourceUpdate.restartRequired,
+            },
+            success: true,
+          });
+        }
+      }
+
+      if (Object.keys(updates).length > 0) {
+        updatedWorkspace = await dynamodbService.updateWorkspace(workspaceId, updates);
+      }
+
+      if (resourceUpdate) {
+        logger.info(`Workspace updated: ${workspaceId} by user ${user.id}`);
+        res.json({
+          ...workspaceAccessService.toResponse(updatedWorkspace, access),
+          resourceUpdate: {
+            changed: resourceUpdate.changed,
+            restarting: resourceUpdate.restarting,
+            restartRequired: resourceUpdate.restartRequired,
+          },
+        });
+        return;
+      }
       
       logger.info(`Workspace updated: ${workspaceId} by user ${user.id}`);
-      res.json(updatedWorkspace);
+      res.json(workspaceAccessService.toResponse(updatedWorkspace, access));
     } catch (error) {
       logger.error('Failed to update workspace:', error);
       throw error;
@@ -332,7 +442,8 @@ router.patch('/:workspaceId',
   }
 );
 
-// Delete workspace
+// Delete workspace: it goes to the trash, scaled down with its volume kept,
+// until it is restored or purged
 router.delete('/:workspaceId',
   operationRateLimits.deleteWorkspace,
   validateParams(commonSchemas.workspaceId),
@@ -346,51 +457,21 @@ router.delete('/:workspaceId',
         throw new NotFoundError('Workspace not found');
       }
 
-      // Verify user has permission to delete:
-      // - Owner can delete their own workspace
-      // - Group admins can delete any workspace in their group
-      // - Platform admins can delete any workspace
-      const isOwner = workspace.userId === user.id;
-      const isGroupAdminForWorkspace = isGroupAdmin(user, workspace.groupId);
+      const access = await workspaceAccessService.require(user, workspace, 'owner', 'delete this workspace');
 
-      if (!isOwner && !isGroupAdminForWorkspace && !user.isAdmin) {
-        throw new AuthorizationError('Insufficient permissions to delete this workspace');
-      }
-
-      const k8sName = `workspace-${workspaceId.substring(3)}`.toLowerCase();
-
-      // Delete Kubernetes resources
-      const namespace = await getWorkspaceNamespace(workspace);
-      if (namespace) {
-        try {
-          await kubernetesService.deleteStatefulSet(namespace, k8sName);
-          await kubernetesService.deleteNamespacedService(k8sName, namespace);
-          await kubernetesService.deleteNamespacedSecret(`${k8sName}-config`, namespace);
-
-          // Delete PVC created by StatefulSet volumeClaimTemplates
-          // StatefulSet volumeClaimTemplates create PVCs with naming pattern: <volumeName>-<statefulSetName>-<ordinal>
-          await kubernetesService.deleteNamespacedPVC(`workspace-storage-${k8sName}-0`, namespace);
-
-          // Remove this workspace from the nginx proxy ConfigMap
-          await kubernetesService.removeWorkspaceFromNginxProxyConfig(namespace, k8sName);
-
-          // Note: We don't delete the shared nginx proxy resources (Deployment, Service, HTTPRoute)
-          // as they are shared across all workspaces in the namespace.
-
-          logger.info(`Kubernetes resources deleted for workspace ${workspaceId} in namespace ${namespace}`);
-        } catch (k8sError) {
-          logger.error(`Failed to delete K8s resources for workspace ${workspaceId}:`, k8sError);
-          // Continue with database deletion even if K8s deletion fails
-        }
-      } else {
-        logger.warn(`Group ${workspace.groupId} not found for workspace ${workspaceId}, skipping K8s cleanup`);
-      }
+      const trashed = await trashService.trashWorkspace(workspace, user.id);
 
-      // Delete from database
-      await dynamodbService.deleteWorkspace(workspaceId);
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_trashed',
+        resource: `workspace:${workspaceId}`,
+        details: { workspaceName: workspace.name, purgeAt: trashed.trash?.purgeAt },
+        success: true,
+      });
 
-      logger.info(`Workspace deleted: ${workspaceId} by user ${user.id}`);
-      res.status(204).send();
+      logger.info(`Workspace ${workspaceId} moved to the trash by user ${user.id}`);
+      res.json(workspaceAccessService.toResponse(trashed, access));
     } catch (error) {
       logger.error('Failed to delete workspace:', error);
       throw error;
@@ -414,86 +495,59 @@ router.post('/:workspaceId/actions',
         throw new NotFoundError('Workspace not found');
       }
 
-      // Verify user has permission to control workspace:
-      // - Owner can control their own workspace
-      // - Group admins can control any workspace in their group
-      // - Platform admins can control any workspace
-      const isOwner = workspace.userId === user.id;
-      const isGroupAdminForWorkspace = isGroupAdmin(user, workspace.groupId);
+      // Operators and above may start, stop and restart
+      const access = await workspaceAccessService.require(user, workspace, CollaboratorRole.OPERATOR, 'control this workspace');
 
-      if (!isOwner && !isGroupAdminForWorkspace && !user.isAdmin) {
-        throw new AuthorizationError('Insufficient permissions to control this workspace');
-      }
+      const updatedWorkspace = await workspaceService.performAction(workspace, type);
 
-      const namespace = await getWorkspaceNamespace(workspace);
-      if (!namespace) {
-        throw new NotFoundError('Workspace namespace not found');
-      }
+      logger.info(`Workspace action ${type} performed on ${workspaceId} by user ${user.id}`);
+      res.json(workspaceAccessService.toResponse(updatedWorkspace, access));
+    } catch (error) {
+      logger.error('Failed to perform workspace action:', error);
+      throw error;
+    }
+  }
+);
 
-      const k8sName = `workspace-${workspaceId.substring(3)}`.toLowerCase();
+// Set workspace start/stop schedule
+router.put('/:workspaceId/schedule',
+  validateParams(commonSchemas.workspaceId),
+  validate(commonSchemas.workspaceSchedule),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+      const schedule: WorkspaceSchedule = req.body;
 
-      let newStatus: WorkspaceStatus;
-      let replicas: number;
-      
-      switch (type) {
-        case 'start':
-          if (workspace.status === WorkspaceStatus.RUNNING) {
-            throw new ConflictError('Workspace is already running');
-          }
-          newStatus = WorkspaceStatus.STARTING;
-          replicas = 1;
-          break;
-          
-        case 'stop':
-          if (workspace.status === WorkspaceStatus.STOPPED) {
-            throw new ConflictError('Workspace is already stopped');
-          }
-          newStatus = WorkspaceStatus.STOPPING;
-          replicas = 0;
-          break;
-          
-        case 'restart':
-          newStatus = WorkspaceStatus.STARTING;
-          replicas = 1;
-          break;
-          
-        default:
-          throw new ValidationError('Invalid action type');
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
       }
-      
-      // Update status in database
-      await dynamodbService.updateWorkspace(workspaceId, {
-        status: newStatus,
-        replicas,
-        lastAccessedAt: new Date().toISOString(),
-      });
 
-      // Scale StatefulSet in Kubernetes
-      await kubernetesService.scaleStatefulSet(namespace, k8sName, replicas);
+      const access = await workspaceAccessService.require(user, workspace, 'owner', 'schedule this workspace');
 
-      // Wait a moment and check final status
-      setTimeout(async () => {
-        try {
-          const finalStatus = await kubernetesService.getStatefulSetStatus(namespace, k8sName);
-          await dynamodbService.updateWorkspace(workspaceId, { status: finalStatus });
-        } catch (error) {
-          logger.warn(`Failed to update final status for workspace ${workspaceId}:`, error);
-        }
-      }, 5000);
-      
-      const updatedWorkspace = await dynamodbService.getWorkspace(workspaceId);
-      
-      logger.info(`Workspace action ${type} performed on ${workspaceId} by user ${user.id}`);
-      res.json(updatedWorkspace);
+      const updatedWorkspace = await dynamodbService.updateWorkspace(workspaceId, { schedule });
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_schedule_updated',
+        resource: `workspace:${workspaceId}`,
+        details: { schedule },
+        success: true,
+      });
+
+      logger.info(`Workspace schedule updated: ${workspaceId} by user ${user.id}`);
+      res.json(workspaceAccessService.toResponse(updatedWorkspace, access));
     } catch (error) {
-      logger.error('Failed to perform workspace action:', error);
+      logger.error('Failed to update workspace schedule:', error);
       throw error;
     }
   }
 );
 
-// Sync workspace from Kubernetes
-router.post('/:workspaceId/sync',
+// Remove workspace start/stop schedule
+router.delete('/:workspaceId/schedule',
   validateParams(commonSchemas.workspaceId),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -505,152 +559,1218 @@ router.post('/:workspaceId/sync',
         throw new NotFoundError('Workspace not found');
       }
 
-      // Verify user has access
-      if (workspace.userId !== user.id && !user.groups.includes(workspace.groupId) && !user.isAdmin) {
-        throw new NotFoundError('Workspace not found');
-      }
+      const access = await workspaceAccessService.require(user, workspace, 'owner', 'schedule this workspace');
 
-      const namespace = await getWorkspaceNamespace(workspace);
-      if (!namespace) {
-        throw new NotFoundError('Workspace namespace not found');
+      const updatedWorkspace = await dynamodbService.updateWorkspace(workspaceId, { schedule: null });
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_schedule_removed',
+        resource: `workspace:${workspaceId}`,
+        success: true,
+      });
+
+      logger.info(`Workspace schedule removed: ${workspaceId} by user ${user.id}`);
+      res.json(workspaceAccessService.toResponse(updatedWorkspace, access));
+    } catch (error) {
+      logger.error('Failed to remove workspace schedule:', error);
+      throw error;
+    }
+  }
+);
+
+// Clone workspace
+router.post('/:workspaceId/clone',
+  operationRateLimits.createWorkspace,
+  validateParams(commonSchemas.workspaceId),
+  validate(commonSchemas.cloneWorkspace),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+      const cloneRequest: CloneWorkspaceRequest = req.body;
+
+      const source = await dynamodbService.getWorkspace(workspaceId);
+      if (!source) {
+        throw new NotFoundError('Workspace not found');
       }
 
-      const k8sName = `workspace-${workspaceId.substring(3)}`.toLowerCase();
+      // Anyone who can see a workspace may copy its configuration
+      const access = await workspaceAccessService.require(user, source, CollaboratorRole.VIEWER, 'view this workspace');
 
-      logger.info(`Starting sync for workspace ${workspaceId} in namespace ${namespace} with k8s name ${k8sName}`);
+      const groupId = cloneRequest.groupId || source.groupId;
 
-      // Get current state from Kubernetes
-      const k8sStatus = await kubernetesService.getStatefulSetStatus(namespace, k8sName);
-      logger.info(`Got K8s status for ${workspaceId}: ${k8sStatus}`);
+      if (cloneRequest.copyVolume) {
+        // Copying the files needs the same rights as snapshotting the source
+        if (!workspaceAccessService.allows(access, 'owner')) {
+          throw new AuthorizationError('Insufficient permissions to copy the storage of this workspace');
+        }
 
-      const k8sDetails = await kubernetesService.getStatefulSetDetails(namespace, k8sName);
-      logger.info(`Got K8s details for ${workspaceId}:`, k8sDetails);
+        // Volume snapshots can only be restored within their own namespace
+        if (groupId !== source.groupId) {
+          throw new ValidationError('Storage can only be copied into a workspace in the same group');
+        }
 
-      // Update workspace with K8s state
-      const updates: Partial<Workspace> = {
-        status: k8sStatus,
-      };
+        if (source.status === WorkspaceStatus.PENDING || source.status === WorkspaceStatus.DELETING) {
+          throw new ConflictError(`Workspace is ${source.status}`);
+        }
 
-      if (k8sDetails) {
-        updates.image = k8sDetails.image;
-        updates.replicas = k8sDetails.replicas;
-        logger.info(`Will update image to: ${k8sDetails.image}, replicas to: ${k8sDetails.replicas}`);
+        // Fail now rather than rolling back the clone when its first step can't snapshot anything
+        const sourceNamespace = await workspaceService.getNamespace(source);
+        const sourcePvc = `workspace-storage-${workspaceService.getK8sName(source.id)}-0`;
+        if (!sourceNamespace || !(await kubernetesService.getPVCStorage(sourcePvc, sourceNamespace))) {
+          throw new ConflictError('Workspace has no storage to copy yet; start it at least once first');
+        }
       }
 
-      // Try to get metrics, but don't fail if it errors
-      try {
-        const metrics = await kubernetesService.getNamespaceMetrics(namespace);
-        updates.usage = metrics;
-      } catch (metricsError) {
-        logger.warn(`Failed to get metrics for workspace ${workspaceId}, continuing without metrics:`, metricsError);
-      }
+      const { workspace, namespace } = await acceptWorkspaceCreate(user, {
+        name: cloneRequest.name,
+        description: source.description,
+        groupId,
+        image: source.image,
+        resources: source.resources,
+        templateId: source.templateId,
+        env: source.env,
+        extensions: source.extensions,
+        repository: source.repository,
+        clonedFrom: source.id,
+      });
 
-      logger.info(`Updating workspace ${workspaceId} with:`, updates);
-      const updatedWorkspace = await dynamodbService.updateWorkspace(workspaceId, updates);
+      const operation = cloneRequest.copyVolume
+        ? await operationService.startWorkspaceClone(workspace, namespace, source)
+        : await operationService.startWorkspaceCreate(workspace, namespace);
 
-      logger.info(`Workspace synced from K8s: ${workspaceId} by user ${user.id}. Updated fields:`, Object.keys(updates));
-      res.json(updatedWorkspace);
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_cloned',
+        resource: `workspace:${workspace.id}`,
+        details: {
+          sourceWorkspaceId: source.id,
+          groupId,
+          copyVolume: !!cloneRequest.copyVolume,
+          operationId: operation.id,
+        },
+        success: true,
+      });
+
+      logger.info(`Clone of workspace ${source.id} accepted as ${workspace.id} for user ${user.id} (operation ${operation.id})`);
+      res.status(202)
+        .location(`/api/operations/${operation.id}`)
+        .json(operationService.toResponse(operation));
     } catch (error) {
-      logger.error('Failed to sync workspace from K8s:', error);
+      logger.error('Failed to clone workspace:', error);
       throw error;
     }
   }
 );
 
-// Get workspace metrics
-router.get('/:workspaceId/metrics',
+// List volume snapshots
+router.get('/:workspaceId/snapshots',
   validateParams(commonSchemas.workspaceId),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const user = req.user!;
       const { workspaceId } = req.params;
-      
+
       const workspace = await dynamodbService.getWorkspace(workspaceId);
       if (!workspace) {
         throw new NotFoundError('Workspace not found');
       }
-      
-      // Verify user has access
-      if (workspace.userId !== user.id && !user.groups.includes(workspace.groupId) && !user.isAdmin) {
-        throw new NotFoundError('Workspace not found');
-      }
-
-      const namespace = await getWorkspaceNamespace(workspace);
-      if (!namespace) {
-        throw new NotFoundError('Workspace namespace not found');
-      }
 
-      const metrics = await kubernetesService.getNamespaceMetrics(namespace);
+      // Verify user has access
+      await workspaceAccessService.require(user, workspace, CollaboratorRole.VIEWER, 'view this workspace');
 
-      res.json(metrics);
+      const snapshots = await workspaceSnapshotService.list(workspace);
+      res.json(snapshots);
     } catch (error) {
-      logger.error('Failed to get workspace metrics:', error);
+      logger.error('Failed to list workspace snapshots:', error);
       throw error;
     }
   }
 );
 
-// Get workspace logs
-router.get('/:workspaceId/logs',
+// Take a volume snapshot
+router.post('/:workspaceId/snapshots',
   validateParams(commonSchemas.workspaceId),
-  validateQuery(commonSchemas.workspaceLogsQuery),
+  validate(commonSchemas.createWorkspaceSnapshot),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const user = req.user!;
       const { workspaceId } = req.params;
-      const { lines } = req.query as any;
+      const { description } = req.body;
 
       const workspace = await dynamodbService.getWorkspace(workspaceId);
       if (!workspace) {
         throw new NotFoundError('Workspace not found');
       }
 
-      // Verify user has access
-      if (workspace.userId !== user.id && !user.groups.includes(workspace.groupId) && !user.isAdmin) {
-        throw new NotFoundError('Workspace not found');
-      }
+      await workspaceAccessService.require(user, workspace, 'owner', 'snapshot this workspace');
 
-      const namespace = await getWorkspaceNamespace(workspace);
-      if (!namespace) {
-        throw new NotFoundError('Workspace namespace not found');
+      if (workspace.status === WorkspaceStatus.PENDING || workspace.status === WorkspaceStatus.DELETING) {
+        throw new ConflictError(`Workspace is ${workspace.status}`);
       }
 
-      const k8sName = `workspace-${workspaceId.substring(3)}`.toLowerCase();
-
-      // Get pod name for the workspace
-      const pods = await kubernetesService.listPods(namespace, `app=${k8sName}`);
-      if (pods.length === 0) {
-        return res.type('text/plain').send('No pods found for workspace');
-      }
+      const snapshot = await workspaceSnapshotService.create(workspace, {
+        description,
+        createdBy: user.id,
+      });
 
-      const logs = await kubernetesService.getPodLogs(namespace, pods[0].name, lines || 100);
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_snapshot_created',
+        resource: `workspace:${workspaceId}`,
+        details: { snapshot: snapshot.name, description },
+        success: true,
+      });
 
-      res.type('text/plain').send(logs);
+      logger.info(`Snapshot ${snapshot.name} created for workspace ${workspaceId} by user ${user.id}`);
+      res.status(201).json(snapshot);
     } catch (error) {
-      logger.error('Failed to get workspace logs:', error);
+      logger.error('Failed to create workspace snapshot:', error);
       throw error;
     }
   }
 );
 
-// Get workspace component health
-router.get('/:workspaceId/health',
-  validateParams(commonSchemas.workspaceId),
+// Delete a volume snapshot
+router.delete('/:workspaceId/snapshots/:snapshotName',
+  validateParams(commonSchemas.workspaceSnapshot),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const user = req.user!;
-      const { workspaceId } = req.params;
+      const { workspaceId, snapshotName } = req.params;
 
       const workspace = await dynamodbService.getWorkspace(workspaceId);
       if (!workspace) {
         throw new NotFoundError('Workspace not found');
       }
 
-      // Verify user has access
-      if (workspace.userId !== user.id && !user.groups.includes(workspace.groupId) && !user.isAdmin) {
-        throw new NotFoundError('Workspace not found');
+      await workspaceAccessService.require(user, workspace, 'owner', 'delete snapshots of this workspace');
+
+      if (workspace.archive?.snapshotName === snapshotName) {
+        throw new ConflictError('The workspace is archived in this snapshot; unarchive it first');
       }
 
+      await workspaceSnapshotService.delete(workspace, snapshotName);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_snapshot_deleted',
+        resource: `workspace:${workspaceId}`,
+        details: { snapshot: snapshotName },
+        success: true,
+      });
+
+      logger.info(`Snapshot ${snapshotName} of workspace ${workspaceId} deleted by user ${user.id}`);
+      res.status(204).send();
+    } catch (error) {
+      logger.error('Failed to delete workspace snapshot:', error);
+      throw error;
+    }
+  }
+);
+
+// Restore the workspace volume from a snapshot
+router.post('/:workspaceId/snapshots/:snapshotName/restore',
+  validateParams(commonSchemas.workspaceSnapshot),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId, snapshotName } = req.params;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      await workspaceAccessService.require(user, workspace, 'owner', 'restore this workspace');
+
+      // The current volume is replaced, so nothing may be using it
+      if (workspace.status !== WorkspaceStatus.STOPPED && workspace.status !== WorkspaceStatus.ERROR) {
+        throw new ConflictError('Stop the workspace before restoring a snapshot');
+      }
+
+      const snapshot = await workspaceSnapshotService.get(workspace, snapshotName);
+      if (!snapshot.readyToUse) {
+        throw new ConflictError('Snapshot is not ready to use yet');
+      }
+
+      const namespace = await getWorkspaceNamespace(workspace);
+      if (!namespace) {
+        throw new NotFoundError('Workspace namespace not found');
+      }
+
+      const pendingWorkspace = await dynamodbService.updateWorkspace(workspaceId, {
+        status: WorkspaceStatus.PENDING,
+      });
+      workspaceEvents.publishStatus(pendingWorkspace);
+
+      const operation = await operationService.startWorkspaceRestore(workspace, namespace, snapshotName);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_snapshot_restored',
+        resource: `workspace:${workspaceId}`,
+        details: { snapshot: snapshotName, operationId: operation.id },
+        success: true,
+      });
+
+      logger.info(`Restore of workspace ${workspaceId} from ${snapshotName} accepted (operation ${operation.id})`);
+      res.status(202)
+        .location(`/api/operations/${operation.id}`)
+        .json(operationService.toResponse(operation));
+    } catch (error) {
+      logger.error('Failed to restore workspace snapshot:', error);
+      throw error;
+    }
+  }
+);
+
+// Set scheduled snapshot policy
+router.put('/:workspaceId/snapshot-policy',
+  validateParams(commonSchemas.workspaceId),
+  validate(commonSchemas.workspaceSnapshotPolicy),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+      const snapshotPolicy: WorkspaceSnapshotPolicy = req.body;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      const access = await workspaceAccessService.require(user, workspace, 'owner', 'snapshot this workspace');
+
+      const updatedWorkspace = await dynamodbService.updateWorkspace(workspaceId, { snapshotPolicy });
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_snapshot_policy_updated',
+        resource: `workspace:${workspaceId}`,
+        details: { snapshotPolicy },
+        success: true,
+      });
+
+      logger.info(`Workspace snapshot policy updated: ${workspaceId} by user ${user.id}`);
+      res.json(workspaceAccessService.toResponse(updatedWorkspace, access));
+    } catch (error) {
+      logger.error('Failed to update workspace snapshot policy:', error);
+      throw error;
+    }
+  }
+);
+
+// Remove scheduled snapshot policy (existing snapshots are kept)
+router.delete('/:workspaceId/snapshot-policy',
+  validateParams(commonSchemas.workspaceId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      const access = await workspaceAccessService.require(user, workspace, 'owner', 'snapshot this workspace');
+
+      const updatedWorkspace = await dynamodbService.updateWorkspace(workspaceId, { snapshotPolicy: null });
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_snapshot_policy_removed',
+        resource: `workspace:${workspaceId}`,
+        success: true,
+      });
+
+      logger.info(`Workspace snapshot policy removed: ${workspaceId} by user ${user.id}`);
+      res.json(workspaceAccessService.toResponse(updatedWorkspace, access));
+    } catch (error) {
+      logger.error('Failed to remove workspace snapshot policy:', error);
+      throw error;
+    }
+  }
+);
+
+// List workspace environment variables, with the group's for reference. Secret values are never returned.
+router.get('/:workspaceId/environment',
+  validateParams(commonSchemas.workspaceId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      await workspaceAccessService.require(user, workspace, 'owner', 'view this workspace\'s environment');
+
+      const [variables, groupVariables] = await Promise.all([
+        workspaceEnvironmentService.list('workspace', workspaceId),
+        workspaceEnvironmentService.list('group', workspace.groupId),
+      ]);
+
+      res.json({ variables, groupVariables });
+    } catch (error) {
+      logger.error('Failed to list workspace environment:', error);
+      throw error;
+    }
+  }
+);
+
+// Set a workspace environment variable; a running workspace restarts to pick it up
+router.put('/:workspaceId/environment/:name',
+  validateParams(commonSchemas.workspaceEnvironmentVariable),
+  validate(commonSchemas.setEnvironmentVariable),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId, name } = req.params;
+      const { value, secret }: SetEnvironmentVariableRequest = req.body;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      await workspaceAccessService.require(user, workspace, 'owner', 'change this workspace\'s environment');
+
+      const variable = await workspaceEnvironmentService.set('workspace', workspaceId, name, value, !!secret, user.id);
+      await workspaceEnvironmentService.sync(workspace);
+
+      // Never log the value itself
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_env_updated',
+        resource: `workspace:${workspaceId}`,
+        details: { name, secret: variable.secret },
+        success: true,
+      });
+
+      logger.info(`Workspace environment variable ${name} set: ${workspaceId} by user ${user.id}`);
+      res.json(variable);
+    } catch (error) {
+      logger.error('Failed to set workspace environment variable:', error);
+      throw error;
+    }
+  }
+);
+
+// Remove a workspace environment variable
+router.delete('/:workspaceId/environment/:name',
+  validateParams(commonSchemas.workspaceEnvironmentVariable),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId, name } = req.params;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      await workspaceAccessService.require(user, workspace, 'owner', 'change this workspace\'s environment');
+
+      await workspaceEnvironmentService.remove('workspace', workspaceId, name);
+      await workspaceEnvironmentService.sync(workspace);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_env_removed',
+        resource: `workspace:${workspaceId}`,
+        details: { name },
+        success: true,
+      });
+
+      logger.info(`Workspace environment variable ${name} removed: ${workspaceId} by user ${user.id}`);
+      res.status(204).send();
+    } catch (error) {
+      logger.error('Failed to remove workspace environment variable:', error);
+      throw error;
+    }
+  }
+);
+
+// List the users the workspace is shared with
+router.get('/:workspaceId/collaborators',
+  validateParams(commonSchemas.workspaceId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      // Verify user has access
+      await workspaceAccessService.require(user, workspace, CollaboratorRole.VIEWER, 'view this workspace');
+
+      const collaborators = await workspaceAccessService.listCollaborators(workspaceId);
+      res.json(collaborators);
+    } catch (error) {
+      logger.error('Failed to list workspace collaborators:', error);
+      throw error;
+    }
+  }
+);
+
+// Share the workspace with a user, or change the role of one it's already shared with
+router.post('/:workspaceId/collaborators',
+  validateParams(commonSchemas.workspaceId),
+  validate(commonSchemas.addCollaborator),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+      const { email, role }: AddCollaboratorRequest = req.body;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      await workspaceAccessService.require(user, workspace, 'owner', 'share this workspace');
+
+      const collaborator = await workspaceAccessService.addCollaborator(workspace, email, role, user.id);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_collaborator_added',
+        resource: `workspace:${workspaceId}`,
+        details: { collaboratorId: collaborator.userId, email: collaborator.email, role },
+        success: true,
+      });
+
+      logger.info(`Workspace ${workspaceId} shared with ${collaborator.userId} as ${role} by user ${user.id}`);
+      res.status(201).json(collaborator);
+    } catch (error) {
+      logger.error('Failed to add workspace collaborator:', error);
+      throw error;
+    }
+  }
+);
+
+// Change a collaborator's role
+router.put('/:workspaceId/collaborators/:userId',
+  validateParams(commonSchemas.workspaceCollaborator),
+  validate(commonSchemas.updateCollaborator),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId, userId } = req.params;
+      const { role }: { role: CollaboratorRole } = req.body;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      await workspaceAccessService.require(user, workspace, 'owner', 'share this workspace');
+
+      const collaborator = await workspaceAccessService.updateCollaborator(workspaceId, userId, role);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_collaborator_updated',
+        resource: `workspace:${workspaceId}`,
+        details: { collaboratorId: userId, email: collaborator.email, role },
+        success: true,
+      });
+
+      logger.info(`Workspace ${workspaceId} collaborator ${userId} changed to ${role} by user ${user.id}`);
+      res.json(collaborator);
+    } catch (error) {
+      logger.error('Failed to update workspace collaborator:', error);
+      throw error;
+    }
+  }
+);
+
+// Stop sharing the workspace with a user. Collaborators may remove themselves.
+router.delete('/:workspaceId/collaborators/:userId',
+  validateParams(commonSchemas.workspaceCollaborator),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId, userId } = req.params;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      if (userId !== user.id) {
+        await workspaceAccessService.require(user, workspace, 'owner', 'share this workspace');
+      }
+
+      await workspaceAccessService.removeCollaborator(workspaceId, userId);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_collaborator_removed',
+        resource: `workspace:${workspaceId}`,
+        details: { collaboratorId: userId },
+        success: true,
+      });
+
+      logger.info(`Workspace ${workspaceId} collaborator ${userId} removed by user ${user.id}`);
+      res.status(204).send();
+    } catch (error) {
+      logger.error('Failed to remove workspace collaborator:', error);
+      throw error;
+    }
+  }
+);
+
+// Hand the workspace to another member of its group
+router.post('/:workspaceId/transfer',
+  validateParams(commonSchemas.workspaceId),
+  validate(commonSchemas.transferWorkspace),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+      const { email }: TransferWorkspaceRequest = req.body;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      await workspaceAccessService.require(user, workspace, 'owner', 'transfer this workspace');
+
+      const transferred = await workspaceAccessService.transferOwnership(workspace, email);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_transferred',
+        resource: `workspace:${workspaceId}`,
+        details: { previousOwnerId: workspace.userId, newOwnerId: transferred.userId, email },
+        success: true,
+      });
+
+      logger.info(`Workspace ${workspaceId} transferred from ${workspace.userId} to ${transferred.userId} by user ${user.id}`);
+      // The caller may no longer be able to see the workspace
+      res.status(204).send();
+    } catch (error) {
+      logger.error('Failed to transfer workspace:', error);
+      throw error;
+    }
+  }
+);
+
+// Move the workspace, its files included, into another group
+router.post('/:workspaceId/move',
+  validateParams(commonSchemas.workspaceId),
+  validate(commonSchemas.moveWorkspace),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+      const { groupId }: MoveWorkspaceRequest = req.body;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      await workspaceAccessService.require(user, workspace, 'owner', 'move this workspace');
+
+      if (groupId === workspace.groupId) {
+        throw new ValidationError('Workspace is already in this group');
+      }
+
+      // Same rules as creating a workspace in the target group
+      if (!user.groups.includes(groupId) && !user.isAdmin) {
+        throw new NotFoundError('Group not found');
+      }
+      const group = await dynamodbService.getGroup(groupId);
+      if (!group || group.trash) {
+        throw new NotFoundError('Group not found');
+      }
+
+      // The StatefulSet and its volume are handed over, so nothing may be using them
+      if (workspace.status !== WorkspaceStatus.STOPPED && workspace.status !== WorkspaceStatus.ERROR) {
+        throw new ConflictError('Stop the workspace before moving it');
+      }
+
+      if (templateService.isRestricted(group)) {
+        if (!workspace.templateId) {
+          throw new ValidationError(`Workspaces in group ${group.displayName} must be created from one of its templates`);
+        }
+        await templateService.getForGroup(workspace.templateId, group);
+      }
+
+      await checkRepositoryCredentials(workspace.repository, group.namespace);
+
+      const maxExpiry = maxExpiresAt(group, workspace.createdAt);
+      if (maxExpiry && (!workspace.expiresAt || new Date(workspace.expiresAt) > maxExpiry)) {
+        throw new ValidationError(
+          `Workspaces in group ${group.displayName} must expire by ${maxExpiry.toISOString()}; set an earlier expiry before moving`
+        );
+      }
+
+      const headroom = await kubernetesService.checkResourceQuotaHeadroom(group.namespace, {
+        storage: workspace.resources.storage,
+      }, { pods: 0 });
+      if (!headroom.fits) {
+        throw new ValidationError(`Workspace exceeds the group quota: ${headroom.reason}`);
+      }
+
+      const namespace = await getWorkspaceNamespace(workspace);
+      if (!namespace) {
+        throw new NotFoundError('Workspace namespace not found');
+      }
+
+      // Workspaces that were never started have no volume yet
+      const volumeName = await kubernetesService.getPVCVolumeName(
+        `workspace-storage-${workspaceService.getK8sName(workspace.id)}-0`,
+        namespace
+      );
+
+      const pendingWorkspace = await dynamodbService.updateWorkspace(workspaceId, {
+        status: WorkspaceStatus.PENDING,
+      });
+      workspaceEvents.publishStatus(pendingWorkspace);
+
+      const operation = await operationService.startWorkspaceMove(workspace, namespace, group, volumeName);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_moved',
+        resource: `workspace:${workspaceId}`,
+        details: { fromGroupId: workspace.groupId, toGroupId: group.id, operationId: operation.id },
+        success: true,
+      });
+
+      logger.info(`Move of workspace ${workspaceId} to group ${group.id} accepted (operation ${operation.id})`);
+      res.status(202)
+        .location(`/api/operations/${operation.id}`)
+        .json(operationService.toResponse(operation));
+    } catch (error) {
+      logger.error('Failed to move workspace:', error);
+      throw error;
+    }
+  }
+);
+
+// Archive a stopped workspace down to its volume, or a snapshot of it
+router.post('/:workspaceId/archive',
+  validateParams(commonSchemas.workspaceId),
+  validate(commonSchemas.archiveWorkspace),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+      const { mode }: ArchiveWorkspaceRequest = req.body;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      await workspaceAccessService.require(user, workspace, 'owner', 'archive this workspace');
+
+      const operation = await workspaceArchiveService.archive(workspace, mode, user.id);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_archived',
+        resource: `workspace:${workspaceId}`,
+        details: { mode, operationId: operation.id },
+        success: true,
+      });
+
+      logger.info(`Archive of workspace ${workspaceId} (${mode}) accepted (operation ${operation.id})`);
+      res.status(202)
+        .location(`/api/operations/${operation.id}`)
+        .json(operationService.toResponse(operation));
+    } catch (error) {
+      logger.error('Failed to archive workspace:', error);
+      throw error;
+    }
+  }
+);
+
+// Provision an archived workspace again; it comes back stopped
+router.post('/:workspaceId/unarchive',
+  validateParams(commonSchemas.workspaceId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      await workspaceAccessService.require(user, workspace, 'owner', 'unarchive this workspace');
+
+      const operation = await workspaceArchiveService.unarchive(workspace);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_unarchived',
+        resource: `workspace:${workspaceId}`,
+        details: { mode: workspace.archive?.mode, operationId: operation.id },
+        success: true,
+      });
+
+      logger.info(`Unarchive of workspace ${workspaceId} accepted (operation ${operation.id})`);
+      res.status(202)
+        .location(`/api/operations/${operation.id}`)
+        .json(operationService.toResponse(operation));
+    } catch (error) {
+      logger.error('Failed to unarchive workspace:', error);
+      throw error;
+    }
+  }
+);
+
+// Take a workspace out of the trash
+router.post('/:workspaceId/restore',
+  validateParams(commonSchemas.workspaceId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      const access = await workspaceAccessService.require(user, workspace, 'owner', 'restore this workspace');
+
+      const restored = await trashService.restoreWorkspace(workspace);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_restored',
+        resource: `workspace:${workspaceId}`,
+        details: { deletedAt: workspace.trash?.deletedAt, deletedBy: workspace.trash?.deletedBy },
+        success: true,
+      });
+
+      res.json(workspaceAccessService.toResponse(restored, access));
+    } catch (error) {
+      logger.error('Failed to restore workspace:', error);
+      throw error;
+    }
+  }
+);
+
+// Delete a trashed workspace for good without waiting for the retention period
+router.post('/:workspaceId/purge',
+  operationRateLimits.deleteWorkspace,
+  validateParams(commonSchemas.workspaceId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      await workspaceAccessService.require(user, workspace, 'owner', 'delete this workspace');
+
+      // Kubernetes resources and the workspace record are removed in the background
+      const operation = await trashService.purgeWorkspace(workspace);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_purged',
+        resource: `workspace:${workspaceId}`,
+        details: { workspaceName: workspace.name, operationId: operation.id },
+        success: true,
+      });
+
+      logger.info(`Workspace purge accepted: ${workspaceId} by user ${user.id} (operation ${operation.id})`);
+      res.status(202)
+        .location(`/api/operations/${operation.id}`)
+        .json(operationService.toResponse(operation));
+    } catch (error) {
+      logger.error('Failed to purge workspace:', error);
+      throw error;
+    }
+  }
+);
+
+// List a directory of the workspace's project volume
+router.get('/:workspaceId/files',
+  validateParams(commonSchemas.workspaceId),
+  validateQuery(commonSchemas.workspaceFilesQuery),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      // The files are the workspace's code, so the same rights as opening it
+      await workspaceAccessService.require(user, workspace, CollaboratorRole.EDITOR, 'access the files of this workspace');
+
+      res.json(await workspaceFileService.list(workspace, req.query.path as string));
+    } catch (error) {
+      logger.error('Failed to list workspace files:', error);
+      throw error;
+    }
+  }
+);
+
+// Download a file, or a file or directory as a tar.gz or zip archive
+router.get('/:workspaceId/files/download',
+  validateParams(commonSchemas.workspaceId),
+  validateQuery(commonSchemas.workspaceFileDownloadQuery),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+      const { path, format } = req.query as { path: string; format?: 'tar' | 'zip' };
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      await workspaceAccessService.require(user, workspace, CollaboratorRole.EDITOR, 'access the files of this workspace');
+
+      const download = await workspaceFileService.download(workspace, path, format);
+
+      res.attachment(download.filename);
+      res.type(download.contentType);
+      if (!download.format) {
+        res.setHeader('Content-Length', download.size);
+      }
+
+      // Stop the command in the pod if the client goes away
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          download.cancel();
+        }
+      });
+
+      // The response is only completed once the command has exited cleanly, so a
+      // failure part way through shows up as a broken download
+      download.stream.pipe(res, { end: false });
+      const exitCode = await download.exitCode;
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_file_downloaded',
+        resource: `workspace:${workspaceId}`,
+        details: { path: workspaceFileService.normalizePath(path), format: download.format, size: download.size },
+        success: exitCode === 0,
+        ...(exitCode !== 0 ? { error: `Exited with code ${exitCode}` } : {}),
+      });
+
+      if (exitCode === 0) {
+        res.end();
+      } else {
+        logger.error(`Download of ${path} from workspace ${workspaceId} failed with exit code ${exitCode}`);
+        res.destroy();
+      }
+    } catch (error) {
+      logger.error('Failed to download workspace files:', error);
+      throw error;
+    }
+  }
+);
+
+// Upload a file into the project volume; the request body is the file content
+router.put('/:workspaceId/files',
+  validateParams(commonSchemas.workspaceId),
+  validateQuery(commonSchemas.workspaceFileUploadQuery),
+  express.raw({ type: () => true, limit: config.fileUploadMaxBytes }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+      const { path, overwrite } = req.query as unknown as { path: string; overwrite: boolean };
+
+      // JSON and form bodies have already been parsed by the app-wide parsers
+      if (req.is('application/json') || req.is('application/x-www-form-urlencoded')) {
+        throw new ValidationError('Send the file content as application/octet-stream');
+      }
+      const content: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      await workspaceAccessService.require(user, workspace, CollaboratorRole.EDITOR, 'access the files of this workspace');
+
+      try {
+        const written = await workspaceFileService.upload(workspace, path, content, overwrite);
+
+        await dynamodbService.createAuditLog({
+          userId: user.id,
+          username: user.username,
+          action: 'workspace_file_uploaded',
+          resource: `workspace:${workspaceId}`,
+          details: { path: written, size: content.length, overwrite },
+          success: true,
+        });
+
+        logger.info(`File ${written} uploaded to workspace ${workspaceId} by user ${user.id}`);
+        res.status(201).json({ path: written, size: content.length });
+      } catch (error) {
+        await dynamodbService.createAuditLog({
+          userId: user.id,
+          username: user.username,
+          action: 'workspace_file_uploaded',
+          resource: `workspace:${workspaceId}`,
+          details: { path, size: content.length, overwrite },
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        throw error;
+      }
+    } catch (error) {
+      logger.error('Failed to upload workspace file:', error);
+      throw error;
+    }
+  }
+);
+
+// The caller's open terminal sessions, attached or waiting to be reattached
+router.get('/:workspaceId/exec-sessions',
+  validateParams(commonSchemas.workspaceId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      await workspaceAccessService.requireTerminal(user, workspace);
+
+      res.json(execSessionService.list(user.id, workspaceId));
+    } catch (error) {
+      logger.error('Failed to list terminal sessions:', error);
+      throw error;
+    }
+  }
+);
+
+// End one of the caller's terminal sessions and its shell
+router.delete('/:workspaceId/exec-sessions/:sessionId',
+  validateParams(commonSchemas.workspaceExecSession),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId, sessionId } = req.params;
+
+      await execSessionService.terminate(user.id, workspaceId, sessionId);
+
+      res.status(204).send();
+    } catch (error) {
+      logger.error('Failed to end terminal session:', error);
+      throw error;
+    }
+  }
+);
+
+// Sync workspace from Kubernetes
+router.post('/:workspaceId/sync',
+  validateParams(commonSchemas.workspaceId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      // Verify user has access
+      const access = await workspaceAccessService.require(user, workspace, CollaboratorRole.VIEWER, 'view this workspace');
+
+      // Provisioning and deletion operations own the status until they finish
+      if (workspace.status === WorkspaceStatus.PENDING || workspace.status === WorkspaceStatus.DELETING) {
+        throw new ConflictError(`Workspace is ${workspace.status}`);
+      }
+      // A trashed workspace has no running StatefulSet; syncing would take it out of the trash
+      if (workspace.status === WorkspaceStatus.TRASHED) {
+        throw new ConflictError('Restore the workspace from the trash first');
+      }
+      // Archived workspaces have no StatefulSet left; syncing would mark them stopped
+      if (workspace.status === WorkspaceStatus.ARCHIVED) {
+        throw new ConflictError('Unarchive the workspace first');
+      }
+
+      const namespace = await getWorkspaceNamespace(workspace);
+      if (!namespace) {
+        throw new NotFoundError('Workspace namespace not found');
+      }
+
+      const k8sName = `workspace-${workspaceId.substring(3)}`.toLowerCase();
+
+      logger.info(`Starting sync for workspace ${workspaceId} in namespace ${namespace} with k8s name ${k8sName}`);
+
+      // Get current state from Kubernetes
+      const k8sStatus = await kubernetesService.getStatefulSetStatus(namespace, k8sName);
+      logger.info(`Got K8s status for ${workspaceId}: ${k8sStatus}`);
+
+      const k8sDetails = await kubernetesService.getStatefulSetDetails(namespace, k8sName);
+      logger.info(`Got K8s details for ${workspaceId}:`, k8sDetails);
+
+      // Update workspace with K8s state
+      const updates: Partial<Workspace> = {
+        status: k8sStatus,
+      };
+
+      if (k8sDetails) {
+        updates.image = k8sDetails.image;
+        updates.replicas = k8sDetails.replicas;
+        logger.info(`Will update image to: ${k8sDetails.image}, replicas to: ${k8sDetails.replicas}`);
+      }
+
+      // Try to get metrics, but don't fail if it errors
+      try {
+        const metrics = await kubernetesService.getNamespaceMetrics(namespace);
+        updates.usage = metrics;
+      } catch (metricsError) {
+        logger.warn(`Failed to get metrics for workspace ${workspaceId}, continuing without metrics:`, metricsError);
+      }
+
+      logger.info(`Updating workspace ${workspaceId} with:`, updates);
+      const updatedWorkspace = await dynamodbService.updateWorkspace(workspaceId, updates);
+
+      logger.info(`Workspace synced from K8s: ${workspaceId} by user ${user.id}. Updated fields:`, Object.keys(updates));
+      res.json(workspaceAccessService.toResponse(updatedWorkspace, access));
+    } catch (error) {
+      logger.error('Failed to sync workspace from K8s:', error);
+      throw error;
+    }
+  }
+);
+
+// Get workspace metrics
+router.get('/:workspaceId/metrics',
+  validateParams(commonSchemas.workspaceId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+      
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+      
+      // Verify user has access
+      await workspaceAccessService.require(user, workspace, CollaboratorRole.VIEWER, 'view this workspace');
+
+      const namespace = await getWorkspaceNamespace(workspace);
+      if (!namespace) {
+        throw new NotFoundError('Workspace namespace not found');
+      }
+
+      const metrics = await kubernetesService.getNamespaceMetrics(namespace);
+
+      res.json(metrics);
+    } catch (error) {
+      logger.error('Failed to get workspace metrics:', error);
+      throw error;
+    }
+  }
+);
+
+// Get workspace logs
+router.get('/:workspaceId/logs',
+  validateParams(commonSchemas.workspaceId),
+  validateQuery(commonSchemas.workspaceLogsQuery),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+      const { lines } = req.query as any;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      // Verify user has access
+      await workspaceAccessService.require(user, workspace, CollaboratorRole.VIEWER, 'view this workspace');
+
+      const namespace = await getWorkspaceNamespace(workspace);
+      if (!namespace) {
+        throw new NotFoundError('Workspace namespace not found');
+      }
+
+      const k8sName = `workspace-${workspaceId.substring(3)}`.toLowerCase();
+
+      // Get pod name for the workspace
+      const pods = await kubernetesService.listPods(namespace, `app=${k8sName}`);
+      if (pods.length === 0) {
+        return res.type('text/plain').send('No pods found for workspace');
+      }
+
+      const logs = await kubernetesService.getPodLogs(namespace, pods[0].name, lines || 100);
+
+      res.type('text/plain').send(logs);
+    } catch (error) {
+      logger.error('Failed to get workspace logs:', error);
+      throw error;
+    }
+  }
+);
+
+// Get workspace component health
+router.get('/:workspaceId/health',
+  validateParams(commonSchemas.workspaceId),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const user = req.user!;
+      const { workspaceId } = req.params;
+
+      const workspace = await dynamodbService.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new NotFoundError('Workspace not found');
+      }
+
+      // Verify user has access
+      await workspaceAccessService.require(user, workspace, CollaboratorRole.VIEWER, 'view this workspace');
+
       const namespace = await getWorkspaceNamespace(workspace);
       if (!namespace) {
         throw new NotFoundError('Workspace namespace not found');
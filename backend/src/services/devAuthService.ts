@@ -0,0 +1,185 @@
+import * as jose from 'jose';
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { Group, GroupRole, JwtPayload, User } from '../types';
+import { AuthenticationError, AuthorizationError, NotFoundError } from '../utils/errors';
+import { dynamodbService } from './dynamodbService';
+import { kubernetesService } from './kubernetesService';
+import { userService } from './userService';
+
+// iss and aud of platform-signed development tokens
+const DEV_TOKEN_ISSUER = 'codex-platform-dev';
+const DEV_TOKEN_AUDIENCE = 'codex-platform';
+
+export interface DevUser {
+  email: string;
+  name: string;
+  description: string; // Shown on the login page
+  isAdmin: boolean;
+  groupRole?: GroupRole; // Role in the development group
+}
+
+// Covers each kind of user the UI behaves differently for
+export const DEV_USERS: DevUser[] = [
+  { email: 'admin@dev.local', name: 'Dev Admin', description: 'Platform admin', isAdmin: true },
+  { email: 'group-admin@dev.local', name: 'Dev Group Admin', description: 'Admin of the Development group', isAdmin: false, groupRole: GroupRole.ADMIN },
+  { email: 'developer@dev.local', name: 'Dev Developer', description: 'Member of the Development group', isAdmin: false, groupRole: GroupRole.MEMBER },
+  { email: 'outsider@dev.local', name: 'Dev Outsider', description: 'No group memberships', isAdmin: false },
+];
+
+const DEV_GROUP_ID = 'grp_dev';
+
+/**
+ * Sign-in without Cognito or Google for local development and tests: the API
+ * issues HS256 tokens signed with JWT_SECRET for a fixed set of seeded users.
+ * Enabled with DEV_AUTH_ENABLED=true and always refused in production.
+ */
+class DevAuthService {
+  isEnabled(): boolean {
+    return config.devAuthEnabled && !config.isProduction;
+  }
+
+  // Cheap check on the unverified claims, to route a token to verify()
+  isDevToken(token: string): boolean {
+    try {
+      return jose.decodeJwt(token).iss === DEV_TOKEN_ISSUER;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  listUsers(): DevUser[] {
+    this.assertEnabled();
+    return DEV_USERS;
+  }
+
+  /**
+   * Create the development group and users, or bring existing ones back to
+   * their seeded roles. The group's namespace is created when a cluster is reachable.
+   */
+  async seed(): Promise<void> {
+    this.assertEnabled();
+
+    const { group, created } = await this.seedGroup();
+
+    for (const devUser of DEV_USERS) {
+      let user = await dynamodbService.getUserByEmail(devUser.email);
+      if (!user) {
+        user = await dynamodbService.createUser({
+          id: `usr_dev_${devUser.email.split('@')[0].replace(/-/g, '_')}`,
+          username: devUser.email.split('@')[0],
+          name: devUser.name,
+          email: devUser.email,
+          groups: [],
+          isAdmin: devUser.isAdmin,
+        });
+      } else if (user.isAdmin !== devUser.isAdmin) {
+        user = await dynamodbService.updateUser(user.id, { isAdmin: devUser.isAdmin });
+      }
+
+      if (devUser.groupRole) {
+        await userService.addUserToGroup(user.id, group.id, devUser.groupRole);
+      }
+    }
+
+    if (created) {
+      await dynamodbService.updateGroup(group.id, { memberCount: DEV_USERS.filter(user => user.groupRole).length });
+    }
+
+    logger.info('Development users seeded:', { users: DEV_USERS.map(user => user.email), groupId: group.id });
+  }
+
+  /**
+   * Issue a token for one of the seeded users
+   */
+  async login(email: string): Promise<{ token: string; expiresIn: number; user: User }> {
+    this.assertEnabled();
+
+    const devUser = DEV_USERS.find(candidate => candidate.email === email.toLowerCase());
+    const user = devUser ? await dynamodbService.getUserByEmail(devUser.email) : null;
+    if (!devUser || !user) {
+      throw new NotFoundError('No such development user');
+    }
+
+    const token = await new jose.SignJWT({ email: user.email, name: user.name, isAdmin: devUser.isAdmin })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setSubject(user.id)
+      .setIssuer(DEV_TOKEN_ISSUER)
+      .setAudience(DEV_TOKEN_AUDIENCE)
+      .setIssuedAt()
+      .setExpirationTime(`${config.jwtExpiresIn}s`)
+      .sign(this.secret());
+
+    logger.info(`Development token issued for ${user.email}`);
+    return { token, expiresIn: config.jwtExpiresIn, user };
+  }
+
+  async verify(token: string): Promise<JwtPayload> {
+    if (!this.isEnabled()) {
+      throw new AuthenticationError('Development sign-in is disabled');
+    }
+
+    try {
+      const { payload } = await jose.jwtVerify(token, this.secret(), {
+        issuer: DEV_TOKEN_ISSUER,
+        audience: DEV_TOKEN_AUDIENCE,
+        algorithms: ['HS256'],
+      });
+
+      return {
+        sub: payload.sub as string,
+        email: payload.email as string,
+        name: payload.name as string | undefined,
+        isAdmin: payload.isAdmin === true,
+        iat: payload.iat as number,
+        exp: payload.exp as number,
+      };
+    } catch (error) {
+      logger.error('Development token verification failed:', error);
+      throw new AuthenticationError('Invalid token');
+    }
+  }
+
+  private async seedGroup(): Promise<{ group: Group; created: boolean }> {
+    const existing = await dynamodbService.getGroup(DEV_GROUP_ID);
+    if (existing) {
+      return { group: existing, created: false };
+    }
+
+    const resourceQuota = { cpu: '8', memory: '16Gi', storage: '100Gi', pods: 20 };
+    const group = await dynamodbService.createGroup({
+      id: DEV_GROUP_ID,
+      name: 'dev',
+      displayName: 'Development',
+      description: 'Seeded for development sign-in',
+      namespace: `${config.kubernetesNamespacePrefix}dev`,
+      resourceQuota,
+    });
+
+    try {
+      if (!(await kubernetesService.namespaceExists(group.namespace))) {
+        await kubernetesService.createNamespace(group.namespace, {
+          'vscode-platform/group-id': group.id,
+          'vscode-platform/group-name': group.name,
+        });
+        await kubernetesService.createResourceQuota(group.namespace, resourceQuota);
+      }
+    } catch (error) {
+      logger.warn(`Could not create namespace ${group.namespace} for the development group; workspaces need a cluster`, error);
+    }
+
+    return { group, created: true };
+  }
+
+  private assertEnabled(): void {
+    if (!this.isEnabled()) {
+      throw new AuthorizationError('Development sign-in is disabled');
+    }
+  }
+
+  private secret(): Uint8Array {
+    return new TextEncoder().encode(config.jwtSecret);
+  }
+}
+
+export const devAuthService = new DevAuthService();
@@ -1,8 +1,25 @@
 import AWS from 'aws-sdk';
 import { config } from '../config';
 import { logger } from '../config/logger';
-import { DatabaseError, NotFoundError } from '../utils/errors';
-import { User, Group, Workspace, AuditLog, DynamoDBItem, SystemSettings } from '../types';
+import { ConflictError, DatabaseError, NotFoundError } from '../utils/errors';
+import {
+  User,
+  Group,
+  Workspace,
+  WorkspaceCollaborator,
+  WorkspaceTemplate,
+  AuditLog,
+  DynamoDBItem,
+  SystemSettings,
+  Operation,
+  OperationStatus,
+  ExecRecording,
+  PersonalAccessToken,
+  GroupMappingRule,
+  EnvironmentScope,
+  EnvironmentVariableSet,
+  StoredEnvironmentVariable,
+} from '../types';
 
 class DynamoDBService {
   private dynamodb: AWS.DynamoDB.DocumentClient;
@@ -336,6 +353,37 @@ class DynamoDBService {
     }
   }
 
+  async listAllGroups(): Promise<Group[]> {
+    try {
+      // Every group is indexed under GSI1PK 'GROUP'
+      const groups: Group[] = [];
+      let lastEvaluatedKey: AWS.DynamoDB.DocumentClient.Key | undefined;
+
+      do {
+        const params: AWS.DynamoDB.DocumentClient.QueryInput = {
+          TableName: this.tableName,
+          IndexName: 'GSI1',
+          KeyConditionExpression: 'GSI1PK = :gsi1pk',
+          ExpressionAttributeValues: {
+            ':gsi1pk': 'GROUP',
+          },
+        };
+
+        if (lastEvaluatedKey) {
+          params.ExclusiveStartKey = lastEvaluatedKey;
+        }
+
+        const result = await this.dynamodb.query(params).promise();
+        groups.push(...((result.Items || []) as Group[]));
+        lastEvaluatedKey = result.LastEvaluatedKey;
+      } while (lastEvaluatedKey);
+
+      return groups;
+    } catch (error) {
+      throw new DatabaseError('Failed to list all groups', error);
+    }
+  }
+
   // Workspace operations
   async createWorkspace(workspace: Omit<Workspace, 'createdAt' | 'updatedAt'>): Promise<Workspace> {
     try {
@@ -424,6 +472,36 @@ class DynamoDBService {
     }
   }
 
+  /**
+   * Hand a workspace to another user. GSI1 is keyed on the owner, so it moves
+   * with userId. Fails if the owner changed since `previousUserId` was read.
+   */
+  async updateWorkspaceOwner(id: string, userId: string, previousUserId: string): Promise<Workspace> {
+    try {
+      const result = await this.dynamodb.update({
+        TableName: this.tableName,
+        Key: { PK: `WORKSPACE#${id}`, SK: `WORKSPACE#${id}` },
+        UpdateExpression: 'SET userId = :userId, GSI1PK = :gsi1pk, updatedAt = :updatedAt',
+        ConditionExpression: 'attribute_exists(PK) AND userId = :previousUserId',
+        ExpressionAttributeValues: {
+          ':userId': userId,
+          ':gsi1pk': `USER#${userId}`,
+          ':previousUserId': previousUserId,
+          ':updatedAt': new Date().toISOString(),
+        },
+        ReturnValues: 'ALL_NEW',
+      }).promise();
+
+      logger.info(`Workspace ${id} transferred from ${previousUserId} to ${userId}`);
+      return result.Attributes as Workspace;
+    } catch (error) {
+      if (error.code === 'ConditionalCheckFailedException') {
+        throw new ConflictError(`Workspace ${id} changed owner in the meantime`);
+      }
+      throw new DatabaseError(`Failed to transfer workspace ${id}`, error);
+    }
+  }
+
   async deleteWorkspace(id: string): Promise<void> {
     try {
       await this.dynamodb.delete({
@@ -474,64 +552,879 @@ class DynamoDBService {
     }
   }
 
-  // Audit log operations
-  async createAuditLog(auditLog: Omit<AuditLog, 'id' | 'timestamp'>): Promise<AuditLog> {
+  async listAllWorkspaces(): Promise<Workspace[]> {
     try {
-      const id = `log_${Date.now()}_${Math.random().toString(36).substring(2)}`;
-      const timestamp = new Date().toISOString();
+      // Full table scan following LastEvaluatedKey - used by background jobs, not request paths
+      const workspaces: Workspace[] = [];
+      let lastEvaluatedKey: AWS.DynamoDB.DocumentClient.Key | undefined;
+
+      do {
+        const params: AWS.DynamoDB.DocumentClient.ScanInput = {
+          TableName: this.tableName,
+          FilterExpression: 'EntityType = :entityType',
+          ExpressionAttributeValues: {
+            ':entityType': 'WORKSPACE',
+          },
+        };
+
+        if (lastEvaluatedKey) {
+          params.ExclusiveStartKey = lastEvaluatedKey;
+        }
+
+        const result = await this.dynamodb.scan(params).promise();
+        workspaces.push(...((result.Items || []) as Workspace[]));
+        lastEvaluatedKey = result.LastEvaluatedKey;
+      } while (lastEvaluatedKey);
+
+      return workspaces;
+    } catch (error) {
+      throw new DatabaseError('Failed to list all workspaces', error);
+    }
+  }
+
+  // Workspace collaborators (stored under the workspace, indexed by user)
+  async putWorkspaceCollaborator(collaborator: WorkspaceCollaborator): Promise<WorkspaceCollaborator> {
+    try {
+      await this.dynamodb.put({
+        TableName: this.tableName,
+        Item: {
+          PK: `WORKSPACE#${collaborator.workspaceId}`,
+          SK: `COLLABORATOR#${collaborator.userId}`,
+          EntityType: 'WORKSPACE_COLLABORATOR',
+          GSI1PK: `USER#${collaborator.userId}`,
+          GSI1SK: `SHARED#${collaborator.workspaceId}`,
+          ...collaborator,
+        },
+      }).promise();
+
+      return collaborator;
+    } catch (error) {
+      throw new DatabaseError(`Failed to save collaborator ${collaborator.userId} of workspace ${collaborator.workspaceId}`, error);
+    }
+  }
+
+  async getWorkspaceCollaborator(workspaceId: string, userId: string): Promise<WorkspaceCollaborator | null> {
+    try {
+      const result = await this.dynamodb.get({
+        TableName: this.tableName,
+        Key: { PK: `WORKSPACE#${workspaceId}`, SK: `COLLABORATOR#${userId}` },
+      }).promise();
+
+      if (!result.Item || Object.keys(result.Item).length === 0) {
+        return null;
+      }
+      return result.Item as WorkspaceCollaborator;
+    } catch (error) {
+      throw new DatabaseError(`Failed to get collaborator ${userId} of workspace ${workspaceId}`, error);
+    }
+  }
+
+  async listWorkspaceCollaborators(workspaceId: string): Promise<WorkspaceCollaborator[]> {
+    try {
+      const result = await this.dynamodb.query({
+        TableName: this.tableName,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': `WORKSPACE#${workspaceId}`,
+          ':sk': 'COLLABORATOR#',
+        },
+      }).promise();
+
+      return (result.Items || []) as WorkspaceCollaborator[];
+    } catch (error) {
+      throw new DatabaseError(`Failed to list collaborators of workspace ${workspaceId}`, error);
+    }
+  }
+
+  // Workspaces shared with the user
+  async listUserCollaborations(userId: string): Promise<WorkspaceCollaborator[]> {
+    try {
+      const result = await this.dynamodb.query({
+        TableName: this.tableName,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :gsi1pk AND begins_with(GSI1SK, :gsi1sk)',
+        ExpressionAttributeValues: {
+          ':gsi1pk': `USER#${userId}`,
+          ':gsi1sk': 'SHARED#',
+        },
+      }).promise();
+
+      return (result.Items || []) as WorkspaceCollaborator[];
+    } catch (error) {
+      throw new DatabaseError(`Failed to list workspaces shared with user ${userId}`, error);
+    }
+  }
+
+  async deleteWorkspaceCollaborator(workspaceId: string, userId: string): Promise<void> {
+    try {
+      await this.dynamodb.delete({
+        TableName: this.tableName,
+        Key: { PK: `WORKSPACE#${workspaceId}`, SK: `COLLABORATOR#${userId}` },
+        ConditionExpression: 'attribute_exists(PK)',
+      }).promise();
+    } catch (error) {
+      if (error.code === 'ConditionalCheckFailedException') {
+        throw new NotFoundError('Collaborator not found');
+      }
+      throw new DatabaseError(`Failed to remove collaborator ${userId} of workspace ${workspaceId}`, error);
+    }
+  }
 
+  // Workspace templates
+  async createTemplate(template: Omit<WorkspaceTemplate, 'createdAt' | 'updatedAt'>): Promise<WorkspaceTemplate> {
+    try {
+      const now = new Date().toISOString();
       const item: any = {
-        PK: `AUDIT#${id}`,
-        SK: `AUDIT#${id}`,
-        EntityType: 'AUDIT_LOG',
-        ...auditLog,
-        id,
-        timestamp,
+        PK: `TEMPLATE#${template.id}`,
+        SK: `TEMPLATE#${template.id}`,
+        EntityType: 'TEMPLATE',
+        ...template,
+        createdAt: now,
+        updatedAt: now,
       };
 
       await this.dynamodb.put({
         TableName: this.tableName,
         Item: item,
+        ConditionExpression: 'attribute_not_exists(PK)',
       }).promise();
 
-      return item as AuditLog;
+      logger.info(`Template created: ${template.id}`);
+      return item as WorkspaceTemplate;
     } catch (error) {
-      logger.error('Failed to create audit log', error);
-      // Don't throw error for audit logging failures
-      return null as any;
+      if (error.code === 'ConditionalCheckFailedException') {
+        throw new DatabaseError('Template already exists');
+      }
+      throw new DatabaseError('Failed to create template', error);
     }
   }
 
-  async getAuditLogs(
-    startDate?: Date,
-    endDate?: Date,
-    userId?: string,
-    action?: string,
-    limit: number = 20,
-    nextToken?: string
-  ): Promise<{ logs: AuditLog[], nextToken?: string }> {
+  async getTemplate(id: string): Promise<WorkspaceTemplate | null> {
     try {
-      // Implementation would depend on your GSI structure
-      // This is a simplified version
-      const params: AWS.DynamoDB.DocumentClient.ScanInput = {
+      const result = await this.dynamodb.get({
         TableName: this.tableName,
-        Limit: limit,
-      };
+        Key: { PK: `TEMPLATE#${id}`, SK: `TEMPLATE#${id}` },
+      }).promise();
 
-      if (nextToken) {
-        params.ExclusiveStartKey = JSON.parse(Buffer.from(nextToken, 'base64').toString());
+      if (!result.Item || Object.keys(result.Item).length === 0) {
+        return null;
       }
 
-      const result = await this.dynamodb.scan(params).promise();
+      return result.Item as WorkspaceTemplate;
+    } catch (error) {
+      throw new DatabaseError(`Failed to get template ${id}`, error);
+    }
+  }
 
-      const logs = (result.Items || []) as AuditLog[];
-      const responseNextToken = result.LastEvaluatedKey
-        ? Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64')
-        : undefined;
+  async updateTemplate(id: string, updates: Partial<WorkspaceTemplate>): Promise<WorkspaceTemplate> {
+    try {
+      const updateExpression = [];
+      const expressionAttributeNames: any = {};
+      const expressionAttributeValues: any = {};
 
-      return { logs, nextToken: responseNextToken };
+      updates.updatedAt = new Date().toISOString();
+
+      for (const [key, value] of Object.entries(updates)) {
+        if (key !== 'id' && value !== undefined) {
+          updateExpression.push(`#${key} = :${key}`);
+          expressionAttributeNames[`#${key}`] = key;
+          expressionAttributeValues[`:${key}`] = value;
+        }
+      }
+
+      const result = await this.dynamodb.update({
+        TableName: this.tableName,
+        Key: { PK: `TEMPLATE#${id}`, SK: `TEMPLATE#${id}` },
+        UpdateExpression: `SET ${updateExpression.join(', ')}`,
+        ExpressionAttributeNames: expressionAttributeNames,
+        ExpressionAttributeValues: expressionAttributeValues,
+        ConditionExpression: 'attribute_exists(PK)',
+        ReturnValues: 'ALL_NEW',
+      }).promise();
+
+      logger.info(`Template updated: ${id}`);
+      return result.Attributes as WorkspaceTemplate;
     } catch (error) {
-      throw new DatabaseError('Failed to get audit logs', error);
+      if (error.code === 'ConditionalCheckFailedException') {
+        throw new NotFoundError(`Template ${id} not found`);
+      }
+      throw new DatabaseError(`Failed to update template ${id}`, error);
+    }
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    try {
+      await this.dynamodb.delete({
+        TableName: this.tableName,
+        Key: { PK: `TEMPLATE#${id}`, SK: `TEMPLATE#${id}` },
+      }).promise();
+
+      logger.info(`Template deleted: ${id}`);
+    } catch (error) {
+      throw new DatabaseError(`Failed to delete template ${id}`, error);
+    }
+  }
+
+  async listTemplates(): Promise<WorkspaceTemplate[]> {
+    try {
+      // Full table scan following LastEvaluatedKey; the catalog is small
+      const templates: WorkspaceTemplate[] = [];
+      let lastEvaluatedKey: AWS.DynamoDB.DocumentClient.Key | undefined;
+
+      do {
+        const params: AWS.DynamoDB.DocumentClient.ScanInput = {
+          TableName: this.tableName,
+          FilterExpression: 'EntityType = :entityType',
+          ExpressionAttributeValues: {
+            ':entityType': 'TEMPLATE',
+          },
+        };
+
+        if (lastEvaluatedKey) {
+          params.ExclusiveStartKey = lastEvaluatedKey;
+        }
+
+        const result = await this.dynamodb.scan(params).promise();
+        templates.push(...((result.Items || []) as WorkspaceTemplate[]));
+        lastEvaluatedKey = result.LastEvaluatedKey;
+      } while (lastEvaluatedKey);
+
+      return templates;
+    } catch (error) {
+      throw new DatabaseError('Failed to list templates', error);
+    }
+  }
+
+  // Environment variables (one item per workspace or group)
+  async getEnvironment(scope: EnvironmentScope, scopeId: string): Promise<EnvironmentVariableSet | null> {
+    try {
+      const key = `ENVIRONMENT#${scope}#${scopeId}`;
+      const result = await this.dynamodb.get({
+        TableName: this.tableName,
+        Key: { PK: key, SK: key },
+      }).promise();
+
+      if (!result.Item || Object.keys(result.Item).length === 0) {
+        return null;
+      }
+
+      return result.Item as EnvironmentVariableSet;
+    } catch (error) {
+      throw new DatabaseError(`Failed to get ${scope} environment ${scopeId}`, error);
+    }
+  }
+
+  /**
+   * Set one variable without touching the others, creating the item on first use
+   */
+  async setEnvironmentVariable(
+    scope: EnvironmentScope,
+    scopeId: string,
+    name: string,
+    variable: StoredEnvironmentVariable
+  ): Promise<void> {
+    const key = `ENVIRONMENT#${scope}#${scopeId}`;
+    const update = () => this.dynamodb.update({
+      TableName: this.tableName,
+      Key: { PK: key, SK: key },
+      UpdateExpression: 'SET #variables.#name = :variable, #updatedAt = :updatedAt',
+      ConditionExpression: 'attribute_exists(PK)',
+      ExpressionAttributeNames: { '#variables': 'variables', '#name': name, '#updatedAt': 'updatedAt' },
+      ExpressionAttributeValues: { ':variable': variable, ':updatedAt': variable.updatedAt },
+    }).promise();
+
+    try {
+      try {
+        await update();
+      } catch (error) {
+        if (error.code !== 'ConditionalCheckFailedException') {
+          throw error;
+        }
+        try {
+          await this.dynamodb.put({
+            TableName: this.tableName,
+            Item: {
+              PK: key,
+              SK: key,
+              EntityType: 'ENVIRONMENT',
+              scope,
+              scopeId,
+              variables: { [name]: variable },
+              updatedAt: variable.updatedAt,
+            },
+            ConditionExpression: 'attribute_not_exists(PK)',
+          }).promise();
+        } catch (putError) {
+          // Someone else created the item first
+          if (putError.code !== 'ConditionalCheckFailedException') {
+            throw putError;
+          }
+          await update();
+        }
+      }
+    } catch (error) {
+      throw new DatabaseError(`Failed to set ${scope} environment variable ${name}`, error);
+    }
+  }
+
+  async removeEnvironmentVariable(scope: EnvironmentScope, scopeId: string, name: string): Promise<void> {
+    try {
+      const key = `ENVIRONMENT#${scope}#${scopeId}`;
+      await this.dynamodb.update({
+        TableName: this.tableName,
+        Key: { PK: key, SK: key },
+        UpdateExpression: 'REMOVE #variables.#name SET #updatedAt = :updatedAt',
+        ConditionExpression: 'attribute_exists(#variables.#name)',
+        ExpressionAttributeNames: { '#variables': 'variables', '#name': name, '#updatedAt': 'updatedAt' },
+        ExpressionAttributeValues: { ':updatedAt': new Date().toISOString() },
+      }).promise();
+    } catch (error) {
+      if (error.code === 'ConditionalCheckFailedException') {
+        throw new NotFoundError(`Environment variable ${name} not found`);
+      }
+      throw new DatabaseError(`Failed to remove ${scope} environment variable ${name}`, error);
+    }
+  }
+
+  async deleteEnvironment(scope: EnvironmentScope, scopeId: string): Promise<void> {
+    try {
+      const key = `ENVIRONMENT#${scope}#${scopeId}`;
+      await this.dynamodb.delete({
+        TableName: this.tableName,
+        Key: { PK: key, SK: key },
+      }).promise();
+    } catch (error) {
+      throw new DatabaseError(`Failed to delete ${scope} environment ${scopeId}`, error);
+    }
+  }
+
+  // Operation tracking (asynchronous provisioning)
+  async createOperation(operation: Omit<Operation, 'createdAt' | 'updatedAt'>): Promise<Operation> {
+    try {
+      const now = new Date().toISOString();
+      const item: any = {
+        PK: `OPERATION#${operation.id}`,
+        SK: `OPERATION#${operation.id}`,
+        EntityType: 'OPERATION',
+        GSI1PK: `USER#${operation.userId}`,
+        GSI1SK: `OPERATION#${now}`,
+        ...operation,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.dynamodb.put({
+        TableName: this.tableName,
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(PK)',
+      }).promise();
+
+      logger.info(`Operation created: ${operation.id} (${operation.type} ${operation.resource})`);
+      return item as Operation;
+    } catch (error) {
+      if (error.code === 'ConditionalCheckFailedException') {
+        throw new DatabaseError('Operation already exists');
+      }
+      throw new DatabaseError('Failed to create operation', error);
+    }
+  }
+
+  async getOperation(id: string): Promise<Operation | null> {
+    try {
+      const result = await this.dynamodb.get({
+        TableName: this.tableName,
+        Key: { PK: `OPERATION#${id}`, SK: `OPERATION#${id}` },
+      }).promise();
+
+      if (!result.Item || Object.keys(result.Item).length === 0) {
+        return null;
+      }
+
+      return result.Item as Operation;
+    } catch (error) {
+      throw new DatabaseError(`Failed to get operation ${id}`, error);
+    }
+  }
+
+  async updateOperation(id: string, updates: Partial<Operation>): Promise<Operation> {
+    try {
+      const updateExpression = [];
+      const expressionAttributeNames: any = {};
+      const expressionAttributeValues: any = {};
+
+      updates.updatedAt = new Date().toISOString();
+
+      for (const [key, value] of Object.entries(updates)) {
+        if (key !== 'id' && value !== undefined) {
+          updateExpression.push(`#${key} = :${key}`);
+          expressionAttributeNames[`#${key}`] = key;
+          expressionAttributeValues[`:${key}`] = value;
+        }
+      }
+
+      const result = await this.dynamodb.update({
+        TableName: this.tableName,
+        Key: { PK: `OPERATION#${id}`, SK: `OPERATION#${id}` },
+        UpdateExpression: `SET ${updateExpression.join(', ')}`,
+        ExpressionAttributeNames: expressionAttributeNames,
+        ExpressionAttributeValues: expressionAttributeValues,
+        ConditionExpression: 'attribute_exists(PK)',
+        ReturnValues: 'ALL_NEW',
+      }).promise();
+
+      return result.Attributes as Operation;
+    } catch (error) {
+      if (error.code === 'ConditionalCheckFailedException') {
+        throw new NotFoundError(`Operation ${id} not found`);
+      }
+      throw new DatabaseError(`Failed to update operation ${id}`, error);
+    }
+  }
+
+  /**
+   * Take the lease on an operation if nobody holds it or the previous holder's
+   * lease has expired. Returns null if another process holds the lease.
+   */
+  async claimOperation(id: string, owner: string, leaseMs: number): Promise<Operation | null> {
+    try {
+      const now = new Date();
+      const result = await this.dynamodb.update({
+        TableName: this.tableName,
+        Key: { PK: `OPERATION#${id}`, SK: `OPERATION#${id}` },
+        UpdateExpression: 'SET leaseOwner = :owner, leaseExpiresAt = :expiresAt, updatedAt = :now',
+        ConditionExpression: 'attribute_exists(PK) AND (attribute_not_exists(leaseExpiresAt) OR leaseExpiresAt < :now OR leaseOwner = :owner)',
+        ExpressionAttributeValues: {
+          ':owner': owner,
+          ':expiresAt': new Date(now.getTime() + leaseMs).toISOString(),
+          ':now': now.toISOString(),
+        },
+        ReturnValues: 'ALL_NEW',
+      }).promise();
+
+      return result.Attributes as Operation;
+    } catch (error) {
+      if (error.code === 'ConditionalCheckFailedException') {
+        return null;
+      }
+      throw new DatabaseError(`Failed to claim operation ${id}`, error);
+    }
+  }
+
+  async listIncompleteOperations(): Promise<Operation[]> {
+    try {
+      // Full table scan following LastEvaluatedKey - used by background jobs, not request paths
+      const operations: Operation[] = [];
+      let lastEvaluatedKey: AWS.DynamoDB.DocumentClient.Key | undefined;
+
+      do {
+        const params: AWS.DynamoDB.DocumentClient.ScanInput = {
+          TableName: this.tableName,
+          FilterExpression: 'EntityType = :entityType AND #status IN (:pending, :running, :rollingBack)',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':entityType': 'OPERATION',
+            ':pending': OperationStatus.PENDING,
+            ':running': OperationStatus.RUNNING,
+            ':rollingBack': OperationStatus.ROLLING_BACK,
+          },
+        };
+
+        if (lastEvaluatedKey) {
+          params.ExclusiveStartKey = lastEvaluatedKey;
+        }
+
+        const result = await this.dynamodb.scan(params).promise();
+        operations.push(...((result.Items || []) as Operation[]));
+        lastEvaluatedKey = result.LastEvaluatedKey;
+      } while (lastEvaluatedKey);
+
+      return operations;
+    } catch (error) {
+      throw new DatabaseError('Failed to list incomplete operations', error);
+    }
+  }
+
+  // Audit log operations
+  async createAuditLog(auditLog: Omit<AuditLog, 'id' | 'timestamp'>): Promise<AuditLog> {
+    try {
+      const id = `log_${Date.now()}_${Math.random().toString(36).substring(2)}`;
+      const timestamp = new Date().toISOString();
+
+      const item: any = {
+        PK: `AUDIT#${id}`,
+        SK: `AUDIT#${id}`,
+        EntityType: 'AUDIT_LOG',
+        ...auditLog,
+        id,
+        timestamp,
+      };
+
+      await this.dynamodb.put({
+        TableName: this.tableName,
+        Item: item,
+      }).promise();
+
+      return item as AuditLog;
+    } catch (error) {
+      logger.error('Failed to create audit log', error);
+      // Don't throw error for audit logging failures
+      return null as any;
+    }
+  }
+
+  async getAuditLogs(
+    startDate?: Date,
+    endDate?: Date,
+    userId?: string,
+    action?: string,
+    limit: number = 20,
+    nextToken?: string
+  ): Promise<{ logs: AuditLog[], nextToken?: string }> {
+    try {
+      // Implementation would depend on your GSI structure
+      // This is a simplified version
+      const params: AWS.DynamoDB.DocumentClient.ScanInput = {
+        TableName: this.tableName,
+        Limit: limit,
+      };
+
+      if (nextToken) {
+        params.ExclusiveStartKey = JSON.parse(Buffer.from(nextToken, 'base64').toString());
+      }
+
+      const result = await this.dynamodb.scan(params).promise();
+
+      const logs = (result.Items || []) as AuditLog[];
+      const responseNextToken = result.LastEvaluatedKey
+        ? Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64')
+        : undefined;
+
+      return { logs, nextToken: responseNextToken };
+    } catch (error) {
+      throw new DatabaseError('Failed to get audit logs', error);
+    }
+  }
+
+  // Exec session recordings: the recording and its chunks share a partition, and
+  // recordings are indexed by start time under GSI1PK 'EXEC_RECORDING'
+  async createExecRecording(recording: ExecRecording): Promise<ExecRecording> {
+    try {
+      await this.dynamodb.put({
+        TableName: this.tableName,
+        Item: {
+          PK: `EXEC_RECORDING#${recording.id}`,
+          SK: 'RECORDING',
+          EntityType: 'EXEC_RECORDING',
+          GSI1PK: 'EXEC_RECORDING',
+          GSI1SK: recording.startedAt,
+          ...recording,
+        },
+        ConditionExpression: 'attribute_not_exists(PK)',
+      }).promise();
+
+      return recording;
+    } catch (error) {
+      throw new DatabaseError(`Failed to create exec recording ${recording.id}`, error);
+    }
+  }
+
+  async getExecRecording(id: string): Promise<ExecRecording | null> {
+    try {
+      const result = await this.dynamodb.get({
+        TableName: this.tableName,
+        Key: { PK: `EXEC_RECORDING#${id}`, SK: 'RECORDING' },
+      }).promise();
+
+      if (!result.Item || Object.keys(result.Item).length === 0) {
+        return null;
+      }
+      return result.Item as ExecRecording;
+    } catch (error) {
+      throw new DatabaseError(`Failed to get exec recording ${id}`, error);
+    }
+  }
+
+  async updateExecRecording(id: string, updates: Partial<ExecRecording>): Promise<ExecRecording> {
+    try {
+      const updateExpression = [];
+      const expressionAttributeNames: any = {};
+      const expressionAttributeValues: any = {};
+
+      for (const [key, value] of Object.entries(updates)) {
+        if (key !== 'id' && value !== undefined) {
+          updateExpression.push(`#${key} = :${key}`);
+          expressionAttributeNames[`#${key}`] = key;
+          expressionAttributeValues[`:${key}`] = value;
+        }
+      }
+
+      const result = await this.dynamodb.update({
+        TableName: this.tableName,
+        Key: { PK: `EXEC_RECORDING#${id}`, SK: 'RECORDING' },
+        UpdateExpression: `SET ${updateExpression.join(', ')}`,
+        ExpressionAttributeNames: expressionAttributeNames,
+        ExpressionAttributeValues: expressionAttributeValues,
+        ConditionExpression: 'attribute_exists(PK)',
+        ReturnValues: 'ALL_NEW',
+      }).promise();
+
+      return result.Attributes as ExecRecording;
+    } catch (error) {
+      if (error.code === 'ConditionalCheckFailedException') {
+        throw new NotFoundError(`Exec recording ${id} not found`);
+      }
+      throw new DatabaseError(`Failed to update exec recording ${id}`, error);
+    }
+  }
+
+  // Newest first, optionally only the recordings of one workspace
+  async listExecRecordings(
+    workspaceId?: string,
+    limit: number = 20,
+    nextToken?: string
+  ): Promise<{ recordings: ExecRecording[], nextToken?: string }> {
+    try {
+      const params: AWS.DynamoDB.DocumentClient.QueryInput = {
+        TableName: this.tableName,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :gsi1pk',
+        ExpressionAttributeValues: {
+          ':gsi1pk': 'EXEC_RECORDING',
+        },
+        ScanIndexForward: false,
+        Limit: limit,
+      };
+
+      if (workspaceId) {
+        params.FilterExpression = 'workspaceId = :workspaceId';
+        params.ExpressionAttributeValues![':workspaceId'] = workspaceId;
+      }
+
+      if (nextToken) {
+        params.ExclusiveStartKey = JSON.parse(Buffer.from(nextToken, 'base64').toString());
+      }
+
+      const result = await this.dynamodb.query(params).promise();
+
+      return {
+        recordings: (result.Items || []) as ExecRecording[],
+        nextToken: result.LastEvaluatedKey
+          ? Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64')
+          : undefined,
+      };
+    } catch (error) {
+      throw new DatabaseError('Failed to list exec recordings', error);
+    }
+  }
+
+  async putExecRecordingChunk(id: string, sequence: number, data: string): Promise<void> {
+    try {
+      await this.dynamodb.put({
+        TableName: this.tableName,
+        Item: {
+          PK: `EXEC_RECORDING#${id}`,
+          SK: `CHUNK#${String(sequence).padStart(8, '0')}`,
+          EntityType: 'EXEC_RECORDING_CHUNK',
+          sequence,
+          data,
+        },
+      }).promise();
+    } catch (error) {
+      throw new DatabaseError(`Failed to save chunk ${sequence} of exec recording ${id}`, error);
+    }
+  }
+
+  // Chunk contents in order
+  async listExecRecordingChunks(id: string): Promise<string[]> {
+    try {
+      const chunks: string[] = [];
+      let lastEvaluatedKey: AWS.DynamoDB.DocumentClient.Key | undefined;
+
+      do {
+        const params: AWS.DynamoDB.DocumentClient.QueryInput = {
+          TableName: this.tableName,
+          KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+          ExpressionAttributeValues: {
+            ':pk': `EXEC_RECORDING#${id}`,
+            ':sk': 'CHUNK#',
+          },
+        };
+
+        if (lastEvaluatedKey) {
+          params.ExclusiveStartKey = lastEvaluatedKey;
+        }
+
+        const result = await this.dynamodb.query(params).promise();
+        chunks.push(...(result.Items || []).map(item => item.data as string));
+        lastEvaluatedKey = result.LastEvaluatedKey;
+      } while (lastEvaluatedKey);
+
+      return chunks;
+    } catch (error) {
+      throw new DatabaseError(`Failed to read exec recording ${id}`, error);
+    }
+  }
+
+  // Personal access token operations
+  async createPersonalAccessToken(token: PersonalAccessToken): Promise<PersonalAccessToken> {
+    try {
+      await this.dynamodb.put({
+        TableName: this.tableName,
+        Item: {
+          PK: `TOKEN#${token.id}`,
+          SK: 'TOKEN',
+          EntityType: 'PERSONAL_ACCESS_TOKEN',
+          GSI1PK: `USER#${token.userId}`,
+          GSI1SK: `TOKEN#${token.createdAt}`,
+          ...token,
+        },
+        ConditionExpression: 'attribute_not_exists(PK)',
+      }).promise();
+
+      return token;
+    } catch (error) {
+      throw new DatabaseError(`Failed to create personal access token ${token.id}`, error);
+    }
+  }
+
+  async getPersonalAccessToken(id: string): Promise<PersonalAccessToken | null> {
+    try {
+      const result = await this.dynamodb.get({
+        TableName: this.tableName,
+        Key: { PK: `TOKEN#${id}`, SK: 'TOKEN' },
+      }).promise();
+
+      if (!result.Item || Object.keys(result.Item).length === 0) {
+        return null;
+      }
+      return result.Item as PersonalAccessToken;
+    } catch (error) {
+      throw new DatabaseError(`Failed to get personal access token ${id}`, error);
+    }
+  }
+
+  // Newest first
+  async listUserPersonalAccessTokens(userId: string): Promise<PersonalAccessToken[]> {
+    try {
+      const result = await this.dynamodb.query({
+        TableName: this.tableName,
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :gsi1pk AND begins_with(GSI1SK, :gsi1sk)',
+        ExpressionAttributeValues: {
+          ':gsi1pk': `USER#${userId}`,
+          ':gsi1sk': 'TOKEN#',
+        },
+        ScanIndexForward: false,
+      }).promise();
+
+      return (result.Items || []) as PersonalAccessToken[];
+    } catch (error) {
+      throw new DatabaseError(`Failed to list personal access tokens of user ${userId}`, error);
+    }
+  }
+
+  async updatePersonalAccessTokenLastUsed(id: string, lastUsedAt: string): Promise<void> {
+    try {
+      await this.dynamodb.update({
+        TableName: this.tableName,
+        Key: { PK: `TOKEN#${id}`, SK: 'TOKEN' },
+        UpdateExpression: 'SET lastUsedAt = :lastUsedAt',
+        ExpressionAttributeValues: { ':lastUsedAt': lastUsedAt },
+        ConditionExpression: 'attribute_exists(PK)',
+      }).promise();
+    } catch (error) {
+      if (error.code === 'ConditionalCheckFailedException') {
+        throw new NotFoundError(`Personal access token ${id} not found`);
+      }
+      throw new DatabaseError(`Failed to update personal access token ${id}`, error);
+    }
+  }
+
+  async deletePersonalAccessToken(id: string): Promise<void> {
+    try {
+      await this.dynamodb.delete({
+        TableName: this.tableName,
+        Key: { PK: `TOKEN#${id}`, SK: 'TOKEN' },
+        ConditionExpression: 'attribute_exists(PK)',
+      }).promise();
+    } catch (error) {
+      if (error.code === 'ConditionalCheckFailedException') {
+        throw new NotFoundError('Personal access token not found');
+      }
+      throw new DatabaseError(`Failed to delete personal access token ${id}`, error);
+    }
+  }
+
+  // Group mapping rules, indexed by creation time under GSI1PK 'GROUP_MAPPING'
+  async createGroupMappingRule(rule: GroupMappingRule): Promise<GroupMappingRule> {
+    try {
+      await this.dynamodb.put({
+        TableName: this.tableName,
+        Item: {
+          PK: `GROUP_MAPPING#${rule.id}`,
+          SK: 'RULE',
+          EntityType: 'GROUP_MAPPING_RULE',
+          GSI1PK: 'GROUP_MAPPING',
+          GSI1SK: rule.createdAt,
+          ...rule,
+        },
+        ConditionExpression: 'attribute_not_exists(PK)',
+      }).promise();
+
+      return rule;
+    } catch (error) {
+      throw new DatabaseError(`Failed to create group mapping rule ${rule.id}`, error);
+    }
+  }
+
+  // Oldest first
+  async listGroupMappingRules(): Promise<GroupMappingRule[]> {
+    try {
+      const rules: GroupMappingRule[] = [];
+      let lastEvaluatedKey: AWS.DynamoDB.DocumentClient.Key | undefined;
+
+      do {
+        const params: AWS.DynamoDB.DocumentClient.QueryInput = {
+          TableName: this.tableName,
+          IndexName: 'GSI1',
+          KeyConditionExpression: 'GSI1PK = :gsi1pk',
+          ExpressionAttributeValues: {
+            ':gsi1pk': 'GROUP_MAPPING',
+          },
+        };
+
+        if (lastEvaluatedKey) {
+          params.ExclusiveStartKey = lastEvaluatedKey;
+        }
+
+        const result = await this.dynamodb.query(params).promise();
+        rules.push(...(result.Items || []) as GroupMappingRule[]);
+        lastEvaluatedKey = result.LastEvaluatedKey;
+      } while (lastEvaluatedKey);
+
+      return rules;
+    } catch (error) {
+      throw new DatabaseError('Failed to list group mapping rules', error);
+    }
+  }
+
+  async deleteGroupMappingRule(id: string): Promise<GroupMappingRule> {
+    try {
+      const result = await this.dynamodb.delete({
+        TableName: this.tableName,
+        Key: { PK: `GROUP_MAPPING#${id}`, SK: 'RULE' },
+        ConditionExpression: 'attribute_exists(PK)',
+        ReturnValues: 'ALL_OLD',
+      }).promise();
+
+      return result.Attributes as GroupMappingRule;
+    } catch (error) {
+      if (error.code === 'ConditionalCheckFailedException') {
+        throw new NotFoundError('Group mapping rule not found');
+      }
+      throw new DatabaseError(`Failed to delete group mapping rule ${id}`, error);
     }
   }
 
@@ -0,0 +1,191 @@
+import { StringDecoder } from 'string_decoder';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { ExecRecording } from '../types';
+import { NotFoundError } from '../utils/errors';
+import { dynamodbService } from './dynamodbService';
+
+// Events are written to DynamoDB in chunks of about this size, well under its item limit
+const CHUNK_BYTES = 128 * 1024;
+
+// Buffered events are written at least this often, so a crash loses little
+const FLUSH_INTERVAL_MS = 10000;
+
+// Terminal size until the browser reports its own
+const DEFAULT_COLS = 80;
+const DEFAULT_ROWS = 24;
+
+export interface ExecSessionInfo {
+  workspaceId: string;
+  workspaceName: string;
+  userId: string;
+  username: string;
+  podName: string;
+  namespace: string;
+}
+
+/**
+ * Records one exec session as asciicast v2 events: output ("o") and terminal
+ * resizes ("r"), timed from the start of the session.
+ */
+export class ExecSessionRecorder {
+  private readonly startedAt: number;
+  private readonly decoder = new StringDecoder('utf8');
+  private buffer = '';
+  private hasEvents = false;
+  private finished = false;
+  private writes: Promise<void> = Promise.resolve();
+  private flushTimer: NodeJS.Timeout;
+
+  constructor(private recording: ExecRecording) {
+    this.startedAt = new Date(recording.startedAt).getTime();
+    this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+  }
+
+  get id(): string {
+    return this.recording.id;
+  }
+
+  output(data: Buffer | string): void {
+    // Multi-byte characters can be split across chunks of output
+    const text = typeof data === 'string' ? data : this.decoder.write(data);
+    if (text) {
+      this.record('o', text);
+    }
+  }
+
+  resize(cols: number, rows: number): void {
+    // The first size the browser reports, before any output, goes in the header
+    if (!this.hasEvents) {
+      this.recording.cols = cols;
+      this.recording.rows = rows;
+      return;
+    }
+    this.record('r', `${cols}x${rows}`);
+  }
+
+  /**
+   * Write what's left and close the recording. Never throws; a recording that
+   * can't be saved must not break the session it records.
+   */
+  async finish(): Promise<ExecRecording> {
+    if (!this.finished) {
+      this.finished = true;
+      clearInterval(this.flushTimer);
+
+      const rest = this.decoder.end();
+      if (rest) {
+        this.record('o', rest);
+      }
+
+      const endedAt = new Date();
+      this.recording.endedAt = endedAt.toISOString();
+      this.recording.durationMs = endedAt.getTime() - this.startedAt;
+      this.flush();
+    }
+
+    await this.writes;
+    return this.recording;
+  }
+
+  private record(type: 'o' | 'r', data: string): void {
+    if (this.recording.truncated) {
+      return;
+    }
+
+    const elapsed = (Date.now() - this.startedAt) / 1000;
+    const line = `${JSON.stringify([elapsed, type, data])}\n`;
+    const size = Buffer.byteLength(line);
+
+    if (this.recording.bytes + size > config.execRecordingMaxBytes) {
+      this.recording.truncated = true;
+      logger.warn('Exec recording reached its size limit:', { recordingId: this.id });
+      this.flush();
+      return;
+    }
+
+    this.buffer += line;
+    this.recording.bytes += size;
+    this.hasEvents = true;
+
+    if (Buffer.byteLength(this.buffer) >= CHUNK_BYTES) {
+      this.flush();
+    }
+  }
+
+  // Writes are chained so chunks land in order
+  private flush(): void {
+    const data = this.buffer;
+    if (!data && !this.finished) {
+      return;
+    }
+    this.buffer = '';
+
+    if (data) {
+      this.recording.chunkCount++;
+    }
+    const sequence = this.recording.chunkCount;
+    const { id, ...updates } = this.recording;
+
+    this.writes = this.writes.then(async () => {
+      try {
+        if (data) {
+          await dynamodbService.putExecRecordingChunk(id, sequence, data);
+        }
+        await dynamodbService.updateExecRecording(id, updates);
+      } catch (error) {
+        logger.error('Failed to save exec recording:', { recordingId: id, error });
+      }
+    });
+  }
+}
+
+/**
+ * Stores exec terminal sessions as asciicast v2 recordings for later replay
+ */
+class ExecRecordingService {
+  async start(session: ExecSessionInfo): Promise<ExecSessionRecorder> {
+    const recording = await dynamodbService.createExecRecording({
+      id: `rec_${uuidv4().replace(/-/g, '')}`,
+      ...session,
+      cols: DEFAULT_COLS,
+      rows: DEFAULT_ROWS,
+      startedAt: new Date().toISOString(),
+      chunkCount: 0,
+      bytes: 0,
+    });
+
+    return new ExecSessionRecorder(recording);
+  }
+
+  async get(id: string): Promise<ExecRecording> {
+    const recording = await dynamodbService.getExecRecording(id);
+    if (!recording) {
+      throw new NotFoundError('Recording not found');
+    }
+    return recording;
+  }
+
+  /**
+   * The recording as an asciicast v2 file: a header line, then one event per line
+   */
+  async getCast(id: string): Promise<{ recording: ExecRecording; cast: string }> {
+    const recording = await this.get(id);
+    const chunks = await dynamodbService.listExecRecordingChunks(id);
+
+    const header = {
+      version: 2,
+      width: recording.cols,
+      height: recording.rows,
+      timestamp: Math.floor(new Date(recording.startedAt).getTime() / 1000),
+      ...(recording.durationMs !== undefined && { duration: recording.durationMs / 1000 }),
+      title: `${recording.workspaceName} (${recording.username})`,
+      env: { TERM: 'xterm-256color', SHELL: '/bin/bash' },
+    };
+
+    return { recording, cast: `${JSON.stringify(header)}\n${chunks.join('')}` };
+  }
+}
+
+export const execRecordingService = new ExecRecordingService();
@@ -0,0 +1,394 @@
+import { WebSocket } from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { User, Workspace } from '../types';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { dynamodbService } from './dynamodbService';
+import { kubernetesService } from './kubernetesService';
+import { workspaceIdleService } from './workspaceIdleService';
+import { execRecordingService, ExecSessionRecorder } from './execRecordingService';
+
+// Output kept per session and replayed to a terminal that reattaches
+const SCROLLBACK_BYTES = 64 * 1024;
+
+// How often detached and idle sessions are looked for
+const REAP_INTERVAL_MS = 30000;
+
+// Close code sent when a terminal's session ended or was never there
+const SESSION_ENDED_CLOSE_CODE = 4404;
+
+// Close code sent to a terminal whose session was attached from elsewhere
+const SESSION_TAKEN_OVER_CLOSE_CODE = 4409;
+
+// Configure TTY for web terminal - use sane defaults then adjust:
+// - Start with 'sane' to get reasonable defaults
+// - opost: enable output post-processing
+// - onlcr: map NL to CRNL on output (proper line endings)
+const SHELL_COMMAND = ['/bin/bash', '-c', 'stty sane; stty icrnl ocrnl opost onlcr; export TERM=xterm-256color; exec bash -i'];
+
+export interface ExecTarget {
+  user: User;
+  workspace: Workspace;
+  namespace: string;
+  podName: string;
+}
+
+export interface ExecSessionSummary {
+  id: string;
+  name: string;
+  workspaceId: string;
+  createdAt: string;
+  lastActivityAt: string;
+  attached: boolean;
+}
+
+interface ExecSession {
+  id: string;
+  name: string;
+  user: User;
+  workspace: Workspace;
+  namespace: string;
+  podName: string;
+  createdAt: Date;
+  lastActivityAt: Date;
+  detachedAt: Date | null;
+  exec: Awaited<ReturnType<typeof kubernetesService.execIntoPod>>;
+  recorder: ExecSessionRecorder;
+  ws: WebSocket | null;
+  scrollback: Buffer[];
+  scrollbackBytes: number;
+}
+
+/**
+ * Shells opened in workspace pods from the browser terminal. A session outlives
+ * its WebSocket: a terminal that drops can reattach to the same shell until the
+ * reattach timeout, and each user can keep several named sessions per workspace.
+ *
+ * Sessions live in this process, so a terminal only reattaches through the
+ * backend replica that holds its shell.
+ */
+class ExecSessionService {
+  private sessions = new Map<string, ExecSession>();
+  private reapTimer: NodeJS.Timeout | null = null;
+
+  start(): void {
+    if (this.reapTimer) {
+      return;
+    }
+
+    logger.info('Starting exec session reaper', {
+      reattachTimeoutMs: config.execSessionReattachTimeoutMs,
+      idleTimeoutMs: config.execSessionIdleTimeoutMs,
+    });
+
+    this.reapTimer = setInterval(() => {
+      this.reap().catch(error => logger.error('Exec session reaping failed:', error));
+    }, REAP_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.reapTimer) {
+      clearInterval(this.reapTimer);
+      this.reapTimer = null;
+    }
+
+    logger.info('Exec session reaper stopped');
+  }
+
+  list(userId: string, workspaceId: string): ExecSessionSummary[] {
+    return [...this.sessions.values()]
+      .filter(session => session.user.id === userId && session.workspace.id === workspaceId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(session => ({
+        id: session.id,
+        name: session.name,
+        workspaceId: session.workspace.id,
+        createdAt: session.createdAt.toISOString(),
+        lastActivityAt: session.lastActivityAt.toISOString(),
+        attached: !!session.ws,
+      }));
+  }
+
+  /**
+   * Connect a terminal to one of the user's sessions, or to a new shell when
+   * no session is given. A terminal attaching to a session that has another
+   * terminal takes it over.
+   */
+  async attach(ws: WebSocket, target: ExecTarget, options: { sessionId?: string; name?: string } = {}): Promise<void> {
+    const { user, workspace } = target;
+
+    if (options.sessionId) {
+      const session = this.sessions.get(options.sessionId);
+      if (!session || session.user.id !== user.id || session.workspace.id !== workspace.id) {
+        ws.send(JSON.stringify({ type: 'ended', sessionId: options.sessionId, reason: 'Terminal session has ended' }));
+        ws.close(SESSION_ENDED_CLOSE_CODE, 'Session not found');
+        return;
+      }
+
+      this.bind(session, ws);
+      ws.send(JSON.stringify({ type: 'session', sessionId: session.id, name: session.name, reattached: true }));
+      for (const chunk of session.scrollback) {
+        ws.send(chunk);
+      }
+
+      logger.info('Exec session reattached:', { sessionId: session.id, userId: user.id, workspaceId: workspace.id });
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_exec_reattached',
+        resource: `workspace:${workspace.id}`,
+        details: { sessionId: session.id, podName: session.podName, recordingId: session.recorder.id },
+        success: true,
+      });
+      return;
+    }
+
+    let session: ExecSession;
+    try {
+      session = await this.open(target, options.name);
+    } catch (error) {
+      logger.error('Error setting up exec session:', error);
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(`\r\nFailed to start exec session: ${error instanceof Error ? error.message : 'Unknown error'}\r\n`);
+        ws.close();
+      }
+      return;
+    }
+
+    this.bind(session, ws);
+    ws.send(JSON.stringify({ type: 'session', sessionId: session.id, name: session.name, reattached: false }));
+    ws.send(`\r\nConnected to workspace: ${workspace.name}\r\n`);
+    ws.send(`Pod: ${session.podName}\r\n`);
+    ws.send(`Namespace: ${session.namespace}\r\n\r\n`);
+  }
+
+  /**
+   * End one of the user's sessions
+   */
+  async terminate(userId: string, workspaceId: string, sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.user.id !== userId || session.workspace.id !== workspaceId) {
+      throw new NotFoundError('Terminal session not found');
+    }
+    await this.end(sessionId, 'terminated by user');
+  }
+
+  /**
+   * End sessions detached for longer than the reattach timeout, and sessions
+   * with no input or output for longer than the idle timeout
+   */
+  async reap(now: Date = new Date()): Promise<void> {
+    for (const session of [...this.sessions.values()]) {
+      if (session.detachedAt && now.getTime() - session.detachedAt.getTime() > config.execSessionReattachTimeoutMs) {
+        await this.end(session.id, 'not reattached in time');
+      } else if (now.getTime() - session.lastActivityAt.getTime() > config.execSessionIdleTimeoutMs) {
+        await this.end(session.id, 'idle');
+      }
+    }
+  }
+
+  private async open(target: ExecTarget, name?: string): Promise<ExecSession> {
+    const { user, workspace, namespace, podName } = target;
+
+    const open = this.list(user.id, workspace.id);
+    if (open.length >= config.execSessionMaxPerWorkspace) {
+      throw new ConflictError(`You already have ${open.length} terminals open in this workspace`);
+    }
+
+    // Every session is recorded; no recording, no session
+    const recorder = await execRecordingService.start({
+      workspaceId: workspace.id,
+      workspaceName: workspace.name,
+      userId: user.id,
+      username: user.username,
+      podName,
+      namespace,
+    });
+
+    const sessionId = `exs_${uuidv4().replace(/-/g, '')}`;
+    logger.info('Exec session starting:', { sessionId, userId: user.id, workspaceId: workspace.id, podName, namespace });
+
+    try {
+      const exec = await kubernetesService.execIntoPod(namespace, podName, SHELL_COMMAND);
+
+      const now = new Date();
+      const session: ExecSession = {
+        id: sessionId,
+        name: name?.trim().substring(0, 64) || `Terminal ${open.length + 1}`,
+        user,
+        workspace,
+        namespace,
+        podName,
+        createdAt: now,
+        lastActivityAt: now,
+        detachedAt: null,
+        exec,
+        recorder,
+        ws: null,
+        scrollback: [],
+        scrollbackBytes: 0,
+      };
+      this.sessions.set(sessionId, session);
+
+      // Keep the workspace from being stopped as idle while the shell is open
+      workspaceIdleService.execSessionStarted(workspace.id);
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_exec_start',
+        resource: `workspace:${workspace.id}`,
+        details: { sessionId, name: session.name, podName, namespace, recordingId: recorder.id },
+        success: true,
+      });
+
+      const forward = (data: Buffer) => this.output(session, data);
+      exec.stdout?.on('data', forward);
+      exec.stderr?.on('data', forward);
+
+      // The shell exited or the connection to the pod dropped
+      exec.exitCode
+        .then(exitCode => this.end(sessionId, exitCode === -1 ? 'connection to the pod closed' : 'shell exited'))
+        .catch(error => logger.error('Error ending exec session:', error));
+
+      return session;
+    } catch (error) {
+      await recorder.finish();
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: 'workspace_exec_failed',
+        resource: `workspace:${workspace.id}`,
+        details: {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          podName,
+          namespace,
+          recordingId: recorder.id,
+        },
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  private bind(session: ExecSession, ws: WebSocket): void {
+    const previous = session.ws;
+    if (previous && previous.readyState === WebSocket.OPEN) {
+      previous.close(SESSION_TAKEN_OVER_CLOSE_CODE, 'Session attached elsewhere');
+    }
+
+    session.ws = ws;
+    session.detachedAt = null;
+
+    ws.on('message', (data: Buffer) => {
+      if (session.ws !== ws) {
+        return;
+      }
+
+      // Check if it's a control message (JSON format)
+      try {
+        const message = JSON.parse(data.toString());
+        if (message.type === 'resize' && message.cols && message.rows) {
+          // Resize the terminal using the K8s WebSocket resize method
+          if (typeof session.exec.ws?.resize === 'function') {
+            session.exec.ws.resize({ height: message.rows, width: message.cols });
+          }
+          session.recorder.resize(message.cols, message.rows);
+          return;
+        }
+        if (message.type === 'terminate') {
+          this.end(session.id, 'closed by user').catch(error => logger.error('Error ending exec session:', error));
+          return;
+        }
+      } catch (e) {
+        // Not JSON, treat as regular terminal input
+      }
+
+      session.lastActivityAt = new Date();
+      session.exec.stdin.write(data);
+    });
+
+    // The shell keeps running; the session waits for a terminal to reattach
+    ws.on('close', (code: number) => {
+      if (session.ws === ws && this.sessions.has(session.id)) {
+        session.ws = null;
+        session.detachedAt = new Date();
+        logger.info('Exec session detached:', { sessionId: session.id, workspaceId: session.workspace.id, closeCode: code });
+      }
+    });
+
+    ws.on('error', (error: Error) => {
+      logger.error('WebSocket error:', { sessionId: session.id, workspaceId: session.workspace.id, error: error.message });
+    });
+
+    // The terminal went away while the shell was starting
+    if (ws.readyState !== WebSocket.OPEN) {
+      session.ws = null;
+      session.detachedAt = new Date();
+    }
+  }
+
+  private output(session: ExecSession, data: Buffer): void {
+    session.lastActivityAt = new Date();
+    session.recorder.output(data);
+
+    session.scrollback.push(data);
+    session.scrollbackBytes += data.length;
+    while (session.scrollbackBytes > SCROLLBACK_BYTES && session.scrollback.length > 1) {
+      session.scrollbackBytes -= session.scrollback.shift()!.length;
+    }
+
+    if (session.ws?.readyState === WebSocket.OPEN) {
+      session.ws.send(data);
+    }
+  }
+
+  private async end(sessionId: string, reason: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(sessionId);
+
+    const durationMs = Date.now() - session.createdAt.getTime();
+    logger.info('Exec session ended:', {
+      sessionId,
+      userId: session.user.id,
+      workspaceId: session.workspace.id,
+      podName: session.podName,
+      durationMs,
+      reason,
+    });
+
+    session.exec.stdin.end();
+    session.exec.ws?.close();
+    workspaceIdleService.execSessionEnded(session.workspace.id);
+
+    if (session.ws?.readyState === WebSocket.OPEN) {
+      session.ws.send(JSON.stringify({ type: 'ended', sessionId, reason }));
+      session.ws.close(SESSION_ENDED_CLOSE_CODE, 'Session ended');
+    }
+
+    const recording = await session.recorder.finish();
+
+    await dynamodbService.createAuditLog({
+      userId: session.user.id,
+      username: session.user.username,
+      action: 'workspace_exec_end',
+      resource: `workspace:${session.workspace.id}`,
+      details: {
+        sessionId,
+        podName: session.podName,
+        namespace: session.namespace,
+        durationMs,
+        reason,
+        recordingId: recording.id,
+      },
+      success: true,
+    });
+  }
+}
+
+export const execSessionService = new ExecSessionService();
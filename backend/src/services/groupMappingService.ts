@@ -0,0 +1,181 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../config/logger';
+import { CreateGroupMappingRuleRequest, Group, GroupMappingRule, GroupMembership, GroupRole, JwtPayload, User } from '../types';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { dynamodbService } from './dynamodbService';
+
+// Rules are needed on every login, so they are cached; changes made through
+// another API instance take effect here within this long
+const RULE_CACHE_TTL_MS = 60 * 1000;
+
+type MembershipChange = 'added' | 'removed' | 'role_changed';
+
+const AUDIT_ACTIONS: Record<MembershipChange, string> = {
+  added: 'group_mapping_member_added',
+  removed: 'group_mapping_member_removed',
+  role_changed: 'group_mapping_role_changed',
+};
+
+/**
+ * Maps identity-provider groups and email domains to application groups.
+ * Rules are applied whenever a user signs in: memberships they grant are
+ * marked as managed and are removed again once no rule matches. Memberships
+ * granted by hand are never touched.
+ */
+class GroupMappingService {
+  private cache: { rules: GroupMappingRule[]; loadedAt: number } | null = null;
+
+  async list(): Promise<GroupMappingRule[]> {
+    return await dynamodbService.listGroupMappingRules();
+  }
+
+  async create(request: CreateGroupMappingRuleRequest, admin: User): Promise<GroupMappingRule> {
+    const value = request.source === 'emailDomain'
+      ? request.value.trim().toLowerCase().replace(/^@/, '')
+      : request.value.trim();
+
+    const group = await dynamodbService.getGroup(request.groupId);
+    if (!group || group.trash) {
+      throw new NotFoundError('Group not found');
+    }
+
+    const rules = await this.list();
+    if (rules.some(rule => rule.source === request.source && rule.value === value && rule.groupId === request.groupId)) {
+      throw new ConflictError(`A rule already maps ${value} to this group`);
+    }
+
+    const rule: GroupMappingRule = {
+      id: `gmr_${uuidv4().replace(/-/g, '')}`,
+      source: request.source,
+      value,
+      groupId: request.groupId,
+      role: request.role,
+      createdAt: new Date().toISOString(),
+      createdBy: admin.id,
+    };
+
+    await dynamodbService.createGroupMappingRule(rule);
+    this.cache = null;
+
+    logger.info(`Group mapping rule ${rule.id} created: ${rule.source} ${rule.value} -> ${rule.groupId} (${rule.role})`);
+    return rule;
+  }
+
+  /**
+   * Delete a rule. Memberships it granted are removed at each user's next login.
+   */
+  async delete(id: string): Promise<GroupMappingRule> {
+    const rule = await dynamodbService.deleteGroupMappingRule(id);
+    this.cache = null;
+
+    logger.info(`Group mapping rule ${id} deleted`);
+    return rule;
+  }
+
+  /**
+   * Bring the user's managed memberships in line with the rules matching their
+   * token. Where several rules map the same group, the admin role wins.
+   */
+  async apply(user: User, jwtPayload: JwtPayload): Promise<User> {
+    const rules = await this.rules();
+    const current = user.groupMemberships || [];
+    if (rules.length === 0 && !current.some(membership => membership.managed)) {
+      return user;
+    }
+
+    const idpGroups = new Set(jwtPayload.groups || []);
+    const emailDomain = user.email.split('@')[1]?.toLowerCase();
+
+    const mapped = new Map<string, { role: GroupRole; ruleIds: string[] }>();
+    for (const rule of rules) {
+      const matches = rule.source === 'idpGroup' ? idpGroups.has(rule.value) : rule.value === emailDomain;
+      if (!matches) {
+        continue;
+      }
+
+      const existing = mapped.get(rule.groupId);
+      mapped.set(rule.groupId, {
+        role: existing?.role === GroupRole.ADMIN ? GroupRole.ADMIN : rule.role,
+        ruleIds: [...(existing?.ruleIds || []), rule.id],
+      });
+    }
+
+    const changes: Array<{ groupId: string; change: MembershipChange; role: GroupRole; ruleIds?: string[] }> = [];
+    const memberships: GroupMembership[] = [];
+
+    for (const membership of current) {
+      const mapping = mapped.get(membership.groupId);
+      if (!membership.managed) {
+        memberships.push(membership);
+      } else if (!mapping) {
+        changes.push({ groupId: membership.groupId, change: 'removed', role: membership.role });
+      } else {
+        if (mapping.role !== membership.role) {
+          changes.push({ groupId: membership.groupId, change: 'role_changed', role: mapping.role, ruleIds: mapping.ruleIds });
+        }
+        memberships.push({ ...membership, role: mapping.role });
+      }
+    }
+
+    // Legacy members (groups without a membership entry) count as granted by hand
+    const groups = new Map<string, Group>();
+    for (const [groupId, mapping] of mapped) {
+      if (current.some(membership => membership.groupId === groupId) || user.groups.includes(groupId)) {
+        continue;
+      }
+
+      // Skip rules whose group has been deleted or trashed since
+      const group = await dynamodbService.getGroup(groupId);
+      if (!group || group.trash) {
+        continue;
+      }
+
+      groups.set(groupId, group);
+      memberships.push({ groupId, role: mapping.role, managed: true });
+      changes.push({ groupId, change: 'added', role: mapping.role, ruleIds: mapping.ruleIds });
+    }
+
+    if (changes.length === 0) {
+      return user;
+    }
+
+    const removed = changes.filter(change => change.change === 'removed').map(change => change.groupId);
+    const added = changes.filter(change => change.change === 'added').map(change => change.groupId);
+
+    const updatedUser = await dynamodbService.updateUser(user.id, {
+      groups: [...user.groups.filter(groupId => !removed.includes(groupId)), ...added],
+      groupMemberships: memberships,
+    });
+
+    for (const { groupId, change, role, ruleIds } of changes) {
+      if (change !== 'role_changed') {
+        const group = groups.get(groupId) || await dynamodbService.getGroup(groupId);
+        if (group) {
+          const memberCount = Math.max(0, group.memberCount + (change === 'added' ? 1 : -1));
+          await dynamodbService.updateGroup(groupId, { memberCount });
+        }
+      }
+
+      await dynamodbService.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: AUDIT_ACTIONS[change],
+        resource: `group:${groupId}`,
+        details: { role, ruleIds },
+        success: true,
+      });
+    }
+
+    logger.info(`Group mappings applied for ${user.email}:`, { changes });
+    return updatedUser;
+  }
+
+  private async rules(): Promise<GroupMappingRule[]> {
+    if (!this.cache || Date.now() - this.cache.loadedAt > RULE_CACHE_TTL_MS) {
+      this.cache = { rules: await this.list(), loadedAt: Date.now() };
+    }
+    return this.cache.rules;
+  }
+}
+
+export const groupMappingService = new GroupMappingService();
@@ -1,8 +1,37 @@
 import * as k8s from '@kubernetes/client-node';
 import { config } from '../config';
 import { logger } from '../config/logger';
-import { KubernetesError, NotFoundError } from '../utils/errors';
-import { PodStatus, WorkspaceStatus, ResourceUsage, ComponentHealthStatus } from '../types';
+import { KubernetesError, NotFoundError, ValidationError } from '../utils/errors';
+import { PodStatus, WorkspaceStatus, ResourceUsage, ComponentHealthStatus, WorkspaceRepository } from '../types';
+
+const GIT_CLONE_CONTAINER = 'git-clone';
+// Changing this pod template annotation rolls the pod so it picks up new environment values
+const ENV_REVISION_ANNOTATION = 'codex-platform/env-revision';
+const GIT_CREDENTIALS_PATH = '/etc/git-credentials';
+
+// Clones $REPOSITORY_URL into $WORKSPACE_DIR/$REPOSITORY_DIR unless the volume
+// already has content (a later start, a restored snapshot or a cloned volume).
+// Credentials come from a mounted basic-auth (username/password) or ssh-auth
+// (ssh-privatekey) Secret.
+const GIT_CLONE_SCRIPT = `set -e
+if [ -n "$(ls -A "$WORKSPACE_DIR" | grep -v -x -e lost+found)" ]; then
+  echo "Workspace volume is not empty, skipped clone" > /dev/termination-log
+  exit 0
+fi
+if [ -f ${GIT_CREDENTIALS_PATH}/ssh-privatekey ]; then
+  install -m 600 ${GIT_CREDENTIALS_PATH}/ssh-privatekey /tmp/git-ssh-key
+  export GIT_SSH_COMMAND="ssh -i /tmp/git-ssh-key -o StrictHostKeyChecking=accept-new -o UserKnownHostsFile=/tmp/known_hosts"
+elif [ -f ${GIT_CREDENTIALS_PATH}/password ]; then
+  git config --global credential.helper '!f() { echo "username=$(cat ${GIT_CREDENTIALS_PATH}/username)"; echo "password=$(cat ${GIT_CREDENTIALS_PATH}/password)"; }; f'
+fi
+git clone \${REPOSITORY_BRANCH:+--branch "$REPOSITORY_BRANCH"} -- "$REPOSITORY_URL" "$WORKSPACE_DIR/$REPOSITORY_DIR"
+echo "Cloned $REPOSITORY_URL into $REPOSITORY_DIR" > /dev/termination-log`;
+
+// Directory a repository is cloned into, named after the repository like `git clone` does
+function repositoryDirectory(url: string): string {
+  const name = url.replace(/\/+$/, '').split(/[/:]/).pop()!.replace(/\.git$/, '');
+  return /^[\w.-]+$/.test(name) && !name.startsWith('.') ? name : 'project';
+}
 
 class KubernetesService {
   private kc: k8s.KubeConfig;
@@ -183,6 +212,7 @@ class KubernetesService {
               'requests.memory': quota.memory,
               'limits.memory': quota.memory,
               'persistentvolumeclaims': quota.storage,
+              'requests.storage': quota.storage,
               pods: quota.pods.toString(),
             },
           },
@@ -202,6 +232,63 @@ class KubernetesService {
     }
   }
 
+  /**
+   * Check whether the given requests fit within the namespace ResourceQuota.
+   * By default this checks room for one new pod; pass `pods: 0` and the
+   * requests being given up in `releasing` to check a resize instead.
+   * Namespaces without a quota always fit.
+   */
+  async checkResourceQuotaHeadroom(
+    namespace: string,
+    requests: { cpu?: string; memory?: string; storage?: string },
+    options: { pods?: number; releasing?: { cpu?: string; memory?: string; storage?: string } } = {}
+  ): Promise<{ fits: boolean; reason?: string }> {
+    const releasing = options.releasing || {};
+    const growth = (requested: string | undefined, released: string | undefined, type: 'cpu' | 'memory') =>
+      requested ? this.parseKubernetesQuantity(requested, type) - this.parseKubernetesQuantity(released, type) : 0;
+
+    try {
+      const quota = await this.coreV1Api.readNamespacedResourceQuota({ name: `${namespace}-quota`, namespace });
+      const hard = quota.status?.hard || quota.spec?.hard || {};
+      const used = quota.status?.used || {};
+
+      const checks: { resource: string; requested: number; type: 'cpu' | 'memory' | 'count' }[] = [
+        { resource: 'requests.cpu', requested: growth(requests.cpu, releasing.cpu, 'cpu'), type: 'cpu' },
+        { resource: 'requests.memory', requested: growth(requests.memory, releasing.memory, 'memory'), type: 'memory' },
+        { resource: 'limits.memory', requested: growth(requests.memory, releasing.memory, 'memory'), type: 'memory' },
+        { resource: 'requests.storage', requested: growth(requests.storage, releasing.storage, 'memory'), type: 'memory' },
+        { resource: 'pods', requested: options.pods ?? 1, type: 'count' },
+      ];
+
+      for (const check of checks) {
+        if (!hard[check.resource] || check.requested <= 0) {
+          continue;
+        }
+
+        const parse = (value: string) => check.type === 'count'
+          ? parseInt(value, 10)
+          : this.parseKubernetesQuantity(value, check.type as 'cpu' | 'memory');
+        const limit = parse(hard[check.resource]);
+        const inUse = used[check.resource] ? parse(used[check.resource]) : 0;
+
+        if (inUse + check.requested > limit) {
+          return {
+            fits: false,
+            reason: `${check.resource} quota exceeded (used ${used[check.resource] || '0'} of ${hard[check.resource]})`,
+          };
+        }
+      }
+
+      return { fits: true };
+    } catch (error) {
+      const statusCode = error.statusCode || error.response?.statusCode || error.code;
+      if (statusCode === 404) {
+        return { fits: true };
+      }
+      throw new KubernetesError(`Failed to read resource quota for ${namespace}`, error);
+    }
+  }
+
   // Pod operations
   async listPods(namespace: string, labelSelector?: string): Promise<PodStatus[]> {
     try {
@@ -425,14 +512,143 @@ cert: false`;
     }
   }
 
+  /**
+   * Create or replace the `${name}-env` Secret the workspace container loads its
+   * environment from
+   */
+  async applyWorkspaceEnvSecret(namespace: string, name: string, data: Record<string, string>): Promise<void> {
+    const secretName = `${name}-env`;
+    const secret: k8s.V1Secret = {
+      metadata: {
+        name: secretName,
+        namespace,
+        labels: {
+          app: name,
+          'app.kubernetes.io/managed-by': 'vscode-platform',
+        },
+      },
+      type: 'Opaque',
+      stringData: data,
+    };
+
+    try {
+      try {
+        await this.coreV1Api.createNamespacedSecret({ namespace, body: secret });
+      } catch (error: any) {
+        const statusCode = error.statusCode || error.response?.statusCode || error.code;
+        if (statusCode !== 409) {
+          throw error;
+        }
+        await this.coreV1Api.replaceNamespacedSecret({ name: secretName, namespace, body: secret });
+      }
+      logger.info(`Environment secret applied: ${secretName} in namespace ${namespace}`);
+    } catch (error) {
+      throw new KubernetesError(`Failed to apply environment secret ${secretName}`, error);
+    }
+  }
+
+  /**
+   * Type (e.g. 'kubernetes.io/basic-auth') and labels of a Secret, or null when it doesn't exist
+   */
+  async getSecretMetadata(namespace: string, name: string): Promise<{ type: string; labels: Record<string, string> } | null> {
+    try {
+      const secret = await this.coreV1Api.readNamespacedSecret({ name, namespace });
+      return { type: secret.type || 'Opaque', labels: secret.metadata?.labels || {} };
+    } catch (error: any) {
+      const statusCode = error.statusCode || error.response?.statusCode || error.code;
+      if (statusCode === 404) {
+        return null;
+      }
+      throw new KubernetesError(`Failed to read secret ${name}`, error);
+    }
+  }
+
   // StatefulSet operations
+  /**
+   * `storageSource` pre-populates the workspace volume from a VolumeSnapshot or
+   * an existing PVC in the same namespace when the PVC is first created.
+   * The workspace container loads its environment from the `${name}-env` Secret
+   * (see applyWorkspaceEnvSecret) and `extensions` are installed onto the
+   * workspace volume by an init container each time the pod starts.
+   * `repository` is cloned by an init container while the volume is still empty,
+   * so a failed clone keeps the pod from starting rather than leaving it without
+   * its project; see getWorkspaceComponentHealth.
+   */
   async createStatefulSet(
     namespace: string,
     name: string,
     image: string,
     resources: any,
-    labels: Record<string, string> = {}
+    labels: Record<string, string> = {},
+    options: {
+      storageSource?: { kind: 'VolumeSnapshot' | 'PersistentVolumeClaim'; name: string };
+      extensions?: string[];
+      repository?: WorkspaceRepository;
+    } = {}
   ): Promise<void> {
+    const { storageSource, extensions, repository } = options;
+    const containerResources = {
+      requests: {
+        cpu: resources.cpu,
+        memory: resources.memory,
+      },
+      limits: {
+        // No CPU limits - only requests
+        memory: resources.memory, // Memory limit equals memory request
+      },
+    };
+    const storageMount = {
+      name: 'workspace-storage',
+      mountPath: '/home/coder/.codex-projects',
+    };
+    const extensionsDir = `${storageMount.mountPath}/.extensions`;
+
+    const initContainers: k8s.V1Container[] = [];
+    if (repository) {
+      initContainers.push({
+        name: GIT_CLONE_CONTAINER,
+        image,
+        imagePullPolicy: 'IfNotPresent',
+        command: ['sh', '-c', GIT_CLONE_SCRIPT],
+        env: [
+          { name: 'HOME', value: '/tmp' },
+          { name: 'WORKSPACE_DIR', value: storageMount.mountPath },
+          { name: 'REPOSITORY_URL', value: repository.url },
+          { name: 'REPOSITORY_DIR', value: repositoryDirectory(repository.url) },
+          ...(repository.branch ? [{ name: 'REPOSITORY_BRANCH', value: repository.branch }] : []),
+        ],
+        resources: containerResources,
+        // git's error output becomes the termination message reported by getWorkspaceComponentHealth
+        terminationMessagePolicy: 'FallbackToLogsOnError',
+        volumeMounts: [
+          storageMount,
+          ...(repository.credentialsSecret ? [{
+            name: 'git-credentials',
+            mountPath: GIT_CREDENTIALS_PATH,
+            readOnly: true,
+          }] : []),
+        ],
+      });
+    }
+    if (extensions && extensions.length > 0) {
+      initContainers.push({
+        name: 'install-extensions',
+        image,
+        imagePullPolicy: 'IfNotPresent',
+        // A marketplace hiccup shouldn't keep the workspace from starting
+        command: ['sh', '-c',
+          'for ext in "$@"; do code-server --extensions-dir "$EXTENSIONS_DIR" --install-extension "$ext" ' +
+          '|| echo "Failed to install extension $ext"; done',
+          'install-extensions',
+          ...extensions,
+        ],
+        env: [{ name: 'EXTENSIONS_DIR', value: extensionsDir }],
+        // Quota-limited namespaces reject pods whose init containers lack requests
+        resources: containerResources,
+        volumeMounts: [storageMount],
+      });
+    }
+
     try {
       const statefulSet: k8s.V1StatefulSet = {
         metadata: {
@@ -470,6 +686,7 @@ cert: false`;
                 fsGroup: 1000, // Matches the 'coder' user/group in code-server image
                 fsGroupChangePolicy: 'OnRootMismatch', // Only change ownership if needed (faster)
               },
+              ...(initContainers.length > 0 ? { initContainers } : {}),
               containers: [{
                 name: 'codex',
                 image,
@@ -479,22 +696,18 @@ cert: false`;
                   '--disable-workspace-trust',
                   '--disable-telemetry',
                   '--ignore-last-opened',
+                  ...(extensions && extensions.length > 0 ? [`--extensions-dir=${extensionsDir}`] : []),
                 ],
+                // Optional so a missing Secret doesn't keep the workspace from starting
+                envFrom: [{
+                  secretRef: { name: `${name}-env`, optional: true },
+                }],
                 ports: [{
                   containerPort: 8000,
                   name: 'http',
                   protocol: 'TCP',
                 }],
-                resources: {
-                  requests: {
-                    cpu: resources.cpu,
-                    memory: resources.memory,
-                  },
-                  limits: {
-                    // No CPU limits - only requests
-                    memory: resources.memory, // Memory limit equals memory request
-                  },
-                },
+                resources: containerResources,
                 startupProbe: {
                   tcpSocket: {
                     port: 8000,
@@ -530,19 +743,25 @@ cert: false`;
                     mountPath: '/home/coder/.config/codex',
                     readOnly: true,
                   },
-                  {
-                    name: 'workspace-storage',
-                    mountPath: '/home/coder/.codex-projects',
-                  },
+                  storageMount,
                 ],
               }],
-              volumes: [{
-                name: 'config',
-                secret: {
-                  secretName: `${name}-config`,
-                  defaultMode: 0o644,
+              volumes: [
+                {
+                  name: 'config',
+                  secret: {
+                    secretName: `${name}-config`,
+                    defaultMode: 0o644,
+                  },
                 },
-              }],
+                ...(repository?.credentialsSecret ? [{
+                  name: 'git-credentials',
+                  secret: {
+                    secretName: repository.credentialsSecret,
+                    defaultMode: 0o440,
+                  },
+                }] : []),
+              ],
             },
           },
           // Use volumeClaimTemplates for StatefulSet persistent storage
@@ -562,6 +781,13 @@ cert: false`;
                   storage: resources.storage,
                 },
               },
+              ...(storageSource ? {
+                dataSource: {
+                  apiGroup: storageSource.kind === 'VolumeSnapshot' ? 'snapshot.storage.k8s.io' : undefined,
+                  kind: storageSource.kind,
+                  name: storageSource.name,
+                },
+              } : {}),
             },
           }],
         },
@@ -735,6 +961,98 @@ cert: false`;
     }
   }
 
+  /**
+   * Set the workspace container's CPU/memory requests and memory limit. On a
+   * running StatefulSet this rolls the pod.
+   */
+  async updateStatefulSetResources(
+    namespace: string,
+    name: string,
+    resources: { cpu: string; memory: string }
+  ): Promise<void> {
+    try {
+      const statefulSet = await this.appsV1Api.readNamespacedStatefulSet({ name, namespace });
+
+      const podSpec = statefulSet.spec?.template?.spec;
+      const container = podSpec?.containers?.[0];
+      if (!container) {
+        throw new KubernetesError(`StatefulSet ${name} has no containers`);
+      }
+
+      // Same shape as createStatefulSet: no CPU limit, memory limit equals the request.
+      // Init containers are sized like the workspace so they never raise the pod's request.
+      for (const target of [container, ...(podSpec.initContainers || [])]) {
+        target.resources = {
+          ...target.resources,
+          requests: {
+            ...target.resources?.requests,
+            cpu: resources.cpu,
+            memory: resources.memory,
+          },
+          limits: {
+            ...target.resources?.limits,
+            memory: resources.memory,
+          },
+        };
+      }
+
+      await this.appsV1Api.replaceNamespacedStatefulSet({ name, namespace, body: statefulSet });
+      logger.info(`StatefulSet ${name} resources updated`, resources);
+    } catch (error) {
+      if (error instanceof KubernetesError) {
+        throw error;
+      }
+      const statusCode = error.statusCode || error.response?.statusCode || error.code;
+      if (statusCode === 404) {
+        throw new NotFoundError(`StatefulSet ${name} not found in namespace ${namespace}`);
+      }
+      throw new KubernetesError(`Failed to update resources for StatefulSet ${name}`, error);
+    }
+  }
+
+  /**
+   * Point the workspace container at its `${name}-env` Secret and record which
+   * revision of it the pod should run with. A changed revision rolls a running
+   * pod; a stopped workspace picks it up on its next start.
+   */
+  async updateStatefulSetEnvironment(namespace: string, name: string, revision: string): Promise<void> {
+    try {
+      const statefulSet = await this.appsV1Api.readNamespacedStatefulSet({ name, namespace });
+
+      const podTemplate = statefulSet.spec?.template;
+      const container = podTemplate?.spec?.containers?.[0];
+      if (!container) {
+        throw new KubernetesError(`StatefulSet ${name} has no containers`);
+      }
+
+      // StatefulSets created before environment support have no envFrom yet
+      const secretName = `${name}-env`;
+      if (!container.envFrom?.some(source => source.secretRef?.name === secretName)) {
+        container.envFrom = [...(container.envFrom || []), { secretRef: { name: secretName, optional: true } }];
+      }
+
+      podTemplate.metadata = {
+        ...podTemplate.metadata,
+        annotations: {
+          ...podTemplate.metadata?.annotations,
+          [ENV_REVISION_ANNOTATION]: revision,
+        },
+      };
+
+      await this.appsV1Api.replaceNamespacedStatefulSet({ name, namespace, body: statefulSet });
+      logger.info(`StatefulSet ${name} environment revision set to ${revision}`);
+    } catch (error) {
+      if (error instanceof KubernetesError) {
+        throw error;
+      }
+      const statusCode = error.statusCode || error.response?.statusCode || error.code;
+      if (statusCode === 404) {
+        throw new NotFoundError(`StatefulSet ${name} not found in namespace ${namespace}`);
+      }
+      throw new KubernetesError(`Failed to update environment for StatefulSet ${name}`, error);
+    }
+  }
+
   async scaleDeployment(namespace: string, name: string, replicas: number): Promise<void> {
     try {
       // Use readNamespacedDeploymentScale to get current scale object
@@ -845,6 +1163,26 @@ cert: false`;
     }
   }
 
+  async waitForStatefulSetDeletion(namespace: string, name: string, timeoutMs: number = 60000): Promise<void> {
+    const startTime = Date.now();
+    const pollInterval = 2000;
+
+    while (Date.now() - startTime < timeoutMs) {
+      try {
+        await this.appsV1Api.readNamespacedStatefulSet({ name, namespace });
+      } catch (error) {
+        const statusCode = error.statusCode || error.response?.statusCode || error.code;
+        if (statusCode === 404) {
+          return;
+        }
+        throw new KubernetesError(`Failed to read StatefulSet ${name}`, error);
+      }
+      await new Promise(resolve => setTimeout(resolve, pollInterval));
+    }
+
+    throw new KubernetesError(`Timeout waiting for StatefulSet ${name} to be deleted`);
+  }
+
   async deleteDeployment(namespace: string, name: string): Promise<void> {
     try {
       await this.appsV1Api.deleteNamespacedDeployment({ name, namespace });
@@ -861,30 +1199,82 @@ cert: false`;
 
   async getStatefulSetStatus(namespace: string, name: string): Promise<WorkspaceStatus> {
     try {
-      const response = await this.appsV1Api.readNamespacedStatefulSet({ name, namespace });
-      const statefulSet = response;
-
-      const readyReplicas = statefulSet.status?.readyReplicas || 0;
-      const replicas = statefulSet.spec?.replicas || 0;
-
-      if (replicas === 0) {
+      const statefulSet = await this.appsV1Api.readNamespacedStatefulSet({ name, namespace });
+      return this.deriveStatefulSetStatus(statefulSet);
+    } catch (error) {
+      if (error.statusCode === 404) {
         return WorkspaceStatus.STOPPED;
       }
+      throw new KubernetesError(`Failed to get StatefulSet status for ${name}`, error);
+    }
+  }
 
-      if (readyReplicas === 0) {
-        return WorkspaceStatus.STARTING;
-      }
+  /**
+   * Derive a workspace status from a StatefulSet object (shared by reads and watch events)
+   */
+  deriveStatefulSetStatus(statefulSet: k8s.V1StatefulSet): WorkspaceStatus {
+    const readyReplicas = statefulSet.status?.readyReplicas || 0;
+    const replicas = statefulSet.spec?.replicas || 0;
 
-      if (readyReplicas < replicas) {
-        return WorkspaceStatus.STARTING;
-      }
+    if (replicas === 0) {
+      return WorkspaceStatus.STOPPED;
+    }
 
-      return WorkspaceStatus.RUNNING;
+    if (readyReplicas < replicas) {
+      return WorkspaceStatus.STARTING;
+    }
+
+    return WorkspaceStatus.RUNNING;
+  }
+
+  /**
+   * Watch all StatefulSets managed by the platform across every namespace.
+   * Returns an AbortController that stops the watch; `onDone` fires when the
+   * watch ends for any reason (including server-side timeouts).
+   */
+  async watchManagedStatefulSets(
+    onEvent: (type: string, statefulSet: k8s.V1StatefulSet) => void,
+    onDone: (error?: any) => void,
+    resourceVersion?: string
+  ): Promise<AbortController> {
+    try {
+      const watch = new k8s.Watch(this.kc);
+      return await watch.watch(
+        '/apis/apps/v1/statefulsets',
+        {
+          labelSelector: 'app.kubernetes.io/managed-by=vscode-platform',
+          allowWatchBookmarks: true,
+          resourceVersion,
+        },
+        (type, apiObj) => onEvent(type, apiObj as k8s.V1StatefulSet),
+        onDone
+      );
     } catch (error) {
-      if (error.statusCode === 404) {
-        return WorkspaceStatus.STOPPED;
-      }
-      throw new KubernetesError(`Failed to get StatefulSet status for ${name}`, error);
+      throw new KubernetesError('Failed to watch StatefulSets', error);
+    }
+  }
+
+  /**
+   * Watch workspace pods across all namespaces. Workspace pods are selected by
+   * the StatefulSet pod-name label and filtered by name by the caller.
+   */
+  async watchStatefulSetPods(
+    onEvent: (type: string, pod: k8s.V1Pod) => void,
+    onDone: (error?: any) => void
+  ): Promise<AbortController> {
+    try {
+      const watch = new k8s.Watch(this.kc);
+      return await watch.watch(
+        '/api/v1/pods',
+        {
+          labelSelector: 'statefulset.kubernetes.io/pod-name',
+          allowWatchBookmarks: true,
+        },
+        (type, apiObj) => onEvent(type, apiObj as k8s.V1Pod),
+        onDone
+      );
+    } catch (error) {
+      throw new KubernetesError('Failed to watch pods', error);
     }
   }
 
@@ -1211,6 +1601,11 @@ cert: false`;
             count: pods.items.length,
           }
         });
+
+        const repositoryHealth = this.getRepositoryCloneHealth(pods.items[0]);
+        if (repositoryHealth) {
+          components.push(repositoryHealth);
+        }
       }
     } catch (error) {
       logger.warn(`Failed to get pod health for ${name}:`, error);
@@ -1227,6 +1622,56 @@ cert: false`;
     return components;
   }
 
+  /**
+   * Outcome of the git-clone init container, or null when the workspace has no repository
+   */
+  private getRepositoryCloneHealth(pod: k8s.V1Pod): ComponentHealthStatus | null {
+    const initContainer = pod.spec?.initContainers?.find(c => c.name === GIT_CLONE_CONTAINER);
+    if (!initContainer) {
+      return null;
+    }
+
+    const url = initContainer.env?.find(e => e.name === 'REPOSITORY_URL')?.value;
+    const branch = initContainer.env?.find(e => e.name === 'REPOSITORY_BRANCH')?.value;
+    const status = pod.status?.initContainerStatuses?.find(c => c.name === GIT_CLONE_CONTAINER);
+    const details = { url, branch: branch || 'default', restarts: status?.restartCount || 0 };
+
+    const current = status?.state?.terminated;
+    if (current?.exitCode === 0) {
+      return {
+        name: 'Repository',
+        type: 'repository',
+        healthy: true,
+        status: 'Ready',
+        reason: current.message?.trim() || 'Repository is ready',
+        details,
+      };
+    }
+
+    // A failing init container is restarted, so the failure may only be in lastState
+    const failed = current || status?.lastState?.terminated;
+    if (failed) {
+      const message = failed.message?.trim() || failed.reason || `exit code ${failed.exitCode}`;
+      return {
+        name: 'Repository',
+        type: 'repository',
+        healthy: false,
+        status: 'CloneFailed',
+        reason: `Failed to clone ${url}: ${message}`,
+        details,
+      };
+    }
+
+    return {
+      name: 'Repository',
+      type: 'repository',
+      healthy: true,
+      status: status?.state?.running ? 'Cloning' : 'Pending',
+      reason: status?.state?.running ? `Cloning ${url}` : 'Waiting to clone the repository',
+      details,
+    };
+  }
+
   // Service operations
   async createService(namespace: string, name: string, labels: Record<string, string> = {}): Promise<void> {
     try {
@@ -1581,6 +2026,320 @@ cert: false`;
     }
   }
 
+  /**
+   * Requested size of a PVC and whether it is waiting for a pod restart to
+   * grow its filesystem. Returns null if the PVC doesn't exist.
+   */
+  async getPVCStorage(
+    name: string,
+    namespace: string
+  ): Promise<{ requested: string; capacity?: string; fileSystemResizePending: boolean } | null> {
+    try {
+      const pvc = await this.coreV1Api.readNamespacedPersistentVolumeClaim({ name, namespace });
+      return {
+        requested: pvc.spec?.resources?.requests?.storage || '0',
+        capacity: pvc.status?.capacity?.storage,
+        fileSystemResizePending: (pvc.status?.conditions || []).some(
+          condition => condition.type === 'FileSystemResizePending' && condition.status === 'True'
+        ),
+      };
+    } catch (error) {
+      const statusCode = error.statusCode || error.response?.statusCode || error.code;
+      if (statusCode === 404) {
+        return null;
+      }
+      throw new KubernetesError(`Failed to read PVC ${name}`, error);
+    }
+  }
+
+  /**
+   * Grow a PVC. Kubernetes only supports expansion, so shrinking is rejected.
+   */
+  async expandPVC(name: string, namespace: string, storage: string): Promise<void> {
+    try {
+      const pvc = await this.coreV1Api.readNamespacedPersistentVolumeClaim({ name, namespace });
+      const current = pvc.spec?.resources?.requests?.storage || '0';
+
+      if (this.parseKubernetesQuantity(storage, 'memory') < this.parseKubernetesQuantity(current, 'memory')) {
+        throw new ValidationError(`Storage cannot be reduced below ${current}`);
+      }
+
+      pvc.spec = {
+        ...pvc.spec,
+        resources: {
+          ...pvc.spec?.resources,
+          requests: {
+            ...pvc.spec?.resources?.requests,
+            storage,
+          },
+        },
+      };
+
+      await this.coreV1Api.replaceNamespacedPersistentVolumeClaim({ name, namespace, body: pvc });
+      logger.info(`PVC ${name} expanded from ${current} to ${storage} in namespace ${namespace}`);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      const statusCode = error.statusCode || error.response?.statusCode || error.code;
+      if (statusCode === 404) {
+        throw new NotFoundError(`PVC ${name} not found in namespace ${namespace}`);
+      }
+      throw new KubernetesError(`Failed to expand PVC ${name}`, error);
+    }
+  }
+
+  async waitForPVCDeletion(name: string, namespace: string, timeoutMs: number = 60000): Promise<void> {
+    const startTime = Date.now();
+    const pollInterval = 2000;
+
+    while (Date.now() - startTime < timeoutMs) {
+      if (!(await this.getPVCStorage(name, namespace))) {
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, pollInterval));
+    }
+
+    throw new KubernetesError(`Timeout waiting for PVC ${name} to be deleted`);
+  }
+
+  // PersistentVolume operations, used to hand a workspace volume to a PVC in another namespace
+  async getPVCVolumeName(name: string, namespace: string): Promise<string | null> {
+    try {
+      const pvc = await this.coreV1Api.readNamespacedPersistentVolumeClaim({ name, namespace });
+      return pvc.spec?.volumeName || null;
+    } catch (error) {
+      const statusCode = error.statusCode || error.response?.statusCode || error.code;
+      if (statusCode === 404) {
+        return null;
+      }
+      throw new KubernetesError(`Failed to read PVC ${name}`, error);
+    }
+  }
+
+  async setPersistentVolumeReclaimPolicy(name: string, policy: 'Retain' | 'Delete'): Promise<void> {
+    try {
+      const volume = await this.coreV1Api.readPersistentVolume({ name });
+      if (volume.spec?.persistentVolumeReclaimPolicy === policy) {
+        return;
+      }
+
+      volume.spec = { ...volume.spec, persistentVolumeReclaimPolicy: policy };
+      await this.coreV1Api.replacePersistentVolume({ name, body: volume });
+      logger.info(`PersistentVolume ${name} reclaim policy set to ${policy}`);
+    } catch (error) {
+      const statusCode = error.statusCode || error.response?.statusCode || error.code;
+      if (statusCode === 404) {
+        throw new NotFoundError(`PersistentVolume ${name} not found`);
+      }
+      throw new KubernetesError(`Failed to set reclaim policy of PersistentVolume ${name}`, error);
+    }
+  }
+
+  /**
+   * Make a Released volume available again by dropping its claim reference.
+   * Only a reference to a claim in `namespace` is dropped, so a volume that
+   * has already been bound elsewhere is left alone.
+   */
+  async releasePersistentVolume(name: string, namespace: string): Promise<void> {
+    try {
+      const volume = await this.coreV1Api.readPersistentVolume({ name });
+      if (volume.spec?.claimRef?.namespace !== namespace) {
+        return;
+      }
+
+      delete volume.spec.claimRef;
+      await this.coreV1Api.replacePersistentVolume({ name, body: volume });
+      logger.info(`PersistentVolume ${name} released from namespace ${namespace}`);
+    } catch (error) {
+      const statusCode = error.statusCode || error.response?.statusCode || error.code;
+      if (statusCode === 404) {
+        throw new NotFoundError(`PersistentVolume ${name} not found`);
+      }
+      throw new KubernetesError(`Failed to release PersistentVolume ${name}`, error);
+    }
+  }
+
+  /**
+   * Create the PVC a workspace StatefulSet would create for itself, bound to
+   * an existing volume. The StatefulSet adopts a PVC with the name its
+   * volumeClaimTemplate would use instead of provisioning a new one.
+   */
+  async createPVCForVolume(namespace: string, name: string, statefulSetName: string, volumeName: string): Promise<void> {
+    try {
+      const volume = await this.coreV1Api.readPersistentVolume({ name: volumeName });
+
+      const pvc: k8s.V1PersistentVolumeClaim = {
+        metadata: {
+          name,
+          namespace,
+          labels: {
+            app: statefulSetName,
+            'app.kubernetes.io/managed-by': 'vscode-platform',
+          },
+        },
+        spec: {
+          accessModes: ['ReadWriteOnce'],
+          storageClassName: volume.spec?.storageClassName || 'ebs-gp3',
+          volumeName,
+          resources: {
+            requests: {
+              storage: volume.spec?.capacity?.storage,
+            },
+          },
+        },
+      };
+
+      await this.coreV1Api.createNamespacedPersistentVolumeClaim({ namespace, body: pvc });
+      logger.info(`PVC ${name} created in namespace ${namespace} for volume ${volumeName}`);
+    } catch (error) {
+      throw new KubernetesError(`Failed to create PVC ${name} for volume ${volumeName}`, error);
+    }
+  }
+
+  /**
+   * Create the PVC of a StatefulSet that hasn't started a pod yet, from its
+   * volumeClaimTemplate but with another size. volumeClaimTemplates are
+   * immutable, and the StatefulSet adopts the PVC instead of creating its own.
+   */
+  async createStatefulSetPVC(namespace: string, statefulSetName: string, storage: string): Promise<void> {
+    try {
+      const statefulSet = await this.appsV1Api.readNamespacedStatefulSet({ name: statefulSetName, namespace });
+      const template = statefulSet.spec?.volumeClaimTemplates?.[0];
+      if (!template?.metadata?.name) {
+        throw new KubernetesError(`StatefulSet ${statefulSetName} has no volumeClaimTemplate`);
+      }
+
+      const pvc: k8s.V1PersistentVolumeClaim = {
+        metadata: {
+          name: `${template.metadata.name}-${statefulSetName}-0`,
+          namespace,
+          labels: template.metadata.labels,
+        },
+        spec: {
+          ...template.spec,
+          resources: {
+            ...template.spec?.resources,
+            requests: {
+              ...template.spec?.resources?.requests,
+              storage,
+            },
+          },
+        },
+      };
+
+      await this.coreV1Api.createNamespacedPersistentVolumeClaim({ namespace, body: pvc });
+      logger.info(`PVC ${pvc.metadata!.name} created with ${storage} in namespace ${namespace}`);
+    } catch (error) {
+      if (error instanceof KubernetesError) {
+        throw error;
+      }
+      const statusCode = error.statusCode || error.response?.statusCode || error.code;
+      if (statusCode === 404) {
+        throw new NotFoundError(`StatefulSet ${statefulSetName} not found in namespace ${namespace}`);
+      }
+      throw new KubernetesError(`Failed to create PVC for StatefulSet ${statefulSetName}`, error);
+    }
+  }
+
+  // VolumeSnapshot operations (CSI snapshot.storage.k8s.io)
+  async createVolumeSnapshot(
+    namespace: string,
+    name: string,
+    pvcName: string,
+    labels: Record<string, string> = {},
+    annotations: Record<string, string> = {}
+  ): Promise<any> {
+    try {
+      const snapshot = {
+        apiVersion: 'snapshot.storage.k8s.io/v1',
+        kind: 'VolumeSnapshot',
+        metadata: {
+          name,
+          namespace,
+          labels: {
+            'app.kubernetes.io/managed-by': 'vscode-platform',
+            ...labels,
+          },
+          annotations,
+        },
+        spec: {
+          volumeSnapshotClassName: config.volumeSnapshotClass,
+          source: {
+            persistentVolumeClaimName: pvcName,
+          },
+        },
+      };
+
+      const created = await this.customObjectsApi.createNamespacedCustomObject({
+        group: 'snapshot.storage.k8s.io',
+        version: 'v1',
+        namespace,
+        plural: 'volumesnapshots',
+        body: snapshot,
+      });
+      logger.info(`VolumeSnapshot created: ${name} of PVC ${pvcName} in namespace ${namespace}`);
+      return (created as any).body || created;
+    } catch (error) {
+      throw new KubernetesError(`Failed to create VolumeSnapshot ${name}`, error);
+    }
+  }
+
+  async listVolumeSnapshots(namespace: string, labelSelector?: string): Promise<any[]> {
+    try {
+      const result = await this.customObjectsApi.listNamespacedCustomObject({
+        group: 'snapshot.storage.k8s.io',
+        version: 'v1',
+        namespace,
+        plural: 'volumesnapshots',
+        labelSelector,
+      });
+      const body = (result as any).body || result;
+      return body.items || [];
+    } catch (error) {
+      throw new KubernetesError(`Failed to list VolumeSnapshots in namespace ${namespace}`, error);
+    }
+  }
+
+  async getVolumeSnapshot(namespace: string, name: string): Promise<any | null> {
+    try {
+      const result = await this.customObjectsApi.getNamespacedCustomObject({
+        group: 'snapshot.storage.k8s.io',
+        version: 'v1',
+        namespace,
+        plural: 'volumesnapshots',
+        name,
+      });
+      return (result as any).body || result;
+    } catch (error) {
+      const statusCode = error.statusCode || error.response?.statusCode || error.code;
+      if (statusCode === 404) {
+        return null;
+      }
+      throw new KubernetesError(`Failed to get VolumeSnapshot ${name}`, error);
+    }
+  }
+
+  async deleteVolumeSnapshot(namespace: string, name: string): Promise<void> {
+    try {
+      await this.customObjectsApi.deleteNamespacedCustomObject({
+        group: 'snapshot.storage.k8s.io',
+        version: 'v1',
+        namespace,
+        plural: 'volumesnapshots',
+        name,
+      });
+      logger.info(`VolumeSnapshot deleted: ${name} in namespace ${namespace}`);
+    } catch (error) {
+      const statusCode = error.statusCode || error.response?.statusCode || error.code;
+      if (statusCode === 404) {
+        logger.warn(`VolumeSnapshot not found for deletion: ${name}`);
+        return;
+      }
+      throw new KubernetesError(`Failed to delete VolumeSnapshot ${name}`, error);
+    }
+  }
+
   // Metrics operations
   async getNamespaceMetrics(namespace: string): Promise<ResourceUsage> {
     try {
@@ -1681,17 +2440,23 @@ cert: false`;
   }
 
   /**
-   * Execute a command in a pod and return streams for stdin/stdout/stderr
+   * Execute a command in a pod and return streams for stdin/stdout/stderr.
+   *
+   * Interactive shells use a TTY; pass `tty: false` to move binary data, e.g.
+   * file transfers. exitCode resolves once the command has finished.
    */
   async execIntoPod(
     namespace: string,
     podName: string,
     command: string[],
-    containerName?: string
-  ): Promise<{ stdin: any; stdout: any; stderr: any; on?: any; ws?: any }> {
+    containerName?: string,
+    options: { tty?: boolean } = {}
+  ): Promise<{ stdin: any; stdout: any; stderr: any; on?: any; ws?: any; exitCode: Promise<number> }> {
+    const tty = options.tty ?? true;
+
     return new Promise(async (resolve, reject) => {
       try {
-        logger.info('Starting exec session:', { namespace, podName, containerName, command });
+        logger.info('Starting exec session:', { namespace, podName, containerName, command, tty });
 
         // Get pod to find container name if not specified
         if (!containerName) {
@@ -1717,7 +2482,13 @@ cert: false`;
         // Track if we've resolved/rejected
         let settled = false;
 
-        // Start exec with TTY enabled for interactive shell
+        // The status channel reports how the command exited; a closed connection
+        // without a status counts as a failure
+        let resolveExitCode: (code: number) => void = () => undefined;
+        const exitCode = new Promise<number>(resolveExit => {
+          resolveExitCode = resolveExit;
+        });
+
         // Note: exec.exec returns a WebSocket connection object
         const ws = await exec.exec(
           namespace,
@@ -1727,9 +2498,10 @@ cert: false`;
           stdout as any,  // K8s expects Writable but PassThrough works for both
           stderr as any,
           stdin as any,
-          true,  // tty
+          tty,
           (status) => {
             logger.info('Exec session status:', { namespace, podName, containerName, status });
+            resolveExitCode(this.getExecExitCode(status));
             if (status.status === 'Failure' && !settled) {
               settled = true;
               reject(new Error(`Exec failed: ${status.message || 'Unknown error'}`));
@@ -1739,11 +2511,21 @@ cert: false`;
 
         // Handle WebSocket open event - this means the connection is established
         if (ws && typeof ws.on === 'function') {
+          ws.on('close', () => resolveExitCode(-1));
+
+          // exec.exec usually resolves once the connection is already open
+          if (ws.readyState === 1) {
+            settled = true;
+            logger.info('Exec session established:', { namespace, podName, containerName });
+            resolve({ stdin, stdout, stderr, on: ws.on?.bind(ws), ws, exitCode });
+            return;
+          }
+
           ws.on('open', () => {
             if (!settled) {
               settled = true;
               logger.info('Exec session established:', { namespace, podName, containerName });
-              resolve({ stdin, stdout, stderr, on: ws.on?.bind(ws), ws });
+              resolve({ stdin, stdout, stderr, on: ws.on?.bind(ws), ws, exitCode });
             }
           });
 
@@ -1765,13 +2547,13 @@ cert: false`;
             if (!settled) {
               settled = true;
               logger.info('Exec session established (timeout fallback):', { namespace, podName, containerName });
-              resolve({ stdin, stdout, stderr, on: ws.on?.bind(ws), ws });
+              resolve({ stdin, stdout, stderr, on: ws.on?.bind(ws), ws, exitCode });
             }
           }, 5000);
         } else {
           // No WebSocket returned, assume immediate success
           logger.info('Exec session established (immediate):', { namespace, podName, containerName });
-          resolve({ stdin, stdout, stderr });
+          resolve({ stdin, stdout, stderr, exitCode });
         }
       } catch (error) {
         logger.error('Failed to exec into pod:', {
@@ -1789,6 +2571,16 @@ cert: false`;
     });
   }
 
+  // Exit code from an exec status: 0 on success, the ExitCode cause otherwise
+  private getExecExitCode(status: k8s.V1Status): number {
+    if (status.status === 'Success') {
+      return 0;
+    }
+    const cause = status.details?.causes?.find(c => c.reason === 'ExitCode');
+    const code = cause?.message ? parseInt(cause.message, 10) : NaN;
+    return isNaN(code) ? -1 : code;
+  }
+
   private formatMemory(bytes: number): string {
     const units = [
       { name: 'Gi', size: 1024 * 1024 * 1024 },
@@ -1806,7 +2598,7 @@ cert: false`;
   }
 
   // Parse Kubernetes resource quantities (e.g., "1000m" = 1 CPU, "2Gi" = 2GiB)
-  private parseKubernetesQuantity(quantity: string, type: 'cpu' | 'memory'): number {
+  parseKubernetesQuantity(quantity: string, type: 'cpu' | 'memory'): number {
     if (!quantity) return 0;
 
     if (type === 'cpu') {
@@ -0,0 +1,966 @@
+import { hostname } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { logger } from '../config/logger';
+import {
+  Group,
+  Operation,
+  OperationStatus,
+  OperationStep,
+  OperationStepStatus,
+  OperationType,
+  Workspace,
+  WorkspaceStatus,
+} from '../types';
+import { NotFoundError } from '../utils/errors';
+import { dynamodbService } from './dynamodbService';
+import { kubernetesService } from './kubernetesService';
+import { workspaceEvents } from './workspaceEvents';
+import { WORKSPACE_ID_LABEL, workspaceSnapshotService } from './workspaceSnapshotService';
+import { workspaceEnvironmentService } from './workspaceEnvironmentService';
+import { workspaceAccessService } from './workspaceAccessService';
+
+interface StepContext {
+  operation: Operation;
+  workspaceId: string;
+  namespace: string | null;
+  k8sName: string;
+  snapshotName?: string;
+  sourceWorkspaceId?: string;
+  targetGroupId?: string;
+  targetNamespace?: string;
+  volumeName?: string; // PersistentVolume holding the workspace's files, if it has one yet
+  archivedBy?: string;
+}
+
+interface StepDefinition {
+  name: string;
+  description: string;
+  // Resolves to 'skipped' when there was nothing to do
+  run: (ctx: StepContext) => Promise<void | 'skipped'>;
+  rollback?: (ctx: StepContext) => Promise<void>;
+}
+
+// Operations are resumed from their current step after a crash, so every step
+// has to be safe to run twice. Creates that hit an existing resource count as done.
+async function ignoreAlreadyExists(fn: () => Promise<void>): Promise<void> {
+  try {
+    await fn();
+  } catch (error) {
+    const cause = error?.details || error;
+    const statusCode = cause?.statusCode || cause?.response?.statusCode || cause?.code;
+    if (statusCode === 409) {
+      return;
+    }
+    throw error;
+  }
+}
+
+async function requireWorkspace(workspaceId: string): Promise<Workspace> {
+  const workspace = await dynamodbService.getWorkspace(workspaceId);
+  if (!workspace) {
+    throw new NotFoundError(`Workspace ${workspaceId} not found`);
+  }
+  return workspace;
+}
+
+async function ensureGroupNamespace(groupId: string, namespace: string): Promise<void | 'skipped'> {
+  if (await kubernetesService.namespaceExists(namespace)) {
+    return 'skipped';
+  }
+
+  const group = await dynamodbService.getGroup(groupId);
+  logger.warn(`Namespace ${namespace} does not exist for group ${groupId}, creating it now`);
+  await kubernetesService.createNamespace(namespace, {
+    'codex-platform/group-id': groupId,
+    'codex-platform/group-name': group?.name || groupId,
+  });
+
+  if (group?.resourceQuota) {
+    await ignoreAlreadyExists(() => kubernetesService.createResourceQuota(namespace, group.resourceQuota));
+  }
+}
+
+// Same form as the url recorded when the workspace is created
+function workspaceUrl(namespace: string, k8sName: string): string {
+  return `https://preview.codexeditor.app/${namespace}/${k8sName}`;
+}
+
+const WORKSPACE_CREATE_STEPS: StepDefinition[] = [
+  {
+    name: 'namespace',
+    description: 'Ensure group namespace and resource quota',
+    run: ({ operation, namespace }) => ensureGroupNamespace(operation.groupId, namespace),
+  },
+  {
+    name: 'secret',
+    description: 'Create code-server config secret',
+    run: async ({ workspaceId, namespace, k8sName }) => {
+      const workspace = await requireWorkspace(workspaceId);
+      await ignoreAlreadyExists(() => kubernetesService.createCodeServerSecret(namespace, k8sName, workspace.password));
+    },
+    rollback: ({ namespace, k8sName }) => kubernetesService.deleteNamespacedSecret(`${k8sName}-config`, namespace),
+  },
+  {
+    name: 'environment',
+    description: 'Create environment variables secret',
+    run: async ({ workspaceId, namespace }) => {
+      const workspace = await requireWorkspace(workspaceId);
+      await workspaceEnvironmentService.writeSecret(workspace, namespace);
+    },
+    rollback: ({ namespace, k8sName }) => kubernetesService.deleteNamespacedSecret(`${k8sName}-env`, namespace),
+  },
+  {
+    name: 'statefulset',
+    description: 'Create StatefulSet and persistent storage',
+    run: async ({ workspaceId, namespace, k8sName, snapshotName }) => {
+      const workspace = await requireWorkspace(workspaceId);
+      // Clones are seeded from the snapshot taken of their source, and workspaces
+      // archived to a snapshot from that snapshot. An existing PVC is adopted as is.
+      const storageSource = snapshotName ? { kind: 'VolumeSnapshot' as const, name: snapshotName } : undefined;
+      await ignoreAlreadyExists(() =>
+        kubernetesService.createStatefulSet(namespace, k8sName, workspace.image, workspace.resources, {}, {
+          storageSource,
+          extensions: workspace.extensions,
+          repository: workspace.repository,
+        })
+      );
+    },
+    rollback: async ({ namespace, k8sName }) => {
+      await kubernetesService.deleteStatefulSet(namespace, k8sName);
+      await kubernetesService.deleteNamespacedPVC(`workspace-storage-${k8sName}-0`, namespace);
+    },
+  },
+  {
+    name: 'service',
+    description: 'Create workspace Service',
+    run: ({ namespace, k8sName }) => ignoreAlreadyExists(() => kubernetesService.createService(namespace, k8sName)),
+    rollback: ({ namespace, k8sName }) => kubernetesService.deleteNamespacedService(k8sName, namespace),
+  },
+  {
+    // The proxy is shared by every workspace in the namespace, so it is never rolled back
+    name: 'proxy',
+    description: 'Ensure nginx proxy Deployment and Service',
+    run: async ({ namespace }) => {
+      await kubernetesService.createNginxProxyDeployment(namespace);
+      await kubernetesService.createNginxProxyService(namespace);
+    },
+  },
+  {
+    name: 'proxy_config',
+    description: 'Add workspace to nginx proxy config',
+    run: ({ namespace, k8sName }) => kubernetesService.addWorkspaceToNginxProxyConfig(namespace, k8sName),
+    rollback: ({ namespace, k8sName }) => kubernetesService.removeWorkspaceFromNginxProxyConfig(namespace, k8sName),
+  },
+  {
+    // Rebuilt from all workspaces in the namespace; removing the proxy config above rebuilds it on rollback
+    name: 'route',
+    description: 'Create or update HTTPRoute',
+    run: ({ namespace, k8sName }) => kubernetesService.createOrUpdateHTTPRoute(namespace, `/${namespace}/${k8sName}`),
+  },
+];
+
+// The seed snapshot is labelled with the clone's id, so it outlives the source
+// workspace and is cleaned up with the clone
+const WORKSPACE_CLONE_STEPS: StepDefinition[] = [
+  {
+    name: 'snapshot',
+    description: 'Snapshot source workspace storage',
+    run: async ({ operation, workspaceId, snapshotName, sourceWorkspaceId }) => {
+      const workspace = await requireWorkspace(workspaceId);
+      const source = await requireWorkspace(sourceWorkspaceId);
+      await ignoreAlreadyExists(async () => {
+        await workspaceSnapshotService.create(workspace, {
+          name: snapshotName,
+          source,
+          description: `Cloned from ${source.name}`,
+          createdBy: operation.userId,
+        });
+      });
+    },
+    rollback: ({ namespace, snapshotName }) => kubernetesService.deleteVolumeSnapshot(namespace, snapshotName),
+  },
+  ...WORKSPACE_CREATE_STEPS,
+];
+
+const WORKSPACE_DELETE_STEPS: StepDefinition[] = [
+  {
+    name: 'statefulset',
+    description: 'Delete StatefulSet',
+    run: async ({ namespace, k8sName }) => {
+      if (!namespace) return 'skipped';
+      await kubernetesService.deleteStatefulSet(namespace, k8sName);
+    },
+  },
+  {
+    name: 'service',
+    description: 'Delete workspace Service',
+    run: async ({ namespace, k8sName }) => {
+      if (!namespace) return 'skipped';
+      await kubernetesService.deleteNamespacedService(k8sName, namespace);
+    },
+  },
+  {
+    name: 'secret',
+    description: 'Delete code-server config and environment secrets',
+    run: async ({ namespace, k8sName }) => {
+      if (!namespace) return 'skipped';
+      await kubernetesService.deleteNamespacedSecret(`${k8sName}-config`, namespace);
+      await kubernetesService.deleteNamespacedSecret(`${k8sName}-env`, namespace);
+    },
+  },
+  {
+    // StatefulSet volumeClaimTemplates create PVCs named <volumeName>-<statefulSetName>-<ordinal>
+    name: 'storage',
+    description: 'Delete persistent storage',
+    run: async ({ namespace, k8sName }) => {
+      if (!namespace) return 'skipped';
+      await kubernetesService.deleteNamespacedPVC(`workspace-storage-${k8sName}-0`, namespace);
+    },
+  },
+  {
+    // The shared nginx proxy Deployment, Service and HTTPRoute stay in place for the other workspaces
+    name: 'proxy_config',
+    description: 'Remove workspace from nginx proxy config',
+    run: async ({ namespace, k8sName }) => {
+      if (!namespace) return 'skipped';
+      await kubernetesService.removeWorkspaceFromNginxProxyConfig(namespace, k8sName);
+    },
+  },
+  {
+    name: 'snapshots',
+    description: 'Delete volume snapshots',
+    run: async ({ namespace, workspaceId }) => {
+      if (!namespace) return 'skipped';
+      const snapshots = await kubernetesService.listVolumeSnapshots(namespace, `${WORKSPACE_ID_LABEL}=${workspaceId}`);
+      if (snapshots.length === 0) return 'skipped';
+      for (const snapshot of snapshots) {
+        await kubernetesService.deleteVolumeSnapshot(namespace, snapshot.metadata.name);
+      }
+    },
+  },
+  {
+    name: 'record',
+    description: 'Delete workspace record',
+    run: async ({ workspaceId }) => {
+      await workspaceEnvironmentService.deleteAll('workspace', workspaceId);
+      await workspaceAccessService.removeAll(workspaceId);
+      await dynamodbService.deleteWorkspace(workspaceId);
+    },
+  },
+];
+
+// volumeClaimTemplates are immutable, so restoring means replacing the StatefulSet
+// and its PVC; the new PVC is provisioned from the snapshot on the next start
+const WORKSPACE_RESTORE_STEPS: StepDefinition[] = [
+  {
+    name: 'statefulset',
+    description: 'Delete StatefulSet',
+    run: async ({ namespace, k8sName }) => {
+      await kubernetesService.deleteStatefulSet(namespace, k8sName);
+      await kubernetesService.waitForStatefulSetDeletion(namespace, k8sName);
+    },
+  },
+  {
+    name: 'storage',
+    description: 'Delete current persistent storage',
+    run: async ({ namespace, k8sName }) => {
+      const pvcName = `workspace-storage-${k8sName}-0`;
+      await kubernetesService.deleteNamespacedPVC(pvcName, namespace);
+      await kubernetesService.waitForPVCDeletion(pvcName, namespace);
+    },
+  },
+  {
+    name: 'restore',
+    description: 'Recreate StatefulSet with storage from snapshot',
+    run: async ({ workspaceId, namespace, k8sName, snapshotName }) => {
+      const workspace = await requireWorkspace(workspaceId);
+      await ignoreAlreadyExists(() =>
+        kubernetesService.createStatefulSet(namespace, k8sName, workspace.image, workspace.resources, {}, {
+          storageSource: { kind: 'VolumeSnapshot', name: snapshotName },
+          extensions: workspace.extensions,
+          repository: workspace.repository,
+        })
+      );
+    },
+  },
+];
+
+// Moves a stopped workspace into another group's namespace. The volume itself
+// is handed over: it is set to Retain, its claim in the old namespace is
+// deleted and a claim with the same name is bound to it in the new one, which
+// the new StatefulSet adopts. Every step undoes itself so a failed move puts
+// the workspace back where it was.
+const WORKSPACE_MOVE_STEPS: StepDefinition[] = [
+  {
+    name: 'namespace',
+    description: 'Ensure target group namespace and resource quota',
+    run: ({ targetGroupId, targetNamespace }) => ensureGroupNamespace(targetGroupId, targetNamespace),
+  },
+  {
+    name: 'secret',
+    description: 'Create code-server config secret in target namespace',
+    run: async ({ workspaceId, targetNamespace, k8sName }) => {
+      const workspace = await requireWorkspace(workspaceId);
+      await ignoreAlreadyExists(() => kubernetesService.createCodeServerSecret(targetNamespace, k8sName, workspace.password));
+    },
+    rollback: ({ targetNamespace, k8sName }) => kubernetesService.deleteNamespacedSecret(`${k8sName}-config`, targetNamespace),
+  },
+  {
+    name: 'environment',
+    description: 'Create environment variables secret in target namespace',
+    run: async ({ workspaceId, targetGroupId, targetNamespace }) => {
+      // Group variables come from the group the workspace is moving to
+      const workspace = await requireWorkspace(workspaceId);
+      await workspaceEnvironmentService.writeSecret({ ...workspace, groupId: targetGroupId }, targetNamespace);
+    },
+    rollback: ({ targetNamespace, k8sName }) => kubernetesService.deleteNamespacedSecret(`${k8sName}-env`, targetNamespace),
+  },
+  {
+    name: 'source_statefulset',
+    description: 'Delete StatefulSet in current namespace',
+    run: async ({ namespace, k8sName }) => {
+      await kubernetesService.deleteStatefulSet(namespace, k8sName);
+      await kubernetesService.waitForStatefulSetDeletion(namespace, k8sName);
+    },
+    rollback: async ({ workspaceId, namespace, k8sName }) => {
+      const workspace = await requireWorkspace(workspaceId);
+      await ignoreAlreadyExists(() =>
+        kubernetesService.createStatefulSet(namespace, k8sName, workspace.image, workspace.resources, {}, {
+          extensions: workspace.extensions,
+          repository: workspace.repository,
+        })
+      );
+    },
+  },
+  {
+    name: 'retain_volume',
+    description: 'Keep the volume when its claim is deleted',
+    run: async ({ volumeName }) => {
+      if (!volumeName) return 'skipped';
+      await kubernetesService.setPersistentVolumeReclaimPolicy(volumeName, 'Retain');
+    },
+    // Workspace volumes are dynamically provisioned with the Delete policy
+    rollback: async ({ volumeName }) => {
+      if (volumeName) {
+        await kubernetesService.setPersistentVolumeReclaimPolicy(volumeName, 'Delete');
+      }
+    },
+  },
+  {
+    name: 'release_volume',
+    description: 'Release the volume from the current namespace',
+    run: async ({ namespace, k8sName, volumeName }) => {
+      if (!volumeName) return 'skipped';
+      const pvcName = `workspace-storage-${k8sName}-0`;
+      await kubernetesService.deleteNamespacedPVC(pvcName, namespace);
+      await kubernetesService.waitForPVCDeletion(pvcName, namespace);
+      await kubernetesService.releasePersistentVolume(volumeName, namespace);
+    },
+    rollback: async ({ namespace, k8sName, volumeName }) => {
+      if (!volumeName) return;
+      await kubernetesService.releasePersistentVolume(volumeName, namespace);
+      await ignoreAlreadyExists(() =>
+        kubernetesService.createPVCForVolume(namespace, `workspace-storage-${k8sName}-0`, k8sName, volumeName)
+      );
+    },
+  },
+  {
+    name: 'bind_volume',
+    description: 'Claim the volume in the target namespace',
+    run: async ({ targetNamespace, k8sName, volumeName }) => {
+      if (!volumeName) return 'skipped';
+      await ignoreAlreadyExists(() =>
+        kubernetesService.createPVCForVolume(targetNamespace, `workspace-storage-${k8sName}-0`, k8sName, volumeName)
+      );
+    },
+    rollback: async ({ targetNamespace, k8sName, volumeName }) => {
+      if (!volumeName) return;
+      const pvcName = `workspace-storage-${k8sName}-0`;
+      await kubernetesService.deleteNamespacedPVC(pvcName, targetNamespace);
+      await kubernetesService.waitForPVCDeletion(pvcName, targetNamespace);
+      await kubernetesService.releasePersistentVolume(volumeName, targetNamespace);
+    },
+  },
+  {
+    name: 'statefulset',
+    description: 'Create StatefulSet in target namespace',
+    run: async ({ workspaceId, targetNamespace, k8sName }) => {
+      const workspace = await requireWorkspace(workspaceId);
+      await ignoreAlreadyExists(() =>
+        kubernetesService.createStatefulSet(targetNamespace, k8sName, workspace.image, workspace.resources, {}, {
+          extensions: workspace.extensions,
+          repository: workspace.repository,
+        })
+      );
+    },
+    // The claim is removed by bind_volume's rollback, which keeps the volume
+    rollback: async ({ targetNamespace, k8sName }) => {
+      await kubernetesService.deleteStatefulSet(targetNamespace, k8sName);
+      await kubernetesService.waitForStatefulSetDeletion(targetNamespace, k8sName);
+    },
+  },
+  {
+    name: 'service',
+    description: 'Create workspace Service in target namespace',
+    run: ({ targetNamespace, k8sName }) => ignoreAlreadyExists(() => kubernetesService.createService(targetNamespace, k8sName)),
+    rollback: ({ targetNamespace, k8sName }) => kubernetesService.deleteNamespacedService(k8sName, targetNamespace),
+  },
+  {
+    name: 'proxy',
+    description: 'Ensure nginx proxy Deployment and Service in target namespace',
+    run: async ({ targetNamespace }) => {
+      await kubernetesService.createNginxProxyDeployment(targetNamespace);
+      await kubernetesService.createNginxProxyService(targetNamespace);
+    },
+  },
+  {
+    name: 'proxy_config',
+    description: 'Add workspace to target nginx proxy config',
+    run: ({ targetNamespace, k8sName }) => kubernetesService.addWorkspaceToNginxProxyConfig(targetNamespace, k8sName),
+    rollback: ({ targetNamespace, k8sName }) => kubernetesService.removeWorkspaceFromNginxProxyConfig(targetNamespace, k8sName),
+  },
+  {
+    name: 'route',
+    description: 'Create or update HTTPRoute in target namespace',
+    run: ({ targetNamespace, k8sName }) =>
+      kubernetesService.createOrUpdateHTTPRoute(targetNamespace, `/${targetNamespace}/${k8sName}`),
+  },
+  {
+    name: 'record',
+    description: 'Move workspace record to target group',
+    run: async ({ workspaceId, targetGroupId, targetNamespace, k8sName }) => {
+      const group = await dynamodbService.getGroup(targetGroupId);
+      if (!group) {
+        throw new NotFoundError(`Group ${targetGroupId} not found`);
+      }
+      await dynamodbService.updateWorkspace(workspaceId, {
+        groupId: group.id,
+        groupName: group.displayName,
+        url: workspaceUrl(targetNamespace, k8sName),
+      });
+    },
+    rollback: async ({ operation, workspaceId, namespace, k8sName }) => {
+      const group = await dynamodbService.getGroup(operation.groupId);
+      await dynamodbService.updateWorkspace(workspaceId, {
+        groupId: operation.groupId,
+        groupName: group?.displayName,
+        url: workspaceUrl(namespace, k8sName),
+      });
+    },
+  },
+  {
+    // The config is rebuilt from the Services in the namespace, so the Service goes first
+    name: 'source_cleanup',
+    description: 'Remove workspace from current namespace',
+    run: async ({ namespace, k8sName }) => {
+      await kubernetesService.deleteNamespacedService(k8sName, namespace);
+      await kubernetesService.removeWorkspaceFromNginxProxyConfig(namespace, k8sName);
+      await kubernetesService.deleteNamespacedSecret(`${k8sName}-config`, namespace);
+      await kubernetesService.deleteNamespacedSecret(`${k8sName}-env`, namespace);
+    },
+    rollback: async ({ workspaceId, namespace, k8sName }) => {
+      const workspace = await requireWorkspace(workspaceId);
+      await ignoreAlreadyExists(() => kubernetesService.createCodeServerSecret(namespace, k8sName, workspace.password));
+      await workspaceEnvironmentService.writeSecret(workspace, namespace);
+      await ignoreAlreadyExists(() => kubernetesService.createService(namespace, k8sName));
+      await kubernetesService.addWorkspaceToNginxProxyConfig(namespace, k8sName);
+      await kubernetesService.createOrUpdateHTTPRoute(namespace, `/${namespace}/${k8sName}`);
+    },
+  },
+  {
+    name: 'reclaim_policy',
+    description: 'Delete the volume with its claim again',
+    run: async ({ volumeName }) => {
+      if (!volumeName) return 'skipped';
+      await kubernetesService.setPersistentVolumeReclaimPolicy(volumeName, 'Delete');
+    },
+  },
+  {
+    // VolumeSnapshots can only be restored within their own namespace
+    name: 'snapshots',
+    description: 'Delete volume snapshots in the previous namespace',
+    run: async ({ namespace, workspaceId }) => {
+      const snapshots = await kubernetesService.listVolumeSnapshots(namespace, `${WORKSPACE_ID_LABEL}=${workspaceId}`);
+      if (snapshots.length === 0) return 'skipped';
+      for (const snapshot of snapshots) {
+        await kubernetesService.deleteVolumeSnapshot(namespace, snapshot.metadata.name);
+      }
+    },
+  },
+];
+
+// Tears down everything but the volume. In 'snapshot' mode (snapshotName is
+// set) the volume is snapshotted first and deleted too.
+const WORKSPACE_ARCHIVE_STEPS: StepDefinition[] = [
+  {
+    name: 'snapshot',
+    description: 'Snapshot workspace storage',
+    run: async ({ operation, workspaceId, snapshotName }) => {
+      if (!snapshotName) return 'skipped';
+      const workspace = await requireWorkspace(workspaceId);
+      await ignoreAlreadyExists(async () => {
+        await workspaceSnapshotService.create(workspace, {
+          name: snapshotName,
+          description: 'Archived',
+          createdBy: operation.context.archivedBy || operation.userId,
+        });
+      });
+    },
+  },
+  {
+    name: 'statefulset',
+    description: 'Delete StatefulSet',
+    run: async ({ namespace, k8sName }) => {
+      await kubernetesService.deleteStatefulSet(namespace, k8sName);
+      await kubernetesService.waitForStatefulSetDeletion(namespace, k8sName);
+    },
+  },
+  {
+    // The snapshot controller holds the PVC back with a finalizer until the
+    // snapshot has been cut, so there's no need to wait for it here
+    name: 'storage',
+    description: 'Delete persistent storage',
+    run: async ({ namespace, k8sName, snapshotName }) => {
+      if (!snapshotName) return 'skipped';
+      await kubernetesService.deleteNamespacedPVC(`workspace-storage-${k8sName}-0`, namespace);
+    },
+  },
+  {
+    name: 'service',
+    description: 'Delete workspace Service',
+    run: ({ namespace, k8sName }) => kubernetesService.deleteNamespacedService(k8sName, namespace),
+  },
+  {
+    // Rebuilt from the Services left in the namespace, along with the HTTPRoute
+    name: 'proxy_config',
+    description: 'Remove workspace from nginx proxy config and HTTPRoute',
+    run: ({ namespace, k8sName }) => kubernetesService.removeWorkspaceFromNginxProxyConfig(namespace, k8sName),
+  },
+  {
+    name: 'secret',
+    description: 'Delete code-server config and environment secrets',
+    run: async ({ namespace, k8sName }) => {
+      await kubernetesService.deleteNamespacedSecret(`${k8sName}-config`, namespace);
+      await kubernetesService.deleteNamespacedSecret(`${k8sName}-env`, namespace);
+    },
+  },
+];
+
+const STEP_DEFINITIONS: Record<OperationType, StepDefinition[]> = {
+  'workspace.create': WORKSPACE_CREATE_STEPS,
+  'workspace.clone': WORKSPACE_CLONE_STEPS,
+  'workspace.delete': WORKSPACE_DELETE_STEPS,
+  'workspace.restore': WORKSPACE_RESTORE_STEPS,
+  'workspace.move': WORKSPACE_MOVE_STEPS,
+  'workspace.archive': WORKSPACE_ARCHIVE_STEPS,
+  // Unarchiving provisions the workspace again around its kept volume or snapshot
+  'workspace.unarchive': WORKSPACE_CREATE_STEPS,
+};
+
+// Operations that fail are rolled back; the others just stop and can be retried.
+// Unarchive must never roll back, since undoing its steps would delete the kept volume.
+const ROLLBACK_ON_FAILURE: Record<OperationType, boolean> = {
+  'workspace.create': true,
+  'workspace.clone': true,
+  'workspace.delete': false,
+  'workspace.restore': false,
+  'workspace.move': true,
+  'workspace.archive': false,
+  'workspace.unarchive': false,
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Runs multi-step provisioning work (workspace create/clone/delete/restore/move/
+ * archive/unarchive) in the
+ * background and records every step on an Operation so clients can follow
+ * progress at /api/operations/:id.
+ *
+ * Each process holds a lease on the operations it is running. A periodic sweep
+ * picks up operations whose lease has lapsed (e.g. the backend crashed midway)
+ * and either resumes them from the step they were on or, if they were already
+ * rolling back, finishes the rollback.
+ */
+class OperationService {
+  private readonly instanceId = `${hostname()}-${process.pid}-${uuidv4().substring(0, 8)}`;
+  private activeOperations = new Set<string>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  start(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    logger.info('Starting operation recovery sweep', {
+      instanceId: this.instanceId,
+      sweepIntervalMs: config.operationSweepIntervalMs,
+    });
+
+    this.resumeIncomplete().catch(error => logger.error('Initial operation recovery failed:', error));
+    this.sweepTimer = setInterval(() => {
+      this.resumeIncomplete().catch(error => logger.error('Operation recovery failed:', error));
+    }, config.operationSweepIntervalMs);
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    logger.info('Operation recovery sweep stopped');
+  }
+
+  async startWorkspaceCreate(workspace: Workspace, namespace: string): Promise<Operation> {
+    return this.startOperation('workspace.create', workspace, {
+      namespace,
+      k8sName: `workspace-${workspace.id.substring(3)}`.toLowerCase(),
+    });
+  }
+
+  /**
+   * Create `workspace` with its volume seeded from a fresh snapshot of `source`,
+   * which must be in the same namespace
+   */
+  async startWorkspaceClone(workspace: Workspace, namespace: string, source: Workspace): Promise<Operation> {
+    return this.startOperation('workspace.clone', workspace, {
+      namespace,
+      k8sName: `workspace-${workspace.id.substring(3)}`.toLowerCase(),
+      snapshotName: workspaceSnapshotService.generateName(workspace),
+      sourceWorkspaceId: source.id,
+    });
+  }
+
+  async startWorkspaceDelete(workspace: Workspace, namespace: string | null): Promise<Operation> {
+    return this.startOperation('workspace.delete', workspace, {
+      namespace,
+      k8sName: `workspace-${workspace.id.substring(3)}`.toLowerCase(),
+    });
+  }
+
+  async startWorkspaceRestore(workspace: Workspace, namespace: string, snapshotName: string): Promise<Operation> {
+    return this.startOperation('workspace.restore', workspace, {
+      namespace,
+      k8sName: `workspace-${workspace.id.substring(3)}`.toLowerCase(),
+      snapshotName,
+    });
+  }
+
+  /**
+   * Move a stopped workspace from `namespace` into `targetGroup`'s namespace.
+   * `volumeName` is the PersistentVolume bound to its PVC, if it has one yet.
+   */
+  async startWorkspaceMove(
+    workspace: Workspace,
+    namespace: string,
+    targetGroup: Group,
+    volumeName: string | null
+  ): Promise<Operation> {
+    return this.startOperation('workspace.move', workspace, {
+      namespace,
+      k8sName: `workspace-${workspace.id.substring(3)}`.toLowerCase(),
+      targetGroupId: targetGroup.id,
+      targetNamespace: targetGroup.namespace,
+      ...(volumeName ? { volumeName } : {}),
+    });
+  }
+
+  /**
+   * Archive a stopped workspace. With `snapshotName` the volume is snapshotted
+   * and deleted; otherwise it is kept.
+   */
+  async startWorkspaceArchive(
+    workspace: Workspace,
+    namespace: string,
+    snapshotName: string | null,
+    archivedBy: string
+  ): Promise<Operation> {
+    return this.startOperation('workspace.archive', workspace, {
+      namespace,
+      k8sName: `workspace-${workspace.id.substring(3)}`.toLowerCase(),
+      archivedBy,
+      ...(snapshotName ? { snapshotName } : {}),
+    });
+  }
+
+  async startWorkspaceUnarchive(workspace: Workspace, namespace: string): Promise<Operation> {
+    return this.startOperation('workspace.unarchive', workspace, {
+      namespace,
+      k8sName: `workspace-${workspace.id.substring(3)}`.toLowerCase(),
+      ...(workspace.archive?.snapshotName ? { snapshotName: workspace.archive.snapshotName } : {}),
+    });
+  }
+
+  /**
+   * Strip lease bookkeeping and step context, which are internal to the backend
+   */
+  toResponse(operation: Operation): Omit<Operation, 'leaseOwner' | 'leaseExpiresAt' | 'context'> {
+    const visible: Partial<Operation> = { ...operation };
+    delete visible.leaseOwner;
+    delete visible.leaseExpiresAt;
+    delete visible.context;
+    return visible as Omit<Operation, 'leaseOwner' | 'leaseExpiresAt' | 'context'>;
+  }
+
+  /**
+   * Pick up operations left behind by a crashed or restarted backend
+   */
+  async resumeIncomplete(): Promise<void> {
+    const operations = await dynamodbService.listIncompleteOperations();
+    const now = new Date().toISOString();
+
+    for (const operation of operations) {
+      if (this.activeOperations.has(operation.id)) {
+        continue;
+      }
+      if (operation.leaseExpiresAt && operation.leaseExpiresAt > now) {
+        continue;
+      }
+
+      logger.info(`Resuming operation ${operation.id} (${operation.type}) from status ${operation.status}`);
+      await this.execute(operation.id);
+    }
+  }
+
+  /**
+   * Claim and run an operation to completion. Safe to call concurrently from
+   * several processes; only the lease holder does any work.
+   */
+  async execute(operationId: string): Promise<void> {
+    if (this.activeOperations.has(operationId)) {
+      return;
+    }
+
+    const operation = await dynamodbService.claimOperation(operationId, this.instanceId, config.operationLeaseMs);
+    if (!operation) {
+      logger.debug(`Operation ${operationId} is held by another process`);
+      return;
+    }
+
+    this.activeOperations.add(operationId);
+    try {
+      if (operation.status === OperationStatus.ROLLING_BACK) {
+        await this.rollback(operation, operation.error || 'Operation failed');
+      } else {
+        await this.runSteps(operation);
+      }
+    } catch (error) {
+      // Bookkeeping itself failed (e.g. DynamoDB unavailable); the sweep retries once the lease lapses
+      logger.error(`Operation ${operationId} interrupted:`, error);
+    } finally {
+      this.activeOperations.delete(operationId);
+    }
+  }
+
+  private async startOperation(
+    type: OperationType,
+    workspace: Workspace,
+    context: {
+      namespace: string | null;
+      k8sName: string;
+      snapshotName?: string;
+      sourceWorkspaceId?: string;
+      targetGroupId?: string;
+      targetNamespace?: string;
+      volumeName?: string;
+      archivedBy?: string;
+    }
+  ): Promise<Operation> {
+    const operation = await dynamodbService.createOperation({
+      id: `op_${uuidv4().replace(/-/g, '')}`,
+      type,
+      status: OperationStatus.PENDING,
+      resource: `workspace:${workspace.id}`,
+      workspaceId: workspace.id,
+      groupId: workspace.groupId,
+      userId: workspace.userId,
+      steps: STEP_DEFINITIONS[type].map(step => ({
+        name: step.name,
+        description: step.description,
+        status: 'pending' as OperationStepStatus,
+      })),
+      context,
+    });
+
+    // Run in the background; the caller polls the operation for progress
+    this.execute(operation.id).catch(error => logger.error(`Operation ${operation.id} failed to start:`, error));
+
+    return operation;
+  }
+
+  private buildContext(operation: Operation): StepContext {
+    return {
+      operation,
+      workspaceId: operation.workspaceId,
+      namespace: operation.context.namespace || null,
+      k8sName: operation.context.k8sName,
+      snapshotName: operation.context.snapshotName,
+      sourceWorkspaceId: operation.context.sourceWorkspaceId,
+      targetGroupId: operation.context.targetGroupId,
+      targetNamespace: operation.context.targetNamespace,
+      volumeName: operation.context.volumeName,
+      archivedBy: operation.context.archivedBy,
+    };
+  }
+
+  private async save(operation: Operation, updates: Partial<Operation>): Promise<Operation> {
+    return dynamodbService.updateOperation(operation.id, {
+      ...updates,
+      leaseOwner: this.instanceId,
+      leaseExpiresAt: new Date(Date.now() + config.operationLeaseMs).toISOString(),
+    });
+  }
+
+  private async saveStep(operation: Operation, index: number, updates: Partial<OperationStep>): Promise<Operation> {
+    const steps = operation.steps.map((step, i) => (i === index ? { ...step, ...updates } : step));
+    return this.save(operation, { steps });
+  }
+
+  private async runSteps(operation: Operation): Promise<void> {
+    const definitions = STEP_DEFINITIONS[operation.type];
+    operation = await this.save(operation, { status: OperationStatus.RUNNING });
+
+    for (let i = 0; i < definitions.length; i++) {
+      const step = operation.steps[i];
+      if (step.status === 'succeeded' || step.status === 'skipped') {
+        continue;
+      }
+
+      operation = await this.saveStep(operation, i, {
+        status: 'running',
+        startedAt: new Date().toISOString(),
+      });
+
+      try {
+        const result = await definitions[i].run(this.buildContext(operation));
+        operation = await this.saveStep(operation, i, {
+          status: result === 'skipped' ? 'skipped' : 'succeeded',
+          completedAt: new Date().toISOString(),
+        });
+      } catch (error) {
+        const message = errorMessage(error);
+        logger.error(`Operation ${operation.id} step ${step.name} failed:`, error);
+        operation = await this.saveStep(operation, i, {
+          status: 'failed',
+          completedAt: new Date().toISOString(),
+          error: message,
+        });
+
+        if (ROLLBACK_ON_FAILURE[operation.type]) {
+          await this.rollback(operation, message);
+        } else {
+          await this.finish(operation, OperationStatus.FAILED, message);
+        }
+        return;
+      }
+    }
+
+    await this.finish(operation, OperationStatus.SUCCEEDED);
+  }
+
+  /**
+   * Undo completed steps in reverse order. Rollback errors are recorded on the
+   * step but don't stop the remaining rollbacks.
+   */
+  private async rollback(operation: Operation, reason: string): Promise<void> {
+    const definitions = STEP_DEFINITIONS[operation.type];
+    operation = await this.save(operation, { status: OperationStatus.ROLLING_BACK, error: reason });
+
+    for (let i = definitions.length - 1; i >= 0; i--) {
+      const step = operation.steps[i];
+      // Failed and interrupted steps may have partially applied, so they are undone too
+      if (step.status !== 'succeeded' && step.status !== 'failed' && step.status !== 'running') {
+        continue;
+      }
+
+      const definition = definitions[i];
+      if (!definition.rollback) {
+        continue;
+      }
+
+      try {
+        await definition.rollback(this.buildContext(operation));
+        operation = await this.saveStep(operation, i, { status: 'rolled_back' });
+      } catch (error) {
+        logger.warn(`Operation ${operation.id} rollback of step ${step.name} failed:`, error);
+        operation = await this.saveStep(operation, i, { error: `Rollback failed: ${errorMessage(error)}` });
+      }
+    }
+
+    await this.finish(operation, OperationStatus.FAILED, reason);
+  }
+
+  private async finish(operation: Operation, status: OperationStatus, error?: string): Promise<void> {
+    await this.onFinished(operation, status);
+
+    await dynamodbService.updateOperation(operation.id, {
+      status,
+      error,
+      completedAt: new Date().toISOString(),
+      leaseExpiresAt: new Date().toISOString(),
+    });
+
+    logger.info(`Operation ${operation.id} (${operation.type} ${operation.resource}) ${status}`, error ? { error } : undefined);
+  }
+
+  // Bring the workspace record in line with the outcome of the operation
+  private async onFinished(operation: Operation, status: OperationStatus): Promise<void> {
+    try {
+      if (operation.type === 'workspace.create' || operation.type === 'workspace.clone') {
+        if (status === OperationStatus.SUCCEEDED) {
+          // StatefulSets are created with 0 replicas
+          const workspace = await dynamodbService.updateWorkspace(operation.workspaceId, {
+            status: WorkspaceStatus.STOPPED,
+          });
+          workspaceEvents.publishStatus(workspace);
+        } else {
+          await dynamodbService.deleteWorkspace(operation.workspaceId);
+        }
+      } else if (operation.type === 'workspace.delete' && status !== OperationStatus.SUCCEEDED) {
+        // A failed purge goes back to the trash so the purge job retries it
+        const current = await dynamodbService.getWorkspace(operation.workspaceId);
+        const workspace = await dynamodbService.updateWorkspace(operation.workspaceId, {
+          status: current?.trash ? WorkspaceStatus.TRASHED : WorkspaceStatus.ERROR,
+        });
+        workspaceEvents.publishStatus(workspace);
+      } else if (operation.type === 'workspace.archive') {
+        const workspace = await dynamodbService.updateWorkspace(operation.workspaceId, status === OperationStatus.SUCCEEDED
+          ? {
+              status: WorkspaceStatus.ARCHIVED,
+              replicas: 0,
+              archive: {
+                mode: operation.context.snapshotName ? 'snapshot' : 'volume',
+                ...(operation.context.snapshotName ? { snapshotName: operation.context.snapshotName } : {}),
+                archivedAt: new Date().toISOString(),
+                archivedBy: operation.context.archivedBy || operation.userId,
+              },
+            }
+          : { status: WorkspaceStatus.ERROR });
+        workspaceEvents.publishStatus(workspace);
+      } else if (operation.type === 'workspace.unarchive') {
+        // A failed unarchive stays archived so it can be retried; its steps are safe to run again
+        const workspace = await dynamodbService.updateWorkspace(operation.workspaceId, status === OperationStatus.SUCCEEDED
+          ? { status: WorkspaceStatus.STOPPED, replicas: 0, archive: null }
+          : { status: WorkspaceStatus.ARCHIVED });
+        workspaceEvents.publishStatus(workspace);
+      } else if (operation.type === 'workspace.restore' || operation.type === 'workspace.move') {
+        // The recreated StatefulSet has 0 replicas
+        const workspace = await dynamodbService.updateWorkspace(operation.workspaceId, {
+          status: status === OperationStatus.SUCCEEDED ? WorkspaceStatus.STOPPED : WorkspaceStatus.ERROR,
+          replicas: 0,
+        });
+        workspaceEvents.publishStatus(workspace);
+      }
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
+  }
+}
+
+export const operationService = new OperationService();
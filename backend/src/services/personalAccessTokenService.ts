@@ -0,0 +1,197 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../config/logger';
+import { CreatePersonalAccessTokenRequest, PersonalAccessToken, TokenScope, User } from '../types';
+import { AuthenticationError, AuthorizationError, ConflictError, NotFoundError } from '../utils/errors';
+import { dynamodbService } from './dynamodbService';
+
+export const TOKEN_SCOPES: TokenScope[] = ['workspaces:read', 'workspaces:control', 'workspaces:write', 'workspaces:exec'];
+
+// Tokens look like pat_<id>.<secret>, so the record can be looked up by id
+const TOKEN_ID_PATTERN = /^pat_[0-9a-f]{32}$/;
+
+const MAX_TOKENS_PER_USER = 20;
+
+// lastUsedAt is only written when it is older than this, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export type PersonalAccessTokenResponse = Omit<PersonalAccessToken, 'tokenHash'>;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Personal access tokens let scripts and CI jobs call the workspace API
+ * without a browser login. A token acts as its owner, limited to its scopes;
+ * everything outside the workspace API is refused.
+ */
+class PersonalAccessTokenService {
+  isPersonalAccessToken(token: string): boolean {
+    return token.startsWith('pat_');
+  }
+
+  /**
+   * Create a token. The secret is only returned here; we keep its hash.
+   */
+  async create(
+    user: User,
+    request: CreatePersonalAccessTokenRequest
+  ): Promise<{ token: string; personalAccessToken: PersonalAccessTokenResponse }> {
+    const existing = await dynamodbService.listUserPersonalAccessTokens(user.id);
+    if (existing.length >= MAX_TOKENS_PER_USER) {
+      throw new ConflictError(`You can have at most ${MAX_TOKENS_PER_USER} personal access tokens; revoke one first`);
+    }
+
+    const id = `pat_${uuidv4().replace(/-/g, '')}`;
+    const token = `${id}.${randomBytes(32).toString('base64url')}`;
+    const now = new Date();
+
+    const personalAccessToken: PersonalAccessToken = {
+      id,
+      userId: user.id,
+      name: request.name.trim(),
+      scopes: TOKEN_SCOPES.filter(scope => request.scopes.includes(scope)),
+      tokenHash: hashToken(token),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + request.expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+    };
+
+    await dynamodbService.createPersonalAccessToken(personalAccessToken);
+    logger.info('Personal access token created:', { tokenId: id, userId: user.id, scopes: personalAccessToken.scopes });
+
+    return { token, personalAccessToken: this.toResponse(personalAccessToken) };
+  }
+
+  async list(userId: string): Promise<PersonalAccessTokenResponse[]> {
+    const tokens = await dynamodbService.listUserPersonalAccessTokens(userId);
+    return tokens.map(token => this.toResponse(token));
+  }
+
+  async revoke(userId: string, tokenId: string): Promise<PersonalAccessTokenResponse> {
+    const token = await dynamodbService.getPersonalAccessToken(tokenId);
+    if (!token || token.userId !== userId) {
+      throw new NotFoundError('Personal access token not found');
+    }
+
+    await dynamodbService.deletePersonalAccessToken(tokenId);
+    logger.info('Personal access token revoked:', { tokenId, userId });
+
+    return this.toResponse(token);
+  }
+
+  /**
+   * Resolve a presented token to its owner. Unknown, tampered and expired
+   * tokens are all rejected as unauthenticated.
+   */
+  async verify(token: string): Promise<{ user: User; personalAccessToken: PersonalAccessToken }> {
+    const id = token.split('.')[0];
+    const personalAccessToken = TOKEN_ID_PATTERN.test(id)
+      ? await dynamodbService.getPersonalAccessToken(id)
+      : null;
+
+    if (!personalAccessToken || !this.hashMatches(personalAccessToken.tokenHash, token)) {
+      throw new AuthenticationError('Invalid personal access token');
+    }
+    if (new Date(personalAccessToken.expiresAt).getTime() <= Date.now()) {
+      throw new AuthenticationError('Personal access token has expired');
+    }
+
+    const user = await dynamodbService.getUser(personalAccessToken.userId);
+    if (!user) {
+      throw new AuthenticationError('Invalid personal access token');
+    }
+    if (user.disabled) {
+      throw new AuthenticationError('Account is disabled');
+    }
+
+    return { user, personalAccessToken };
+  }
+
+  /**
+   * The scope a request needs, or null when tokens may not be used for it at all
+   */
+  requiredScope(method: string, path: string): TokenScope | null {
+    const readOnly = method === 'GET' || method === 'HEAD';
+
+    if (path === '/api/workspaces' || path.startsWith('/api/workspaces/')) {
+      if (/^\/api\/workspaces\/[^/]+\/exec(-sessions)?(\/|$)/.test(path)) {
+        return 'workspaces:exec';
+      }
+      if (readOnly) {
+        return 'workspaces:read';
+      }
+      if (method === 'POST' && /^\/api\/workspaces\/[^/]+\/actions\/?$/.test(path)) {
+        return 'workspaces:control';
+      }
+      return 'workspaces:write';
+    }
+
+    // Progress of operations, and the groups and templates needed to create workspaces
+    if (readOnly && /^\/api\/(operations|groups|templates)(\/|$)/.test(path)) {
+      return 'workspaces:read';
+    }
+
+    return null;
+  }
+
+  /**
+   * Check the token's scopes against a request and record the use in the audit log
+   */
+  async authorizeRequest(personalAccessToken: PersonalAccessToken, user: User, method: string, path: string): Promise<void> {
+    const scope = this.requiredScope(method, path);
+    const allowed = scope !== null && personalAccessToken.scopes.includes(scope);
+
+    await dynamodbService.createAuditLog({
+      userId: user.id,
+      username: user.username,
+      action: 'personal_access_token_used',
+      resource: `user:${user.id}`,
+      details: { tokenId: personalAccessToken.id, tokenName: personalAccessToken.name, method, path, scope },
+      success: allowed,
+    });
+
+    if (!scope) {
+      throw new AuthorizationError('Personal access tokens cannot be used for this request');
+    }
+    if (!allowed) {
+      throw new AuthorizationError(`Personal access token is missing the ${scope} scope`);
+    }
+
+    await this.touch(personalAccessToken);
+  }
+
+  private async touch(personalAccessToken: PersonalAccessToken): Promise<void> {
+    const now = new Date();
+    if (personalAccessToken.lastUsedAt &&
+        now.getTime() - new Date(personalAccessToken.lastUsedAt).getTime() < LAST_USED_RESOLUTION_MS) {
+      return;
+    }
+
+    try {
+      await dynamodbService.updatePersonalAccessTokenLastUsed(personalAccessToken.id, now.toISOString());
+    } catch (error) {
+      logger.warn('Failed to record personal access token use:', { tokenId: personalAccessToken.id, error });
+    }
+  }
+
+  private hashMatches(expectedHash: string, token: string): boolean {
+    const expected = Buffer.from(expectedHash, 'hex');
+    const actual = Buffer.from(hashToken(token), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private toResponse(token: PersonalAccessToken): PersonalAccessTokenResponse {
+    return {
+      id: token.id,
+      userId: token.userId,
+      name: token.name,
+      scopes: token.scopes,
+      createdAt: token.createdAt,
+      expiresAt: token.expiresAt,
+      lastUsedAt: token.lastUsedAt,
+    };
+  }
+}
+
+export const personalAccessTokenService = new PersonalAccessTokenService();
@@ -0,0 +1,541 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { Group, User } from '../types';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { cognitoService } from './cognitoService';
+import { dynamodbService } from './dynamodbService';
+import { userService } from './userService';
+
+export const SCIM_SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  serviceProviderConfig: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+};
+
+// Upper bound for count on list requests
+const MAX_RESULTS = 200;
+
+export interface ScimUser {
+  schemas: string[];
+  id: string;
+  externalId?: string;
+  userName: string;
+  displayName?: string;
+  name?: { formatted?: string };
+  emails: Array<{ value: string; primary: boolean }>;
+  active: boolean;
+  groups: Array<{ value: string; display: string }>;
+  meta: { resourceType: 'User'; created: string };
+}
+
+export interface ScimGroup {
+  schemas: string[];
+  id: string;
+  displayName: string;
+  members?: Array<{ value: string; display: string }>;
+  meta: { resourceType: 'Group'; created: string };
+}
+
+export interface ScimListResponse<T> {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: T[];
+}
+
+// The user attributes the platform stores, as sent on POST and PUT
+export interface ScimUserRequest {
+  userName: string;
+  externalId?: string;
+  displayName?: string;
+  name?: { formatted?: string; givenName?: string; familyName?: string };
+  active: boolean;
+}
+
+export interface ScimGroupRequest {
+  displayName: string;
+  members: Array<{ value: string }>;
+}
+
+export interface ScimPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path?: string;
+  value?: any;
+}
+
+export interface ScimListOptions {
+  filter?: string;
+  startIndex: number;
+  count: number;
+}
+
+// Filters are limited to a single `<attribute> eq "<value>"` comparison
+const FILTER_PATTERN = /^\s*([A-Za-z][\w.]*)\s+eq\s+"((?:[^"\\]|\\.)*)"\s*$/i;
+const MEMBER_PATH_PATTERN = /^members\[\s*value\s+eq\s+"([^"]+)"\s*\]$/i;
+
+function parseFilter(filter: string | undefined, attributes: string[]): { attribute: string; value: string } | null {
+  if (!filter) {
+    return null;
+  }
+
+  const match = FILTER_PATTERN.exec(filter);
+  const attribute = match && attributes.find(candidate => candidate.toLowerCase() === match[1].toLowerCase());
+  if (!match || !attribute) {
+    throw new ValidationError(
+      `Unsupported filter; use <attribute> eq "<value>" with one of: ${attributes.join(', ')}`,
+      { scimType: 'invalidFilter' }
+    );
+  }
+
+  return { attribute, value: match[2].replace(/\\(.)/g, '$1') };
+}
+
+// Some clients send booleans as strings ("False")
+function toBoolean(value: unknown): boolean {
+  return value === true || (typeof value === 'string' && value.toLowerCase() === 'true');
+}
+
+function displayNameOf(request: Pick<ScimUserRequest, 'displayName' | 'name'>): string | undefined {
+  const { displayName, name } = request;
+  const fromParts = [name?.givenName, name?.familyName].filter(Boolean).join(' ');
+  return displayName || name?.formatted || fromParts || undefined;
+}
+
+function hashToken(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+/**
+ * SCIM 2.0 (RFC 7643/7644) provisioning, so the identity provider can create,
+ * deactivate and delete users and manage the members of existing groups.
+ * SCIM users are matched to sign-ins by email (userName). Groups are created
+ * in the platform, since each needs a namespace; the identity provider links
+ * to them by displayName.
+ */
+class ScimService {
+  isEnabled(): boolean {
+    return !!config.scimToken;
+  }
+
+  // Constant-time comparison with the configured SCIM_TOKEN
+  isAuthorized(token: string): boolean {
+    return this.isEnabled() && timingSafeEqual(hashToken(token), hashToken(config.scimToken));
+  }
+
+  async listUsers(options: ScimListOptions): Promise<ScimListResponse<ScimUser>> {
+    const filter = parseFilter(options.filter, ['userName', 'emails.value', 'externalId', 'id']);
+
+    let users: User[];
+    if (filter?.attribute === 'id') {
+      users = [await dynamodbService.getUser(filter.value)].filter((user): user is User => !!user);
+    } else if (filter?.attribute === 'userName' || filter?.attribute === 'emails.value') {
+      users = [await dynamodbService.getUserByEmail(filter.value)].filter((user): user is User => !!user);
+    } else {
+      users = await this.allUsers();
+      if (filter) {
+        users = users.filter(user => user.externalId === filter.value);
+      }
+    }
+
+    const groups = await dynamodbService.listAllGroups();
+    users.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return this.page(users, options, user => this.toScimUser(user, groups));
+  }
+
+  async getUser(id: string): Promise<ScimUser> {
+    return this.toScimUser(await this.findUser(id), await dynamodbService.listAllGroups());
+  }
+
+  async createUser(request: ScimUserRequest): Promise<ScimUser> {
+    if (await dynamodbService.getUserByEmail(request.userName)) {
+      throw new ConflictError(`User ${request.userName} already exists`, { scimType: 'uniqueness' });
+    }
+
+    let user = await dynamodbService.createUser({
+      id: `usr_${uuidv4().replace(/-/g, '')}`,
+      username: request.userName.split('@')[0],
+      name: displayNameOf(request),
+      email: request.userName,
+      groups: [],
+      isAdmin: false,
+      externalId: request.externalId,
+    });
+    await this.audit('scim_user_created', user, { email: user.email, externalId: user.externalId });
+
+    if (!request.active) {
+      user = await this.setActive(user, false);
+    }
+
+    logger.info(`SCIM: user ${user.email} provisioned as ${user.id}`);
+    return this.getUser(user.id);
+  }
+
+  // PUT: the request holds the whole resource
+  async replaceUser(id: string, request: ScimUserRequest): Promise<ScimUser> {
+    const user = await this.findUser(id);
+    if (request.userName !== user.email) {
+      throw new ValidationError('userName cannot be changed', { scimType: 'mutability' });
+    }
+
+    await this.updateUser(user, {
+      name: displayNameOf(request),
+      externalId: request.externalId,
+      active: request.active,
+    });
+    return this.getUser(id);
+  }
+
+  /**
+   * PATCH: active, displayName, name and externalId can be changed. Other
+   * attributes are ignored, as they are on POST and PUT, and so are removals.
+   */
+  async patchUser(id: string, operations: ScimPatchOperation[]): Promise<ScimUser> {
+    const user = await this.findUser(id);
+    const changes: { name?: string; externalId?: string; active?: boolean } = {};
+
+    const apply = (path: string, value: any) => {
+      switch (path.toLowerCase()) {
+        case 'active':
+          changes.active = toBoolean(value);
+          break;
+        case 'displayname':
+        case 'name.formatted':
+          changes.name = value;
+          break;
+        case 'name':
+          changes.name = displayNameOf({ name: value }) ?? changes.name;
+          break;
+        case 'externalid':
+          changes.externalId = value;
+          break;
+        case 'username':
+          if (value !== user.email) {
+            throw new ValidationError('userName cannot be changed', { scimType: 'mutability' });
+          }
+          break;
+      }
+    };
+
+    for (const operation of operations) {
+      if (operation.op === 'remove') {
+        continue;
+      }
+      if (operation.path) {
+        apply(operation.path, operation.value);
+      } else if (operation.value && typeof operation.value === 'object') {
+        for (const [path, value] of Object.entries(operation.value)) {
+          apply(path, value);
+        }
+      } else {
+        throw new ValidationError('A PATCH operation without a path needs an object value', { scimType: 'invalidSyntax' });
+      }
+    }
+
+    await this.updateUser(user, changes);
+    return this.getUser(id);
+  }
+
+  // Deprovisioning removes the account the same way an admin deleting it does
+  async deleteUser(id: string): Promise<void> {
+    const user = await this.findUser(id);
+
+    if (cognitoService.isEnabled()) {
+      await this.ignoreMissingCognitoUser(user, () => cognitoService.deleteUser(user.email));
+    }
+    await userService.deleteUser(user.id);
+
+    await this.audit('scim_user_deleted', user, { email: user.email });
+    logger.info(`SCIM: user ${user.email} deleted`);
+  }
+
+  async listGroups(options: ScimListOptions, includeMembers: boolean): Promise<ScimListResponse<ScimGroup>> {
+    const filter = parseFilter(options.filter, ['displayName', 'id']);
+
+    const groups = (await dynamodbService.listAllGroups())
+      .filter(group => !group.trash)
+      .filter(group => !filter || (filter.attribute === 'id' ? group.id : group.displayName) === filter.value)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    const users = includeMembers ? await this.allUsers() : [];
+    return this.page(groups, options, group => this.toScimGroup(group, includeMembers ? users : undefined));
+  }
+
+  async getGroup(id: string, includeMembers: boolean = true): Promise<ScimGroup> {
+    const group = await this.findGroup(id);
+    return this.toScimGroup(group, includeMembers ? await this.allUsers() : undefined);
+  }
+
+  // PUT: replaces the display name and the members
+  async replaceGroup(id: string, request: ScimGroupRequest): Promise<ScimGroup> {
+    const group = await this.findGroup(id);
+
+    await this.renameGroup(group, request.displayName);
+    await this.updateMembers(group, { replace: request.members.map(member => member.value) });
+    return this.getGroup(id);
+  }
+
+  async patchGroup(id: string, operations: ScimPatchOperation[]): Promise<ScimGroup> {
+    const group = await this.findGroup(id);
+    const memberIds = (value: any): string[] =>
+      (Array.isArray(value) ? value : [value]).filter(Boolean).map((member: any) => String(member.value ?? member));
+
+    for (const operation of operations) {
+      const path = operation.path?.toLowerCase();
+      const memberMatch = operation.path && MEMBER_PATH_PATTERN.exec(operation.path);
+
+      if (operation.op === 'remove' && memberMatch) {
+        await this.updateMembers(group, { remove: [memberMatch[1]] });
+      } else if (path === 'members') {
+        if (operation.op === 'add') {
+          await this.updateMembers(group, { add: memberIds(operation.value) });
+        } else if (operation.op === 'replace') {
+          await this.updateMembers(group, { replace: memberIds(operation.value) });
+        } else {
+          // Without a value, remove drops every member
+          await this.updateMembers(group, operation.value ? { remove: memberIds(operation.value) } : { replace: [] });
+        }
+      } else if (path === 'displayname' && operation.op !== 'remove') {
+        await this.renameGroup(group, operation.value);
+      } else if (!path && operation.value && typeof operation.value === 'object') {
+        if (operation.value.displayName) {
+          await this.renameGroup(group, operation.value.displayName);
+        }
+        if (operation.value.members) {
+          const members = memberIds(operation.value.members);
+          await this.updateMembers(group, operation.op === 'replace' ? { replace: members } : { add: members });
+        }
+      } else if (!path) {
+        throw new ValidationError('A PATCH operation without a path needs an object value', { scimType: 'invalidSyntax' });
+      }
+    }
+
+    return this.getGroup(id);
+  }
+
+  serviceProviderConfig() {
+    return {
+      schemas: [SCIM_SCHEMAS.serviceProviderConfig],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: MAX_RESULTS },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [{
+        type: 'oauthbearertoken',
+        name: 'Bearer token',
+        description: 'The token configured in SCIM_TOKEN',
+        primary: true,
+      }],
+    };
+  }
+
+  private async updateUser(user: User, changes: { name?: string; externalId?: string; active?: boolean }): Promise<User> {
+    const updates: Partial<User> = {};
+    if (changes.name !== undefined && changes.name !== user.name) {
+      updates.name = changes.name;
+    }
+    if (changes.externalId !== undefined && changes.externalId !== user.externalId) {
+      updates.externalId = changes.externalId;
+    }
+
+    let updated = user;
+    if (Object.keys(updates).length > 0) {
+      updated = await userService.updateUser(user.id, updates);
+      await this.audit('scim_user_updated', user, updates);
+    }
+    if (changes.active !== undefined && changes.active === !!user.disabled) {
+      updated = await this.setActive(updated, changes.active);
+    }
+    return updated;
+  }
+
+  // Deactivated users are refused at sign-in, whichever identity provider they use
+  private async setActive(user: User, active: boolean): Promise<User> {
+    if (cognitoService.isEnabled()) {
+      await this.ignoreMissingCognitoUser(user, () =>
+        active ? cognitoService.enableUser(user.email) : cognitoService.disableUser(user.email)
+      );
+    }
+
+    const updated = await userService.updateUser(user.id, { disabled: !active });
+    await this.audit(active ? 'scim_user_activated' : 'scim_user_deactivated', user, { email: user.email });
+
+    logger.info(`SCIM: user ${user.email} ${active ? 'activated' : 'deactivated'}`);
+    return updated;
+  }
+
+  // Users who only sign in through another identity provider have no Cognito account
+  private async ignoreMissingCognitoUser(user: User, action: () => Promise<void>): Promise<void> {
+    try {
+      await action();
+    } catch (error: any) {
+      if (error.name !== 'UserNotFoundException') {
+        throw error;
+      }
+      logger.info(`SCIM: ${user.email} has no Cognito account`);
+    }
+  }
+
+  private async renameGroup(group: Group, displayName: unknown): Promise<void> {
+    if (typeof displayName !== 'string' || !displayName.trim()) {
+      throw new ValidationError('displayName must be a non-empty string', { scimType: 'invalidValue' });
+    }
+    if (displayName === group.displayName) {
+      return;
+    }
+
+    await dynamodbService.updateGroup(group.id, { displayName });
+    await dynamodbService.createAuditLog({
+      userId: 'scim',
+      username: 'scim',
+      action: 'scim_group_updated',
+      resource: `group:${group.id}`,
+      details: { displayName, previousDisplayName: group.displayName },
+      success: true,
+    });
+    group.displayName = displayName;
+  }
+
+  /**
+   * Add, remove or replace members. New members join as members; the role of
+   * existing members is kept.
+   */
+  private async updateMembers(
+    group: Group,
+    change: { add?: string[]; remove?: string[]; replace?: string[] }
+  ): Promise<void> {
+    const current = (await this.allUsers())
+      .filter(user => user.groups.includes(group.id))
+      .map(user => user.id);
+
+    const target = new Set(change.replace ?? current);
+    (change.add || []).forEach(id => target.add(id));
+    (change.remove || []).forEach(id => target.delete(id));
+
+    const added = [...target].filter(id => !current.includes(id));
+    const removed = current.filter(id => !target.has(id));
+    if (added.length === 0 && removed.length === 0) {
+      return;
+    }
+
+    for (const userId of added) {
+      if (!(await dynamodbService.getUser(userId))) {
+        throw new ValidationError(`Member ${userId} is not a provisioned user`, { scimType: 'invalidValue' });
+      }
+    }
+
+    for (const userId of added) {
+      await userService.addUserToGroup(userId, group.id);
+      await this.auditMembership('scim_group_member_added', group, userId);
+    }
+    for (const userId of removed) {
+      await userService.removeUserFromGroup(userId, group.id);
+      await this.auditMembership('scim_group_member_removed', group, userId);
+    }
+
+    await dynamodbService.updateGroup(group.id, { memberCount: target.size });
+    logger.info(`SCIM: group ${group.id} members updated`, { added, removed });
+  }
+
+  private async findUser(id: string): Promise<User> {
+    const user = await dynamodbService.getUser(id);
+    if (!user) {
+      throw new NotFoundError(`User ${id} not found`);
+    }
+    return user;
+  }
+
+  private async findGroup(id: string): Promise<Group> {
+    const group = await dynamodbService.getGroup(id);
+    if (!group || group.trash) {
+      throw new NotFoundError(`Group ${id} not found`);
+    }
+    return group;
+  }
+
+  private async allUsers(): Promise<User[]> {
+    const users: User[] = [];
+    let nextToken: string | undefined;
+    do {
+      const page = await dynamodbService.listUsers(1000, nextToken);
+      users.push(...page.users);
+      nextToken = page.nextToken;
+    } while (nextToken);
+    return users;
+  }
+
+  // startIndex is 1-based
+  private page<T, R>(items: T[], options: ScimListOptions, map: (item: T) => R): ScimListResponse<R> {
+    const resources = items
+      .slice(options.startIndex - 1, options.startIndex - 1 + Math.min(options.count, MAX_RESULTS))
+      .map(map);
+
+    return {
+      schemas: [SCIM_SCHEMAS.listResponse],
+      totalResults: items.length,
+      startIndex: options.startIndex,
+      itemsPerPage: resources.length,
+      Resources: resources,
+    };
+  }
+
+  private toScimUser(user: User, groups: Group[]): ScimUser {
+    return {
+      schemas: [SCIM_SCHEMAS.user],
+      id: user.id,
+      externalId: user.externalId,
+      userName: user.email,
+      displayName: user.name,
+      name: user.name ? { formatted: user.name } : undefined,
+      emails: [{ value: user.email, primary: true }],
+      active: !user.disabled,
+      groups: groups
+        .filter(group => user.groups.includes(group.id) && !group.trash)
+        .map(group => ({ value: group.id, display: group.displayName })),
+      meta: { resourceType: 'User', created: user.createdAt },
+    };
+  }
+
+  private toScimGroup(group: Group, users?: User[]): ScimGroup {
+    return {
+      schemas: [SCIM_SCHEMAS.group],
+      id: group.id,
+      displayName: group.displayName,
+      members: users
+        ?.filter(user => user.groups.includes(group.id))
+        .map(user => ({ value: user.id, display: user.email })),
+      meta: { resourceType: 'Group', created: group.createdAt },
+    };
+  }
+
+  private async audit(action: string, user: User, details: Record<string, unknown>): Promise<void> {
+    await dynamodbService.createAuditLog({
+      userId: 'scim',
+      username: 'scim',
+      action,
+      resource: `user:${user.id}`,
+      details,
+      success: true,
+    });
+  }
+
+  private async auditMembership(action: string, group: Group, userId: string): Promise<void> {
+    await dynamodbService.createAuditLog({
+      userId: 'scim',
+      username: 'scim',
+      action,
+      resource: `group:${group.id}`,
+      details: { userId },
+      success: true,
+    });
+  }
+}
+
+export const scimService = new ScimService();
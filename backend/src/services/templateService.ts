@@ -0,0 +1,78 @@
+import { Group, WorkspaceResources, WorkspaceTemplate } from '../types';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { getResourcesForTier } from '../config/resourceTiers';
+import { dynamodbService } from './dynamodbService';
+
+/**
+ * Catalog of workspace templates. Platform-wide templates (no groupId) are
+ * offered to every group; group templates only to their own group. A group
+ * can narrow what its members may create with `allowedTemplateIds`.
+ */
+class TemplateService {
+  async get(id: string): Promise<WorkspaceTemplate> {
+    const template = await dynamodbService.getTemplate(id);
+    if (!template) {
+      throw new NotFoundError('Template not found');
+    }
+    return template;
+  }
+
+  /**
+   * Templates a workspace in `group` may be created from
+   */
+  async listForGroup(group: Group): Promise<WorkspaceTemplate[]> {
+    const templates = await dynamodbService.listTemplates();
+    return this.sort(templates.filter(template => this.isAvailableTo(template, group)));
+  }
+
+  /**
+   * Platform-wide templates plus those of the given groups (all groups when null)
+   */
+  async listVisible(groupIds: string[] | null): Promise<WorkspaceTemplate[]> {
+    const templates = await dynamodbService.listTemplates();
+    return this.sort(templates.filter(template =>
+      !template.groupId || groupIds === null || groupIds.includes(template.groupId)
+    ));
+  }
+
+  /**
+   * Load a template for a new workspace in `group`, enforcing the group's restriction
+   */
+  async getForGroup(id: string, group: Group): Promise<WorkspaceTemplate> {
+    const template = await dynamodbService.getTemplate(id);
+    if (!template || (template.groupId && template.groupId !== group.id)) {
+      throw new NotFoundError('Template not found');
+    }
+    if (!this.isAvailableTo(template, group)) {
+      throw new ValidationError(`Template ${template.name} is not allowed in group ${group.displayName}`);
+    }
+    return template;
+  }
+
+  isRestricted(group: Group): boolean {
+    return !!group.allowedTemplateIds && group.allowedTemplateIds.length > 0;
+  }
+
+  /**
+   * Explicit resources win over the tier; undefined when the template sets neither
+   */
+  resolveResources(template: WorkspaceTemplate): WorkspaceResources | undefined {
+    if (template.resources) {
+      return { ...template.resources };
+    }
+    return template.tier ? getResourcesForTier(template.tier) : undefined;
+  }
+
+  private isAvailableTo(template: WorkspaceTemplate, group: Group): boolean {
+    if (template.groupId && template.groupId !== group.id) {
+      return false;
+    }
+    return !this.isRestricted(group) || group.allowedTemplateIds!.includes(template.id);
+  }
+
+  private sort(templates: WorkspaceTemplate[]): WorkspaceTemplate[] {
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
+
+export const templateService = new TemplateService();
@@ -0,0 +1,283 @@
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { Group, Operation, TrashRecord, Workspace, WorkspaceStatus } from '../types';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { dynamodbService } from './dynamodbService';
+import { kubernetesService } from './kubernetesService';
+import { operationService } from './operationService';
+import { userService } from './userService';
+import { workspaceEnvironmentService } from './workspaceEnvironmentService';
+import { workspaceEvents } from './workspaceEvents';
+import { workspaceService } from './workspaceService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Soft delete for workspaces and groups. Deleting moves them to the trash,
+ * where they are hidden (and workspaces scaled down) but keep their data for
+ * TRASH_RETENTION_DAYS; after that the purge job removes them for good.
+ */
+class TrashService {
+  private purgeTimer: NodeJS.Timeout | null = null;
+  private purgeInProgress = false;
+
+  start(): void {
+    if (this.purgeTimer) {
+      return;
+    }
+
+    logger.info('Starting trash purge', {
+      retentionDays: config.trashRetentionDays,
+      purgeIntervalMs: config.trashPurgeIntervalMs,
+    });
+
+    this.purgeTimer = setInterval(() => {
+      this.purgeExpired().catch(error => logger.error('Trash purge failed:', error));
+    }, config.trashPurgeIntervalMs);
+  }
+
+  stop(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+
+    logger.info('Trash purge stopped');
+  }
+
+  /**
+   * Scale the workspace down and move it to the trash. Everything else,
+   * the volume included, stays until the workspace is restored or purged.
+   */
+  async trashWorkspace(workspace: Workspace, deletedBy: string): Promise<Workspace> {
+    if (
+      workspace.status === WorkspaceStatus.PENDING ||
+      workspace.status === WorkspaceStatus.DELETING ||
+      workspace.status === WorkspaceStatus.TRASHED
+    ) {
+      throw new ConflictError(`Workspace is already ${workspace.status}`);
+    }
+
+    // Archived workspaces have no StatefulSet, and one that failed to provision may not either
+    const namespace = await workspaceService.getNamespace(workspace);
+    if (namespace && workspace.status !== WorkspaceStatus.ARCHIVED) {
+      try {
+        await kubernetesService.scaleStatefulSet(namespace, workspaceService.getK8sName(workspace.id), 0);
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+      }
+    }
+
+    const trashed = await dynamodbService.updateWorkspace(workspace.id, {
+      status: WorkspaceStatus.TRASHED,
+      replicas: 0,
+      trash: this.trashRecord(deletedBy),
+    });
+    workspaceEvents.publishStatus(trashed);
+
+    logger.info(`Workspace ${workspace.id} moved to the trash by ${deletedBy}`);
+    return trashed;
+  }
+
+  /**
+   * Take a workspace out of the trash. It comes back stopped, or archived if
+   * it was archived when it was deleted.
+   */
+  async restoreWorkspace(workspace: Workspace): Promise<Workspace> {
+    if (workspace.status !== WorkspaceStatus.TRASHED) {
+      throw new ConflictError('Workspace is not in the trash');
+    }
+
+    const group = await dynamodbService.getGroup(workspace.groupId);
+    if (group?.trash) {
+      throw new ConflictError(`Restore the group ${group.displayName} first`);
+    }
+
+    const restored = await dynamodbService.updateWorkspace(workspace.id, {
+      status: workspace.archive ? WorkspaceStatus.ARCHIVED : WorkspaceStatus.STOPPED,
+      trash: null,
+    });
+    workspaceEvents.publishStatus(restored);
+
+    logger.info(`Workspace ${workspace.id} restored from the trash`);
+    return restored;
+  }
+
+  /**
+   * Delete a trashed workspace for good: its Kubernetes resources, volume,
+   * snapshots and record. A failed purge leaves it in the trash.
+   */
+  async purgeWorkspace(workspace: Workspace): Promise<Operation> {
+    if (workspace.status !== WorkspaceStatus.TRASHED) {
+      throw new ConflictError('Only workspaces in the trash can be purged');
+    }
+
+    const namespace = await workspaceService.getNamespace(workspace);
+    if (!namespace) {
+      logger.warn(`Group ${workspace.groupId} not found for workspace ${workspace.id}, skipping K8s cleanup`);
+    }
+
+    const deletingWorkspace = await dynamodbService.updateWorkspace(workspace.id, {
+      status: WorkspaceStatus.DELETING,
+    });
+    workspaceEvents.publishStatus(deletingWorkspace);
+
+    return operationService.startWorkspaceDelete(workspace, namespace);
+  }
+
+  /**
+   * Move a group to the trash. Its workspaces must be in the trash already;
+   * they are purged together with the group.
+   */
+  async trashGroup(group: Group, deletedBy: string): Promise<Group> {
+    if (group.trash) {
+      throw new ConflictError('Group is already in the trash');
+    }
+
+    const workspaces = await dynamodbService.getGroupWorkspaces(group.id);
+    if (workspaces.some(workspace => workspace.status !== WorkspaceStatus.TRASHED)) {
+      throw new ConflictError('Cannot delete group with active workspaces');
+    }
+
+    const trashed = await dynamodbService.updateGroup(group.id, { trash: this.trashRecord(deletedBy) });
+    logger.info(`Group ${group.id} moved to the trash by ${deletedBy}`);
+    return trashed;
+  }
+
+  async restoreGroup(group: Group): Promise<Group> {
+    if (!group.trash) {
+      throw new ConflictError('Group is not in the trash');
+    }
+
+    const restored = await dynamodbService.updateGroup(group.id, { trash: null });
+    logger.info(`Group ${group.id} restored from the trash`);
+    return restored;
+  }
+
+  /**
+   * Remove the group's members, namespace, environment and record. Its
+   * workspaces must have been purged first.
+   */
+  async purgeGroup(group: Group): Promise<void> {
+    const workspaces = await dynamodbService.getGroupWorkspaces(group.id);
+    if (workspaces.length > 0) {
+      throw new ConflictError('Purge the group\'s workspaces first');
+    }
+
+    const { users } = await dynamodbService.listUsers(1000);
+    for (const user of users.filter(user => user.groups.includes(group.id))) {
+      await userService.removeUserFromGroup(user.id, group.id);
+    }
+
+    // Deleting the namespace deletes everything left in it
+    try {
+      await kubernetesService.deleteNamespace(group.namespace);
+    } catch (k8sError) {
+      logger.warn(`Failed to delete namespace ${group.namespace}:`, k8sError);
+    }
+
+    await workspaceEnvironmentService.deleteAll('group', group.id);
+    await dynamodbService.deleteGroup(group.id);
+
+    logger.info(`Group purged: ${group.id}`);
+  }
+
+  /**
+   * Purge workspaces and groups whose retention has passed. A trashed group's
+   * workspaces are purged with it, and the group itself once they are gone.
+   */
+  async purgeExpired(now: Date = new Date()): Promise<void> {
+    if (this.purgeInProgress) {
+      logger.debug('Trash purge already in progress, skipping');
+      return;
+    }
+
+    this.purgeInProgress = true;
+
+    try {
+      const expiredGroups = (await dynamodbService.listAllGroups())
+        .filter(group => group.trash && new Date(group.trash.purgeAt) <= now);
+      const expiredGroupIds = new Set(expiredGroups.map(group => group.id));
+
+      const workspaces = await dynamodbService.listAllWorkspaces();
+      for (const workspace of workspaces) {
+        if (workspace.status !== WorkspaceStatus.TRASHED) {
+          continue;
+        }
+        if (!expiredGroupIds.has(workspace.groupId) && !(workspace.trash && new Date(workspace.trash.purgeAt) <= now)) {
+          continue;
+        }
+
+        await this.audited('workspace_purged', `workspace:${workspace.id}`, {
+          ownerId: workspace.userId,
+          groupId: workspace.groupId,
+          deletedAt: workspace.trash?.deletedAt,
+        }, async () => {
+          const operation = await this.purgeWorkspace(workspace);
+          return { operationId: operation.id };
+        });
+      }
+
+      for (const group of expiredGroups) {
+        // Purge operations finish in the background; the group goes on a later run
+        if (workspaces.some(workspace => workspace.groupId === group.id)) {
+          continue;
+        }
+
+        await this.audited('group_purged', `group:${group.id}`, {
+          namespace: group.namespace,
+          deletedAt: group.trash!.deletedAt,
+        }, async () => {
+          await this.purgeGroup(group);
+          return {};
+        });
+      }
+    } finally {
+      this.purgeInProgress = false;
+    }
+  }
+
+  private trashRecord(deletedBy: string): TrashRecord {
+    const now = new Date();
+    return {
+      deletedAt: now.toISOString(),
+      deletedBy,
+      purgeAt: new Date(now.getTime() + config.trashRetentionDays * DAY_MS).toISOString(),
+    };
+  }
+
+  private async audited(
+    action: string,
+    resource: string,
+    details: Record<string, any>,
+    purge: () => Promise<Record<string, any>>
+  ): Promise<void> {
+    try {
+      const result = await purge();
+      await dynamodbService.createAuditLog({
+        userId: 'system',
+        username: 'system',
+        action,
+        resource,
+        details: { ...details, ...result },
+        success: true,
+      });
+      logger.info(`Trash purge: ${action} ${resource}`);
+    } catch (error) {
+      logger.warn(`Trash purge of ${resource} failed:`, error);
+      await dynamodbService.createAuditLog({
+        userId: 'system',
+        username: 'system',
+        action,
+        resource,
+        details,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+export const trashService = new TrashService();
@@ -1,14 +1,16 @@
 import { v4 as uuidv4 } from 'uuid';
 import { dynamodbService } from './dynamodbService';
+import { groupMappingService } from './groupMappingService';
 import { logger } from '../config/logger';
 import { User, JwtPayload, GroupRole, GroupMembership } from '../types';
 
 class UserService {
   async getOrCreateUser(jwtPayload: JwtPayload): Promise<User> {
     try {
-      // Determine admin status from JWT groups (Cognito groups like "platform-admins")
+      // Determine admin status from JWT groups (Cognito groups like "platform-admins"),
+      // unless the identity provider mapped it from its own claim.
       // These are OAuth provider groups, NOT application groups
-      const isAdmin = (jwtPayload.groups || []).includes('platform-admins');
+      const isAdmin = jwtPayload.isAdmin ?? (jwtPayload.groups || []).includes('platform-admins');
 
       // Check if user exists by email
       let user = await dynamodbService.getUserByEmail(jwtPayload.email);
@@ -70,6 +72,14 @@ class UserService {
 
       user = await dynamodbService.updateUser(user.id, updates);
 
+      // Application groups granted by group mapping rules follow the JWT groups
+      // and email domain; a failure here must not block sign-in
+      try {
+        user = await groupMappingService.apply(user, jwtPayload);
+      } catch (mappingError) {
+        logger.error(`Failed to apply group mappings for ${user.email}:`, mappingError);
+      }
+
       return user;
     } catch (error) {
       logger.error('Error in getOrCreateUser:', error);
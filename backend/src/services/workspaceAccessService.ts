@@ -0,0 +1,167 @@
+import { isGroupAdmin } from '../middleware/auth';
+import { CollaboratorRole, User, Workspace, WorkspaceAccess, WorkspaceCollaborator } from '../types';
+import { AuthorizationError, NotFoundError, ValidationError } from '../utils/errors';
+import { dynamodbService } from './dynamodbService';
+
+// Higher levels include everything the lower ones may do
+const ACCESS_LEVELS: Record<WorkspaceAccess, number> = {
+  [CollaboratorRole.VIEWER]: 1,
+  [CollaboratorRole.OPERATOR]: 2,
+  [CollaboratorRole.EDITOR]: 3,
+  owner: 4,
+};
+
+/**
+ * Who may do what with a workspace. The owner, group admins and platform admins
+ * have 'owner' access; other group members are viewers; anyone else only has
+ * the role the workspace was shared with them with.
+ */
+class WorkspaceAccessService {
+  /**
+   * Access without a collaborator lookup, for callers that already know the
+   * user's collaborator role (or that there is none)
+   */
+  resolve(user: User, workspace: Workspace, collaboratorRole?: CollaboratorRole | null): WorkspaceAccess | null {
+    if (workspace.userId === user.id || isGroupAdmin(user, workspace.groupId) || user.isAdmin) {
+      return 'owner';
+    }
+
+    // Any collaborator role is at least what group membership gives
+    if (collaboratorRole) {
+      return collaboratorRole;
+    }
+    return user.groups.includes(workspace.groupId) ? CollaboratorRole.VIEWER : null;
+  }
+
+  async getAccess(user: User, workspace: Workspace): Promise<WorkspaceAccess | null> {
+    const access = this.resolve(user, workspace);
+    if (access === 'owner') {
+      return access;
+    }
+
+    const collaborator = await dynamodbService.getWorkspaceCollaborator(workspace.id, user.id);
+    return this.resolve(user, workspace, collaborator?.role);
+  }
+
+  /**
+   * Throw unless the user has at least the given access. Users who can't see
+   * the workspace at all get a 404 so its existence isn't revealed.
+   */
+  async require(user: User, workspace: Workspace, required: WorkspaceAccess, action: string): Promise<WorkspaceAccess> {
+    const access = await this.getAccess(user, workspace);
+    if (!access) {
+      throw new NotFoundError('Workspace not found');
+    }
+    if (!this.allows(access, required)) {
+      throw new AuthorizationError(`Insufficient permissions to ${action}`);
+    }
+    return access;
+  }
+
+  /**
+   * A shell can read the files, the secrets and the code-server password,
+   * so terminals need the same access as the files API
+   */
+  async requireTerminal(user: User, workspace: Workspace): Promise<WorkspaceAccess> {
+    return this.require(user, workspace, CollaboratorRole.EDITOR, 'open a terminal in this workspace');
+  }
+
+  allows(access: WorkspaceAccess | null, required: WorkspaceAccess): boolean {
+    return !!access && ACCESS_LEVELS[access] >= ACCESS_LEVELS[required];
+  }
+
+  /**
+   * The workspace as the user may see it: the code-server password is only
+   * included for editors and above
+   */
+  toResponse(workspace: Workspace, access: WorkspaceAccess): Workspace {
+    if (this.allows(access, CollaboratorRole.EDITOR)) {
+      return { ...workspace, access };
+    }
+    const { password: _password, ...rest } = workspace;
+    return { ...rest, access } as Workspace;
+  }
+
+  async listCollaborators(workspaceId: string): Promise<WorkspaceCollaborator[]> {
+    const collaborators = await dynamodbService.listWorkspaceCollaborators(workspaceId);
+    return collaborators.sort((a, b) => a.email.localeCompare(b.email));
+  }
+
+  async addCollaborator(workspace: Workspace, email: string, role: CollaboratorRole, addedBy: string): Promise<WorkspaceCollaborator> {
+    const user = await dynamodbService.getUserByEmail(email);
+    if (!user) {
+      throw new NotFoundError(`No user with email ${email}`);
+    }
+    if (user.id === workspace.userId) {
+      throw new ValidationError('The owner already has full access to the workspace');
+    }
+
+    const existing = await dynamodbService.getWorkspaceCollaborator(workspace.id, user.id);
+    return dynamodbService.putWorkspaceCollaborator({
+      workspaceId: workspace.id,
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      role,
+      addedBy: existing?.addedBy || addedBy,
+      addedAt: existing?.addedAt || new Date().toISOString(),
+    });
+  }
+
+  async updateCollaborator(workspaceId: string, userId: string, role: CollaboratorRole): Promise<WorkspaceCollaborator> {
+    const existing = await dynamodbService.getWorkspaceCollaborator(workspaceId, userId);
+    if (!existing) {
+      throw new NotFoundError('Collaborator not found');
+    }
+    return dynamodbService.putWorkspaceCollaborator({ ...existing, role });
+  }
+
+  async removeCollaborator(workspaceId: string, userId: string): Promise<void> {
+    await dynamodbService.deleteWorkspaceCollaborator(workspaceId, userId);
+  }
+
+  /**
+   * Make another member of the workspace's group its owner. A collaborator
+   * entry the new owner had is dropped; the previous owner keeps only what
+   * group membership gives them.
+   */
+  async transferOwnership(workspace: Workspace, email: string): Promise<Workspace> {
+    const user = await dynamodbService.getUserByEmail(email);
+    if (!user) {
+      throw new NotFoundError(`No user with email ${email}`);
+    }
+    if (user.id === workspace.userId) {
+      throw new ValidationError(`${user.email} already owns the workspace`);
+    }
+    if (!user.groups.includes(workspace.groupId)) {
+      throw new ValidationError(`${user.email} is not a member of the workspace's group`);
+    }
+
+    const transferred = await dynamodbService.updateWorkspaceOwner(workspace.id, user.id, workspace.userId);
+    try {
+      await dynamodbService.deleteWorkspaceCollaborator(workspace.id, user.id);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
+    return transferred;
+  }
+
+  // Used when the workspace is deleted
+  async removeAll(workspaceId: string): Promise<void> {
+    const collaborators = await dynamodbService.listWorkspaceCollaborators(workspaceId);
+    for (const collaborator of collaborators) {
+      try {
+        await dynamodbService.deleteWorkspaceCollaborator(workspaceId, collaborator.userId);
+      } catch (error) {
+        // Already removed
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+      }
+    }
+  }
+}
+
+export const workspaceAccessService = new WorkspaceAccessService();
@@ -0,0 +1,187 @@
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { ArchiveMode, Operation, Workspace, WorkspaceStatus } from '../types';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { dynamodbService } from './dynamodbService';
+import { kubernetesService } from './kubernetesService';
+import { operationService } from './operationService';
+import { workspaceEvents } from './workspaceEvents';
+import { workspaceService } from './workspaceService';
+import { workspaceSnapshotService } from './workspaceSnapshotService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Archives stopped workspaces down to their volume (or a snapshot of it) and
+ * brings them back. Admins can have stopped workspaces that nobody has
+ * accessed for a number of days archived automatically; see the
+ * autoArchiveAfterDays system setting.
+ */
+class WorkspaceArchiveService {
+  private checkTimer: NodeJS.Timeout | null = null;
+  private checkInProgress = false;
+
+  start(): void {
+    if (this.checkTimer) {
+      return;
+    }
+
+    logger.info('Starting workspace auto-archive', {
+      checkIntervalMs: config.archiveCheckIntervalMs,
+    });
+
+    this.checkTimer = setInterval(() => {
+      this.archiveInactive().catch(error => logger.error('Workspace auto-archive check failed:', error));
+    }, config.archiveCheckIntervalMs);
+  }
+
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+
+    logger.info('Workspace auto-archive stopped');
+  }
+
+  /**
+   * Start archiving a stopped workspace. A workspace that was never started
+   * has no volume to snapshot, so it is archived in 'volume' mode.
+   */
+  async archive(workspace: Workspace, mode: ArchiveMode, archivedBy: string): Promise<Operation> {
+    if (workspace.status !== WorkspaceStatus.STOPPED && workspace.status !== WorkspaceStatus.ERROR) {
+      throw new ConflictError('Stop the workspace before archiving it');
+    }
+
+    const namespace = await workspaceService.getNamespace(workspace);
+    if (!namespace) {
+      throw new NotFoundError('Workspace namespace not found');
+    }
+
+    let snapshotName: string | null = null;
+    if (mode === 'snapshot') {
+      const pvcName = `workspace-storage-${workspaceService.getK8sName(workspace.id)}-0`;
+      if (await kubernetesService.getPVCStorage(pvcName, namespace)) {
+        snapshotName = workspaceSnapshotService.generateName(workspace);
+      }
+    }
+
+    const pendingWorkspace = await dynamodbService.updateWorkspace(workspace.id, {
+      status: WorkspaceStatus.PENDING,
+    });
+    workspaceEvents.publishStatus(pendingWorkspace);
+
+    return operationService.startWorkspaceArchive(workspace, namespace, snapshotName, archivedBy);
+  }
+
+  /**
+   * Start provisioning an archived workspace again. It comes back stopped.
+   */
+  async unarchive(workspace: Workspace): Promise<Operation> {
+    if (workspace.status !== WorkspaceStatus.ARCHIVED) {
+      throw new ConflictError('Workspace is not archived');
+    }
+
+    const namespace = await workspaceService.getNamespace(workspace);
+    if (!namespace) {
+      throw new NotFoundError('Workspace namespace not found');
+    }
+
+    // A volume restored from a snapshot is new storage for the group's quota
+    const snapshotName = workspace.archive?.snapshotName;
+    if (snapshotName) {
+      await workspaceSnapshotService.get(workspace, snapshotName);
+
+      const headroom = await kubernetesService.checkResourceQuotaHeadroom(namespace, {
+        storage: workspace.resources.storage,
+      }, { pods: 0 });
+      if (!headroom.fits) {
+        throw new ValidationError(`Workspace exceeds the group quota: ${headroom.reason}`);
+      }
+    }
+
+    const pendingWorkspace = await dynamodbService.updateWorkspace(workspace.id, {
+      status: WorkspaceStatus.PENDING,
+    });
+    workspaceEvents.publishStatus(pendingWorkspace);
+
+    return operationService.startWorkspaceUnarchive(workspace, namespace);
+  }
+
+  /**
+   * Archive stopped workspaces not accessed for the configured number of days.
+   * Workspaces that were never accessed count from their creation.
+   */
+  async archiveInactive(now: Date = new Date()): Promise<void> {
+    if (this.checkInProgress) {
+      logger.debug('Workspace auto-archive check already in progress, skipping');
+      return;
+    }
+
+    this.checkInProgress = true;
+
+    try {
+      const settings = await dynamodbService.getSystemSettings();
+      const days = settings.autoArchiveAfterDays;
+      if (!days) {
+        return;
+      }
+      const mode = settings.autoArchiveMode || 'volume';
+
+      const workspaces = await dynamodbService.listAllWorkspaces();
+      for (const workspace of workspaces) {
+        if (workspace.status !== WorkspaceStatus.STOPPED) {
+          continue;
+        }
+
+        const lastAccessedAt = workspace.lastAccessedAt || workspace.createdAt;
+        const inactiveDays = Math.floor((now.getTime() - new Date(lastAccessedAt).getTime()) / DAY_MS);
+        if (inactiveDays < days) {
+          continue;
+        }
+
+        try {
+          const operation = await this.archive(workspace, mode, 'system');
+
+          await dynamodbService.createAuditLog({
+            userId: 'system',
+            username: 'system',
+            action: 'workspace_auto_archived',
+            resource: `workspace:${workspace.id}`,
+            details: {
+              ownerId: workspace.userId,
+              groupId: workspace.groupId,
+              mode,
+              autoArchiveAfterDays: days,
+              lastAccessedAt,
+              operationId: operation.id,
+            },
+            success: true,
+          });
+
+          logger.info(`Workspace ${workspace.id} auto-archived after ${inactiveDays} day(s) without access`);
+        } catch (error) {
+          logger.warn(`Failed to auto-archive workspace ${workspace.id}:`, error);
+          await dynamodbService.createAuditLog({
+            userId: 'system',
+            username: 'system',
+            action: 'workspace_auto_archived',
+            resource: `workspace:${workspace.id}`,
+            details: {
+              ownerId: workspace.userId,
+              groupId: workspace.groupId,
+              mode,
+              autoArchiveAfterDays: days,
+            },
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    } finally {
+      this.checkInProgress = false;
+    }
+  }
+}
+
+export const workspaceArchiveService = new WorkspaceArchiveService();
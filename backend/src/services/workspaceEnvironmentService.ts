@@ -0,0 +1,169 @@
+import { createHash } from 'crypto';
+import { logger } from '../config/logger';
+import {
+  EnvironmentScope,
+  EnvironmentVariable,
+  StoredEnvironmentVariable,
+  Workspace,
+  WorkspaceStatus,
+} from '../types';
+import { encryptSecret, decryptSecret } from '../utils/encryption';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { dynamodbService } from './dynamodbService';
+import { kubernetesService } from './kubernetesService';
+import { workspaceService } from './workspaceService';
+
+const MAX_VARIABLES_PER_SCOPE = 100;
+
+// code-server reads its password from these, so they would bypass the generated one
+const RESERVED_NAMES = ['PASSWORD', 'HASHED_PASSWORD'];
+
+/**
+ * Workspace- and group-level environment variables. Values are kept in DynamoDB
+ * (secrets encrypted) and materialised per workspace as the `<k8sName>-env`
+ * Secret the container loads with envFrom. Precedence, lowest first: group
+ * variables, the workspace's template env, workspace variables.
+ */
+class WorkspaceEnvironmentService {
+  async list(scope: EnvironmentScope, scopeId: string): Promise<EnvironmentVariable[]> {
+    const environment = await dynamodbService.getEnvironment(scope, scopeId);
+    return Object.entries(environment?.variables || {})
+      .map(([name, variable]) => this.toResponse(name, variable))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async set(
+    scope: EnvironmentScope,
+    scopeId: string,
+    name: string,
+    value: string,
+    secret: boolean,
+    updatedBy: string
+  ): Promise<EnvironmentVariable> {
+    if (RESERVED_NAMES.includes(name)) {
+      throw new ValidationError(`${name} is reserved for code-server`);
+    }
+
+    const environment = await dynamodbService.getEnvironment(scope, scopeId);
+    const variables = environment?.variables || {};
+    if (!variables[name] && Object.keys(variables).length >= MAX_VARIABLES_PER_SCOPE) {
+      throw new ValidationError(`A ${scope} can have at most ${MAX_VARIABLES_PER_SCOPE} environment variables`);
+    }
+
+    const variable: StoredEnvironmentVariable = {
+      secret,
+      ...(secret ? { encryptedValue: encryptSecret(value) } : { value }),
+      updatedAt: new Date().toISOString(),
+      updatedBy,
+    };
+    await dynamodbService.setEnvironmentVariable(scope, scopeId, name, variable);
+
+    return this.toResponse(name, variable);
+  }
+
+  async remove(scope: EnvironmentScope, scopeId: string, name: string): Promise<void> {
+    await dynamodbService.removeEnvironmentVariable(scope, scopeId, name);
+  }
+
+  async deleteAll(scope: EnvironmentScope, scopeId: string): Promise<void> {
+    await dynamodbService.deleteEnvironment(scope, scopeId);
+  }
+
+  /**
+   * The environment the workspace container runs with, secrets decrypted
+   */
+  async resolve(workspace: Workspace): Promise<Record<string, string>> {
+    const [groupEnvironment, workspaceEnvironment] = await Promise.all([
+      dynamodbService.getEnvironment('group', workspace.groupId),
+      dynamodbService.getEnvironment('workspace', workspace.id),
+    ]);
+
+    return {
+      ...this.decrypt(groupEnvironment?.variables),
+      ...(workspace.env || {}),
+      ...this.decrypt(workspaceEnvironment?.variables),
+    };
+  }
+
+  /**
+   * Write the workspace's environment Secret. Used while provisioning, before
+   * the StatefulSet exists.
+   */
+  async writeSecret(workspace: Workspace, namespace: string): Promise<void> {
+    const k8sName = workspaceService.getK8sName(workspace.id);
+    await kubernetesService.applyWorkspaceEnvSecret(namespace, k8sName, await this.resolve(workspace));
+  }
+
+  /**
+   * Bring a provisioned workspace in line with its stored environment. A running
+   * workspace is restarted by its StatefulSet when the values changed.
+   */
+  async sync(workspace: Workspace): Promise<void> {
+    // The create and unarchive operations write the Secret themselves; deleting,
+    // archived and trashed workspaces don't need it
+    if (
+      workspace.status === WorkspaceStatus.PENDING ||
+      workspace.status === WorkspaceStatus.DELETING ||
+      workspace.status === WorkspaceStatus.ARCHIVED ||
+      workspace.status === WorkspaceStatus.TRASHED
+    ) {
+      return;
+    }
+
+    const namespace = await workspaceService.getNamespace(workspace);
+    if (!namespace) {
+      throw new NotFoundError('Workspace namespace not found');
+    }
+
+    const k8sName = workspaceService.getK8sName(workspace.id);
+    const data = await this.resolve(workspace);
+    await kubernetesService.applyWorkspaceEnvSecret(namespace, k8sName, data);
+    await kubernetesService.updateStatefulSetEnvironment(namespace, k8sName, this.revision(data));
+  }
+
+  /**
+   * Sync every workspace in the group. One workspace failing doesn't stop the
+   * others; returns the ids of those that failed.
+   */
+  async syncGroup(groupId: string): Promise<string[]> {
+    const workspaces = await dynamodbService.getGroupWorkspaces(groupId);
+    const failed: string[] = [];
+
+    for (const workspace of workspaces) {
+      try {
+        await this.sync(workspace);
+      } catch (error) {
+        logger.error(`Failed to sync environment for workspace ${workspace.id}:`, error);
+        failed.push(workspace.id);
+      }
+    }
+
+    return failed;
+  }
+
+  // Content hash of the environment; only changes when a value does
+  private revision(data: Record<string, string>): string {
+    const canonical = JSON.stringify(Object.keys(data).sort().map(name => [name, data[name]]));
+    return createHash('sha256').update(canonical).digest('hex').substring(0, 16);
+  }
+
+  private decrypt(variables?: Record<string, StoredEnvironmentVariable>): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const [name, variable] of Object.entries(variables || {})) {
+      values[name] = variable.secret ? decryptSecret(variable.encryptedValue!) : variable.value ?? '';
+    }
+    return values;
+  }
+
+  private toResponse(name: string, variable: StoredEnvironmentVariable): EnvironmentVariable {
+    return {
+      name,
+      secret: variable.secret,
+      ...(variable.secret ? {} : { value: variable.value ?? '' }),
+      updatedAt: variable.updatedAt,
+      updatedBy: variable.updatedBy,
+    };
+  }
+}
+
+export const workspaceEnvironmentService = new WorkspaceEnvironmentService();
@@ -0,0 +1,96 @@
+import { EventEmitter } from 'events';
+import { logger } from '../config/logger';
+import { ResourceUsage, Workspace, WorkspaceStatus } from '../types';
+
+interface WorkspaceEventBase {
+  workspaceId: string;
+  groupId: string;
+  userId: string;
+  timestamp: string;
+}
+
+export interface WorkspaceStatusEvent extends WorkspaceEventBase {
+  type: 'status';
+  status: WorkspaceStatus;
+  replicas: number;
+  image?: string;
+  lastAccessedAt?: string;
+}
+
+export interface WorkspacePodEvent extends WorkspaceEventBase {
+  type: 'pod';
+  podName: string;
+  phase: string;
+  ready: boolean;
+  restartCount: number;
+  restarted: boolean;
+  reason?: string;
+}
+
+export interface WorkspaceMetricsEvent extends WorkspaceEventBase {
+  type: 'metrics';
+  usage: ResourceUsage;
+}
+
+// Sent once when a workspace comes within the warning period of its expiry
+export interface WorkspaceExpiryEvent extends WorkspaceEventBase {
+  type: 'expiry';
+  expiresAt: string;
+  deleteAt: string;
+}
+
+export type WorkspaceEvent = WorkspaceStatusEvent | WorkspacePodEvent | WorkspaceMetricsEvent | WorkspaceExpiryEvent;
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * In-process fan-out of workspace changes to live subscribers (the status
+ * stream in websocket.ts). Publishers are the reconciler, workspaceService and
+ * the background jobs.
+ */
+class WorkspaceEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(workspace: Pick<Workspace, 'id' | 'groupId' | 'userId'>, event: DistributiveOmit<WorkspaceEvent, keyof WorkspaceEventBase>): void {
+    const payload = {
+      ...event,
+      workspaceId: workspace.id,
+      groupId: workspace.groupId,
+      userId: workspace.userId,
+      timestamp: new Date().toISOString(),
+    } as WorkspaceEvent;
+
+    try {
+      this.emitter.emit('event', payload);
+    } catch (error) {
+      logger.warn(`Failed to publish ${event.type} event for workspace ${workspace.id}:`, error);
+    }
+  }
+
+  publishStatus(workspace: Workspace): void {
+    this.publish(workspace, {
+      type: 'status',
+      status: workspace.status,
+      replicas: workspace.replicas,
+      image: workspace.image,
+      lastAccessedAt: workspace.lastAccessedAt,
+    });
+  }
+
+  /**
+   * Returns a function that removes the listener
+   */
+  subscribe(listener: (event: WorkspaceEvent) => void): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+}
+
+export const workspaceEvents = new WorkspaceEventBus();
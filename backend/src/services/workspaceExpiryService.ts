@@ -0,0 +1,191 @@
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { Group, Workspace, WorkspaceStatus } from '../types';
+import { ValidationError } from '../utils/errors';
+import { dynamodbService } from './dynamodbService';
+import { trashService } from './trashService';
+import { workspaceEvents } from './workspaceEvents';
+import { workspaceService } from './workspaceService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The latest expiry the group's max lifetime allows for a workspace created at
+ * `createdAt`, or null when the group has no max lifetime
+ */
+export function maxExpiresAt(group: Group | null, createdAt: string): Date | null {
+  if (!group?.maxLifetimeDays) {
+    return null;
+  }
+  return new Date(new Date(createdAt).getTime() + group.maxLifetimeDays * DAY_MS);
+}
+
+/**
+ * Check a requested expiry against the group's max lifetime. Without a request
+ * (undefined) new workspaces get the longest lifetime the group allows; null
+ * removes the expiry, which groups with a max lifetime don't allow.
+ */
+export function resolveExpiresAt(
+  requested: string | null | undefined,
+  group: Group | null,
+  createdAt: string,
+  now: Date = new Date()
+): string | null | undefined {
+  const max = maxExpiresAt(group, createdAt);
+
+  if (requested === undefined) {
+    return max ? max.toISOString() : undefined;
+  }
+  if (requested === null) {
+    if (max) {
+      throw new ValidationError(`Workspaces in group ${group!.displayName} must expire within ${group!.maxLifetimeDays} days of creation`);
+    }
+    return null;
+  }
+
+  const expiresAt = new Date(requested);
+  if (expiresAt <= now) {
+    throw new ValidationError('Expiry must be in the future');
+  }
+  if (max && expiresAt > max) {
+    throw new ValidationError(`Workspaces in group ${group!.displayName} must expire by ${max.toISOString()}`);
+  }
+  return expiresAt.toISOString();
+}
+
+/**
+ * Enforces workspace expiry dates: owners are warned EXPIRY_WARNING_DAYS
+ * ahead, expired workspaces are stopped, and once the grace period has passed
+ * they are deleted (moved to the trash).
+ */
+class WorkspaceExpiryService {
+  private checkTimer: NodeJS.Timeout | null = null;
+  private checkInProgress = false;
+
+  start(): void {
+    if (this.checkTimer) {
+      return;
+    }
+
+    logger.info('Starting workspace expiry', {
+      checkIntervalMs: config.expiryCheckIntervalMs,
+      warningDays: config.expiryWarningDays,
+      graceDays: config.expiryGraceDays,
+    });
+
+    this.checkTimer = setInterval(() => {
+      this.checkAll().catch(error => logger.error('Workspace expiry check failed:', error));
+    }, config.expiryCheckIntervalMs);
+  }
+
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+
+    logger.info('Workspace expiry stopped');
+  }
+
+  // When an expired workspace is deleted
+  deleteAt(workspace: Workspace): Date {
+    return new Date(new Date(workspace.expiresAt!).getTime() + config.expiryGraceDays * DAY_MS);
+  }
+
+  async checkAll(now: Date = new Date()): Promise<void> {
+    if (this.checkInProgress) {
+      logger.debug('Workspace expiry check already in progress, skipping');
+      return;
+    }
+
+    this.checkInProgress = true;
+
+    try {
+      const workspaces = await dynamodbService.listAllWorkspaces();
+      for (const workspace of workspaces) {
+        if (
+          !workspace.expiresAt ||
+          workspace.status === WorkspaceStatus.PENDING ||
+          workspace.status === WorkspaceStatus.DELETING ||
+          workspace.status === WorkspaceStatus.TRASHED
+        ) {
+          continue;
+        }
+
+        try {
+          await this.check(workspace, now);
+        } catch (error) {
+          logger.warn(`Failed to enforce expiry of workspace ${workspace.id}:`, error);
+        }
+      }
+    } finally {
+      this.checkInProgress = false;
+    }
+  }
+
+  private async check(workspace: Workspace, now: Date): Promise<void> {
+    const expiresAt = new Date(workspace.expiresAt!);
+    const deleteAt = this.deleteAt(workspace);
+
+    if (now >= deleteAt) {
+      await this.audited(workspace, 'workspace_expiry_deleted', () => trashService.trashWorkspace(workspace, 'system'));
+      logger.info(`Workspace ${workspace.id} deleted ${config.expiryGraceDays} day(s) after its expiry`);
+      return;
+    }
+
+    if (now >= expiresAt) {
+      if (workspace.status === WorkspaceStatus.RUNNING || workspace.status === WorkspaceStatus.STARTING) {
+        // Keep the last activity, so stopping doesn't count as access
+        await this.audited(workspace, 'workspace_expiry_stopped', () =>
+          workspaceService.performAction(workspace, 'stop', workspace.lastAccessedAt));
+        logger.info(`Workspace ${workspace.id} stopped at its expiry`);
+      }
+      return;
+    }
+
+    if (!workspace.expiryWarnedAt && now.getTime() >= expiresAt.getTime() - config.expiryWarningDays * DAY_MS) {
+      await this.audited(workspace, 'workspace_expiry_warning', async () => {
+        await dynamodbService.updateWorkspace(workspace.id, { expiryWarnedAt: now.toISOString() });
+        workspaceEvents.publish(workspace, {
+          type: 'expiry',
+          expiresAt: workspace.expiresAt!,
+          deleteAt: deleteAt.toISOString(),
+        });
+      });
+    }
+  }
+
+  private async audited(workspace: Workspace, action: string, run: () => Promise<unknown>): Promise<void> {
+    const details = {
+      ownerId: workspace.userId,
+      groupId: workspace.groupId,
+      expiresAt: workspace.expiresAt,
+    };
+
+    try {
+      await run();
+    } catch (error) {
+      await dynamodbService.createAuditLog({
+        userId: 'system',
+        username: 'system',
+        action,
+        resource: `workspace:${workspace.id}`,
+        details,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+
+    await dynamodbService.createAuditLog({
+      userId: 'system',
+      username: 'system',
+      action,
+      resource: `workspace:${workspace.id}`,
+      details,
+      success: true,
+    });
+  }
+}
+
+export const workspaceExpiryService = new WorkspaceExpiryService();
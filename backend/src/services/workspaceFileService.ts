@@ -0,0 +1,264 @@
+import { posix } from 'path';
+import { Readable } from 'stream';
+import { config } from '../config';
+import { FileArchiveFormat, Workspace, WorkspaceFileEntry, WorkspaceFileListing, WorkspaceStatus } from '../types';
+import { ConflictError, KubernetesError, NotFoundError, ValidationError } from '../utils/errors';
+import { kubernetesService } from './kubernetesService';
+import { workspaceService } from './workspaceService';
+
+// The project volume; nothing outside it can be browsed or written
+export const FILES_ROOT = '/home/coder/.codex-projects';
+
+// Uploads are written to the exec stream in chunks of this size
+const UPLOAD_CHUNK_BYTES = 1024 * 1024;
+
+// Every script gets the root as $1 and the requested path as $2. Symlinks are
+// resolved before the path is checked, so they can't lead outside the root.
+const RESOLVE_PATH = `real=$(realpath -m -- "$2") || exit 2
+case "$real" in "$1"|"$1"/*) ;; *) exit 3 ;; esac`;
+
+// type, size, mtime and name of each entry, NUL-terminated
+const LIST_SCRIPT = `${RESOLVE_PATH}
+[ -d "$real" ] || exit 2
+find "$real" -mindepth 1 -maxdepth 1 -printf '%y\\t%s\\t%T@\\t%f\\0'`;
+
+// $3 is the download format; prints the type and size in bytes
+const STAT_SCRIPT = `${RESOLVE_PATH}
+[ "$3" != zip ] || command -v zip >/dev/null || exit 4
+if [ -d "$real" ]; then printf 'directory\\t'; du -sb -- "$real" | cut -f1
+elif [ -f "$real" ]; then printf 'file\\t'; stat -c %s -- "$real"
+else exit 2; fi`;
+
+// Archives keep symlinks as links (zip -y; tar does so by default), as following
+// them could pack up files outside the root
+const DOWNLOAD_SCRIPT = `${RESOLVE_PATH}
+cd "$(dirname "$real")" || exit 2
+name="./$(basename "$real")"
+case "$3" in
+  tar) exec tar -czf - "$name" ;;
+  zip) exec zip -qry - "$name" ;;
+  *) exec cat "$name" ;;
+esac`;
+
+// $3 is "overwrite" to replace an existing file
+const UPLOAD_SCRIPT = `${RESOLVE_PATH}
+[ "$real" != "$1" ] && [ ! -d "$real" ] || exit 5
+[ ! -e "$real" ] || [ "$3" = overwrite ] || exit 6
+mkdir -p -- "$(dirname "$real")"
+cat > "$real"`;
+
+const ENTRY_TYPES: Record<string, WorkspaceFileEntry['type']> = {
+  f: 'file',
+  d: 'directory',
+  l: 'symlink',
+};
+
+interface ExecTarget {
+  namespace: string;
+  podName: string;
+}
+
+export interface WorkspaceFileDownload {
+  filename: string;
+  contentType: string;
+  size: number; // Bytes on the volume; archives differ
+  format?: FileArchiveFormat;
+  stream: Readable;
+  exitCode: Promise<number>; // Resolves once the stream has ended
+  cancel: () => void;
+}
+
+/**
+ * Lists, downloads and uploads files on a running workspace's project volume
+ * by exec'ing small shell scripts in its pod.
+ */
+class WorkspaceFileService {
+  /**
+   * Normalize a path relative to the project volume; '' is its root
+   */
+  normalizePath(path: string = ''): string {
+    if (path.includes('\0')) {
+      throw new ValidationError('Invalid path');
+    }
+    return posix.normalize(`/${path}`).replace(/^\/+|\/+$/g, '');
+  }
+
+  async list(workspace: Workspace, path?: string): Promise<WorkspaceFileListing> {
+    const relative = this.normalizePath(path);
+    const target = await this.getTarget(workspace);
+
+    const { stdout } = await this.run(target, LIST_SCRIPT, [this.absolutePath(relative)]);
+
+    const entries = stdout.toString('utf8').split('\0').filter(Boolean).map(line => {
+      const [type, size, modified, ...name] = line.split('\t');
+      return {
+        name: name.join('\t'),
+        type: ENTRY_TYPES[type] || 'other',
+        size: parseInt(size, 10),
+        modifiedAt: new Date(parseFloat(modified) * 1000).toISOString(),
+      };
+    });
+
+    // Directories first, then by name
+    entries.sort((a, b) =>
+      Number(b.type === 'directory') - Number(a.type === 'directory') || a.name.localeCompare(b.name)
+    );
+
+    return { path: relative, entries };
+  }
+
+  /**
+   * Start streaming a file, or an archive of a file or directory. Directories
+   * are always archived, as tar unless zip is asked for.
+   */
+  async download(workspace: Workspace, path?: string, format?: FileArchiveFormat): Promise<WorkspaceFileDownload> {
+    const relative = this.normalizePath(path);
+    const absolute = this.absolutePath(relative);
+    const target = await this.getTarget(workspace);
+
+    const { stdout } = await this.run(target, STAT_SCRIPT, [absolute, format || '']);
+    const [type, size] = stdout.toString('utf8').trim().split('\t');
+    const bytes = parseInt(size, 10);
+
+    if (bytes > config.fileDownloadMaxBytes) {
+      throw new ValidationError(
+        `${relative || 'The project directory'} is larger than the ${this.formatLimit(config.fileDownloadMaxBytes)} download limit`
+      );
+    }
+
+    const archive = format || (type === 'directory' ? 'tar' : undefined);
+    const name = relative ? posix.basename(relative) : 'codex-projects';
+
+    const exec = await kubernetesService.execIntoPod(
+      target.namespace,
+      target.podName,
+      ['sh', '-c', DOWNLOAD_SCRIPT, 'sh', FILES_ROOT, absolute, archive || ''],
+      undefined,
+      { tty: false }
+    );
+    exec.stdin.end();
+    const stdoutEnded = new Promise(resolve => exec.stdout.on('end', resolve));
+
+    return {
+      filename: archive === 'tar' ? `${name}.tar.gz` : archive === 'zip' ? `${name}.zip` : name,
+      contentType: archive === 'tar' ? 'application/gzip' : archive === 'zip' ? 'application/zip' : 'application/octet-stream',
+      size: bytes,
+      format: archive,
+      stream: exec.stdout,
+      exitCode: exec.exitCode.then(async exitCode => {
+        if (exitCode !== -1) {
+          await stdoutEnded;
+        }
+        return exitCode;
+      }),
+      cancel: () => exec.ws?.close(),
+    };
+  }
+
+  /**
+   * Write a file, creating missing parent directories. Existing files are only
+   * replaced with `overwrite`.
+   */
+  async upload(workspace: Workspace, path: string, content: Buffer, overwrite: boolean = false): Promise<string> {
+    const relative = this.normalizePath(path);
+    if (!relative) {
+      throw new ValidationError('Path must name a file');
+    }
+    if (content.length > config.fileUploadMaxBytes) {
+      throw new ValidationError(`Files can't be larger than ${this.formatLimit(config.fileUploadMaxBytes)}`);
+    }
+
+    const target = await this.getTarget(workspace);
+    await this.run(target, UPLOAD_SCRIPT, [this.absolutePath(relative), overwrite ? 'overwrite' : ''], content);
+
+    return relative;
+  }
+
+  private absolutePath(relative: string): string {
+    return relative ? `${FILES_ROOT}/${relative}` : FILES_ROOT;
+  }
+
+  private formatLimit(bytes: number): string {
+    return `${Math.round(bytes / (1024 * 1024))} MB`;
+  }
+
+  private async getTarget(workspace: Workspace): Promise<ExecTarget> {
+    if (workspace.status !== WorkspaceStatus.RUNNING) {
+      throw new ConflictError('Start the workspace to access its files');
+    }
+
+    const namespace = await workspaceService.getNamespace(workspace);
+    if (!namespace) {
+      throw new NotFoundError('Workspace namespace not found');
+    }
+
+    const pods = await kubernetesService.listPods(namespace, `app=${workspaceService.getK8sName(workspace.id)}`);
+    if (pods.length === 0) {
+      throw new ConflictError('Workspace has no running pod');
+    }
+
+    return { namespace, podName: pods[0].name };
+  }
+
+  /**
+   * Run a script to completion and collect its output
+   */
+  private async run(
+    target: ExecTarget,
+    script: string,
+    args: string[],
+    input?: Buffer
+  ): Promise<{ stdout: Buffer; stderr: string }> {
+    const exec = await kubernetesService.execIntoPod(
+      target.namespace,
+      target.podName,
+      ['sh', '-c', script, 'sh', FILES_ROOT, ...args],
+      undefined,
+      { tty: false }
+    );
+
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    exec.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    exec.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    const stdoutEnded = new Promise(resolve => exec.stdout.on('end', resolve));
+
+    for (let offset = 0; input && offset < input.length; offset += UPLOAD_CHUNK_BYTES) {
+      exec.stdin.write(input.subarray(offset, offset + UPLOAD_CHUNK_BYTES));
+    }
+    exec.stdin.end();
+
+    const exitCode = await exec.exitCode;
+    // Output ends with the exit status, unless the connection dropped first
+    if (exitCode !== -1) {
+      await stdoutEnded;
+    }
+
+    const errorOutput = Buffer.concat(stderr).toString('utf8');
+    if (exitCode !== 0) {
+      throw this.toError(exitCode, errorOutput);
+    }
+
+    return { stdout: Buffer.concat(stdout), stderr: errorOutput };
+  }
+
+  // Exit codes the scripts above use
+  private toError(exitCode: number, stderr: string): Error {
+    switch (exitCode) {
+      case 2:
+        return new NotFoundError('File not found');
+      case 3:
+        return new ValidationError(`Path must be inside ${FILES_ROOT}`);
+      case 4:
+        return new ConflictError('zip is not installed in the workspace image; download as tar instead');
+      case 5:
+        return new ValidationError('Path is a directory');
+      case 6:
+        return new ConflictError('File already exists');
+      default:
+        return new KubernetesError(`File command failed in workspace: ${stderr.trim() || `exit code ${exitCode}`}`);
+    }
+  }
+}
+
+export const workspaceFileService = new WorkspaceFileService();
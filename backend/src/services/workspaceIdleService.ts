@@ -0,0 +1,220 @@
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { Group, Workspace, WorkspaceStatus } from '../types';
+import { dynamodbService } from './dynamodbService';
+import { workspaceService } from './workspaceService';
+
+/**
+ * Resolve the idle timeout that applies to a workspace: the workspace override,
+ * else the group default, else the platform default. Overrides above the
+ * group's bound (e.g. set before the bound was lowered) are clamped to it.
+ * Returns 0 when the workspace should never be stopped for inactivity.
+ */
+export function resolveIdleTimeoutMinutes(workspace: Workspace, group: Group | null): number {
+  let timeout = workspace.idleTimeoutMinutes ?? group?.idleTimeoutMinutes ?? config.defaultIdleTimeoutMinutes;
+
+  const maxTimeout = group?.maxIdleTimeoutMinutes;
+  if (maxTimeout && (timeout === 0 || timeout > maxTimeout)) {
+    timeout = maxTimeout;
+  }
+
+  return timeout;
+}
+
+/**
+ * Stops running workspaces that have had no activity for longer than their
+ * idle timeout.
+ *
+ * Activity comes from two places: code-server's own heartbeat, which advances
+ * on any HTTP or WebSocket traffic proxied to it, and exec sessions opened
+ * through the backend, which are tracked in-process.
+ */
+class WorkspaceIdleService {
+  private checkTimer: NodeJS.Timeout | null = null;
+  private checkInProgress = false;
+  private openExecSessions = new Map<string, number>();
+  private lastExecActivity = new Map<string, Date>();
+
+  start(): void {
+    if (this.checkTimer) {
+      return;
+    }
+
+    logger.info('Starting workspace idle shutdown', {
+      checkIntervalMs: config.idleCheckIntervalMs,
+      defaultIdleTimeoutMinutes: config.defaultIdleTimeoutMinutes,
+    });
+
+    this.checkTimer = setInterval(() => {
+      this.checkAll().catch(error => logger.error('Workspace idle check failed:', error));
+    }, config.idleCheckIntervalMs);
+  }
+
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+
+    logger.info('Workspace idle shutdown stopped');
+  }
+
+  execSessionStarted(workspaceId: string): void {
+    this.openExecSessions.set(workspaceId, (this.openExecSessions.get(workspaceId) || 0) + 1);
+    this.lastExecActivity.set(workspaceId, new Date());
+  }
+
+  execSessionEnded(workspaceId: string): void {
+    const remaining = (this.openExecSessions.get(workspaceId) || 1) - 1;
+    if (remaining > 0) {
+      this.openExecSessions.set(workspaceId, remaining);
+    } else {
+      this.openExecSessions.delete(workspaceId);
+    }
+    this.lastExecActivity.set(workspaceId, new Date());
+  }
+
+  /**
+   * Check every running workspace and stop the ones that have gone idle
+   */
+  async checkAll(): Promise<void> {
+    if (this.checkInProgress) {
+      logger.debug('Workspace idle check already in progress, skipping');
+      return;
+    }
+
+    this.checkInProgress = true;
+
+    try {
+      const workspaces = await dynamodbService.listAllWorkspaces();
+      const groupCache = new Map<string, Group | null>();
+
+      for (const workspace of workspaces) {
+        if (workspace.status !== WorkspaceStatus.RUNNING) {
+          continue;
+        }
+
+        try {
+          if (!groupCache.has(workspace.groupId)) {
+            groupCache.set(workspace.groupId, await dynamodbService.getGroup(workspace.groupId));
+          }
+
+          await this.checkWorkspace(workspace, groupCache.get(workspace.groupId));
+        } catch (error) {
+          logger.warn(`Failed to check workspace ${workspace.id} for inactivity:`, error);
+        }
+      }
+    } finally {
+      this.checkInProgress = false;
+    }
+  }
+
+  private async checkWorkspace(workspace: Workspace, group: Group | null): Promise<void> {
+    if (!group) {
+      return;
+    }
+
+    const timeoutMinutes = resolveIdleTimeoutMinutes(workspace, group);
+    if (!timeoutMinutes) {
+      return;
+    }
+
+    // An open terminal counts as activity for as long as it stays open
+    if (this.openExecSessions.get(workspace.id)) {
+      return;
+    }
+
+    const k8sName = workspaceService.getK8sName(workspace.id);
+    const heartbeat = await this.getCodeServerLastHeartbeat(group.namespace, k8sName);
+    if (heartbeat === undefined) {
+      // Without a heartbeat we can't tell whether anyone is using it, so leave it running
+      logger.debug(`No heartbeat available for workspace ${workspace.id}, skipping idle check`);
+      return;
+    }
+
+    const lastActivity = [
+      workspace.lastAccessedAt ? new Date(workspace.lastAccessedAt) : null,
+      heartbeat,
+      this.lastExecActivity.get(workspace.id) || null,
+    ].reduce((latest, candidate) => (candidate && (!latest || candidate > latest) ? candidate : latest), null as Date | null);
+
+    if (!lastActivity) {
+      return;
+    }
+
+    const lastAccessedAt = lastActivity.toISOString();
+    const idleMs = Date.now() - lastActivity.getTime();
+
+    if (idleMs < timeoutMinutes * 60 * 1000) {
+      if (lastAccessedAt !== workspace.lastAccessedAt) {
+        await dynamodbService.updateWorkspace(workspace.id, { lastAccessedAt });
+      }
+      return;
+    }
+
+    const idleMinutes = Math.floor(idleMs / 60000);
+
+    try {
+      await workspaceService.performAction(workspace, 'stop', lastAccessedAt);
+
+      await dynamodbService.createAuditLog({
+        userId: 'system',
+        username: 'system',
+        action: 'workspace_idle_shutdown',
+        resource: `workspace:${workspace.id}`,
+        details: {
+          ownerId: workspace.userId,
+          groupId: workspace.groupId,
+          idleTimeoutMinutes: timeoutMinutes,
+          idleMinutes,
+          lastAccessedAt,
+        },
+        success: true,
+      });
+
+      logger.info(`Workspace ${workspace.id} stopped after ${idleMinutes} minute(s) idle`, {
+        idleTimeoutMinutes: timeoutMinutes,
+      });
+    } catch (error) {
+      await dynamodbService.createAuditLog({
+        userId: 'system',
+        username: 'system',
+        action: 'workspace_idle_shutdown',
+        resource: `workspace:${workspace.id}`,
+        details: {
+          ownerId: workspace.userId,
+          groupId: workspace.groupId,
+          idleTimeoutMinutes: timeoutMinutes,
+          idleMinutes,
+        },
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Read code-server's last heartbeat from its /healthz endpoint via the
+   * workspace Service. Returns null if code-server has not seen any traffic
+   * yet and undefined if it could not be reached.
+   */
+  private async getCodeServerLastHeartbeat(namespace: string, k8sName: string): Promise<Date | null | undefined> {
+    try {
+      const response = await fetch(`http://${k8sName}.${namespace}.svc.cluster.local/healthz`, {
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) {
+        return undefined;
+      }
+
+      const body = await response.json() as { lastHeartbeat?: number };
+      return body.lastHeartbeat ? new Date(body.lastHeartbeat) : null;
+    } catch (error) {
+      logger.debug(`Failed to read code-server heartbeat for ${k8sName} in ${namespace}:`, error);
+      return undefined;
+    }
+  }
+}
+
+export const workspaceIdleService = new WorkspaceIdleService();
@@ -0,0 +1,381 @@
+import * as k8s from '@kubernetes/client-node';
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { Workspace, WorkspaceStatus, ResourceUsage } from '../types';
+import { NotFoundError } from '../utils/errors';
+import { dynamodbService } from './dynamodbService';
+import { kubernetesService } from './kubernetesService';
+import { workspaceEvents } from './workspaceEvents';
+
+type WatchKind = 'statefulsets' | 'pods';
+
+interface ObservedWorkspaceState {
+  status: WorkspaceStatus;
+  replicas: number;
+  image?: string;
+}
+
+// StatefulSets are named `workspace-<id without the ws_ prefix>`
+function workspaceIdFromStatefulSetName(name: string): string | null {
+  const match = name.match(/^workspace-([a-z0-9]+)$/);
+  return match ? `ws_${match[1]}` : null;
+}
+
+// Workspace pods are `<statefulset name>-0`
+function workspaceIdFromPodName(name: string): string | null {
+  const match = name.match(/^workspace-([a-z0-9]+)-\d+$/);
+  return match ? `ws_${match[1]}` : null;
+}
+
+function statefulSetNameForWorkspace(workspaceId: string): string {
+  return `workspace-${workspaceId.substring(3)}`.toLowerCase();
+}
+
+/**
+ * Keeps Workspace.status, replicas and image in DynamoDB in step with the
+ * StatefulSets in Kubernetes.
+ *
+ * A cluster-wide watch on platform-managed StatefulSets applies changes as they
+ * happen, and a periodic resync covers anything the watch missed (backend
+ * restarts, dropped watches, StatefulSets deleted out from under us) and
+ * refreshes usage metrics for running workspaces.
+ *
+ * Every change is also published on workspaceEvents, together with pod
+ * restarts and readiness changes from a watch on workspace pods, for the live
+ * status stream.
+ */
+class WorkspaceReconciler {
+  private running = false;
+  private watchControllers = new Map<WatchKind, AbortController>();
+  private watchRestartTimers = new Map<WatchKind, NodeJS.Timeout>();
+  // podName -> last seen restart count / readiness, to detect transitions
+  private podStates = new Map<string, { restartCount: number; ready: boolean; phase: string }>();
+  private resyncTimer: NodeJS.Timeout | null = null;
+  private resyncInProgress = false;
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    logger.info('Starting workspace reconciler', {
+      resyncIntervalMs: config.workspaceResyncIntervalMs,
+    });
+
+    await this.startWatch('statefulsets');
+    await this.startWatch('pods');
+
+    // Run an initial resync straight away so state left over from before a restart is corrected
+    this.resyncAll().catch(error => logger.error('Initial workspace resync failed:', error));
+    this.resyncTimer = setInterval(() => {
+      this.resyncAll().catch(error => logger.error('Workspace resync failed:', error));
+    }, config.workspaceResyncIntervalMs);
+  }
+
+  stop(): void {
+    this.running = false;
+
+    if (this.resyncTimer) {
+      clearInterval(this.resyncTimer);
+      this.resyncTimer = null;
+    }
+
+    for (const timer of this.watchRestartTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.watchRestartTimers.clear();
+
+    for (const controller of this.watchControllers.values()) {
+      controller.abort();
+    }
+    this.watchControllers.clear();
+    this.podStates.clear();
+
+    logger.info('Workspace reconciler stopped');
+  }
+
+  /**
+   * Reconcile every workspace in DynamoDB against Kubernetes
+   */
+  async resyncAll(): Promise<void> {
+    if (this.resyncInProgress) {
+      logger.debug('Workspace resync already in progress, skipping');
+      return;
+    }
+
+    this.resyncInProgress = true;
+    const startTime = Date.now();
+
+    try {
+      const workspaces = await dynamodbService.listAllWorkspaces();
+      const namespaceCache = new Map<string, string | null>();
+      const metricsCache = new Map<string, ResourceUsage>();
+
+      for (const workspace of workspaces) {
+        try {
+          if (!namespaceCache.has(workspace.groupId)) {
+            const group = await dynamodbService.getGroup(workspace.groupId);
+            namespaceCache.set(workspace.groupId, group ? group.namespace : null);
+          }
+
+          const namespace = namespaceCache.get(workspace.groupId);
+          if (!namespace) {
+            continue;
+          }
+
+          const observed = await this.observe(namespace, workspace.id);
+
+          // Usage is per-namespace, so fetch it once per namespace per pass
+          let usage: ResourceUsage | undefined;
+          if (observed.status === WorkspaceStatus.RUNNING) {
+            if (!metricsCache.has(namespace)) {
+              metricsCache.set(namespace, await kubernetesService.getNamespaceMetrics(namespace));
+            }
+            usage = metricsCache.get(namespace);
+          }
+
+          await this.apply(workspace, observed, usage);
+        } catch (error) {
+          logger.warn(`Failed to reconcile workspace ${workspace.id}:`, error);
+        }
+      }
+
+      logger.debug(`Workspace resync complete: ${workspaces.length} workspace(s) in ${Date.now() - startTime}ms`);
+    } finally {
+      this.resyncInProgress = false;
+    }
+  }
+
+  /**
+   * Reconcile a single workspace immediately (e.g. right after an action)
+   */
+  async reconcileWorkspace(workspaceId: string): Promise<Workspace | null> {
+    const workspace = await dynamodbService.getWorkspace(workspaceId);
+    if (!workspace) {
+      return null;
+    }
+
+    const group = await dynamodbService.getGroup(workspace.groupId);
+    if (!group) {
+      return workspace;
+    }
+
+    const observed = await this.observe(group.namespace, workspaceId);
+    return await this.apply(workspace, observed);
+  }
+
+  private async observe(namespace: string, workspaceId: string): Promise<ObservedWorkspaceState> {
+    const k8sName = statefulSetNameForWorkspace(workspaceId);
+    const status = await kubernetesService.getStatefulSetStatus(namespace, k8sName);
+    const details = await kubernetesService.getStatefulSetDetails(namespace, k8sName);
+
+    return {
+      status,
+      replicas: details ? details.replicas : 0,
+      image: details?.image || undefined,
+    };
+  }
+
+  private async apply(
+    workspace: Workspace,
+    observed: ObservedWorkspaceState,
+    usage?: ResourceUsage
+  ): Promise<Workspace> {
+    // Provisioning and deletion operations own the status until they finish,
+    // archived workspaces have no StatefulSet to observe and trashed ones stay
+    // trashed until restored
+    if (
+      workspace.status === WorkspaceStatus.PENDING ||
+      workspace.status === WorkspaceStatus.DELETING ||
+      workspace.status === WorkspaceStatus.ARCHIVED ||
+      workspace.status === WorkspaceStatus.TRASHED
+    ) {
+      return workspace;
+    }
+
+    const updates: Partial<Workspace> = {};
+
+    if (workspace.status !== observed.status) {
+      updates.status = observed.status;
+    }
+    if (workspace.replicas !== observed.replicas) {
+      updates.replicas = observed.replicas;
+    }
+    if (observed.image && workspace.image !== observed.image) {
+      updates.image = observed.image;
+    }
+
+    const stateChanged = Object.keys(updates).length > 0;
+    if (usage) {
+      updates.usage = usage;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return workspace;
+    }
+
+    try {
+      const updatedWorkspace = await dynamodbService.updateWorkspace(workspace.id, updates);
+      if (stateChanged) {
+        logger.info(`Workspace ${workspace.id} reconciled`, {
+          from: { status: workspace.status, replicas: workspace.replicas, image: workspace.image },
+          to: observed,
+        });
+        workspaceEvents.publishStatus(updatedWorkspace);
+      }
+      if (usage) {
+        workspaceEvents.publish(updatedWorkspace, { type: 'metrics', usage });
+      }
+      return updatedWorkspace;
+    } catch (error) {
+      // The workspace may have been deleted while we were looking at it
+      if (error instanceof NotFoundError) {
+        return workspace;
+      }
+      throw error;
+    }
+  }
+
+  private async startWatch(kind: WatchKind): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    const onDone = (error?: any) => {
+      this.watchControllers.delete(kind);
+      if (error) {
+        logger.warn(`Workspace ${kind} watch ended with error, restarting:`, error);
+      } else {
+        logger.debug(`Workspace ${kind} watch closed by server, restarting`);
+      }
+      this.scheduleWatchRestart(kind, error ? 5000 : 1000);
+    };
+
+    try {
+      const controller = kind === 'statefulsets'
+        ? await kubernetesService.watchManagedStatefulSets(
+            (type, statefulSet) => {
+              this.handleWatchEvent(type, statefulSet).catch(error => {
+                logger.warn('Failed to handle StatefulSet watch event:', error);
+              });
+            },
+            onDone
+          )
+        : await kubernetesService.watchStatefulSetPods(
+            (type, pod) => {
+              this.handlePodEvent(type, pod).catch(error => {
+                logger.warn('Failed to handle pod watch event:', error);
+              });
+            },
+            onDone
+          );
+      this.watchControllers.set(kind, controller);
+      logger.info(`Workspace ${kind} watch established`);
+    } catch (error) {
+      logger.warn(`Failed to start workspace ${kind} watch, retrying:`, error);
+      this.scheduleWatchRestart(kind, 5000);
+    }
+  }
+
+  private scheduleWatchRestart(kind: WatchKind, delayMs: number): void {
+    if (!this.running || this.watchRestartTimers.has(kind)) {
+      return;
+    }
+
+    this.watchRestartTimers.set(kind, setTimeout(() => {
+      this.watchRestartTimers.delete(kind);
+      this.startWatch(kind);
+    }, delayMs));
+  }
+
+  private async handleWatchEvent(type: string, statefulSet: k8s.V1StatefulSet): Promise<void> {
+    if (type !== 'ADDED' && type !== 'MODIFIED' && type !== 'DELETED') {
+      return;
+    }
+
+    const name = statefulSet.metadata?.name;
+    const workspaceId = name ? workspaceIdFromStatefulSetName(name) : null;
+    if (!workspaceId) {
+      return;
+    }
+
+    const workspace = await dynamodbService.getWorkspace(workspaceId);
+    if (!workspace) {
+      return;
+    }
+
+    // A deleted StatefulSet reads as stopped, matching getStatefulSetStatus on a 404
+    const observed: ObservedWorkspaceState = type === 'DELETED'
+      ? { status: WorkspaceStatus.STOPPED, replicas: 0 }
+      : {
+          status: kubernetesService.deriveStatefulSetStatus(statefulSet),
+          replicas: statefulSet.spec?.replicas || 0,
+          image: statefulSet.spec?.template?.spec?.containers?.[0]?.image,
+        };
+
+    await this.apply(workspace, observed);
+  }
+
+  private async handlePodEvent(type: string, pod: k8s.V1Pod): Promise<void> {
+    const podName = pod.metadata?.name;
+    const workspaceId = podName ? workspaceIdFromPodName(podName) : null;
+    if (!podName || !workspaceId) {
+      return;
+    }
+
+    if (type === 'DELETED') {
+      this.podStates.delete(podName);
+      return;
+    }
+    if (type !== 'ADDED' && type !== 'MODIFIED') {
+      return;
+    }
+
+    const containerStatus = pod.status?.containerStatuses?.[0];
+    const current = {
+      restartCount: containerStatus?.restartCount || 0,
+      ready: !!containerStatus?.ready,
+      phase: pod.status?.phase || 'Unknown',
+    };
+    const previous = this.podStates.get(podName);
+    this.podStates.set(podName, current);
+
+    // Only readiness, phase and restart transitions are interesting to subscribers
+    if (previous &&
+        previous.restartCount === current.restartCount &&
+        previous.ready === current.ready &&
+        previous.phase === current.phase) {
+      return;
+    }
+
+    const workspace = await dynamodbService.getWorkspace(workspaceId);
+    if (!workspace) {
+      return;
+    }
+
+    const restarted = !!previous && current.restartCount > previous.restartCount;
+    const reason = containerStatus?.lastState?.terminated?.reason ||
+      containerStatus?.state?.waiting?.reason ||
+      undefined;
+
+    if (restarted) {
+      logger.info(`Workspace ${workspaceId} pod ${podName} restarted`, {
+        restartCount: current.restartCount,
+        reason,
+      });
+    }
+
+    workspaceEvents.publish(workspace, {
+      type: 'pod',
+      podName,
+      phase: current.phase,
+      ready: current.ready,
+      restartCount: current.restartCount,
+      restarted,
+      reason,
+    });
+  }
+}
+
+export const workspaceReconciler = new WorkspaceReconciler();
@@ -0,0 +1,246 @@
+import { config } from '../config';
+import { logger } from '../config/logger';
+import { Workspace, WorkspaceStatus } from '../types';
+import { cronMatches, getZonedTime } from '../utils/cron';
+import { dynamodbService } from './dynamodbService';
+import { kubernetesService } from './kubernetesService';
+import { workspaceService, WorkspaceActionType } from './workspaceService';
+import { workspaceSnapshotService } from './workspaceSnapshotService';
+
+/**
+ * Runs the start/stop schedules and snapshot policies owners attach to their
+ * workspaces.
+ *
+ * Schedules are checked a few times a minute and each schedule fires at most
+ * once per matching minute. Actions go through workspaceService so they behave
+ * exactly like a user pressing start/stop, and every run is audited.
+ */
+class WorkspaceScheduler {
+  private checkTimer: NodeJS.Timeout | null = null;
+  private checkInProgress = false;
+  // `${workspaceId}:${action}` -> minute key of the last run, to avoid double firing
+  // (action is start, stop or snapshot)
+  private lastRuns = new Map<string, string>();
+
+  start(): void {
+    if (this.checkTimer) {
+      return;
+    }
+
+    logger.info('Starting workspace scheduler', {
+      checkIntervalMs: config.workspaceScheduleIntervalMs,
+    });
+
+    this.checkTimer = setInterval(() => {
+      this.runDueSchedules().catch(error => logger.error('Workspace schedule run failed:', error));
+    }, config.workspaceScheduleIntervalMs);
+  }
+
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+
+    logger.info('Workspace scheduler stopped');
+  }
+
+  /**
+   * Execute every schedule that is due in the current minute
+   */
+  async runDueSchedules(now: Date = new Date()): Promise<void> {
+    if (this.checkInProgress) {
+      logger.debug('Workspace schedule run already in progress, skipping');
+      return;
+    }
+
+    this.checkInProgress = true;
+
+    try {
+      const workspaces = await dynamodbService.listAllWorkspaces();
+
+      for (const workspace of workspaces) {
+        if (workspace.schedule?.enabled) {
+          try {
+            await this.runWorkspaceSchedule(workspace, now);
+          } catch (error) {
+            logger.warn(`Failed to run schedule for workspace ${workspace.id}:`, error);
+          }
+        }
+
+        if (workspace.snapshotPolicy?.enabled) {
+          try {
+            await this.runSnapshotPolicy(workspace, now);
+          } catch (error) {
+            logger.warn(`Failed to run snapshot policy for workspace ${workspace.id}:`, error);
+          }
+        }
+      }
+    } finally {
+      this.checkInProgress = false;
+    }
+  }
+
+  private async runWorkspaceSchedule(workspace: Workspace, now: Date): Promise<void> {
+    const { timezone, startCron, stopCron } = workspace.schedule!;
+
+    // Stop wins if both expressions land on the same minute
+    if (stopCron && cronMatches(stopCron, now, timezone)) {
+      await this.runOnce(workspace, 'stop', now);
+    } else if (startCron && cronMatches(startCron, now, timezone)) {
+      await this.runOnce(workspace, 'start', now);
+    }
+  }
+
+  /**
+   * Record a run for this minute; false if it already ran
+   */
+  private claimRun(workspaceId: string, action: string, timezone: string, now: Date): boolean {
+    const zoned = getZonedTime(now, timezone);
+    const minuteKey = `${zoned.year}-${zoned.month}-${zoned.day}T${zoned.hour}:${zoned.minute}`;
+    const runKey = `${workspaceId}:${action}`;
+
+    if (this.lastRuns.get(runKey) === minuteKey) {
+      return false;
+    }
+    this.lastRuns.set(runKey, minuteKey);
+    return true;
+  }
+
+  private async runSnapshotPolicy(workspace: Workspace, now: Date): Promise<void> {
+    const { timezone, cron, retain } = workspace.snapshotPolicy!;
+
+    if (!cronMatches(cron, now, timezone) || !this.claimRun(workspace.id, 'snapshot', timezone, now)) {
+      return;
+    }
+    if (
+      workspace.status === WorkspaceStatus.PENDING ||
+      workspace.status === WorkspaceStatus.DELETING ||
+      workspace.status === WorkspaceStatus.ARCHIVED ||
+      workspace.status === WorkspaceStatus.TRASHED
+    ) {
+      return;
+    }
+
+    try {
+      const snapshot = await workspaceSnapshotService.create(workspace, { trigger: 'scheduled', createdBy: 'system' });
+      const pruned = await workspaceSnapshotService.prune(workspace, retain);
+
+      await dynamodbService.createAuditLog({
+        userId: 'system',
+        username: 'system',
+        action: 'workspace_snapshot_scheduled',
+        resource: `workspace:${workspace.id}`,
+        details: {
+          ownerId: workspace.userId,
+          snapshot: snapshot.name,
+          pruned,
+        },
+        success: true,
+      });
+
+      logger.info(`Scheduled snapshot ${snapshot.name} taken of workspace ${workspace.id}`);
+    } catch (error) {
+      await dynamodbService.createAuditLog({
+        userId: 'system',
+        username: 'system',
+        action: 'workspace_snapshot_scheduled',
+        resource: `workspace:${workspace.id}`,
+        details: {
+          ownerId: workspace.userId,
+          snapshotPolicy: workspace.snapshotPolicy,
+        },
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  private async runOnce(workspace: Workspace, action: WorkspaceActionType, now: Date): Promise<void> {
+    if (!this.claimRun(workspace.id, action, workspace.schedule!.timezone, now)) {
+      return;
+    }
+
+    // Nothing to do if the workspace is already where the schedule wants it
+    if (action === 'start' && workspace.status !== WorkspaceStatus.STOPPED && workspace.status !== WorkspaceStatus.ERROR) {
+      return;
+    }
+    if (action === 'stop' && (workspace.status === WorkspaceStatus.STOPPED || workspace.status === WorkspaceStatus.STOPPING)) {
+      return;
+    }
+    if (
+      workspace.status === WorkspaceStatus.PENDING ||
+      workspace.status === WorkspaceStatus.DELETING ||
+      workspace.status === WorkspaceStatus.ARCHIVED ||
+      workspace.status === WorkspaceStatus.TRASHED
+    ) {
+      return;
+    }
+
+    if (action === 'start') {
+      const namespace = await workspaceService.getNamespace(workspace);
+      if (!namespace) {
+        logger.warn(`Skipping scheduled start for workspace ${workspace.id}: namespace not found`);
+        return;
+      }
+
+      const headroom = await kubernetesService.checkResourceQuotaHeadroom(namespace, {
+        cpu: workspace.resources.cpu,
+        memory: workspace.resources.memory,
+      });
+      if (!headroom.fits) {
+        logger.warn(`Skipping scheduled start for workspace ${workspace.id}: ${headroom.reason}`);
+        await dynamodbService.createAuditLog({
+          userId: 'system',
+          username: 'system',
+          action: 'workspace_schedule_skipped',
+          resource: `workspace:${workspace.id}`,
+          details: {
+            scheduledAction: action,
+            ownerId: workspace.userId,
+            namespace,
+            reason: headroom.reason,
+          },
+          success: false,
+          error: headroom.reason,
+        });
+        return;
+      }
+    }
+
+    try {
+      await workspaceService.performAction(workspace, action);
+
+      await dynamodbService.createAuditLog({
+        userId: 'system',
+        username: 'system',
+        action: `workspace_schedule_${action}`,
+        resource: `workspace:${workspace.id}`,
+        details: {
+          ownerId: workspace.userId,
+          schedule: workspace.schedule,
+        },
+        success: true,
+      });
+
+      logger.info(`Scheduled ${action} performed on workspace ${workspace.id}`);
+    } catch (error) {
+      await dynamodbService.createAuditLog({
+        userId: 'system',
+        username: 'system',
+        action: `workspace_schedule_${action}`,
+        resource: `workspace:${workspace.id}`,
+        details: {
+          ownerId: workspace.userId,
+          schedule: workspace.schedule,
+        },
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+}
+
+export const workspaceScheduler = new WorkspaceScheduler();
@@ -0,0 +1,210 @@
+import { logger } from '../config/logger';
+import { Workspace, WorkspaceStatus, WorkspaceActionRequest, WorkspaceResources } from '../types';
+import { NotFoundError, ConflictError, ValidationError } from '../utils/errors';
+import { dynamodbService } from './dynamodbService';
+import { kubernetesService } from './kubernetesService';
+import { workspaceEvents } from './workspaceEvents';
+
+export type WorkspaceActionType = WorkspaceActionRequest['type'];
+
+export interface ResourceUpdateResult {
+  workspace: Workspace;
+  changed: (keyof WorkspaceResources)[];
+  // The StatefulSet is rolling the running pod onto the new requests
+  restarting: boolean;
+  // The volume was expanded but the filesystem only grows on the next pod start
+  restartRequired: boolean;
+}
+
+/**
+ * Workspace lifecycle operations shared by the API routes and the background
+ * jobs (idle shutdown, schedules) so every start/stop goes through one path.
+ */
+class WorkspaceService {
+  getK8sName(workspaceId: string): string {
+    return `workspace-${workspaceId.substring(3)}`.toLowerCase();
+  }
+
+  async getNamespace(workspace: Workspace): Promise<string | null> {
+    const group = await dynamodbService.getGroup(workspace.groupId);
+    return group ? group.namespace : null;
+  }
+
+  /**
+   * Start, stop or restart a workspace by scaling its StatefulSet. The reconciler
+   * settles the final status once Kubernetes has caught up.
+   *
+   * lastAccessedAt defaults to now; callers acting on behalf of the system
+   * (e.g. idle shutdown) pass the last observed activity instead.
+   */
+  async performAction(
+    workspace: Workspace,
+    type: WorkspaceActionType,
+    lastAccessedAt: string = new Date().toISOString()
+  ): Promise<Workspace> {
+    if (workspace.status === WorkspaceStatus.ARCHIVED) {
+      throw new ConflictError('Unarchive the workspace first');
+    }
+    if (workspace.status === WorkspaceStatus.TRASHED) {
+      throw new ConflictError('Restore the workspace from the trash first');
+    }
+    if (workspace.status === WorkspaceStatus.PENDING || workspace.status === WorkspaceStatus.DELETING) {
+      throw new ConflictError(`Workspace is ${workspace.status}`);
+    }
+    if (type !== 'stop' && workspace.expiresAt && new Date(workspace.expiresAt) <= new Date()) {
+      throw new ConflictError(`Workspace expired on ${workspace.expiresAt}; extend its expiry to start it`);
+    }
+
+    const namespace = await this.getNamespace(workspace);
+    if (!namespace) {
+      throw new NotFoundError('Workspace namespace not found');
+    }
+
+    const k8sName = this.getK8sName(workspace.id);
+
+    let newStatus: WorkspaceStatus;
+    let replicas: number;
+
+    switch (type) {
+      case 'start':
+        if (workspace.status === WorkspaceStatus.RUNNING) {
+          throw new ConflictError('Workspace is already running');
+        }
+        newStatus = WorkspaceStatus.STARTING;
+        replicas = 1;
+        break;
+
+      case 'stop':
+        if (workspace.status === WorkspaceStatus.STOPPED) {
+          throw new ConflictError('Workspace is already stopped');
+        }
+        newStatus = WorkspaceStatus.STOPPING;
+        replicas = 0;
+        break;
+
+      case 'restart':
+        newStatus = WorkspaceStatus.STARTING;
+        replicas = 1;
+        break;
+
+      default:
+        throw new ValidationError('Invalid action type');
+    }
+
+    // A stopped workspace holds no compute quota, so its pod must fit before it starts
+    if (replicas > 0 && workspace.replicas === 0) {
+      const headroom = await kubernetesService.checkResourceQuotaHeadroom(namespace, {
+        cpu: workspace.resources.cpu,
+        memory: workspace.resources.memory,
+      });
+      if (!headroom.fits) {
+        throw new ValidationError(`Workspace exceeds the group quota: ${headroom.reason}`);
+      }
+    }
+
+    // Update status in database
+    await dynamodbService.updateWorkspace(workspace.id, {
+      status: newStatus,
+      replicas,
+      lastAccessedAt,
+    });
+
+    // Scale StatefulSet in Kubernetes
+    await kubernetesService.scaleStatefulSet(namespace, k8sName, replicas);
+
+    logger.debug(`Workspace ${workspace.id} scaled to ${replicas} replica(s) for ${type}`);
+
+    const updatedWorkspace = await dynamodbService.getWorkspace(workspace.id);
+    if (updatedWorkspace) {
+      workspaceEvents.publishStatus(updatedWorkspace);
+    }
+    return updatedWorkspace;
+  }
+
+  /**
+   * Apply new CPU/memory/storage to a workspace's StatefulSet and PVC, then
+   * record them. Storage can only grow, and any growth must fit within the
+   * group's ResourceQuota.
+   */
+  async updateResources(workspace: Workspace, requested: Partial<WorkspaceResources>): Promise<ResourceUpdateResult> {
+    if (workspace.status === WorkspaceStatus.ARCHIVED) {
+      throw new ConflictError('Unarchive the workspace first');
+    }
+    if (workspace.status === WorkspaceStatus.TRASHED) {
+      throw new ConflictError('Restore the workspace from the trash first');
+    }
+    if (workspace.status === WorkspaceStatus.PENDING || workspace.status === WorkspaceStatus.DELETING) {
+      throw new ConflictError(`Workspace is ${workspace.status}`);
+    }
+
+    const current = workspace.resources;
+    const target: WorkspaceResources = { ...current, ...requested };
+    const changed = (['cpu', 'memory', 'storage'] as const).filter(key => target[key] !== current[key]);
+
+    if (changed.length === 0) {
+      return { workspace, changed, restarting: false, restartRequired: false };
+    }
+
+    const storageChanged = changed.includes('storage');
+    const computeChanged = changed.includes('cpu') || changed.includes('memory');
+
+    if (storageChanged &&
+      kubernetesService.parseKubernetesQuantity(target.storage, 'memory') < kubernetesService.parseKubernetesQuantity(current.storage, 'memory')) {
+      throw new ValidationError(`Storage cannot be reduced below ${current.storage}`);
+    }
+
+    const namespace = await this.getNamespace(workspace);
+    if (!namespace) {
+      throw new NotFoundError('Workspace namespace not found');
+    }
+
+    const k8sName = this.getK8sName(workspace.id);
+    const pvcName = `workspace-storage-${k8sName}-0`;
+    const running = workspace.replicas > 0;
+
+    // A stopped workspace holds no compute quota; its requests are checked when it starts
+    const headroom = await kubernetesService.checkResourceQuotaHeadroom(namespace, {
+      cpu: running && computeChanged ? target.cpu : undefined,
+      memory: running && computeChanged ? target.memory : undefined,
+      storage: storageChanged ? target.storage : undefined,
+    }, { pods: 0, releasing: current });
+    if (!headroom.fits) {
+      throw new ValidationError(`Resource change exceeds the group quota: ${headroom.reason}`);
+    }
+
+    // Record each change as soon as Kubernetes has it, so a later failure
+    // never leaves the database claiming more or less than the pod has
+    let updatedWorkspace = workspace;
+    let resources = { ...current };
+
+    if (storageChanged) {
+      // A workspace that never started has no PVC yet; create it at the new size
+      if (await kubernetesService.getPVCStorage(pvcName, namespace)) {
+        await kubernetesService.expandPVC(pvcName, namespace, target.storage);
+      } else {
+        await kubernetesService.createStatefulSetPVC(namespace, k8sName, target.storage);
+      }
+      resources = { ...resources, storage: target.storage };
+      updatedWorkspace = await dynamodbService.updateWorkspace(workspace.id, { resources });
+    }
+
+    if (computeChanged) {
+      await kubernetesService.updateStatefulSetResources(namespace, k8sName, { cpu: target.cpu, memory: target.memory });
+      resources = { ...resources, cpu: target.cpu, memory: target.memory };
+      updatedWorkspace = await dynamodbService.updateWorkspace(workspace.id, { resources });
+    }
+
+    const restarting = running && computeChanged;
+    let restartRequired = false;
+    if (storageChanged && running && !restarting) {
+      const pvc = await kubernetesService.getPVCStorage(pvcName, namespace);
+      restartRequired = !!pvc?.fileSystemResizePending;
+    }
+
+    logger.info(`Workspace ${workspace.id} resources updated`, { from: current, to: resources, restarting, restartRequired });
+
+    return { workspace: updatedWorkspace, changed, restarting, restartRequired };
+  }
+}
+
+export const workspaceService = new WorkspaceService();
@@ -0,0 +1,138 @@
+import { randomBytes } from 'crypto';
+import { logger } from '../config/logger';
+import { Workspace, WorkspaceSnapshot } from '../types';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { kubernetesService } from './kubernetesService';
+import { workspaceService } from './workspaceService';
+
+export const WORKSPACE_ID_LABEL = 'codex-platform/workspace-id';
+const TRIGGER_LABEL = 'codex-platform/snapshot-trigger';
+const DESCRIPTION_ANNOTATION = 'codex-platform/description';
+const CREATED_BY_ANNOTATION = 'codex-platform/created-by';
+
+function toWorkspaceSnapshot(snapshot: any): WorkspaceSnapshot {
+  const metadata = snapshot.metadata || {};
+  const status = snapshot.status || {};
+
+  return {
+    name: metadata.name,
+    workspaceId: metadata.labels?.[WORKSPACE_ID_LABEL],
+    description: metadata.annotations?.[DESCRIPTION_ANNOTATION],
+    trigger: metadata.labels?.[TRIGGER_LABEL] === 'scheduled' ? 'scheduled' : 'manual',
+    readyToUse: !!status.readyToUse,
+    restoreSize: status.restoreSize,
+    error: status.error?.message,
+    createdBy: metadata.annotations?.[CREATED_BY_ANNOTATION],
+    createdAt: status.creationTime || metadata.creationTimestamp,
+  };
+}
+
+/**
+ * Point-in-time copies of a workspace's home volume, stored as CSI
+ * VolumeSnapshots next to the PVC. Kubernetes is the source of truth; the
+ * snapshots are found again through the workspace id label.
+ */
+class WorkspaceSnapshotService {
+  async list(workspace: Workspace): Promise<WorkspaceSnapshot[]> {
+    const namespace = await this.requireNamespace(workspace);
+    const snapshots = await kubernetesService.listVolumeSnapshots(namespace, `${WORKSPACE_ID_LABEL}=${workspace.id}`);
+
+    return snapshots
+      .map(toWorkspaceSnapshot)
+      .sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+  }
+
+  async get(workspace: Workspace, name: string): Promise<WorkspaceSnapshot> {
+    const namespace = await this.requireNamespace(workspace);
+    const snapshot = await kubernetesService.getVolumeSnapshot(namespace, name);
+
+    // Don't let one workspace reach another's snapshots in a shared namespace
+    if (!snapshot || snapshot.metadata?.labels?.[WORKSPACE_ID_LABEL] !== workspace.id) {
+      throw new NotFoundError('Snapshot not found');
+    }
+    return toWorkspaceSnapshot(snapshot);
+  }
+
+  generateName(workspace: Workspace): string {
+    const timestamp = new Date().toISOString().replace(/[-:T]/g, '').substring(0, 14);
+    return `${workspaceService.getK8sName(workspace.id)}-${timestamp}-${randomBytes(2).toString('hex')}`;
+  }
+
+  /**
+   * Snapshot the workspace's volume, or with `source` the volume of another
+   * workspace in the same namespace (used to seed clones). The snapshot
+   * belongs to `workspace` either way.
+   */
+  async create(
+    workspace: Workspace,
+    options: {
+      description?: string;
+      trigger?: 'manual' | 'scheduled';
+      createdBy: string;
+      name?: string;
+      source?: Workspace;
+    }
+  ): Promise<WorkspaceSnapshot> {
+    const namespace = await this.requireNamespace(workspace);
+    const sourceK8sName = workspaceService.getK8sName((options.source || workspace).id);
+
+    const pvcName = `workspace-storage-${sourceK8sName}-0`;
+    if (!(await kubernetesService.getPVCStorage(pvcName, namespace))) {
+      // The PVC only exists once the workspace has been started at least once
+      throw new ConflictError('Workspace has no storage to snapshot yet; start it at least once first');
+    }
+
+    const name = options.name || this.generateName(workspace);
+
+    const snapshot = await kubernetesService.createVolumeSnapshot(
+      namespace,
+      name,
+      pvcName,
+      {
+        [WORKSPACE_ID_LABEL]: workspace.id,
+        [TRIGGER_LABEL]: options.trigger || 'manual',
+      },
+      {
+        [CREATED_BY_ANNOTATION]: options.createdBy,
+        ...(options.description ? { [DESCRIPTION_ANNOTATION]: options.description } : {}),
+      }
+    );
+
+    return toWorkspaceSnapshot(snapshot);
+  }
+
+  async delete(workspace: Workspace, name: string): Promise<void> {
+    await this.get(workspace, name);
+    const namespace = await this.requireNamespace(workspace);
+    await kubernetesService.deleteVolumeSnapshot(namespace, name);
+  }
+
+  /**
+   * Delete the oldest scheduled snapshots beyond `retain`. Manual snapshots
+   * are left alone.
+   */
+  async prune(workspace: Workspace, retain: number): Promise<string[]> {
+    const namespace = await this.requireNamespace(workspace);
+    const scheduled = (await this.list(workspace)).filter(snapshot => snapshot.trigger === 'scheduled');
+
+    const expired = scheduled.slice(retain);
+    for (const snapshot of expired) {
+      await kubernetesService.deleteVolumeSnapshot(namespace, snapshot.name);
+    }
+
+    if (expired.length > 0) {
+      logger.info(`Pruned ${expired.length} scheduled snapshot(s) of workspace ${workspace.id}`);
+    }
+    return expired.map(snapshot => snapshot.name);
+  }
+
+  private async requireNamespace(workspace: Workspace): Promise<string> {
+    const namespace = await workspaceService.getNamespace(workspace);
+    if (!namespace) {
+      throw new NotFoundError('Workspace namespace not found');
+    }
+    return namespace;
+  }
+}
+
+export const workspaceSnapshotService = new WorkspaceSnapshotService();
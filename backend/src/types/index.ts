@@ -9,6 +9,7 @@ export enum GroupRole {
 export interface GroupMembership {
   groupId: string;
   role: GroupRole;
+  managed?: boolean; // Granted by a group mapping rule; removed again at login once no rule matches
 }
 
 export interface User {
@@ -19,12 +20,15 @@ export interface User {
   groups: string[]; // Legacy: array of group IDs (kept for backward compatibility)
   groupMemberships?: GroupMembership[]; // New: group memberships with roles
   isAdmin: boolean;
+  disabled?: boolean; // Deactivated by an admin or through SCIM; sign-in is refused
+  externalId?: string; // The identity provider's id for the user, set through SCIM
   createdAt: string;
   lastLoginAt?: string;
 }
 
 export interface AuthenticatedRequest extends Request {
   user?: User;
+  personalAccessToken?: PersonalAccessToken; // Set when the request was authenticated with one
 }
 
 export interface JwtPayload {
@@ -33,6 +37,7 @@ export interface JwtPayload {
   name?: string; // User's display name from OAuth provider
   email?: string; // Optional because access tokens don't contain email
   groups?: string[];
+  isAdmin?: boolean; // Set by identity providers with their own admin claim mapping
   iat: number;
   exp: number;
 }
@@ -46,6 +51,11 @@ export interface Group {
   description?: string;
   memberCount: number;
   resourceQuota: ResourceQuota;
+  idleTimeoutMinutes?: number; // Default idle timeout for workspaces in the group (0 = never)
+  maxIdleTimeoutMinutes?: number; // Upper bound for workspace overrides (unset = no bound)
+  allowedTemplateIds?: string[] | null; // When set, workspaces in the group must come from one of these templates
+  maxLifetimeDays?: number | null; // When set, workspaces in the group expire at most this many days after creation
+  trash?: TrashRecord | null; // Set while the group is in the trash
   createdAt: string;
 }
 
@@ -106,6 +116,174 @@ export interface Workspace {
   usage?: ResourceUsage;
   image: string;
   replicas: number;
+  idleTimeoutMinutes?: number | null; // Overrides the group default (0 = never), null clears the override
+  schedule?: WorkspaceSchedule | null;
+  snapshotPolicy?: WorkspaceSnapshotPolicy | null;
+  clonedFrom?: string; // Id of the workspace this one was cloned from
+  templateId?: string; // Template the workspace was created from
+  env?: Record<string, string>; // Plain environment variables for the code-server container
+  extensions?: string[]; // VS Code extension ids installed on every start
+  repository?: WorkspaceRepository;
+  archive?: WorkspaceArchive | null; // Set while the workspace is archived
+  trash?: TrashRecord | null; // Set while the workspace is in the trash
+  expiresAt?: string | null; // Stopped at this time and deleted after the grace period
+  expiryWarnedAt?: string | null; // When the owner was warned of the upcoming expiry
+  access?: WorkspaceAccess; // The caller's access, set on API responses only
+}
+
+// 'volume' keeps the PVC; 'snapshot' keeps only a VolumeSnapshot of it (cold storage)
+export type ArchiveMode = 'volume' | 'snapshot';
+
+export interface WorkspaceArchive {
+  mode: ArchiveMode;
+  snapshotName?: string; // The snapshot the volume is restored from, for 'snapshot'
+  archivedAt: string;
+  archivedBy: string; // User id, or 'system' for auto-archive
+}
+
+// Soft-deleted workspaces and groups are purged for good once purgeAt has passed
+export interface TrashRecord {
+  deletedAt: string;
+  deletedBy: string; // User id
+  purgeAt: string;
+}
+
+export interface WorkspaceRepository {
+  url: string;
+  branch?: string;
+  credentialsSecret?: string; // basic-auth or ssh-auth Secret in the workspace's namespace
+}
+
+// Reusable starting points for new workspaces. Templates without a groupId are
+// platform-wide and managed by admins; group templates are managed by group admins.
+export interface WorkspaceTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  groupId?: string | null;
+  image: string;
+  tier?: ResourceTier;
+  resources?: WorkspaceResources; // Takes precedence over the tier
+  env?: Record<string, string>;
+  repository?: WorkspaceRepository; // Repository to start new workspaces from
+  extensions?: string[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkspaceSchedule {
+  enabled: boolean;
+  timezone: string; // IANA time zone the cron expressions are evaluated in, e.g. 'Europe/London'
+  startCron?: string; // 5-field cron expression, e.g. '0 8 * * 1-5'
+  stopCron?: string;
+}
+
+export interface WorkspaceSnapshotPolicy {
+  enabled: boolean;
+  timezone: string;
+  cron: string; // 5-field cron expression for when to take a snapshot
+  retain: number; // Scheduled snapshots to keep; older ones are deleted (manual snapshots are never pruned)
+}
+
+// Backed by a CSI VolumeSnapshot of the workspace PVC
+export interface WorkspaceSnapshot {
+  name: string;
+  workspaceId: string;
+  description?: string;
+  trigger: 'manual' | 'scheduled';
+  readyToUse: boolean;
+  restoreSize?: string;
+  error?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+// An entry of a directory on the workspace's project volume
+export interface WorkspaceFileEntry {
+  name: string;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number; // Bytes
+  modifiedAt: string;
+}
+
+export interface WorkspaceFileListing {
+  path: string; // Relative to the project volume, '' for its root
+  entries: WorkspaceFileEntry[];
+}
+
+export type FileArchiveFormat = 'tar' | 'zip';
+
+// Roles a workspace can be shared with; each includes the ones before it
+export enum CollaboratorRole {
+  VIEWER = 'viewer', // See the workspace, its status, logs and snapshots
+  OPERATOR = 'operator', // Also start, stop and restart it
+  EDITOR = 'editor', // Also see the password and open the IDE
+}
+
+// What a user may do with a workspace. 'owner' is the owner, group admins and
+// platform admins: everything, including settings and sharing.
+export type WorkspaceAccess = CollaboratorRole | 'owner';
+
+export interface WorkspaceCollaborator {
+  workspaceId: string;
+  userId: string;
+  email: string;
+  name?: string;
+  role: CollaboratorRole;
+  addedBy: string;
+  addedAt: string;
+}
+
+export interface AddCollaboratorRequest {
+  email: string;
+  role: CollaboratorRole;
+}
+
+export interface TransferWorkspaceRequest {
+  email: string; // The new owner, who must be a member of the workspace's group
+}
+
+export interface MoveWorkspaceRequest {
+  groupId: string;
+}
+
+export interface ArchiveWorkspaceRequest {
+  mode?: ArchiveMode;
+}
+
+// Environment variables set on a workspace or on every workspace of a group.
+// Workspace values override group values of the same name.
+export type EnvironmentScope = 'workspace' | 'group';
+
+// As stored: secret values are encrypted and never leave the backend
+export interface StoredEnvironmentVariable {
+  secret: boolean;
+  value?: string; // Plain variables only
+  encryptedValue?: string; // Secret variables only
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface EnvironmentVariableSet {
+  scope: EnvironmentScope;
+  scopeId: string;
+  variables: Record<string, StoredEnvironmentVariable>;
+  updatedAt: string;
+}
+
+// As returned by the API
+export interface EnvironmentVariable {
+  name: string;
+  secret: boolean;
+  value?: string; // Omitted for secrets
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface SetEnvironmentVariableRequest {
+  value: string;
+  secret?: boolean;
 }
 
 export enum WorkspaceStatus {
@@ -114,7 +292,10 @@ export enum WorkspaceStatus {
   STARTING = 'starting',
   STOPPING = 'stopping',
   ERROR = 'error',
-  PENDING = 'pending'
+  PENDING = 'pending',
+  DELETING = 'deleting',
+  ARCHIVED = 'archived', // Only the volume (or a snapshot of it) is kept; see WorkspaceArchive
+  TRASHED = 'trashed', // Soft-deleted: scaled down and hidden until restored or purged; see TrashRecord
 }
 
 export interface WorkspaceResources {
@@ -130,12 +311,68 @@ export interface CreateWorkspaceRequest {
   image?: string;
   resources?: WorkspaceResources;
   tier?: ResourceTier;
+  templateId?: string; // Explicit image, tier and resources override the template's
+  repository?: WorkspaceRepository; // Cloned into the workspace volume on first start
+  expiresAt?: string; // ISO 8601; defaults to the group's max lifetime
+}
+
+export interface CloneWorkspaceRequest {
+  name: string;
+  groupId?: string; // Defaults to the source workspace's group
+  copyVolume?: boolean; // Seed the clone's volume from a snapshot of the source
 }
 
 export interface WorkspaceActionRequest {
   type: 'start' | 'stop' | 'restart';
 }
 
+// Operation types (asynchronous provisioning)
+export enum OperationStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  ROLLING_BACK = 'rolling_back',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+export type OperationType =
+  | 'workspace.create'
+  | 'workspace.clone'
+  | 'workspace.delete'
+  | 'workspace.restore'
+  | 'workspace.move'
+  | 'workspace.archive'
+  | 'workspace.unarchive';
+
+export type OperationStepStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped' | 'rolled_back';
+
+export interface OperationStep {
+  name: string;
+  description: string;
+  status: OperationStepStatus;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+}
+
+export interface Operation {
+  id: string;
+  type: OperationType;
+  status: OperationStatus;
+  resource: string; // e.g. 'workspace:ws_123'
+  workspaceId: string;
+  groupId: string;
+  userId: string;
+  steps: OperationStep[];
+  context: Record<string, any>; // Inputs needed to resume the operation after a restart
+  error?: string;
+  leaseOwner?: string;
+  leaseExpiresAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
 // Dashboard types
 export interface DashboardStats {
   totalWorkspaces: number;
@@ -157,15 +394,80 @@ export interface AuditLog {
   error?: string;
 }
 
+// A recorded exec terminal session; its asciicast v2 events are stored in chunks
+export interface ExecRecording {
+  id: string;
+  workspaceId: string;
+  workspaceName: string;
+  userId: string;
+  username: string;
+  podName: string;
+  namespace: string;
+  cols: number; // Terminal size when the first output was recorded
+  rows: number;
+  startedAt: string;
+  endedAt?: string;
+  durationMs?: number;
+  chunkCount: number;
+  bytes: number;
+  truncated?: boolean; // Recording stopped at the size limit; the session went on
+}
+
+export type TokenScope = 'workspaces:read' | 'workspaces:control' | 'workspaces:write' | 'workspaces:exec';
+
+// A user-managed API token for scripts and CI; only a hash of the secret is stored
+export interface PersonalAccessToken {
+  id: string;
+  userId: string;
+  name: string;
+  scopes: TokenScope[];
+  tokenHash: string;
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+}
+
+export interface CreatePersonalAccessTokenRequest {
+  name: string;
+  scopes: TokenScope[];
+  expiresInDays: number;
+}
+
+// What a group mapping rule matches at login
+export type GroupMappingSource = 'idpGroup' | 'emailDomain';
+
+// Grants membership of an application group to users whose identity-provider
+// groups or email domain match
+export interface GroupMappingRule {
+  id: string;
+  source: GroupMappingSource;
+  value: string; // IdP group name, or email domain without the "@" (lowercase)
+  groupId: string;
+  role: GroupRole;
+  createdAt: string;
+  createdBy: string;
+}
+
+export interface CreateGroupMappingRuleRequest {
+  source: GroupMappingSource;
+  value: string;
+  groupId: string;
+  role: GroupRole;
+}
+
 export interface SystemSettings {
   id: string;
   defaultWorkspaceImage: string;
+  autoArchiveAfterDays?: number; // Archive stopped workspaces not accessed for this long (0 or unset = never)
+  autoArchiveMode?: ArchiveMode;
   updatedAt: string;
   updatedBy: string;
 }
 
 export interface UpdateSystemSettingsRequest {
   defaultWorkspaceImage?: string;
+  autoArchiveAfterDays?: number;
+  autoArchiveMode?: ArchiveMode;
 }
 
 export interface PaginatedResponse<T> {
@@ -194,7 +496,7 @@ export interface PodStatus {
 
 export interface ComponentHealthStatus {
   name: string;
-  type: 'deployment' | 'statefulset' | 'service' | 'pvc' | 'pod';
+  type: 'deployment' | 'statefulset' | 'service' | 'pvc' | 'pod' | 'repository';
   healthy: boolean;
   status: string;
   reason: string;
@@ -0,0 +1,163 @@
+// Minimal 5-field cron support (minute hour day-of-month month day-of-week)
+// for workspace schedules. Supports '*', lists, ranges and steps, e.g.
+// '0 8 * * 1-5' or '*/15 9-17 * * mon-fri'.
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+export interface ParsedCron {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+function parseValue(value: string, names?: string[], nameOffset: number = 0): number {
+  const nameIndex = names ? names.indexOf(value.toLowerCase()) : -1;
+  const parsed = nameIndex >= 0 ? nameIndex + nameOffset : Number(value);
+
+  if (!Number.isInteger(parsed)) {
+    throw new Error(`Invalid cron value "${value}"`);
+  }
+  return parsed;
+}
+
+function parseField(field: string, min: number, max: number, names?: string[], nameOffset: number = 0): CronField {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, names, nameOffset);
+      end = parseValue(to, names, nameOffset);
+    } else {
+      start = parseValue(rangePart, names, nameOffset);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron field "${part}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard: field === '*' };
+}
+
+/**
+ * Parse a 5-field cron expression. Throws if the expression is invalid.
+ */
+export function parseCronExpression(expression: string): ParsedCron {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields (minute hour day-of-month month day-of-week)');
+  }
+
+  const dayOfWeek = parseField(fields[4], 0, 7, DAY_NAMES);
+  // Both 0 and 7 mean Sunday
+  if (dayOfWeek.values.has(7)) {
+    dayOfWeek.values.delete(7);
+    dayOfWeek.values.add(0);
+  }
+
+  return {
+    minute: parseField(fields[0], 0, 59),
+    hour: parseField(fields[1], 0, 23),
+    dayOfMonth: parseField(fields[2], 1, 31),
+    month: parseField(fields[3], 1, 12, MONTH_NAMES, 1),
+    dayOfWeek,
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time of `date` in `timeZone`
+ */
+export function getZonedTime(date: Date, timeZone: string): {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+} {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    weekday: DAY_NAMES.indexOf(get('weekday').toLowerCase()),
+  };
+}
+
+/**
+ * Whether the cron expression fires in the minute containing `date`, evaluated
+ * in the given IANA time zone.
+ */
+export function cronMatches(expression: string | ParsedCron, date: Date, timeZone: string): boolean {
+  const cron = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+  const time = getZonedTime(date, timeZone);
+
+  if (!cron.minute.values.has(time.minute) || !cron.hour.values.has(time.hour) || !cron.month.values.has(time.month)) {
+    return false;
+  }
+
+  // Standard cron semantics: when both day fields are restricted, either may match
+  const dayOfMonthMatches = cron.dayOfMonth.values.has(time.day);
+  const dayOfWeekMatches = cron.dayOfWeek.values.has(time.weekday);
+  if (!cron.dayOfMonth.wildcard && !cron.dayOfWeek.wildcard) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
@@ -0,0 +1,45 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { config } from '../config';
+
+const ALGORITHM = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+// Any string works as the configured key; it is stretched to the 32 bytes AES-256 needs
+function encryptionKey(): Buffer {
+  if (!config.secretsEncryptionKey) {
+    throw new Error('SECRETS_ENCRYPTION_KEY is not set');
+  }
+  return createHash('sha256').update(config.secretsEncryptionKey).digest();
+}
+
+/**
+ * Encrypt a secret for storage. The result is `v1:<iv>:<auth tag>:<ciphertext>` in base64.
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [FORMAT_VERSION, iv, authTag, ciphertext]
+    .map(part => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':');
+}
+
+/**
+ * Decrypt a value produced by encryptSecret. Throws if it was tampered with or
+ * encrypted with a different key.
+ */
+export function decryptSecret(payload: string): string {
+  const [version, iv, authTag, ciphertext] = payload.split(':');
+  if (version !== FORMAT_VERSION || !iv || !authTag || ciphertext === undefined) {
+    throw new Error('Unsupported encrypted secret format');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, encryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
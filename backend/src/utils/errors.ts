@@ -57,6 +57,12 @@ export class RateLimitError extends AppError {
   }
 }
 
+export class NotImplementedError extends AppError {
+  constructor(message: string = 'Not implemented') {
+    super(message, 501, 'NOT_IMPLEMENTED');
+  }
+}
+
 export class KubernetesError extends AppError {
   constructor(message: string, details?: any) {
     super(message, 500, 'KUBERNETES_ERROR', details);
@@ -1,10 +1,16 @@
-import { Server as HTTPServer } from 'http';
+import { Server as HTTPServer, STATUS_CODES } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
 import { parse as parseUrl } from 'url';
 import { logger } from './config/logger';
-import { verifyToken } from './middleware/auth';
+import { verifyCredentials } from './middleware/auth';
 import { dynamodbService } from './services/dynamodbService';
 import { kubernetesService } from './services/kubernetesService';
+import { workspaceEvents, WorkspaceEvent } from './services/workspaceEvents';
+import { workspaceAccessService } from './services/workspaceAccessService';
+import { execSessionService } from './services/execSessionService';
+import { personalAccessTokenService } from './services/personalAccessTokenService';
+import { User } from './types';
+import { AppError, AuthorizationError } from './utils/errors';
 
 export function setupWebSocketServer(server: HTTPServer): void {
   const wss = new WebSocketServer({ noServer: true });
@@ -14,17 +20,18 @@ export function setupWebSocketServer(server: HTTPServer): void {
     try {
       const { pathname, query } = parseUrl(request.url || '', true);
 
-      // Only handle admin workspace exec requests
-      const execMatch = pathname?.match(/^\/api\/admin\/workspaces\/([^/]+)\/exec$/);
+      // Handle the workspace status stream and workspace exec requests. Admins
+      // can exec into any workspace; the workspace route follows workspace access
+      const isStatusStream = pathname === '/api/workspaces/events';
+      const adminExecMatch = pathname?.match(/^\/api\/admin\/workspaces\/([^/]+)\/exec$/);
+      const execMatch = adminExecMatch || pathname?.match(/^\/api\/workspaces\/([^/]+)\/exec$/);
 
-      if (!execMatch) {
+      if (!isStatusStream && !execMatch) {
         socket.write('HTTP/1.1 404 Not Found\r\n\r\n');
         socket.destroy();
         return;
       }
 
-      const workspaceId = execMatch[1];
-
       // Authenticate the request - check both Authorization header and query parameter
       let token: string | undefined;
 
@@ -44,16 +51,33 @@ export function setupWebSocketServer(server: HTTPServer): void {
       let user;
 
       try {
-        user = await verifyToken(token);
+        const credentials = await verifyCredentials(token);
+        user = credentials.user;
+
+        // Personal access tokens need workspaces:read for the status stream and workspaces:exec for terminals
+        if (credentials.personalAccessToken) {
+          await personalAccessTokenService.authorizeRequest(credentials.personalAccessToken, user, 'GET', pathname!);
+        }
       } catch (error) {
         logger.error('WebSocket authentication failed:', error);
-        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        socket.write(error instanceof AuthorizationError
+          ? 'HTTP/1.1 403 Forbidden\r\n\r\n'
+          : 'HTTP/1.1 401 Unauthorized\r\n\r\n');
         socket.destroy();
         return;
       }
 
+      if (isStatusStream) {
+        wss.handleUpgrade(request, socket, head, (ws) => {
+          handleStatusStreamConnection(ws, user);
+        });
+        return;
+      }
+
+      const workspaceId = execMatch[1];
+
       // Check if user is admin
-      if (!user.isAdmin) {
+      if (adminExecMatch && !user.isAdmin) {
         logger.warn('Non-admin user attempted to exec into workspace:', {
           userId: user.id,
           workspaceId,
@@ -76,6 +100,10 @@ export function setupWebSocketServer(server: HTTPServer): void {
           return;
         }
 
+        if (!adminExecMatch) {
+          await workspaceAccessService.requireTerminal(user, workspace);
+        }
+
         group = await dynamodbService.getGroup(workspace.groupId);
         if (!group) {
           socket.write('HTTP/1.1 404 Not Found\r\n\r\nGroup not found\r\n');
@@ -95,21 +123,29 @@ export function setupWebSocketServer(server: HTTPServer): void {
 
         podName = pods[0].name;
       } catch (error) {
+        if (error instanceof AppError) {
+          logger.warn('Workspace exec refused:', { userId: user.id, workspaceId, error: error.message });
+          socket.write(`HTTP/1.1 ${error.statusCode} ${STATUS_CODES[error.statusCode]}\r\n\r\n${error.message}\r\n`);
+          socket.destroy();
+          return;
+        }
         logger.error('Error validating workspace for exec:', error);
         socket.write('HTTP/1.1 500 Internal Server Error\r\n\r\n');
         socket.destroy();
         return;
       }
 
-      // Handle the WebSocket upgrade
+      // Handle the WebSocket upgrade: ?session= reattaches to a running shell,
+      // otherwise a new one is opened, named after ?name=
       wss.handleUpgrade(request, socket, head, (ws) => {
-        handleExecConnection(ws, {
-          user,
-          workspaceId,
-          workspace,
-          namespace: group.namespace,
-          podName,
-        });
+        execSessionService.attach(
+          ws,
+          { user, workspace, namespace: group.namespace, podName },
+          {
+            sessionId: typeof query.session === 'string' ? query.session : undefined,
+            name: typeof query.name === 'string' ? query.name : undefined,
+          }
+        ).catch(error => logger.error('Error attaching exec session:', error));
       });
     } catch (error) {
       logger.error('Error in WebSocket upgrade handler:', error);
@@ -119,195 +155,60 @@ export function setupWebSocketServer(server: HTTPServer): void {
   });
 }
 
-interface ExecConnectionContext {
-  user: {
-    id: string;
-    email: string;
-    isAdmin: boolean;
-  };
-  workspaceId: string;
-  workspace: any;
-  namespace: string;
-  podName: string;
-}
-
-async function handleExecConnection(
-  ws: WebSocket,
-  context: ExecConnectionContext
-): Promise<void> {
-  const { user, workspaceId, workspace, namespace, podName } = context;
-
-  logger.info('Admin exec session starting:', {
-    userId: user.id,
-    workspaceId,
-    podName,
-    namespace,
-  });
-
-  const sessionStartTime = new Date();
-  let execStream: any = null;
-
-  try {
-    // Create audit log for exec session start
-    await dynamodbService.createAuditLog({
-      userId: user.id,
-      username: user.email,
-      action: 'workspace_exec_start',
-      resource: `workspace:${workspaceId}`,
-      details: {
-        podName,
-        namespace,
-      },
-      success: true,
-    });
-
-    // Start exec session with proper TTY settings
-    // Configure TTY for web terminal - use sane defaults then adjust:
-    // - Start with 'sane' to get reasonable defaults
-    // - opost: enable output post-processing
-    // - onlcr: map NL to CRNL on output (proper line endings)
-    execStream = await kubernetesService.execIntoPod(
-      namespace,
-      podName,
-      ['/bin/bash', '-c', 'stty sane; stty icrnl ocrnl opost onlcr; export TERM=xterm-256color; exec bash -i']
-    );
-
-    // Forward data from browser to pod
-    ws.on('message', (data: Buffer) => {
-      // Check if it's a resize message (JSON format)
-      try {
-        const message = JSON.parse(data.toString());
-        if (message.type === 'resize' && message.cols && message.rows) {
-          // Resize the terminal using the K8s WebSocket resize method
-          if (execStream && execStream.ws && typeof execStream.ws.resize === 'function') {
-            logger.info('Resizing terminal:', { cols: message.cols, rows: message.rows });
-            execStream.ws.resize({ height: message.rows, width: message.cols });
-          }
-          return;
-        }
-      } catch (e) {
-        // Not JSON, treat as regular terminal input
-      }
-
-      // Forward regular input to pod
-      if (execStream && execStream.stdin) {
-        execStream.stdin.write(data);
-      }
-    });
+// Interval for pings that keep idle status streams open through proxies
+const STATUS_STREAM_PING_INTERVAL_MS = 30000;
 
-    // Forward data from pod to browser
-    if (execStream.stdout) {
-      execStream.stdout.on('data', (data: Buffer) => {
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(data);
-        }
-      });
-    }
+/**
+ * Push status transitions, pod restarts and metrics for every workspace the
+ * user can see. Visibility matches GET /api/workspaces/:id: owner, group
+ * member, collaborator or platform admin. Shares are re-read on every ping,
+ * so a workspace shared while the stream is open shows up within one interval.
+ */
+function handleStatusStreamConnection(ws: WebSocket, user: User): void {
+  logger.info('Workspace status stream opened:', { userId: user.id });
 
-    if (execStream.stderr) {
-      execStream.stderr.on('data', (data: Buffer) => {
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(data);
-        }
-      });
+  let sharedWorkspaceIds = new Set<string>();
+  const refreshShared = async () => {
+    try {
+      const collaborations = await dynamodbService.listUserCollaborations(user.id);
+      sharedWorkspaceIds = new Set(collaborations.map(collaboration => collaboration.workspaceId));
+    } catch (error) {
+      logger.warn('Failed to load shared workspaces for status stream:', { userId: user.id, error });
     }
+  };
+  refreshShared();
 
-    // Handle exec stream errors
-    if (execStream.on) {
-      execStream.on('error', (error: Error) => {
-        logger.error('Exec stream error:', {
-          workspaceId,
-          podName,
-          error: error.message,
-        });
-
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(`\r\nExec error: ${error.message}\r\n`);
-          ws.close();
-        }
-      });
+  const canView = (event: WorkspaceEvent) =>
+    event.userId === user.id ||
+    user.groups.includes(event.groupId) ||
+    sharedWorkspaceIds.has(event.workspaceId) ||
+    user.isAdmin;
 
-      execStream.on('close', (code?: number, reason?: string) => {
-        logger.info('Exec stream closed:', {
-          workspaceId,
-          podName,
-          code,
-          reason,
-          wsReadyState: ws.readyState,
-        });
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.close();
-        }
-      });
+  const unsubscribe = workspaceEvents.subscribe((event) => {
+    if (ws.readyState === WebSocket.OPEN && canView(event)) {
+      ws.send(JSON.stringify(event));
     }
+  });
 
-    // Handle WebSocket close
-    ws.on('close', async (code: number, reason: Buffer) => {
-      const sessionDuration = Date.now() - sessionStartTime.getTime();
-
-      logger.info('Admin exec session ended:', {
-        userId: user.id,
-        workspaceId,
-        podName,
-        durationMs: sessionDuration,
-        closeCode: code,
-        closeReason: reason.toString(),
-      });
-
-      // Close exec stream
-      if (execStream && execStream.stdin) {
-        execStream.stdin.end();
-      }
-
-      // Create audit log for exec session end
-      await dynamodbService.createAuditLog({
-        userId: user.id,
-        username: user.email,
-        action: 'workspace_exec_end',
-        resource: `workspace:${workspaceId}`,
-        details: {
-          podName,
-          namespace,
-          durationMs: sessionDuration,
-        },
-        success: true,
-      });
-    });
-
-    // Handle WebSocket errors
-    ws.on('error', (error: Error) => {
-      logger.error('WebSocket error:', {
-        workspaceId,
-        error: error.message,
-      });
-    });
-
-    // Send initial connection message
-    ws.send(`\r\nConnected to workspace: ${workspace.name}\r\n`);
-    ws.send(`Pod: ${podName}\r\n`);
-    ws.send(`Namespace: ${namespace}\r\n\r\n`);
-
-  } catch (error) {
-    logger.error('Error setting up exec session:', error);
-
+  const pingTimer = setInterval(() => {
     if (ws.readyState === WebSocket.OPEN) {
-      ws.send(`\r\nFailed to start exec session: ${error instanceof Error ? error.message : 'Unknown error'}\r\n`);
-      ws.close();
+      ws.ping();
+      refreshShared();
     }
+  }, STATUS_STREAM_PING_INTERVAL_MS);
 
-    // Create audit log for failed exec
-    await dynamodbService.createAuditLog({
+  ws.on('close', () => {
+    unsubscribe();
+    clearInterval(pingTimer);
+    logger.info('Workspace status stream closed:', { userId: user.id });
+  });
+
+  ws.on('error', (error: Error) => {
+    logger.error('Workspace status stream error:', {
       userId: user.id,
-      username: user.email,
-      action: 'workspace_exec_failed',
-      resource: `workspace:${workspaceId}`,
-      details: {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        podName,
-        namespace,
-      },
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
+      error: error.message,
     });
-  }
+  });
+
+  ws.send(JSON.stringify({ type: 'connected', timestamp: new Date().toISOString() }));
 }
@@ -0,0 +1,148 @@
+import * as jose from 'jose';
+import { verifyToken } from '../../src/middleware/auth';
+import { parseOidcProviders } from '../../src/config/oidcProviders';
+import { userService } from '../../src/services/userService';
+import { config } from '../../src/config';
+import { AuthenticationError } from '../../src/utils/errors';
+
+jest.mock('aws-jwt-verify', () => ({
+  CognitoJwtVerifier: {
+    create: jest.fn(() => ({
+      verify: jest.fn().mockRejectedValue(new Error('not a Cognito token')),
+    })),
+  },
+}));
+
+jest.mock('jose', () => ({
+  createRemoteJWKSet: jest.fn(() => 'key-set'),
+  jwtVerify: jest.fn(),
+  decodeJwt: jest.fn(),
+}));
+
+jest.mock('../../src/services/userService', () => ({
+  userService: { getOrCreateUser: jest.fn(async (payload: any) => ({ id: 'usr_1', ...payload })) },
+}));
+jest.mock('../../src/services/dynamodbService', () => ({ dynamodbService: {} }));
+jest.mock('../../src/services/kubernetesService', () => ({ kubernetesService: {} }));
+jest.mock('../../src/config/logger');
+
+describe('OIDC providers', () => {
+  describe('parseOidcProviders', () => {
+    it('should fill in defaults', () => {
+      const [provider] = parseOidcProviders(JSON.stringify([{
+        id: 'keycloak',
+        issuer: 'https://sso.example.com/realms/dev',
+        audience: 'codex-web',
+        jwksUri: 'https://sso.example.com/realms/dev/protocol/openid-connect/certs',
+        claims: { groups: 'realm_access.roles' },
+      }]));
+
+      expect(provider).toEqual(expect.objectContaining({
+        name: 'keycloak',
+        clientId: 'codex-web',
+        scope: 'openid email profile',
+        claims: { email: 'email', name: 'name', groups: 'realm_access.roles', admin: 'realm_access.roles' },
+        adminValues: ['platform-admins'],
+        trustEmail: false,
+      }));
+    });
+
+    it('should reject broken configuration', () => {
+      expect(parseOidcProviders(undefined)).toEqual([]);
+      expect(() => parseOidcProviders('{')).toThrow('JSON array');
+      expect(() => parseOidcProviders('[{"id":"azure","issuer":"https://login.example.com"}]')).toThrow('"audience"');
+    });
+  });
+
+  describe('verifyToken', () => {
+    const originalProviders = config.oidcProviders;
+    const keycloak = parseOidcProviders(JSON.stringify([{
+      id: 'keycloak',
+      name: 'Company SSO',
+      issuer: 'https://sso.example.com/realms/dev',
+      audience: 'codex-web',
+      jwksUri: 'https://sso.example.com/realms/dev/protocol/openid-connect/certs',
+      claims: { email: 'upn', groups: 'realm_access.roles' },
+      adminValues: ['codex-admin'],
+    }]));
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      config.oidcProviders = keycloak;
+      (jose.decodeJwt as jest.Mock).mockReturnValue({ iss: 'https://sso.example.com/realms/dev' });
+    });
+
+    afterEach(() => {
+      config.oidcProviders = originalProviders;
+    });
+
+    it('should verify a token against the provider that issued it and map its claims', async () => {
+      (jose.jwtVerify as jest.Mock).mockResolvedValue({
+        payload: {
+          sub: 'kc-123',
+          upn: 'dev@example.com',
+          email_verified: true,
+          name: 'Dev User',
+          realm_access: { roles: ['developers', 'codex-admin'] },
+          iat: 1,
+          exp: 2,
+        },
+      });
+
+      await verifyToken('header.payload.signature');
+
+      expect(jose.createRemoteJWKSet).toHaveBeenCalledWith(new URL(keycloak[0].jwksUri));
+      expect(jose.jwtVerify).toHaveBeenCalledWith('header.payload.signature', 'key-set', {
+        issuer: 'https://sso.example.com/realms/dev',
+        audience: 'codex-web',
+      });
+      expect(userService.getOrCreateUser).toHaveBeenCalledWith({
+        sub: 'kc-123',
+        email: 'dev@example.com',
+        name: 'Dev User',
+        groups: ['developers', 'codex-admin'],
+        isAdmin: true,
+        iat: 1,
+        exp: 2,
+      });
+    });
+
+    it('should not make users admins without a matching admin claim', async () => {
+      (jose.jwtVerify as jest.Mock).mockResolvedValue({
+        payload: { sub: 'kc-456', upn: 'other@example.com', email_verified: true, realm_access: { roles: ['developers'] } },
+      });
+
+      await verifyToken('header.payload.signature');
+
+      expect(userService.getOrCreateUser).toHaveBeenCalledWith(expect.objectContaining({ isAdmin: false }));
+    });
+
+    it('should reject tokens without an email claim', async () => {
+      (jose.jwtVerify as jest.Mock).mockResolvedValue({ payload: { sub: 'kc-789' } });
+
+      await expect(verifyToken('header.payload.signature')).rejects.toThrow('has no upn claim');
+      expect(userService.getOrCreateUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens whose email is not verified unless the provider is trusted', async () => {
+      (jose.jwtVerify as jest.Mock).mockResolvedValue({
+        payload: { sub: 'kc-321', upn: 'admin@example.com', email_verified: false },
+      });
+
+      await expect(verifyToken('header.payload.signature')).rejects.toThrow('has not verified the email address');
+      expect(userService.getOrCreateUser).not.toHaveBeenCalled();
+
+      config.oidcProviders = [{ ...keycloak[0], trustEmail: true }];
+      await verifyToken('header.payload.signature');
+
+      expect(userService.getOrCreateUser).toHaveBeenCalledWith(expect.objectContaining({ email: 'admin@example.com' }));
+    });
+
+    it('should not fall back to other providers when the provider rejects a token', async () => {
+      (jose.jwtVerify as jest.Mock).mockRejectedValue(new Error('signature verification failed'));
+
+      await expect(verifyToken('header.payload.signature')).rejects.toThrow(AuthenticationError);
+      expect(jose.jwtVerify).toHaveBeenCalledTimes(1);
+    });
+  });
+});
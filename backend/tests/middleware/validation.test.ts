@@ -246,6 +246,35 @@ describe('Validation Middleware', () => {
         const { error } = commonSchemas.createWorkspace.validate(data);
         expect(error).toBeUndefined();
       });
+
+      it('should validate with a repository to clone', () => {
+        const data = {
+          name: 'My Workspace',
+          groupId: 'grp_123',
+          repository: {
+            url: 'git@github.com:org/repo.git',
+            branch: 'main',
+            credentialsSecret: 'github-deploy-key',
+          },
+        };
+        const { error } = commonSchemas.createWorkspace.validate(data);
+        expect(error).toBeUndefined();
+      });
+
+      it('should fail with an unsupported repository url or secret name', () => {
+        const { error: urlError } = commonSchemas.createWorkspace.validate({
+          name: 'My Workspace',
+          groupId: 'grp_123',
+          repository: { url: 'file:///etc/passwd' },
+        });
+        const { error: secretError } = commonSchemas.createWorkspace.validate({
+          name: 'My Workspace',
+          groupId: 'grp_123',
+          repository: { url: 'https://github.com/org/repo.git', credentialsSecret: 'Not_A_Secret' },
+        });
+        expect(urlError).toBeDefined();
+        expect(secretError).toBeDefined();
+      });
     });
 
     describe('workspaceAction', () => {
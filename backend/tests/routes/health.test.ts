@@ -45,6 +45,7 @@ jest.mock('../../src/middleware/auth', () => ({
   },
   requireWorkspaceOwnership: () => (req: any, res: any, next: any) => next(),
   requireGroupMembership: () => (req: any, res: any, next: any) => next(),
+  requireGroupAdmin: () => (req: any, res: any, next: any) => next(),
 }));
 
 describe('Health Routes', () => {
@@ -0,0 +1,96 @@
+import { devAuthService, DEV_USERS } from '../../src/services/devAuthService';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { kubernetesService } from '../../src/services/kubernetesService';
+import { userService } from '../../src/services/userService';
+import { config } from '../../src/config';
+import { AuthenticationError, AuthorizationError, NotFoundError } from '../../src/utils/errors';
+import { GroupRole } from '../../src/types';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    getUserByEmail: jest.fn(),
+    createUser: jest.fn(async (user: any) => user),
+    updateUser: jest.fn(async (id: string, updates: any) => ({ id, ...updates })),
+    getGroup: jest.fn(),
+    createGroup: jest.fn(async (group: any) => group),
+    updateGroup: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/kubernetesService', () => ({
+  kubernetesService: {
+    namespaceExists: jest.fn(),
+    createNamespace: jest.fn(),
+    createResourceQuota: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/userService', () => ({
+  userService: { addUserToGroup: jest.fn() },
+}));
+jest.mock('../../src/config/logger');
+
+describe('DevAuthService', () => {
+  const originalConfig = { devAuthEnabled: config.devAuthEnabled, nodeEnv: config.nodeEnv, jwtSecret: config.jwtSecret };
+  const admin = { id: 'usr_dev_admin', email: 'admin@dev.local', name: 'Dev Admin', isAdmin: true };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config.devAuthEnabled = true;
+    config.nodeEnv = 'development';
+    (dynamodbService.getUserByEmail as jest.Mock).mockResolvedValue(admin);
+  });
+
+  afterEach(() => {
+    Object.assign(config, originalConfig);
+  });
+
+  it('should issue tokens for seeded users that it verifies again', async () => {
+    const { token, user } = await devAuthService.login('admin@dev.local');
+
+    expect(user).toBe(admin);
+    expect(devAuthService.isDevToken(token)).toBe(true);
+    expect(await devAuthService.verify(token)).toEqual(expect.objectContaining({
+      sub: 'usr_dev_admin',
+      email: 'admin@dev.local',
+      isAdmin: true,
+    }));
+  });
+
+  it('should only sign in seeded users', async () => {
+    await expect(devAuthService.login('someone@example.com')).rejects.toThrow(NotFoundError);
+  });
+
+  it('should reject tokens signed with another secret', async () => {
+    const { token } = await devAuthService.login('admin@dev.local');
+    config.jwtSecret = 'another-secret';
+
+    await expect(devAuthService.verify(token)).rejects.toThrow(AuthenticationError);
+  });
+
+  it('should refuse to issue or accept tokens in production', async () => {
+    const { token } = await devAuthService.login('admin@dev.local');
+    config.nodeEnv = 'production';
+
+    expect(devAuthService.isEnabled()).toBe(false);
+    await expect(devAuthService.login('admin@dev.local')).rejects.toThrow(AuthorizationError);
+    await expect(devAuthService.verify(token)).rejects.toThrow('Development sign-in is disabled');
+  });
+
+  it('should not treat other tokens as development tokens', () => {
+    expect(devAuthService.isDevToken('not-a-jwt')).toBe(false);
+  });
+
+  it('should seed the development group and its users', async () => {
+    (dynamodbService.getUserByEmail as jest.Mock).mockResolvedValue(null);
+    (dynamodbService.getGroup as jest.Mock).mockResolvedValue(null);
+    (kubernetesService.namespaceExists as jest.Mock).mockRejectedValue(new Error('no cluster'));
+
+    await devAuthService.seed();
+
+    expect(dynamodbService.createGroup).toHaveBeenCalledWith(expect.objectContaining({ id: 'grp_dev', namespace: 'group-dev' }));
+    expect(dynamodbService.createUser).toHaveBeenCalledTimes(DEV_USERS.length);
+    expect(dynamodbService.createUser).toHaveBeenCalledWith(expect.objectContaining({ email: 'admin@dev.local', isAdmin: true }));
+    expect(userService.addUserToGroup).toHaveBeenCalledWith('usr_dev_group_admin', 'grp_dev', GroupRole.ADMIN);
+    expect(userService.addUserToGroup).toHaveBeenCalledWith('usr_dev_developer', 'grp_dev', GroupRole.MEMBER);
+    expect(dynamodbService.updateGroup).toHaveBeenCalledWith('grp_dev', { memberCount: 2 });
+  });
+});
@@ -0,0 +1,148 @@
+import { execRecordingService } from '../../src/services/execRecordingService';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { config } from '../../src/config';
+import { NotFoundError } from '../../src/utils/errors';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    createExecRecording: jest.fn(async (recording: any) => recording),
+    updateExecRecording: jest.fn(async (id: string, updates: any) => ({ id, ...updates })),
+    putExecRecordingChunk: jest.fn(),
+    getExecRecording: jest.fn(),
+    listExecRecordingChunks: jest.fn(),
+  },
+}));
+jest.mock('../../src/config/logger');
+
+describe('ExecRecordingService', () => {
+  const session = {
+    workspaceId: 'ws_abc123',
+    workspaceName: 'Test Workspace',
+    userId: 'usr_1',
+    username: 'user@example.com',
+    podName: 'workspace-abc123-0',
+    namespace: 'group-one',
+  };
+  const originalMaxBytes = config.execRecordingMaxBytes;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2024-06-30T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    config.execRecordingMaxBytes = originalMaxBytes;
+  });
+
+  // Events written to the chunks, parsed
+  const recordedEvents = () =>
+    (dynamodbService.putExecRecordingChunk as jest.Mock).mock.calls
+      .map(([, , data]) => data)
+      .join('')
+      .split('\n')
+      .filter(Boolean)
+      .map(line => JSON.parse(line));
+
+  it('should record timed output and resizes as asciicast events', async () => {
+    const recorder = await execRecordingService.start(session);
+
+    // Reported before any output, so it becomes the header size
+    recorder.resize(120, 40);
+    jest.advanceTimersByTime(500);
+    recorder.output(Buffer.from('$ ls\r\n'));
+    jest.advanceTimersByTime(1000);
+    recorder.resize(100, 30);
+
+    const recording = await recorder.finish();
+
+    expect(recordedEvents()).toEqual([
+      [0.5, 'o', '$ ls\r\n'],
+      [1.5, 'r', '100x30'],
+    ]);
+    expect(recording).toEqual(expect.objectContaining({
+      id: recorder.id,
+      cols: 120,
+      rows: 40,
+      chunkCount: 1,
+      durationMs: 1500,
+      endedAt: '2024-06-30T12:00:01.500Z',
+    }));
+    expect(dynamodbService.updateExecRecording).toHaveBeenLastCalledWith(
+      recorder.id,
+      expect.objectContaining({ chunkCount: 1, durationMs: 1500 })
+    );
+  });
+
+  it('should not split multi-byte characters across events', async () => {
+    const recorder = await execRecordingService.start(session);
+    const euro = Buffer.from('€');
+
+    recorder.output(euro.subarray(0, 1));
+    recorder.output(euro.subarray(1));
+    await recorder.finish();
+
+    expect(recordedEvents()).toEqual([[0, 'o', '€']]);
+  });
+
+  it('should stop recording at the size limit', async () => {
+    config.execRecordingMaxBytes = 40;
+    const recorder = await execRecordingService.start(session);
+
+    recorder.output('first\r\n');
+    recorder.output('this line does not fit anymore\r\n');
+    recorder.output('x');
+    const recording = await recorder.finish();
+
+    expect(recordedEvents()).toEqual([[0, 'o', 'first\r\n']]);
+    expect(recording.truncated).toBe(true);
+  });
+
+  it('should write buffered events periodically while the session runs', async () => {
+    const recorder = await execRecordingService.start(session);
+
+    recorder.output('hello');
+    expect(dynamodbService.putExecRecordingChunk).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(10000);
+    await Promise.resolve();
+    expect(dynamodbService.putExecRecordingChunk).toHaveBeenCalledWith(recorder.id, 1, expect.stringContaining('hello'));
+
+    await recorder.finish();
+  });
+
+  it('should build the cast file from the header and chunks', async () => {
+    (dynamodbService.getExecRecording as jest.Mock).mockResolvedValue({
+      id: 'rec_1',
+      ...session,
+      cols: 120,
+      rows: 40,
+      startedAt: '2024-06-30T12:00:00Z',
+      durationMs: 1500,
+      chunkCount: 2,
+      bytes: 40,
+    });
+    (dynamodbService.listExecRecordingChunks as jest.Mock).mockResolvedValue([
+      '[0.5,"o","a"]\n',
+      '[1.5,"o","b"]\n',
+    ]);
+
+    const { cast } = await execRecordingService.getCast('rec_1');
+    const [header, ...events] = cast.trim().split('\n').map(line => JSON.parse(line));
+
+    expect(header).toEqual(expect.objectContaining({
+      version: 2,
+      width: 120,
+      height: 40,
+      timestamp: 1719748800,
+      duration: 1.5,
+    }));
+    expect(events).toEqual([[0.5, 'o', 'a'], [1.5, 'o', 'b']]);
+  });
+
+  it('should report missing recordings', async () => {
+    (dynamodbService.getExecRecording as jest.Mock).mockResolvedValue(null);
+
+    await expect(execRecordingService.getCast('rec_missing')).rejects.toThrow(NotFoundError);
+  });
+});
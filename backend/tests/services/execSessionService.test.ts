@@ -0,0 +1,202 @@
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { execSessionService } from '../../src/services/execSessionService';
+import { kubernetesService } from '../../src/services/kubernetesService';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { workspaceIdleService } from '../../src/services/workspaceIdleService';
+import { config } from '../../src/config';
+import { logger } from '../../src/config/logger';
+import { User, Workspace, WorkspaceStatus } from '../../src/types';
+
+jest.mock('../../src/services/kubernetesService', () => ({
+  kubernetesService: { execIntoPod: jest.fn() },
+}));
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: { createAuditLog: jest.fn() },
+}));
+jest.mock('../../src/services/workspaceIdleService', () => ({
+  workspaceIdleService: { execSessionStarted: jest.fn(), execSessionEnded: jest.fn() },
+}));
+jest.mock('../../src/services/execRecordingService', () => ({
+  execRecordingService: {
+    start: jest.fn(async () => ({
+      id: 'rec_1',
+      output: jest.fn(),
+      resize: jest.fn(),
+      finish: jest.fn(async () => ({ id: 'rec_1' })),
+    })),
+  },
+}));
+jest.mock('../../src/config/logger');
+
+// Browser side of a terminal connection
+class FakeSocket extends EventEmitter {
+  readyState = 1;
+  sent: any[] = [];
+  send = jest.fn((data: any) => this.sent.push(data));
+  close = jest.fn((code?: number) => {
+    this.readyState = 3;
+    this.emit('close', code);
+  });
+
+  controlMessages() {
+    return this.sent.filter(data => typeof data === 'string' && data.startsWith('{')).map(data => JSON.parse(data));
+  }
+}
+
+// A shell in the pod; resolveExit ends it
+function mockShell() {
+  const stdin = new PassThrough();
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const input: string[] = [];
+  stdin.on('data', (chunk: Buffer) => input.push(chunk.toString()));
+
+  let resolveExit: (code: number) => void = () => undefined;
+  const exitCode = new Promise<number>(resolve => { resolveExit = resolve; });
+
+  (kubernetesService.execIntoPod as jest.Mock).mockResolvedValueOnce({
+    stdin, stdout, stderr, exitCode, ws: { close: jest.fn() },
+  });
+
+  return { stdout, input, resolveExit };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ExecSessionService', () => {
+  const user = { id: 'usr_1', email: 'user@example.com', username: 'user', groups: [], isAdmin: false } as unknown as User;
+  const workspace = {
+    id: 'ws_abc123',
+    name: 'Test Workspace',
+    groupId: 'grp_1',
+    userId: 'usr_1',
+    status: WorkspaceStatus.RUNNING,
+  } as Workspace;
+  const target = { user, workspace, namespace: 'group-one', podName: 'workspace-abc123-0' };
+
+  // Open a session and return its id
+  const openSession = async (socket: FakeSocket, name?: string) => {
+    await execSessionService.attach(socket as any, target, { name });
+    return socket.controlMessages().find(message => message.type === 'session').sessionId as string;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    // End whatever a test left open
+    await execSessionService.reap(new Date(Date.now() + config.execSessionIdleTimeoutMs + 1));
+  });
+
+  it('should open a named shell and pass input and output through', async () => {
+    const shell = mockShell();
+    const socket = new FakeSocket();
+
+    const sessionId = await openSession(socket, 'build');
+
+    expect(socket.controlMessages()[0]).toEqual({ type: 'session', sessionId, name: 'build', reattached: false });
+    expect(workspaceIdleService.execSessionStarted).toHaveBeenCalledWith('ws_abc123');
+    expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'workspace_exec_start',
+      details: expect.objectContaining({ sessionId, recordingId: 'rec_1' }),
+    }));
+
+    socket.emit('message', Buffer.from('ls\r'));
+    shell.stdout.write('README.md\r\n');
+    await flush();
+
+    expect(shell.input).toEqual(['ls\r']);
+    expect(socket.sent).toContainEqual(Buffer.from('README.md\r\n'));
+  });
+
+  it('should keep the shell when the terminal drops and replay its output on reattach', async () => {
+    const shell = mockShell();
+    const first = new FakeSocket();
+    const sessionId = await openSession(first);
+
+    first.close(1006);
+    shell.stdout.write('still running\r\n');
+    await flush();
+
+    expect(execSessionService.list('usr_1', 'ws_abc123')).toEqual([
+      expect.objectContaining({ id: sessionId, name: 'Terminal 1', attached: false }),
+    ]);
+
+    const second = new FakeSocket();
+    await execSessionService.attach(second as any, target, { sessionId });
+
+    expect(second.controlMessages()[0]).toEqual(expect.objectContaining({ type: 'session', sessionId, reattached: true }));
+    expect(second.sent).toContainEqual(Buffer.from('still running\r\n'));
+    expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'workspace_exec_reattached' }));
+  });
+
+  it('should refuse to reattach to a session that has ended or is not the caller\'s', async () => {
+    mockShell();
+    const sessionId = await openSession(new FakeSocket());
+
+    const stranger = new FakeSocket();
+    await execSessionService.attach(stranger as any, { ...target, user: { ...user, id: 'usr_2' } }, { sessionId });
+
+    expect(stranger.controlMessages()[0]).toEqual(expect.objectContaining({ type: 'ended', sessionId }));
+    expect(stranger.close).toHaveBeenCalledWith(4404, 'Session not found');
+  });
+
+  it('should end sessions that are not reattached in time', async () => {
+    mockShell();
+    const socket = new FakeSocket();
+    const sessionId = await openSession(socket);
+    socket.close(1006);
+
+    await execSessionService.reap(new Date(Date.now() + config.execSessionReattachTimeoutMs - 1000));
+    expect(execSessionService.list('usr_1', 'ws_abc123')).toHaveLength(1);
+
+    await execSessionService.reap(new Date(Date.now() + config.execSessionReattachTimeoutMs + 1000));
+    expect(execSessionService.list('usr_1', 'ws_abc123')).toHaveLength(0);
+    expect(workspaceIdleService.execSessionEnded).toHaveBeenCalledWith('ws_abc123');
+    expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'workspace_exec_end',
+      details: expect.objectContaining({ sessionId, reason: 'not reattached in time', recordingId: 'rec_1' }),
+    }));
+  });
+
+  it('should end the session and tell the terminal when the shell exits', async () => {
+    const shell = mockShell();
+    const socket = new FakeSocket();
+    const sessionId = await openSession(socket);
+
+    shell.resolveExit(0);
+    await flush();
+
+    expect(socket.controlMessages()).toContainEqual({ type: 'ended', sessionId, reason: 'shell exited' });
+    expect(socket.close).toHaveBeenCalledWith(4404, 'Session ended');
+    expect(execSessionService.list('usr_1', 'ws_abc123')).toHaveLength(0);
+  });
+
+  it('should log instead of rejecting when ending a session fails', async () => {
+    mockShell();
+    const socket = new FakeSocket();
+    await openSession(socket);
+    (dynamodbService.createAuditLog as jest.Mock).mockRejectedValueOnce(new Error('DynamoDB unavailable'));
+
+    socket.emit('message', Buffer.from(JSON.stringify({ type: 'terminate' })));
+    await flush();
+
+    expect(logger.error).toHaveBeenCalledWith('Error ending exec session:', expect.any(Error));
+    expect(execSessionService.list('usr_1', 'ws_abc123')).toHaveLength(0);
+  });
+
+  it('should limit the terminals a user keeps open per workspace', async () => {
+    for (let i = 0; i < config.execSessionMaxPerWorkspace; i++) {
+      mockShell();
+      await openSession(new FakeSocket());
+    }
+
+    const socket = new FakeSocket();
+    await execSessionService.attach(socket as any, target);
+
+    expect(socket.sent[0]).toContain('terminals open in this workspace');
+    expect(socket.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,144 @@
+import { groupMappingService } from '../../src/services/groupMappingService';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { ConflictError, NotFoundError } from '../../src/utils/errors';
+import { GroupMappingRule, GroupRole, JwtPayload, User } from '../../src/types';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    listGroupMappingRules: jest.fn(),
+    createGroupMappingRule: jest.fn(async (rule: any) => rule),
+    deleteGroupMappingRule: jest.fn(),
+    getGroup: jest.fn(),
+    updateGroup: jest.fn(),
+    updateUser: jest.fn(async (id: string, updates: any) => ({ id, ...updates })),
+    createAuditLog: jest.fn(),
+  },
+}));
+jest.mock('../../src/config/logger');
+
+describe('GroupMappingService', () => {
+  const admin = { id: 'usr_admin', username: 'admin' } as User;
+  const payload: JwtPayload = { sub: 'sub_1', email: 'dev@example.com', groups: ['engineering'], iat: 1, exp: 2 };
+
+  const rule = (overrides: Partial<GroupMappingRule>): GroupMappingRule => ({
+    id: 'gmr_1',
+    source: 'idpGroup',
+    value: 'engineering',
+    groupId: 'grp_eng',
+    role: GroupRole.MEMBER,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    createdBy: 'usr_admin',
+    ...overrides,
+  });
+
+  const user = (overrides: Partial<User> = {}): User => ({
+    id: 'usr_1',
+    username: 'dev',
+    email: 'dev@example.com',
+    groups: [],
+    groupMemberships: [],
+    isAdmin: false,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  // Rules are cached between logins; creating or deleting one resets the cache
+  const useRules = async (rules: GroupMappingRule[]) => {
+    (dynamodbService.deleteGroupMappingRule as jest.Mock).mockResolvedValueOnce(rule({}));
+    await groupMappingService.delete('gmr_reset');
+    (dynamodbService.listGroupMappingRules as jest.Mock).mockResolvedValue(rules);
+    jest.clearAllMocks();
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (dynamodbService.getGroup as jest.Mock).mockImplementation(async (id: string) => ({ id, memberCount: 3 }));
+  });
+
+  it('should add users to the groups their IdP groups and email domain map to', async () => {
+    await useRules([
+      rule({ id: 'gmr_1' }),
+      rule({ id: 'gmr_2', source: 'emailDomain', value: 'example.com', groupId: 'grp_all' }),
+      rule({ id: 'gmr_3', value: 'sales', groupId: 'grp_sales' }),
+    ]);
+
+    const updated = await groupMappingService.apply(user(), payload);
+
+    expect(updated.groupMemberships).toEqual([
+      { groupId: 'grp_eng', role: GroupRole.MEMBER, managed: true },
+      { groupId: 'grp_all', role: GroupRole.MEMBER, managed: true },
+    ]);
+    expect(updated.groups).toEqual(['grp_eng', 'grp_all']);
+    expect(dynamodbService.updateGroup).toHaveBeenCalledWith('grp_eng', { memberCount: 4 });
+    expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'group_mapping_member_added',
+      resource: 'group:grp_eng',
+      details: { role: GroupRole.MEMBER, ruleIds: ['gmr_1'] },
+    }));
+  });
+
+  it('should give the admin role when several rules map the same group', async () => {
+    await useRules([
+      rule({ id: 'gmr_1', role: GroupRole.ADMIN }),
+      rule({ id: 'gmr_2', source: 'emailDomain', value: 'example.com' }),
+    ]);
+
+    const updated = await groupMappingService.apply(user(), payload);
+
+    expect(updated.groupMemberships).toEqual([{ groupId: 'grp_eng', role: GroupRole.ADMIN, managed: true }]);
+  });
+
+  it('should remove and update managed memberships but leave others alone', async () => {
+    await useRules([rule({ role: GroupRole.ADMIN })]);
+
+    const updated = await groupMappingService.apply(user({
+      groups: ['grp_eng', 'grp_old', 'grp_manual'],
+      groupMemberships: [
+        { groupId: 'grp_eng', role: GroupRole.MEMBER, managed: true },
+        { groupId: 'grp_old', role: GroupRole.MEMBER, managed: true },
+        { groupId: 'grp_manual', role: GroupRole.ADMIN },
+      ],
+    }), payload);
+
+    expect(updated.groupMemberships).toEqual([
+      { groupId: 'grp_eng', role: GroupRole.ADMIN, managed: true },
+      { groupId: 'grp_manual', role: GroupRole.ADMIN },
+    ]);
+    expect(updated.groups).toEqual(['grp_eng', 'grp_manual']);
+    expect(dynamodbService.updateGroup).toHaveBeenCalledWith('grp_old', { memberCount: 2 });
+    expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'group_mapping_member_removed', resource: 'group:grp_old' }));
+    expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'group_mapping_role_changed', resource: 'group:grp_eng' }));
+  });
+
+  it('should not take over memberships granted by hand', async () => {
+    await useRules([rule({ role: GroupRole.ADMIN })]);
+    const member = user({ groups: ['grp_eng'], groupMemberships: [{ groupId: 'grp_eng', role: GroupRole.MEMBER }] });
+
+    expect(await groupMappingService.apply(member, payload)).toBe(member);
+    expect(dynamodbService.updateUser).not.toHaveBeenCalled();
+  });
+
+  it('should skip groups that no longer exist', async () => {
+    await useRules([rule({})]);
+    (dynamodbService.getGroup as jest.Mock).mockResolvedValue(null);
+
+    await groupMappingService.apply(user(), payload);
+
+    expect(dynamodbService.updateUser).not.toHaveBeenCalled();
+  });
+
+  it('should only create rules for existing groups, once', async () => {
+    await useRules([rule({ source: 'emailDomain', value: 'example.com' })]);
+
+    await expect(groupMappingService.create(
+      { source: 'emailDomain', value: '@Example.com', groupId: 'grp_eng', role: GroupRole.MEMBER },
+      admin
+    )).rejects.toThrow(ConflictError);
+
+    (dynamodbService.getGroup as jest.Mock).mockResolvedValue(null);
+    await expect(groupMappingService.create(
+      { source: 'idpGroup', value: 'engineering', groupId: 'grp_gone', role: GroupRole.MEMBER },
+      admin
+    )).rejects.toThrow(NotFoundError);
+  });
+});
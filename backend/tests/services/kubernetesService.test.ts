@@ -0,0 +1,38 @@
+import { kubernetesService } from '../../src/services/kubernetesService';
+
+jest.mock('../../src/config/logger');
+
+describe('KubernetesService resource quotas', () => {
+  const coreV1Api = {
+    createNamespacedResourceQuota: jest.fn(),
+    readNamespacedResourceQuota: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (kubernetesService as any).coreV1Api = coreV1Api;
+  });
+
+  it('should limit the storage PVCs request', async () => {
+    await kubernetesService.createResourceQuota('group-one', { cpu: '8', memory: '16Gi', storage: '100Gi', pods: 10 });
+
+    const { body } = coreV1Api.createNamespacedResourceQuota.mock.calls[0][0];
+    expect(body.spec.hard).toEqual(expect.objectContaining({ 'requests.storage': '100Gi' }));
+  });
+
+  it('should reject storage growth beyond the quota', async () => {
+    coreV1Api.readNamespacedResourceQuota.mockResolvedValue({
+      status: { hard: { 'requests.storage': '100Gi' }, used: { 'requests.storage': '90Gi' } },
+    });
+
+    await expect(kubernetesService.checkResourceQuotaHeadroom('group-one', { storage: '40Gi' }, {
+      pods: 0,
+      releasing: { storage: '20Gi' },
+    })).resolves.toEqual({ fits: false, reason: 'requests.storage quota exceeded (used 90Gi of 100Gi)' });
+
+    await expect(kubernetesService.checkResourceQuotaHeadroom('group-one', { storage: '30Gi' }, {
+      pods: 0,
+      releasing: { storage: '20Gi' },
+    })).resolves.toEqual({ fits: true });
+  });
+});
@@ -0,0 +1,507 @@
+import { operationService } from '../../src/services/operationService';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { kubernetesService } from '../../src/services/kubernetesService';
+import { workspaceSnapshotService } from '../../src/services/workspaceSnapshotService';
+import { workspaceEnvironmentService } from '../../src/services/workspaceEnvironmentService';
+import { workspaceAccessService } from '../../src/services/workspaceAccessService';
+import { KubernetesError } from '../../src/utils/errors';
+import { Operation, OperationStatus, Workspace, WorkspaceStatus } from '../../src/types';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    createOperation: jest.fn(),
+    claimOperation: jest.fn(),
+    updateOperation: jest.fn(),
+    listIncompleteOperations: jest.fn(),
+    getWorkspace: jest.fn(),
+    updateWorkspace: jest.fn(),
+    deleteWorkspace: jest.fn(),
+    getGroup: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/kubernetesService', () => ({
+  kubernetesService: {
+    namespaceExists: jest.fn(),
+    createNamespace: jest.fn(),
+    createResourceQuota: jest.fn(),
+    createCodeServerSecret: jest.fn(),
+    createStatefulSet: jest.fn(),
+    createService: jest.fn(),
+    createNginxProxyDeployment: jest.fn(),
+    createNginxProxyService: jest.fn(),
+    addWorkspaceToNginxProxyConfig: jest.fn(),
+    removeWorkspaceFromNginxProxyConfig: jest.fn(),
+    createOrUpdateHTTPRoute: jest.fn(),
+    deleteStatefulSet: jest.fn(),
+    deleteNamespacedService: jest.fn(),
+    deleteNamespacedSecret: jest.fn(),
+    deleteNamespacedPVC: jest.fn(),
+    waitForStatefulSetDeletion: jest.fn(),
+    waitForPVCDeletion: jest.fn(),
+    listVolumeSnapshots: jest.fn(),
+    deleteVolumeSnapshot: jest.fn(),
+    setPersistentVolumeReclaimPolicy: jest.fn(),
+    releasePersistentVolume: jest.fn(),
+    createPVCForVolume: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/workspaceSnapshotService', () => ({
+  WORKSPACE_ID_LABEL: 'codex-platform/workspace-id',
+  workspaceSnapshotService: {
+    create: jest.fn(),
+    generateName: jest.fn(() => 'workspace-abc123-20240101000000-beef'),
+  },
+}));
+jest.mock('../../src/services/workspaceEnvironmentService', () => ({
+  workspaceEnvironmentService: {
+    writeSecret: jest.fn(),
+    deleteAll: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/workspaceAccessService', () => ({
+  workspaceAccessService: {
+    removeAll: jest.fn(),
+  },
+}));
+jest.mock('../../src/config/logger');
+
+describe('OperationService', () => {
+  const workspace: Workspace = {
+    id: 'ws_abc123',
+    name: 'Test Workspace',
+    groupId: 'grp_1',
+    groupName: 'Group 1',
+    userId: 'usr_1',
+    status: WorkspaceStatus.PENDING,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    password: 'secret',
+    resources: { cpu: '1', memory: '2Gi', storage: '20Gi' },
+    image: 'codercom/code-server:latest',
+    replicas: 0,
+  };
+
+  // In-memory stand-in for the operation records in DynamoDB
+  let operations: Map<string, Operation>;
+
+  const stepStatuses = (id: string) => operations.get(id)!.steps.map(step => `${step.name}:${step.status}`);
+
+  // Create the operation without letting it run, so each test drives execution itself
+  const createOperation = async (type: 'create' | 'delete' | 'restore', namespace: string | null = 'group-one') => {
+    (dynamodbService.claimOperation as jest.Mock).mockResolvedValueOnce(null);
+    const operation = type === 'create'
+      ? await operationService.startWorkspaceCreate(workspace, namespace!)
+      : type === 'delete'
+        ? await operationService.startWorkspaceDelete(workspace, namespace)
+        : await operationService.startWorkspaceRestore(workspace, namespace!, 'workspace-abc123-snap');
+    await new Promise(resolve => setImmediate(resolve));
+    return operation;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    operations = new Map();
+
+    (dynamodbService.createOperation as jest.Mock).mockImplementation(async operation => {
+      const created = { ...operation, createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() };
+      operations.set(operation.id, created);
+      return created;
+    });
+    (dynamodbService.claimOperation as jest.Mock).mockImplementation(async (id, owner) => {
+      const operation = operations.get(id);
+      if (!operation) return null;
+      operation.leaseOwner = owner;
+      return { ...operation };
+    });
+    (dynamodbService.updateOperation as jest.Mock).mockImplementation(async (id, updates) => {
+      const updated = { ...operations.get(id)!, ...updates };
+      operations.set(id, updated);
+      return { ...updated };
+    });
+    (dynamodbService.getWorkspace as jest.Mock).mockResolvedValue(workspace);
+    (dynamodbService.updateWorkspace as jest.Mock).mockImplementation(async (id, updates) => ({ ...workspace, ...updates }));
+    (dynamodbService.getGroup as jest.Mock).mockResolvedValue({ id: 'grp_1', name: 'group-one', namespace: 'group-one' });
+    (kubernetesService.namespaceExists as jest.Mock).mockResolvedValue(true);
+    (kubernetesService.listVolumeSnapshots as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('should record each provisioning step and mark the workspace stopped on success', async () => {
+    const operation = await createOperation('create');
+
+    expect(operation.status).toBe(OperationStatus.PENDING);
+    expect(operation.resource).toBe('workspace:ws_abc123');
+
+    await operationService.execute(operation.id);
+
+    expect(operations.get(operation.id)!.status).toBe(OperationStatus.SUCCEEDED);
+    expect(stepStatuses(operation.id)).toEqual([
+      'namespace:skipped',
+      'secret:succeeded',
+      'environment:succeeded',
+      'statefulset:succeeded',
+      'service:succeeded',
+      'proxy:succeeded',
+      'proxy_config:succeeded',
+      'route:succeeded',
+    ]);
+    expect(kubernetesService.createStatefulSet).toHaveBeenCalledWith(
+      'group-one',
+      'workspace-abc123',
+      workspace.image,
+      workspace.resources,
+      {},
+      { storageSource: undefined, extensions: undefined, repository: undefined }
+    );
+    expect(workspaceEnvironmentService.writeSecret).toHaveBeenCalledWith(workspace, 'group-one');
+    expect(dynamodbService.updateWorkspace).toHaveBeenCalledWith('ws_abc123', { status: WorkspaceStatus.STOPPED });
+  });
+
+  it('should roll back completed steps in reverse and remove the workspace when a step fails', async () => {
+    (kubernetesService.createService as jest.Mock).mockRejectedValueOnce(new KubernetesError('Failed to create service'));
+    const operation = await createOperation('create');
+
+    await operationService.execute(operation.id);
+
+    const finished = operations.get(operation.id)!;
+    expect(finished.status).toBe(OperationStatus.FAILED);
+    expect(finished.error).toBe('Failed to create service');
+    expect(stepStatuses(operation.id)).toEqual([
+      'namespace:skipped',
+      'secret:rolled_back',
+      'environment:rolled_back',
+      'statefulset:rolled_back',
+      'service:rolled_back',
+      'proxy:pending',
+      'proxy_config:pending',
+      'route:pending',
+    ]);
+    expect(finished.steps[4].error).toBe('Failed to create service');
+    expect(kubernetesService.deleteStatefulSet).toHaveBeenCalledWith('group-one', 'workspace-abc123');
+    expect(kubernetesService.deleteNamespacedPVC).toHaveBeenCalledWith('workspace-storage-workspace-abc123-0', 'group-one');
+    expect(kubernetesService.deleteNamespacedSecret).toHaveBeenCalledWith('workspace-abc123-config', 'group-one');
+    expect(kubernetesService.deleteNamespacedSecret).toHaveBeenCalledWith('workspace-abc123-env', 'group-one');
+    expect(dynamodbService.deleteWorkspace).toHaveBeenCalledWith('ws_abc123');
+  });
+
+  it('should treat resources that already exist as created', async () => {
+    (kubernetesService.createStatefulSet as jest.Mock).mockRejectedValueOnce(
+      new KubernetesError('Failed to create StatefulSet', { statusCode: 409 })
+    );
+    const operation = await createOperation('create');
+
+    await operationService.execute(operation.id);
+
+    expect(operations.get(operation.id)!.status).toBe(OperationStatus.SUCCEEDED);
+  });
+
+  it('should resume an abandoned operation from the step it was on', async () => {
+    const operation = await createOperation('create');
+    const stored = operations.get(operation.id)!;
+    stored.status = OperationStatus.RUNNING;
+    stored.leaseExpiresAt = new Date(Date.now() - 1000).toISOString();
+    stored.steps = stored.steps.map((step, i) => ({ ...step, status: i < 4 ? 'succeeded' : i === 4 ? 'running' : 'pending' }));
+    (dynamodbService.listIncompleteOperations as jest.Mock).mockResolvedValue([{ ...stored }]);
+
+    await operationService.resumeIncomplete();
+
+    expect(kubernetesService.createCodeServerSecret).not.toHaveBeenCalled();
+    expect(kubernetesService.createStatefulSet).not.toHaveBeenCalled();
+    expect(kubernetesService.createService).toHaveBeenCalled();
+    expect(operations.get(operation.id)!.status).toBe(OperationStatus.SUCCEEDED);
+  });
+
+  it('should leave operations alone while another process holds the lease', async () => {
+    const operation = await createOperation('create');
+    const stored = operations.get(operation.id)!;
+    stored.status = OperationStatus.RUNNING;
+    stored.leaseExpiresAt = new Date(Date.now() + 60000).toISOString();
+    (dynamodbService.listIncompleteOperations as jest.Mock).mockResolvedValue([{ ...stored }]);
+
+    await operationService.resumeIncomplete();
+
+    expect(dynamodbService.claimOperation).toHaveBeenCalledTimes(1);
+    expect(kubernetesService.createCodeServerSecret).not.toHaveBeenCalled();
+  });
+
+  it('should finish an interrupted rollback instead of resuming', async () => {
+    const operation = await createOperation('create');
+    const stored = operations.get(operation.id)!;
+    stored.status = OperationStatus.ROLLING_BACK;
+    stored.error = 'Failed to create service';
+    stored.steps = stored.steps.map((step, i) => ({ ...step, status: i < 4 ? 'succeeded' : 'pending' }));
+
+    await operationService.execute(operation.id);
+
+    expect(kubernetesService.createService).not.toHaveBeenCalled();
+    expect(kubernetesService.deleteStatefulSet).toHaveBeenCalled();
+    expect(operations.get(operation.id)!.status).toBe(OperationStatus.FAILED);
+    expect(dynamodbService.deleteWorkspace).toHaveBeenCalledWith('ws_abc123');
+  });
+
+  it('should seed a clone from a snapshot of its source workspace', async () => {
+    const source = { ...workspace, id: 'ws_source1', name: 'Source Workspace', status: WorkspaceStatus.RUNNING };
+    (dynamodbService.getWorkspace as jest.Mock).mockImplementation(async id => (id === source.id ? source : workspace));
+    (dynamodbService.claimOperation as jest.Mock).mockResolvedValueOnce(null);
+    const operation = await operationService.startWorkspaceClone(workspace, 'group-one', source);
+    await new Promise(resolve => setImmediate(resolve));
+
+    await operationService.execute(operation.id);
+
+    expect(operations.get(operation.id)!.status).toBe(OperationStatus.SUCCEEDED);
+    expect(stepStatuses(operation.id)[0]).toBe('snapshot:succeeded');
+    expect(workspaceSnapshotService.create).toHaveBeenCalledWith(workspace, {
+      name: 'workspace-abc123-20240101000000-beef',
+      source,
+      description: 'Cloned from Source Workspace',
+      createdBy: 'usr_1',
+    });
+    expect(kubernetesService.createStatefulSet).toHaveBeenCalledWith(
+      'group-one',
+      'workspace-abc123',
+      workspace.image,
+      workspace.resources,
+      {},
+      expect.objectContaining({
+        storageSource: { kind: 'VolumeSnapshot', name: 'workspace-abc123-20240101000000-beef' },
+      })
+    );
+  });
+
+  it('should delete the seed snapshot and the clone when cloning fails', async () => {
+    const source = { ...workspace, id: 'ws_source1' };
+    (kubernetesService.createService as jest.Mock).mockRejectedValueOnce(new KubernetesError('Failed to create service'));
+    (dynamodbService.claimOperation as jest.Mock).mockResolvedValueOnce(null);
+    const operation = await operationService.startWorkspaceClone(workspace, 'group-one', source);
+    await new Promise(resolve => setImmediate(resolve));
+
+    await operationService.execute(operation.id);
+
+    expect(operations.get(operation.id)!.status).toBe(OperationStatus.FAILED);
+    expect(kubernetesService.deleteVolumeSnapshot).toHaveBeenCalledWith('group-one', 'workspace-abc123-20240101000000-beef');
+    expect(dynamodbService.deleteWorkspace).toHaveBeenCalledWith('ws_abc123');
+  });
+
+  it('should delete Kubernetes resources before the workspace record', async () => {
+    const operation = await createOperation('delete');
+
+    await operationService.execute(operation.id);
+
+    expect(operations.get(operation.id)!.status).toBe(OperationStatus.SUCCEEDED);
+    expect(kubernetesService.removeWorkspaceFromNginxProxyConfig).toHaveBeenCalledWith('group-one', 'workspace-abc123');
+    expect(kubernetesService.deleteNamespacedSecret).toHaveBeenCalledWith('workspace-abc123-env', 'group-one');
+    expect(workspaceEnvironmentService.deleteAll).toHaveBeenCalledWith('workspace', 'ws_abc123');
+    expect(workspaceAccessService.removeAll).toHaveBeenCalledWith('ws_abc123');
+    expect(dynamodbService.deleteWorkspace).toHaveBeenCalledWith('ws_abc123');
+  });
+
+  it('should delete the workspace snapshots along with it', async () => {
+    (kubernetesService.listVolumeSnapshots as jest.Mock).mockResolvedValue([
+      { metadata: { name: 'workspace-abc123-20240101000000-aaaa' } },
+    ]);
+    const operation = await createOperation('delete');
+
+    await operationService.execute(operation.id);
+
+    expect(kubernetesService.listVolumeSnapshots).toHaveBeenCalledWith('group-one', 'codex-platform/workspace-id=ws_abc123');
+    expect(kubernetesService.deleteVolumeSnapshot).toHaveBeenCalledWith('group-one', 'workspace-abc123-20240101000000-aaaa');
+  });
+
+  it('should recreate the StatefulSet from the snapshot on restore', async () => {
+    const operation = await createOperation('restore');
+
+    await operationService.execute(operation.id);
+
+    expect(operations.get(operation.id)!.status).toBe(OperationStatus.SUCCEEDED);
+    expect(kubernetesService.deleteNamespacedPVC).toHaveBeenCalledWith('workspace-storage-workspace-abc123-0', 'group-one');
+    expect(kubernetesService.createStatefulSet).toHaveBeenCalledWith(
+      'group-one',
+      'workspace-abc123',
+      workspace.image,
+      workspace.resources,
+      {},
+      expect.objectContaining({ storageSource: { kind: 'VolumeSnapshot', name: 'workspace-abc123-snap' } })
+    );
+    expect(dynamodbService.updateWorkspace).toHaveBeenCalledWith('ws_abc123', { status: WorkspaceStatus.STOPPED, replicas: 0 });
+  });
+
+  it('should skip Kubernetes cleanup when the group namespace is gone', async () => {
+    const operation = await createOperation('delete', null);
+
+    await operationService.execute(operation.id);
+
+    expect(stepStatuses(operation.id).slice(0, 5).every(status => status.endsWith(':skipped'))).toBe(true);
+    expect(kubernetesService.deleteStatefulSet).not.toHaveBeenCalled();
+    expect(dynamodbService.deleteWorkspace).toHaveBeenCalledWith('ws_abc123');
+  });
+
+  it('should keep the workspace and mark it errored when a delete step fails', async () => {
+    (kubernetesService.deleteNamespacedSecret as jest.Mock).mockRejectedValueOnce(new KubernetesError('Failed to delete secret'));
+    const operation = await createOperation('delete');
+
+    await operationService.execute(operation.id);
+
+    expect(operations.get(operation.id)!.status).toBe(OperationStatus.FAILED);
+    expect(dynamodbService.deleteWorkspace).not.toHaveBeenCalled();
+    expect(dynamodbService.updateWorkspace).toHaveBeenCalledWith('ws_abc123', { status: WorkspaceStatus.ERROR });
+  });
+
+  it('should put a workspace whose purge failed back in the trash', async () => {
+    (dynamodbService.getWorkspace as jest.Mock).mockResolvedValue({
+      ...workspace,
+      status: WorkspaceStatus.DELETING,
+      trash: { deletedAt: 'earlier', deletedBy: 'usr_1', purgeAt: 'now' },
+    });
+    (kubernetesService.deleteNamespacedSecret as jest.Mock).mockRejectedValueOnce(new KubernetesError('Failed to delete secret'));
+    const operation = await createOperation('delete');
+
+    await operationService.execute(operation.id);
+
+    expect(dynamodbService.deleteWorkspace).not.toHaveBeenCalled();
+    expect(dynamodbService.updateWorkspace).toHaveBeenCalledWith('ws_abc123', { status: WorkspaceStatus.TRASHED });
+  });
+
+  describe('move', () => {
+    const targetGroup = {
+      id: 'grp_2',
+      name: 'group-two',
+      displayName: 'Group Two',
+      namespace: 'group-two',
+    } as any;
+
+    const createMove = async (volumeName: string | null = 'pvc-1234') => {
+      (dynamodbService.claimOperation as jest.Mock).mockResolvedValueOnce(null);
+      const operation = await operationService.startWorkspaceMove(workspace, 'group-one', targetGroup, volumeName);
+      await new Promise(resolve => setImmediate(resolve));
+      return operation;
+    };
+
+    beforeEach(() => {
+      (dynamodbService.getGroup as jest.Mock).mockImplementation(async id =>
+        id === 'grp_2' ? targetGroup : { id: 'grp_1', name: 'group-one', displayName: 'Group 1', namespace: 'group-one' }
+      );
+    });
+
+    it('should hand the volume to a claim in the target namespace before recording the new group', async () => {
+      const operation = await createMove();
+
+      await operationService.execute(operation.id);
+
+      expect(operations.get(operation.id)!.status).toBe(OperationStatus.SUCCEEDED);
+      const retain = (kubernetesService.setPersistentVolumeReclaimPolicy as jest.Mock).mock.invocationCallOrder[0];
+      const deleteClaim = (kubernetesService.deleteNamespacedPVC as jest.Mock).mock.invocationCallOrder[0];
+      const bind = (kubernetesService.createPVCForVolume as jest.Mock).mock.invocationCallOrder[0];
+      expect(retain).toBeLessThan(deleteClaim);
+      expect(deleteClaim).toBeLessThan(bind);
+      expect(kubernetesService.deleteNamespacedPVC).toHaveBeenCalledWith('workspace-storage-workspace-abc123-0', 'group-one');
+      expect(kubernetesService.releasePersistentVolume).toHaveBeenCalledWith('pvc-1234', 'group-one');
+      expect(kubernetesService.createPVCForVolume).toHaveBeenCalledWith(
+        'group-two', 'workspace-storage-workspace-abc123-0', 'workspace-abc123', 'pvc-1234'
+      );
+      expect(kubernetesService.createStatefulSet).toHaveBeenCalledWith(
+        'group-two', 'workspace-abc123', workspace.image, workspace.resources, {}, expect.anything()
+      );
+      expect(workspaceEnvironmentService.writeSecret).toHaveBeenCalledWith(
+        expect.objectContaining({ groupId: 'grp_2' }), 'group-two'
+      );
+      expect(dynamodbService.updateWorkspace).toHaveBeenCalledWith('ws_abc123', {
+        groupId: 'grp_2',
+        groupName: 'Group Two',
+        url: 'https://preview.codexeditor.app/group-two/workspace-abc123',
+      });
+      expect(kubernetesService.deleteNamespacedService).toHaveBeenCalledWith('workspace-abc123', 'group-one');
+      expect(kubernetesService.setPersistentVolumeReclaimPolicy).toHaveBeenLastCalledWith('pvc-1234', 'Delete');
+      expect(dynamodbService.updateWorkspace).toHaveBeenLastCalledWith('ws_abc123', { status: WorkspaceStatus.STOPPED, replicas: 0 });
+    });
+
+    it('should skip the volume handover for a workspace that was never started', async () => {
+      const operation = await createMove(null);
+
+      await operationService.execute(operation.id);
+
+      expect(operations.get(operation.id)!.status).toBe(OperationStatus.SUCCEEDED);
+      expect(stepStatuses(operation.id)).toEqual(expect.arrayContaining([
+        'retain_volume:skipped',
+        'release_volume:skipped',
+        'bind_volume:skipped',
+        'reclaim_policy:skipped',
+      ]));
+      expect(kubernetesService.createPVCForVolume).not.toHaveBeenCalled();
+    });
+
+    it('should put the workspace back in its group when a step fails', async () => {
+      (kubernetesService.createService as jest.Mock).mockRejectedValueOnce(new KubernetesError('Failed to create service'));
+      const operation = await createMove();
+
+      await operationService.execute(operation.id);
+
+      expect(operations.get(operation.id)!.status).toBe(OperationStatus.FAILED);
+      expect(kubernetesService.deleteNamespacedPVC).toHaveBeenCalledWith('workspace-storage-workspace-abc123-0', 'group-two');
+      expect(kubernetesService.releasePersistentVolume).toHaveBeenCalledWith('pvc-1234', 'group-two');
+      expect(kubernetesService.createPVCForVolume).toHaveBeenLastCalledWith(
+        'group-one', 'workspace-storage-workspace-abc123-0', 'workspace-abc123', 'pvc-1234'
+      );
+      expect(kubernetesService.createStatefulSet).toHaveBeenLastCalledWith(
+        'group-one', 'workspace-abc123', workspace.image, workspace.resources, {}, expect.anything()
+      );
+      expect(kubernetesService.setPersistentVolumeReclaimPolicy).toHaveBeenLastCalledWith('pvc-1234', 'Delete');
+      expect(dynamodbService.updateWorkspace).not.toHaveBeenCalledWith('ws_abc123', expect.objectContaining({ groupId: 'grp_2' }));
+      expect(dynamodbService.updateWorkspace).toHaveBeenLastCalledWith('ws_abc123', { status: WorkspaceStatus.ERROR, replicas: 0 });
+    });
+  });
+
+  it('should tear everything but the volume down on archive and record how it was archived', async () => {
+    (dynamodbService.claimOperation as jest.Mock).mockResolvedValueOnce(null);
+    const operation = await operationService.startWorkspaceArchive(workspace, 'group-one', 'workspace-abc123-snap', 'usr_2');
+    await new Promise(resolve => setImmediate(resolve));
+
+    await operationService.execute(operation.id);
+
+    expect(operations.get(operation.id)!.status).toBe(OperationStatus.SUCCEEDED);
+    expect(workspaceSnapshotService.create).toHaveBeenCalledWith(workspace, expect.objectContaining({
+      name: 'workspace-abc123-snap',
+      createdBy: 'usr_2',
+    }));
+    expect(kubernetesService.deleteNamespacedPVC).toHaveBeenCalledWith('workspace-storage-workspace-abc123-0', 'group-one');
+    expect(kubernetesService.removeWorkspaceFromNginxProxyConfig).toHaveBeenCalledWith('group-one', 'workspace-abc123');
+    expect(dynamodbService.updateWorkspace).toHaveBeenCalledWith('ws_abc123', {
+      status: WorkspaceStatus.ARCHIVED,
+      replicas: 0,
+      archive: expect.objectContaining({ mode: 'snapshot', snapshotName: 'workspace-abc123-snap', archivedBy: 'usr_2' }),
+    });
+  });
+
+  it('should restore an archived workspace from its snapshot and never roll back an unarchive', async () => {
+    (kubernetesService.createService as jest.Mock).mockRejectedValueOnce(new KubernetesError('Failed to create service'));
+    const archived = {
+      ...workspace,
+      status: WorkspaceStatus.ARCHIVED,
+      archive: { mode: 'snapshot' as const, snapshotName: 'workspace-abc123-snap', archivedAt: 'earlier', archivedBy: 'usr_1' },
+    };
+    (dynamodbService.claimOperation as jest.Mock).mockResolvedValueOnce(null);
+    const operation = await operationService.startWorkspaceUnarchive(archived, 'group-one');
+    await new Promise(resolve => setImmediate(resolve));
+
+    await operationService.execute(operation.id);
+
+    expect(kubernetesService.createStatefulSet).toHaveBeenCalledWith(
+      'group-one',
+      'workspace-abc123',
+      workspace.image,
+      workspace.resources,
+      {},
+      expect.objectContaining({ storageSource: { kind: 'VolumeSnapshot', name: 'workspace-abc123-snap' } })
+    );
+    expect(operations.get(operation.id)!.status).toBe(OperationStatus.FAILED);
+    expect(kubernetesService.deleteNamespacedPVC).not.toHaveBeenCalled();
+    expect(dynamodbService.updateWorkspace).toHaveBeenCalledWith('ws_abc123', { status: WorkspaceStatus.ARCHIVED });
+  });
+
+  it('should hide lease bookkeeping from API responses', async () => {
+    const operation = await createOperation('create');
+    const response = operationService.toResponse({ ...operation, leaseOwner: 'pod-1', leaseExpiresAt: 'later' });
+
+    expect(response).not.toHaveProperty('leaseOwner');
+    expect(response).not.toHaveProperty('context');
+    expect(response.steps).toHaveLength(8);
+  });
+});
@@ -0,0 +1,132 @@
+import { personalAccessTokenService } from '../../src/services/personalAccessTokenService';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { AuthenticationError, AuthorizationError, ConflictError, NotFoundError } from '../../src/utils/errors';
+import { PersonalAccessToken, User } from '../../src/types';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    createPersonalAccessToken: jest.fn(async (token: any) => token),
+    getPersonalAccessToken: jest.fn(),
+    listUserPersonalAccessTokens: jest.fn(async () => []),
+    updatePersonalAccessTokenLastUsed: jest.fn(),
+    deletePersonalAccessToken: jest.fn(),
+    getUser: jest.fn(),
+    createAuditLog: jest.fn(),
+  },
+}));
+jest.mock('../../src/config/logger');
+
+describe('PersonalAccessTokenService', () => {
+  const user = { id: 'usr_1', email: 'ci@example.com', username: 'ci', groups: [], isAdmin: false } as unknown as User;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (dynamodbService.getUser as jest.Mock).mockResolvedValue(user);
+  });
+
+  // Create a token and make the mocked table return it on lookup
+  const createToken = async (scopes = ['workspaces:read'] as PersonalAccessToken['scopes'], expiresInDays = 30) => {
+    const { token } = await personalAccessTokenService.create(user, { name: 'ci', scopes, expiresInDays });
+    const stored = (dynamodbService.createPersonalAccessToken as jest.Mock).mock.calls[0][0] as PersonalAccessToken;
+    (dynamodbService.getPersonalAccessToken as jest.Mock).mockResolvedValue(stored);
+    return { token, stored };
+  };
+
+  it('should store only a hash and return the secret once', async () => {
+    const { token, stored } = await createToken();
+
+    expect(token).toMatch(/^pat_[0-9a-f]{32}\..+/);
+    expect(token.startsWith(`${stored.id}.`)).toBe(true);
+    expect(JSON.stringify(stored)).not.toContain(token.split('.')[1]);
+    expect(stored.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should resolve a valid token to its owner', async () => {
+    const { token, stored } = await createToken();
+
+    const result = await personalAccessTokenService.verify(token);
+
+    expect(result.user).toBe(user);
+    expect(result.personalAccessToken.id).toBe(stored.id);
+    expect(dynamodbService.getUser).toHaveBeenCalledWith('usr_1');
+  });
+
+  it('should reject tampered, unknown and expired tokens', async () => {
+    const { token, stored } = await createToken();
+
+    await expect(personalAccessTokenService.verify(`${token}x`)).rejects.toThrow(AuthenticationError);
+    await expect(personalAccessTokenService.verify('pat_nothex.secret')).rejects.toThrow(AuthenticationError);
+
+    (dynamodbService.getPersonalAccessToken as jest.Mock).mockResolvedValue({
+      ...stored,
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+    });
+    await expect(personalAccessTokenService.verify(token)).rejects.toThrow('Personal access token has expired');
+  });
+
+  it('should map requests to the scope they need', () => {
+    const scope = personalAccessTokenService.requiredScope.bind(personalAccessTokenService);
+
+    expect(scope('GET', '/api/workspaces/')).toBe('workspaces:read');
+    expect(scope('GET', '/api/operations/op_1')).toBe('workspaces:read');
+    expect(scope('POST', '/api/workspaces/ws_1/actions')).toBe('workspaces:control');
+    expect(scope('POST', '/api/workspaces/')).toBe('workspaces:write');
+    expect(scope('DELETE', '/api/workspaces/ws_1')).toBe('workspaces:write');
+    expect(scope('GET', '/api/workspaces/ws_1/exec')).toBe('workspaces:exec');
+    expect(scope('POST', '/api/groups/')).toBeNull();
+    expect(scope('GET', '/api/admin/users')).toBeNull();
+    expect(scope('POST', '/api/tokens/')).toBeNull();
+  });
+
+  it('should audit every use and refuse requests outside the token\'s scopes', async () => {
+    const { stored } = await createToken(['workspaces:read']);
+
+    await personalAccessTokenService.authorizeRequest(stored, user, 'GET', '/api/workspaces/');
+    expect(dynamodbService.createAuditLog).toHaveBeenLastCalledWith(expect.objectContaining({
+      action: 'personal_access_token_used',
+      details: expect.objectContaining({ tokenId: stored.id, scope: 'workspaces:read' }),
+      success: true,
+    }));
+    expect(dynamodbService.updatePersonalAccessTokenLastUsed).toHaveBeenCalledWith(stored.id, expect.any(String));
+
+    await expect(
+      personalAccessTokenService.authorizeRequest(stored, user, 'POST', '/api/workspaces/ws_1/actions')
+    ).rejects.toThrow(AuthorizationError);
+    expect(dynamodbService.createAuditLog).toHaveBeenLastCalledWith(expect.objectContaining({ success: false }));
+
+    await expect(
+      personalAccessTokenService.authorizeRequest(stored, user, 'GET', '/api/admin/users')
+    ).rejects.toThrow('Personal access tokens cannot be used for this request');
+  });
+
+  it('should only record the last use once a minute', async () => {
+    const { stored } = await createToken();
+
+    await personalAccessTokenService.authorizeRequest(
+      { ...stored, lastUsedAt: new Date(Date.now() - 10000).toISOString() },
+      user,
+      'GET',
+      '/api/workspaces/'
+    );
+
+    expect(dynamodbService.updatePersonalAccessTokenLastUsed).not.toHaveBeenCalled();
+  });
+
+  it('should limit how many tokens a user has', async () => {
+    (dynamodbService.listUserPersonalAccessTokens as jest.Mock).mockResolvedValueOnce(new Array(20).fill({}));
+
+    await expect(
+      personalAccessTokenService.create(user, { name: 'one more', scopes: ['workspaces:read'], expiresInDays: 1 })
+    ).rejects.toThrow(ConflictError);
+  });
+
+  it('should only revoke the caller\'s own tokens', async () => {
+    const { stored } = await createToken();
+
+    await expect(personalAccessTokenService.revoke('usr_2', stored.id)).rejects.toThrow(NotFoundError);
+    expect(dynamodbService.deletePersonalAccessToken).not.toHaveBeenCalled();
+
+    await personalAccessTokenService.revoke('usr_1', stored.id);
+    expect(dynamodbService.deletePersonalAccessToken).toHaveBeenCalledWith(stored.id);
+  });
+});
@@ -0,0 +1,163 @@
+import { scimService } from '../../src/services/scimService';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { cognitoService } from '../../src/services/cognitoService';
+import { userService } from '../../src/services/userService';
+import { config } from '../../src/config';
+import { ConflictError, ValidationError } from '../../src/utils/errors';
+import { User } from '../../src/types';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    getUser: jest.fn(),
+    getUserByEmail: jest.fn(),
+    createUser: jest.fn(),
+    listUsers: jest.fn(),
+    getGroup: jest.fn(),
+    listAllGroups: jest.fn(),
+    updateGroup: jest.fn(),
+    createAuditLog: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/cognitoService', () => ({
+  cognitoService: {
+    isEnabled: jest.fn(),
+    disableUser: jest.fn(),
+    enableUser: jest.fn(),
+    deleteUser: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/userService', () => ({
+  userService: {
+    updateUser: jest.fn(async (id: string, updates: any) => ({ id, ...updates })),
+    deleteUser: jest.fn(),
+    addUserToGroup: jest.fn(),
+    removeUserFromGroup: jest.fn(),
+  },
+}));
+jest.mock('../../src/config/logger');
+
+describe('ScimService', () => {
+  const originalToken = config.scimToken;
+  const alice: User = {
+    id: 'usr_alice',
+    username: 'alice',
+    email: 'alice@example.com',
+    name: 'Alice',
+    groups: ['grp_eng'],
+    isAdmin: false,
+    createdAt: '2026-01-01T00:00:00.000Z',
+  };
+  const bob: User = { ...alice, id: 'usr_bob', username: 'bob', email: 'bob@example.com', name: 'Bob', groups: [] };
+  const engineering = { id: 'grp_eng', displayName: 'Engineering', memberCount: 1, createdAt: '2026-01-01T00:00:00.000Z' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config.scimToken = 'scim-secret';
+    (cognitoService.isEnabled as jest.Mock).mockReturnValue(true);
+    const users = new Map<string, User>([[alice.id, alice], [bob.id, bob]]);
+    (dynamodbService.getUser as jest.Mock).mockImplementation(async (id: string) => users.get(id) || null);
+    (dynamodbService.createUser as jest.Mock).mockImplementation(async (user: User) => {
+      users.set(user.id, { ...user, createdAt: '2026-01-02T00:00:00.000Z' });
+      return users.get(user.id);
+    });
+    (dynamodbService.getUserByEmail as jest.Mock).mockResolvedValue(null);
+    (dynamodbService.listUsers as jest.Mock).mockResolvedValue({ users: [alice, bob] });
+    (dynamodbService.getGroup as jest.Mock).mockResolvedValue(engineering);
+    (dynamodbService.listAllGroups as jest.Mock).mockResolvedValue([engineering]);
+  });
+
+  afterEach(() => {
+    config.scimToken = originalToken;
+  });
+
+  it('should only accept the configured token', () => {
+    expect(scimService.isAuthorized('scim-secret')).toBe(true);
+    expect(scimService.isAuthorized('another-token')).toBe(false);
+
+    config.scimToken = '';
+    expect(scimService.isAuthorized('')).toBe(false);
+  });
+
+  it('should look users up by userName and page through them', async () => {
+    (dynamodbService.getUserByEmail as jest.Mock).mockResolvedValue(alice);
+
+    const filtered = await scimService.listUsers({ filter: 'userName eq "alice@example.com"', startIndex: 1, count: 100 });
+    expect(filtered.totalResults).toBe(1);
+    expect(filtered.Resources[0]).toEqual(expect.objectContaining({
+      id: 'usr_alice',
+      userName: 'alice@example.com',
+      active: true,
+      groups: [{ value: 'grp_eng', display: 'Engineering' }],
+    }));
+
+    const page = await scimService.listUsers({ startIndex: 2, count: 1 });
+    expect(page).toEqual(expect.objectContaining({ totalResults: 2, startIndex: 2, itemsPerPage: 1 }));
+    expect(page.Resources[0].id).toBe('usr_bob');
+  });
+
+  it('should reject filters it cannot evaluate', async () => {
+    await expect(scimService.listUsers({ filter: 'title co "eng"', startIndex: 1, count: 100 }))
+      .rejects.toThrow(ValidationError);
+  });
+
+  it('should provision users once', async () => {
+    const created = await scimService.createUser({
+      userName: 'carol@example.com',
+      externalId: 'idp-42',
+      name: { givenName: 'Carol', familyName: 'Jones' },
+      active: true,
+    });
+
+    expect(created).toEqual(expect.objectContaining({
+      userName: 'carol@example.com',
+      displayName: 'Carol Jones',
+      externalId: 'idp-42',
+      active: true,
+      groups: [],
+    }));
+    expect(dynamodbService.createUser).toHaveBeenCalledWith(expect.objectContaining({ username: 'carol', isAdmin: false }));
+    expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'scim_user_created', userId: 'scim' }));
+
+    (dynamodbService.getUserByEmail as jest.Mock).mockResolvedValue(alice);
+    await expect(scimService.createUser({ userName: 'alice@example.com', active: true })).rejects.toThrow(ConflictError);
+  });
+
+  it('should deactivate users, also those without a Cognito account', async () => {
+    const disabled = Object.assign(new Error('User does not exist.'), { name: 'UserNotFoundException' });
+    (cognitoService.disableUser as jest.Mock).mockRejectedValue(disabled);
+
+    await scimService.patchUser('usr_alice', [{ op: 'replace', path: 'active', value: 'False' }]);
+
+    expect(cognitoService.disableUser).toHaveBeenCalledWith('alice@example.com');
+    expect(userService.updateUser).toHaveBeenCalledWith('usr_alice', { disabled: true });
+    expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({ action: 'scim_user_deactivated' }));
+  });
+
+  it('should not let userName change', async () => {
+    await expect(scimService.replaceUser('usr_alice', { userName: 'alice@other.com', active: true }))
+      .rejects.toThrow('userName cannot be changed');
+    await expect(scimService.patchUser('usr_alice', [{ op: 'replace', value: { userName: 'alice@other.com' } }]))
+      .rejects.toThrow(ValidationError);
+  });
+
+  it('should add and remove group members', async () => {
+    await scimService.patchGroup('grp_eng', [
+      { op: 'add', path: 'members', value: [{ value: 'usr_bob' }] },
+      { op: 'remove', path: 'members[value eq "usr_alice"]' },
+    ]);
+
+    expect(userService.addUserToGroup).toHaveBeenCalledWith('usr_bob', 'grp_eng');
+    expect(userService.removeUserFromGroup).toHaveBeenCalledWith('usr_alice', 'grp_eng');
+    expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'scim_group_member_added',
+      resource: 'group:grp_eng',
+      details: { userId: 'usr_bob' },
+    }));
+  });
+
+  it('should refuse members that were not provisioned', async () => {
+    await expect(scimService.replaceGroup('grp_eng', { displayName: 'Engineering', members: [{ value: 'usr_unknown' }] }))
+      .rejects.toThrow('not a provisioned user');
+    expect(userService.addUserToGroup).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import { templateService } from '../../src/services/templateService';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { NotFoundError, ValidationError } from '../../src/utils/errors';
+import { Group, ResourceTier, WorkspaceTemplate } from '../../src/types';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    getTemplate: jest.fn(),
+    listTemplates: jest.fn(),
+  },
+}));
+jest.mock('../../src/config/logger');
+
+describe('TemplateService', () => {
+  const group: Group = {
+    id: 'grp_1',
+    name: 'group-one',
+    displayName: 'Group One',
+    namespace: 'group-one',
+    memberCount: 2,
+    resourceQuota: { cpu: '8', memory: '16Gi', storage: '100Gi', pods: 10 },
+    createdAt: new Date().toISOString(),
+  };
+
+  const template = (id: string, name: string, groupId: string | null = null): WorkspaceTemplate => ({
+    id,
+    name,
+    groupId,
+    image: 'codercom/code-server:latest',
+    createdBy: 'usr_admin',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  });
+
+  const templates = [
+    template('tpl_python', 'Python'),
+    template('tpl_go', 'Go', 'grp_1'),
+    template('tpl_other', 'Other group', 'grp_2'),
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (dynamodbService.listTemplates as jest.Mock).mockResolvedValue(templates);
+    (dynamodbService.getTemplate as jest.Mock).mockImplementation(async (id: string) =>
+      templates.find(t => t.id === id) || null
+    );
+  });
+
+  it('should offer platform-wide and own-group templates sorted by name', async () => {
+    const result = await templateService.listForGroup(group);
+
+    expect(result.map(t => t.id)).toEqual(['tpl_go', 'tpl_python']);
+  });
+
+  it('should only offer allowed templates to a restricted group', async () => {
+    const restricted = { ...group, allowedTemplateIds: ['tpl_python'] };
+
+    const result = await templateService.listForGroup(restricted);
+
+    expect(templateService.isRestricted(restricted)).toBe(true);
+    expect(result.map(t => t.id)).toEqual(['tpl_python']);
+  });
+
+  it('should list every template for admins', async () => {
+    const result = await templateService.listVisible(null);
+
+    expect(result).toHaveLength(3);
+  });
+
+  it('should hide templates of other groups', async () => {
+    await expect(templateService.getForGroup('tpl_other', group)).rejects.toThrow(NotFoundError);
+    await expect(templateService.getForGroup('tpl_missing', group)).rejects.toThrow(NotFoundError);
+  });
+
+  it('should reject templates outside the group allowlist', async () => {
+    const restricted = { ...group, allowedTemplateIds: ['tpl_python'] };
+
+    await expect(templateService.getForGroup('tpl_go', restricted)).rejects.toThrow(ValidationError);
+    await expect(templateService.getForGroup('tpl_python', restricted)).resolves.toEqual(templates[0]);
+  });
+
+  it('should resolve resources from explicit values before the tier', () => {
+    const tiered = { ...templates[0], tier: ResourceTier.SMALL_TEAM };
+
+    expect(templateService.resolveResources(templates[0])).toBeUndefined();
+    expect(templateService.resolveResources(tiered)).toEqual({ cpu: '2', memory: '4Gi', storage: '20Gi' });
+    expect(templateService.resolveResources({
+      ...tiered,
+      resources: { cpu: '1', memory: '1Gi', storage: '5Gi' },
+    })).toEqual({ cpu: '1', memory: '1Gi', storage: '5Gi' });
+  });
+});
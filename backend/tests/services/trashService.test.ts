@@ -0,0 +1,177 @@
+import { trashService } from '../../src/services/trashService';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { kubernetesService } from '../../src/services/kubernetesService';
+import { operationService } from '../../src/services/operationService';
+import { userService } from '../../src/services/userService';
+import { ConflictError, NotFoundError } from '../../src/utils/errors';
+import { Group, Workspace, WorkspaceStatus } from '../../src/types';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    getGroup: jest.fn(),
+    updateGroup: jest.fn(async (id: string, updates: any) => ({ id, ...updates })),
+    deleteGroup: jest.fn(),
+    listAllGroups: jest.fn(),
+    getGroupWorkspaces: jest.fn(),
+    listAllWorkspaces: jest.fn(),
+    updateWorkspace: jest.fn(async (id: string, updates: any) => ({ id, ...updates })),
+    listUsers: jest.fn(),
+    createAuditLog: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/kubernetesService', () => ({
+  kubernetesService: {
+    scaleStatefulSet: jest.fn(),
+    deleteNamespace: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/operationService', () => ({
+  operationService: {
+    startWorkspaceDelete: jest.fn(async () => ({ id: 'op_delete' })),
+  },
+}));
+jest.mock('../../src/services/userService', () => ({
+  userService: { removeUserFromGroup: jest.fn() },
+}));
+jest.mock('../../src/services/workspaceEnvironmentService', () => ({
+  workspaceEnvironmentService: { deleteAll: jest.fn() },
+}));
+jest.mock('../../src/services/workspaceService', () => ({
+  workspaceService: {
+    getK8sName: (id: string) => `workspace-${id.substring(3)}`,
+    getNamespace: jest.fn().mockResolvedValue('group-one'),
+  },
+}));
+jest.mock('../../src/services/workspaceEvents', () => ({
+  workspaceEvents: { publishStatus: jest.fn() },
+}));
+jest.mock('../../src/config/logger');
+
+describe('TrashService', () => {
+  const now = new Date('2024-06-30T12:00:00Z');
+  const expired = { deletedAt: '2024-06-01T00:00:00Z', deletedBy: 'usr_1', purgeAt: '2024-06-08T00:00:00Z' };
+  const retained = { deletedAt: '2024-06-29T00:00:00Z', deletedBy: 'usr_1', purgeAt: '2024-07-06T00:00:00Z' };
+
+  const workspace = (overrides: Partial<Workspace> = {}): Workspace => ({
+    id: 'ws_abc123',
+    name: 'Test Workspace',
+    groupId: 'grp_1',
+    groupName: 'Group One',
+    userId: 'usr_1',
+    status: WorkspaceStatus.RUNNING,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-06-30T00:00:00Z',
+    password: 'secret',
+    resources: { cpu: '1', memory: '2Gi', storage: '20Gi' },
+    image: 'codercom/code-server:latest',
+    replicas: 1,
+    ...overrides,
+  });
+
+  const group = (overrides: Partial<Group> = {}): Group => ({
+    id: 'grp_1',
+    name: 'group-one',
+    displayName: 'Group One',
+    namespace: 'group-one',
+    memberCount: 1,
+    resourceQuota: { cpu: '10', memory: '20Gi', storage: '100Gi', pods: 10 },
+    createdAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (dynamodbService.getGroup as jest.Mock).mockResolvedValue(group());
+    (dynamodbService.listAllGroups as jest.Mock).mockResolvedValue([]);
+    (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([]);
+    (dynamodbService.getGroupWorkspaces as jest.Mock).mockResolvedValue([]);
+    (dynamodbService.listUsers as jest.Mock).mockResolvedValue({ users: [] });
+  });
+
+  it('should scale a deleted workspace down and keep it until the retention period has passed', async () => {
+    const trashed = await trashService.trashWorkspace(workspace(), 'usr_2');
+
+    expect(kubernetesService.scaleStatefulSet).toHaveBeenCalledWith('group-one', 'workspace-abc123', 0);
+    expect(operationService.startWorkspaceDelete).not.toHaveBeenCalled();
+    expect(trashed.status).toBe(WorkspaceStatus.TRASHED);
+    expect(trashed.trash!.deletedBy).toBe('usr_2');
+    expect(new Date(trashed.trash!.purgeAt).getTime() - new Date(trashed.trash!.deletedAt).getTime())
+      .toBe(7 * 24 * 60 * 60 * 1000);
+  });
+
+  it('should trash a workspace that has no StatefulSet to scale down', async () => {
+    (kubernetesService.scaleStatefulSet as jest.Mock).mockRejectedValueOnce(new NotFoundError('StatefulSet not found'));
+
+    const trashed = await trashService.trashWorkspace(workspace({ status: WorkspaceStatus.ERROR }), 'usr_1');
+
+    expect(trashed.status).toBe(WorkspaceStatus.TRASHED);
+  });
+
+  it('should restore a workspace to how it was, unless its group is in the trash', async () => {
+    const archive = { mode: 'volume' as const, archivedAt: '2024-05-01T00:00:00Z', archivedBy: 'usr_1' };
+
+    const restored = await trashService.restoreWorkspace(workspace({ status: WorkspaceStatus.TRASHED, trash: retained }));
+    const archived = await trashService.restoreWorkspace(workspace({ status: WorkspaceStatus.TRASHED, trash: retained, archive }));
+
+    expect(restored).toEqual(expect.objectContaining({ status: WorkspaceStatus.STOPPED, trash: null }));
+    expect(archived.status).toBe(WorkspaceStatus.ARCHIVED);
+
+    (dynamodbService.getGroup as jest.Mock).mockResolvedValue(group({ trash: retained }));
+    await expect(
+      trashService.restoreWorkspace(workspace({ status: WorkspaceStatus.TRASHED, trash: retained }))
+    ).rejects.toThrow(ConflictError);
+  });
+
+  it('should only trash groups whose workspaces are all in the trash', async () => {
+    (dynamodbService.getGroupWorkspaces as jest.Mock).mockResolvedValue([
+      workspace({ status: WorkspaceStatus.TRASHED, trash: retained }),
+      workspace({ id: 'ws_other', status: WorkspaceStatus.STOPPED }),
+    ]);
+
+    await expect(trashService.trashGroup(group(), 'usr_admin')).rejects.toThrow('Cannot delete group with active workspaces');
+    expect(dynamodbService.updateGroup).not.toHaveBeenCalled();
+  });
+
+  it('should purge expired workspaces and keep the rest of the trash', async () => {
+    (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([
+      workspace({ id: 'ws_expired', status: WorkspaceStatus.TRASHED, trash: expired }),
+      workspace({ id: 'ws_retained', status: WorkspaceStatus.TRASHED, trash: retained }),
+      workspace({ id: 'ws_running' }),
+    ]);
+
+    await trashService.purgeExpired(now);
+
+    const purged = (operationService.startWorkspaceDelete as jest.Mock).mock.calls.map(call => call[0].id);
+    expect(purged).toEqual(['ws_expired']);
+    expect(dynamodbService.updateWorkspace).toHaveBeenCalledWith('ws_expired', { status: WorkspaceStatus.DELETING });
+    expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'workspace_purged',
+      resource: 'workspace:ws_expired',
+      success: true,
+    }));
+  });
+
+  it('should purge an expired group\'s workspaces first and the group once they are gone', async () => {
+    (dynamodbService.listAllGroups as jest.Mock).mockResolvedValue([group({ trash: expired })]);
+    (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([
+      workspace({ status: WorkspaceStatus.TRASHED, trash: retained }),
+    ]);
+
+    await trashService.purgeExpired(now);
+
+    expect(operationService.startWorkspaceDelete).toHaveBeenCalledTimes(1);
+    expect(dynamodbService.deleteGroup).not.toHaveBeenCalled();
+
+    (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([]);
+    (dynamodbService.listUsers as jest.Mock).mockResolvedValue({
+      users: [{ id: 'usr_1', groups: ['grp_1'] }, { id: 'usr_2', groups: ['grp_2'] }],
+    });
+
+    await trashService.purgeExpired(now);
+
+    expect(userService.removeUserFromGroup).toHaveBeenCalledTimes(1);
+    expect(userService.removeUserFromGroup).toHaveBeenCalledWith('usr_1', 'grp_1');
+    expect(kubernetesService.deleteNamespace).toHaveBeenCalledWith('group-one');
+    expect(dynamodbService.deleteGroup).toHaveBeenCalledWith('grp_1');
+  });
+});
@@ -0,0 +1,141 @@
+import { workspaceAccessService } from '../../src/services/workspaceAccessService';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { AuthorizationError, NotFoundError, ValidationError } from '../../src/utils/errors';
+import { CollaboratorRole, GroupRole, User, Workspace, WorkspaceCollaborator, WorkspaceStatus } from '../../src/types';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    getWorkspaceCollaborator: jest.fn(),
+    listWorkspaceCollaborators: jest.fn(),
+    putWorkspaceCollaborator: jest.fn(async (collaborator: WorkspaceCollaborator) => collaborator),
+    deleteWorkspaceCollaborator: jest.fn(),
+    getUserByEmail: jest.fn(),
+    updateWorkspaceOwner: jest.fn(async (id: string, userId: string) => ({ id, userId })),
+  },
+}));
+jest.mock('../../src/config/logger');
+
+describe('WorkspaceAccessService', () => {
+  const workspace: Workspace = {
+    id: 'ws_abc123',
+    name: 'Test Workspace',
+    groupId: 'grp_1',
+    groupName: 'Group One',
+    userId: 'usr_owner',
+    status: WorkspaceStatus.RUNNING,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    password: 'secret',
+    resources: { cpu: '1', memory: '2Gi', storage: '20Gi' },
+    image: 'codercom/code-server:latest',
+    replicas: 1,
+  };
+
+  const user = (id: string, overrides: Partial<User> = {}): User => ({
+    id,
+    username: id,
+    email: `${id}@example.com`,
+    groups: [],
+    isAdmin: false,
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  });
+
+  const collaborator = (userId: string, role: CollaboratorRole): WorkspaceCollaborator => ({
+    workspaceId: workspace.id,
+    userId,
+    email: `${userId}@example.com`,
+    role,
+    addedBy: 'usr_owner',
+    addedAt: new Date().toISOString(),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (dynamodbService.getWorkspaceCollaborator as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('should give the owner, group admins and platform admins full access', async () => {
+    const groupAdmin = user('usr_ga', { groups: ['grp_1'], groupMemberships: [{ groupId: 'grp_1', role: GroupRole.ADMIN }] });
+
+    expect(await workspaceAccessService.getAccess(user('usr_owner'), workspace)).toBe('owner');
+    expect(await workspaceAccessService.getAccess(groupAdmin, workspace)).toBe('owner');
+    expect(await workspaceAccessService.getAccess(user('usr_admin', { isAdmin: true }), workspace)).toBe('owner');
+    expect(dynamodbService.getWorkspaceCollaborator).not.toHaveBeenCalled();
+  });
+
+  it('should let group members view and collaborators use their role', async () => {
+    (dynamodbService.getWorkspaceCollaborator as jest.Mock).mockImplementation(async (_workspaceId: string, userId: string) =>
+      userId === 'usr_collab' ? collaborator('usr_collab', CollaboratorRole.OPERATOR) : null
+    );
+
+    expect(await workspaceAccessService.getAccess(user('usr_member', { groups: ['grp_1'] }), workspace)).toBe(CollaboratorRole.VIEWER);
+    expect(await workspaceAccessService.getAccess(user('usr_collab'), workspace)).toBe(CollaboratorRole.OPERATOR);
+    expect(await workspaceAccessService.getAccess(user('usr_other'), workspace)).toBeNull();
+  });
+
+  it('should hide the workspace from users without access and refuse roles that are too low', async () => {
+    (dynamodbService.getWorkspaceCollaborator as jest.Mock).mockResolvedValue(collaborator('usr_collab', CollaboratorRole.VIEWER));
+
+    await expect(
+      workspaceAccessService.require(user('usr_collab'), workspace, CollaboratorRole.OPERATOR, 'control this workspace')
+    ).rejects.toThrow(AuthorizationError);
+
+    (dynamodbService.getWorkspaceCollaborator as jest.Mock).mockResolvedValue(null);
+    await expect(
+      workspaceAccessService.require(user('usr_other'), workspace, CollaboratorRole.VIEWER, 'view this workspace')
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it('should only open terminals for editors and above', async () => {
+    (dynamodbService.getWorkspaceCollaborator as jest.Mock).mockResolvedValue(collaborator('usr_collab', CollaboratorRole.OPERATOR));
+    await expect(
+      workspaceAccessService.requireTerminal(user('usr_collab'), workspace)
+    ).rejects.toThrow('Insufficient permissions to open a terminal in this workspace');
+
+    (dynamodbService.getWorkspaceCollaborator as jest.Mock).mockResolvedValue(collaborator('usr_collab', CollaboratorRole.EDITOR));
+    await expect(workspaceAccessService.requireTerminal(user('usr_collab'), workspace)).resolves.toBe(CollaboratorRole.EDITOR);
+    await expect(workspaceAccessService.requireTerminal(user('usr_owner'), workspace)).resolves.toBe('owner');
+  });
+
+  it('should only include the password for editors and above', () => {
+    const asViewer = workspaceAccessService.toResponse(workspace, CollaboratorRole.OPERATOR);
+    const asEditor = workspaceAccessService.toResponse(workspace, CollaboratorRole.EDITOR);
+
+    expect(asViewer).not.toHaveProperty('password');
+    expect(asViewer.access).toBe(CollaboratorRole.OPERATOR);
+    expect(asEditor.password).toBe('secret');
+  });
+
+  it('should not share a workspace with its owner', async () => {
+    (dynamodbService.getUserByEmail as jest.Mock).mockResolvedValue(user('usr_owner'));
+
+    await expect(
+      workspaceAccessService.addCollaborator(workspace, 'usr_owner@example.com', CollaboratorRole.EDITOR, 'usr_owner')
+    ).rejects.toThrow(ValidationError);
+    expect(dynamodbService.putWorkspaceCollaborator).not.toHaveBeenCalled();
+  });
+
+  it('should keep who shared the workspace when the role changes', async () => {
+    (dynamodbService.getUserByEmail as jest.Mock).mockResolvedValue(user('usr_collab'));
+    (dynamodbService.getWorkspaceCollaborator as jest.Mock).mockResolvedValue(collaborator('usr_collab', CollaboratorRole.VIEWER));
+
+    const result = await workspaceAccessService.addCollaborator(workspace, 'usr_collab@example.com', CollaboratorRole.EDITOR, 'usr_ga');
+
+    expect(result.role).toBe(CollaboratorRole.EDITOR);
+    expect(result.addedBy).toBe('usr_owner');
+  });
+
+  it('should only transfer a workspace to a member of its group and drop their collaborator entry', async () => {
+    (dynamodbService.getUserByEmail as jest.Mock).mockResolvedValue(user('usr_outsider'));
+    await expect(workspaceAccessService.transferOwnership(workspace, 'usr_outsider@example.com')).rejects.toThrow(ValidationError);
+    expect(dynamodbService.updateWorkspaceOwner).not.toHaveBeenCalled();
+
+    (dynamodbService.getUserByEmail as jest.Mock).mockResolvedValue(user('usr_member', { groups: ['grp_1'] }));
+    const result = await workspaceAccessService.transferOwnership(workspace, 'usr_member@example.com');
+
+    expect(result.userId).toBe('usr_member');
+    expect(dynamodbService.updateWorkspaceOwner).toHaveBeenCalledWith('ws_abc123', 'usr_member', 'usr_owner');
+    expect(dynamodbService.deleteWorkspaceCollaborator).toHaveBeenCalledWith('ws_abc123', 'usr_member');
+  });
+});
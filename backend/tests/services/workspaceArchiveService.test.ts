@@ -0,0 +1,135 @@
+import { workspaceArchiveService } from '../../src/services/workspaceArchiveService';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { kubernetesService } from '../../src/services/kubernetesService';
+import { operationService } from '../../src/services/operationService';
+import { ConflictError } from '../../src/utils/errors';
+import { Workspace, WorkspaceStatus } from '../../src/types';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    getSystemSettings: jest.fn(),
+    listAllWorkspaces: jest.fn(),
+    updateWorkspace: jest.fn(async (id: string, updates: any) => ({ id, ...updates })),
+    createAuditLog: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/kubernetesService', () => ({
+  kubernetesService: {
+    getPVCStorage: jest.fn(),
+    checkResourceQuotaHeadroom: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/operationService', () => ({
+  operationService: {
+    startWorkspaceArchive: jest.fn(async () => ({ id: 'op_archive' })),
+    startWorkspaceUnarchive: jest.fn(async () => ({ id: 'op_unarchive' })),
+  },
+}));
+jest.mock('../../src/services/workspaceService', () => ({
+  workspaceService: {
+    getK8sName: (id: string) => `workspace-${id.substring(3)}`,
+    getNamespace: jest.fn().mockResolvedValue('group-one'),
+  },
+}));
+jest.mock('../../src/services/workspaceSnapshotService', () => ({
+  workspaceSnapshotService: {
+    generateName: jest.fn(() => 'workspace-abc123-20240101000000-beef'),
+    get: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/workspaceEvents', () => ({
+  workspaceEvents: { publishStatus: jest.fn() },
+}));
+jest.mock('../../src/config/logger');
+
+describe('WorkspaceArchiveService', () => {
+  const now = new Date('2024-06-30T12:00:00Z');
+
+  const workspace = (overrides: Partial<Workspace> = {}): Workspace => ({
+    id: 'ws_abc123',
+    name: 'Test Workspace',
+    groupId: 'grp_1',
+    groupName: 'Group One',
+    userId: 'usr_1',
+    status: WorkspaceStatus.STOPPED,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-06-30T00:00:00Z',
+    password: 'secret',
+    resources: { cpu: '1', memory: '2Gi', storage: '20Gi' },
+    image: 'codercom/code-server:latest',
+    replicas: 0,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (dynamodbService.getSystemSettings as jest.Mock).mockResolvedValue({ id: 'system', autoArchiveAfterDays: 30 });
+    (kubernetesService.getPVCStorage as jest.Mock).mockResolvedValue({ requested: '20Gi', fileSystemResizePending: false });
+    (kubernetesService.checkResourceQuotaHeadroom as jest.Mock).mockResolvedValue({ fits: true });
+  });
+
+  it('should snapshot the volume for cold storage and keep it otherwise', async () => {
+    await workspaceArchiveService.archive(workspace(), 'snapshot', 'usr_1');
+    await workspaceArchiveService.archive(workspace(), 'volume', 'usr_1');
+
+    const calls = (operationService.startWorkspaceArchive as jest.Mock).mock.calls;
+    expect(calls[0]).toEqual([expect.anything(), 'group-one', 'workspace-abc123-20240101000000-beef', 'usr_1']);
+    expect(calls[1]).toEqual([expect.anything(), 'group-one', null, 'usr_1']);
+    expect(dynamodbService.updateWorkspace).toHaveBeenCalledWith('ws_abc123', { status: WorkspaceStatus.PENDING });
+  });
+
+  it('should keep the volume of a workspace that has nothing to snapshot', async () => {
+    (kubernetesService.getPVCStorage as jest.Mock).mockResolvedValue(null);
+
+    await workspaceArchiveService.archive(workspace(), 'snapshot', 'usr_1');
+
+    expect(operationService.startWorkspaceArchive).toHaveBeenCalledWith(expect.anything(), 'group-one', null, 'usr_1');
+  });
+
+  it('should only archive stopped workspaces and unarchive archived ones', async () => {
+    await expect(
+      workspaceArchiveService.archive(workspace({ status: WorkspaceStatus.RUNNING }), 'volume', 'usr_1')
+    ).rejects.toThrow(ConflictError);
+    await expect(workspaceArchiveService.unarchive(workspace())).rejects.toThrow(ConflictError);
+    expect(dynamodbService.updateWorkspace).not.toHaveBeenCalled();
+  });
+
+  it('should check the group quota before restoring a snapshot archive', async () => {
+    (kubernetesService.checkResourceQuotaHeadroom as jest.Mock).mockResolvedValue({ fits: false, reason: 'storage' });
+    const archived = workspace({
+      status: WorkspaceStatus.ARCHIVED,
+      archive: { mode: 'snapshot', snapshotName: 'workspace-abc123-snap', archivedAt: now.toISOString(), archivedBy: 'usr_1' },
+    });
+
+    await expect(workspaceArchiveService.unarchive(archived)).rejects.toThrow('Workspace exceeds the group quota');
+    expect(operationService.startWorkspaceUnarchive).not.toHaveBeenCalled();
+  });
+
+  it('should auto-archive stopped workspaces not accessed for the configured number of days', async () => {
+    (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([
+      workspace({ id: 'ws_idle', lastAccessedAt: '2024-05-01T00:00:00Z' }),
+      workspace({ id: 'ws_recent', lastAccessedAt: '2024-06-25T00:00:00Z' }),
+      workspace({ id: 'ws_never' }),
+      workspace({ id: 'ws_running', status: WorkspaceStatus.RUNNING, lastAccessedAt: '2024-05-01T00:00:00Z' }),
+    ]);
+
+    await workspaceArchiveService.archiveInactive(now);
+
+    const archived = (operationService.startWorkspaceArchive as jest.Mock).mock.calls.map(call => call[0].id);
+    expect(archived).toEqual(['ws_idle', 'ws_never']);
+    expect((operationService.startWorkspaceArchive as jest.Mock).mock.calls[0][3]).toBe('system');
+    expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'workspace_auto_archived',
+      resource: 'workspace:ws_idle',
+      success: true,
+    }));
+  });
+
+  it('should not auto-archive anything when the setting is off', async () => {
+    (dynamodbService.getSystemSettings as jest.Mock).mockResolvedValue({ id: 'system', autoArchiveAfterDays: 0 });
+
+    await workspaceArchiveService.archiveInactive(now);
+
+    expect(dynamodbService.listAllWorkspaces).not.toHaveBeenCalled();
+  });
+});
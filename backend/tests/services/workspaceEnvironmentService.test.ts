@@ -0,0 +1,151 @@
+import { workspaceEnvironmentService } from '../../src/services/workspaceEnvironmentService';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { kubernetesService } from '../../src/services/kubernetesService';
+import { encryptSecret } from '../../src/utils/encryption';
+import { ValidationError } from '../../src/utils/errors';
+import { EnvironmentScope, EnvironmentVariableSet, StoredEnvironmentVariable, Workspace, WorkspaceStatus } from '../../src/types';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    getEnvironment: jest.fn(),
+    setEnvironmentVariable: jest.fn(),
+    getGroupWorkspaces: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/kubernetesService', () => ({
+  kubernetesService: {
+    applyWorkspaceEnvSecret: jest.fn(),
+    updateStatefulSetEnvironment: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/workspaceService', () => ({
+  workspaceService: {
+    getK8sName: (id: string) => `workspace-${id.substring(3)}`,
+    getNamespace: jest.fn().mockResolvedValue('group-one'),
+  },
+}));
+jest.mock('../../src/config/logger');
+
+describe('WorkspaceEnvironmentService', () => {
+  const workspace: Workspace = {
+    id: 'ws_abc123',
+    name: 'Test Workspace',
+    groupId: 'grp_1',
+    groupName: 'Group One',
+    userId: 'usr_1',
+    status: WorkspaceStatus.RUNNING,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    password: 'secret',
+    resources: { cpu: '1', memory: '2Gi', storage: '20Gi' },
+    image: 'codercom/code-server:latest',
+    replicas: 1,
+    env: { EDITOR: 'vim', LOG_LEVEL: 'info' },
+  };
+
+  const plain = (value: string): StoredEnvironmentVariable => ({
+    secret: false,
+    value,
+    updatedAt: new Date().toISOString(),
+    updatedBy: 'usr_1',
+  });
+
+  const secret = (value: string): StoredEnvironmentVariable => ({
+    secret: true,
+    encryptedValue: encryptSecret(value),
+    updatedAt: new Date().toISOString(),
+    updatedBy: 'usr_1',
+  });
+
+  let environments: Record<string, EnvironmentVariableSet>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    environments = {};
+    (dynamodbService.getEnvironment as jest.Mock).mockImplementation(
+      async (scope: EnvironmentScope, scopeId: string) => environments[`${scope}#${scopeId}`] || null
+    );
+  });
+
+  const setEnvironment = (scope: EnvironmentScope, scopeId: string, variables: Record<string, StoredEnvironmentVariable>) => {
+    environments[`${scope}#${scopeId}`] = { scope, scopeId, variables, updatedAt: new Date().toISOString() };
+  };
+
+  it('should store secrets encrypted and never return their value', async () => {
+    const result = await workspaceEnvironmentService.set('workspace', 'ws_abc123', 'API_TOKEN', 'hunter2', true, 'usr_1');
+
+    const stored: StoredEnvironmentVariable = (dynamodbService.setEnvironmentVariable as jest.Mock).mock.calls[0][3];
+    expect(stored.value).toBeUndefined();
+    expect(stored.encryptedValue).toBeDefined();
+    expect(stored.encryptedValue).not.toContain('hunter2');
+    expect(result).toEqual(expect.objectContaining({ name: 'API_TOKEN', secret: true }));
+    expect(result).not.toHaveProperty('value');
+  });
+
+  it('should list variables sorted by name with secrets masked', async () => {
+    setEnvironment('workspace', 'ws_abc123', { ZED: plain('z'), API_TOKEN: secret('hunter2') });
+
+    const result = await workspaceEnvironmentService.list('workspace', 'ws_abc123');
+
+    expect(result.map(v => v.name)).toEqual(['API_TOKEN', 'ZED']);
+    expect(result[0]).not.toHaveProperty('value');
+    expect(result[1].value).toBe('z');
+  });
+
+  it('should reject names code-server reserves', async () => {
+    await expect(
+      workspaceEnvironmentService.set('workspace', 'ws_abc123', 'PASSWORD', 'x', false, 'usr_1')
+    ).rejects.toThrow(ValidationError);
+    expect(dynamodbService.setEnvironmentVariable).not.toHaveBeenCalled();
+  });
+
+  it('should let workspace values override template and group values', async () => {
+    setEnvironment('group', 'grp_1', { EDITOR: plain('nano'), REGION: plain('eu-west-1'), DB_PASSWORD: secret('group-pw') });
+    setEnvironment('workspace', 'ws_abc123', { LOG_LEVEL: plain('debug'), DB_PASSWORD: secret('own-pw') });
+
+    const result = await workspaceEnvironmentService.resolve(workspace);
+
+    expect(result).toEqual({
+      EDITOR: 'vim',
+      REGION: 'eu-west-1',
+      LOG_LEVEL: 'debug',
+      DB_PASSWORD: 'own-pw',
+    });
+  });
+
+  it('should write the secret and roll the StatefulSet only when the values change', async () => {
+    setEnvironment('workspace', 'ws_abc123', { LOG_LEVEL: plain('debug') });
+
+    await workspaceEnvironmentService.sync(workspace);
+    await workspaceEnvironmentService.sync(workspace);
+    setEnvironment('workspace', 'ws_abc123', { LOG_LEVEL: plain('trace') });
+    await workspaceEnvironmentService.sync(workspace);
+
+    expect(kubernetesService.applyWorkspaceEnvSecret).toHaveBeenCalledWith(
+      'group-one',
+      'workspace-abc123',
+      expect.objectContaining({ LOG_LEVEL: 'debug' })
+    );
+    const revisions = (kubernetesService.updateStatefulSetEnvironment as jest.Mock).mock.calls.map(call => call[2]);
+    expect(revisions[0]).toBe(revisions[1]);
+    expect(revisions[2]).not.toBe(revisions[0]);
+  });
+
+  it('should leave workspaces that are still being provisioned alone', async () => {
+    await workspaceEnvironmentService.sync({ ...workspace, status: WorkspaceStatus.PENDING });
+
+    expect(kubernetesService.applyWorkspaceEnvSecret).not.toHaveBeenCalled();
+    expect(kubernetesService.updateStatefulSetEnvironment).not.toHaveBeenCalled();
+  });
+
+  it('should keep syncing the group when one workspace fails', async () => {
+    const other = { ...workspace, id: 'ws_def456' };
+    (dynamodbService.getGroupWorkspaces as jest.Mock).mockResolvedValue([workspace, other]);
+    (kubernetesService.updateStatefulSetEnvironment as jest.Mock).mockRejectedValueOnce(new Error('boom'));
+
+    const failed = await workspaceEnvironmentService.syncGroup('grp_1');
+
+    expect(failed).toEqual(['ws_abc123']);
+    expect(kubernetesService.updateStatefulSetEnvironment).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,135 @@
+import { workspaceExpiryService, resolveExpiresAt } from '../../src/services/workspaceExpiryService';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { trashService } from '../../src/services/trashService';
+import { workspaceService } from '../../src/services/workspaceService';
+import { workspaceEvents } from '../../src/services/workspaceEvents';
+import { ValidationError } from '../../src/utils/errors';
+import { Group, Workspace, WorkspaceStatus } from '../../src/types';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    listAllWorkspaces: jest.fn(),
+    updateWorkspace: jest.fn(async (id: string, updates: any) => ({ id, ...updates })),
+    createAuditLog: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/trashService', () => ({
+  trashService: { trashWorkspace: jest.fn() },
+}));
+jest.mock('../../src/services/workspaceService', () => ({
+  workspaceService: { performAction: jest.fn() },
+}));
+jest.mock('../../src/services/workspaceEvents', () => ({
+  workspaceEvents: { publish: jest.fn() },
+}));
+jest.mock('../../src/config/logger');
+
+describe('WorkspaceExpiryService', () => {
+  const now = new Date('2024-06-30T12:00:00Z');
+
+  const workspace = (overrides: Partial<Workspace> = {}): Workspace => ({
+    id: 'ws_abc123',
+    name: 'Test Workspace',
+    groupId: 'grp_1',
+    groupName: 'Group One',
+    userId: 'usr_1',
+    status: WorkspaceStatus.RUNNING,
+    createdAt: '2024-06-01T00:00:00Z',
+    updatedAt: '2024-06-30T00:00:00Z',
+    lastAccessedAt: '2024-06-30T11:00:00Z',
+    password: 'secret',
+    resources: { cpu: '1', memory: '2Gi', storage: '20Gi' },
+    image: 'codercom/code-server:latest',
+    replicas: 1,
+    ...overrides,
+  });
+
+  const group = (overrides: Partial<Group> = {}): Group => ({
+    id: 'grp_1',
+    name: 'group-one',
+    displayName: 'Group One',
+    namespace: 'group-one',
+    memberCount: 1,
+    resourceQuota: { cpu: '10', memory: '20Gi', storage: '100Gi', pods: 10 },
+    createdAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('resolveExpiresAt', () => {
+    it('should default new workspaces to the longest lifetime the group allows', () => {
+      expect(resolveExpiresAt(undefined, group({ maxLifetimeDays: 30 }), '2024-06-01T00:00:00Z', now))
+        .toBe('2024-07-01T00:00:00.000Z');
+      expect(resolveExpiresAt(undefined, group(), '2024-06-01T00:00:00Z', now)).toBeUndefined();
+    });
+
+    it('should refuse expiries in the past or beyond the group\'s max lifetime', () => {
+      const bounded = group({ maxLifetimeDays: 30 });
+
+      expect(() => resolveExpiresAt('2024-06-29T00:00:00Z', group(), '2024-06-01T00:00:00Z', now)).toThrow(ValidationError);
+      expect(() => resolveExpiresAt('2024-07-02T00:00:00Z', bounded, '2024-06-01T00:00:00Z', now)).toThrow(ValidationError);
+      expect(() => resolveExpiresAt(null, bounded, '2024-06-01T00:00:00Z', now)).toThrow(ValidationError);
+      expect(resolveExpiresAt('2024-07-01T00:00:00Z', bounded, '2024-06-01T00:00:00Z', now)).toBe('2024-07-01T00:00:00.000Z');
+      expect(resolveExpiresAt(null, group(), '2024-06-01T00:00:00Z', now)).toBeNull();
+    });
+  });
+
+  it('should warn once when a workspace is about to expire', async () => {
+    (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([
+      workspace({ id: 'ws_soon', expiresAt: '2024-07-02T12:00:00Z' }),
+      workspace({ id: 'ws_warned', expiresAt: '2024-07-02T12:00:00Z', expiryWarnedAt: '2024-06-29T12:00:00Z' }),
+      workspace({ id: 'ws_later', expiresAt: '2024-07-30T12:00:00Z' }),
+      workspace({ id: 'ws_forever' }),
+    ]);
+
+    await workspaceExpiryService.checkAll(now);
+
+    expect(dynamodbService.updateWorkspace).toHaveBeenCalledTimes(1);
+    expect(dynamodbService.updateWorkspace).toHaveBeenCalledWith('ws_soon', { expiryWarnedAt: now.toISOString() });
+    expect(workspaceEvents.publish).toHaveBeenCalledWith(expect.objectContaining({ id: 'ws_soon' }), {
+      type: 'expiry',
+      expiresAt: '2024-07-02T12:00:00Z',
+      deleteAt: '2024-07-09T12:00:00.000Z',
+    });
+    expect(workspaceService.performAction).not.toHaveBeenCalled();
+    expect(trashService.trashWorkspace).not.toHaveBeenCalled();
+  });
+
+  it('should stop running workspaces that have expired, keeping their last activity', async () => {
+    (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([
+      workspace({ id: 'ws_running', expiresAt: '2024-06-30T00:00:00Z' }),
+      workspace({ id: 'ws_stopped', status: WorkspaceStatus.STOPPED, expiresAt: '2024-06-30T00:00:00Z' }),
+    ]);
+
+    await workspaceExpiryService.checkAll(now);
+
+    expect(workspaceService.performAction).toHaveBeenCalledTimes(1);
+    expect(workspaceService.performAction).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'ws_running' }), 'stop', '2024-06-30T11:00:00Z'
+    );
+    expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'workspace_expiry_stopped',
+      resource: 'workspace:ws_running',
+      success: true,
+    }));
+  });
+
+  it('should delete workspaces once the grace period after their expiry has passed', async () => {
+    (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([
+      workspace({ id: 'ws_expired', status: WorkspaceStatus.STOPPED, expiresAt: '2024-06-20T00:00:00Z' }),
+      workspace({ id: 'ws_trashed', status: WorkspaceStatus.TRASHED, expiresAt: '2024-06-20T00:00:00Z' }),
+    ]);
+
+    await workspaceExpiryService.checkAll(now);
+
+    expect(trashService.trashWorkspace).toHaveBeenCalledTimes(1);
+    expect(trashService.trashWorkspace).toHaveBeenCalledWith(expect.objectContaining({ id: 'ws_expired' }), 'system');
+    expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'workspace_expiry_deleted',
+      success: true,
+    }));
+  });
+});
@@ -0,0 +1,148 @@
+import { PassThrough } from 'stream';
+import { workspaceFileService, FILES_ROOT } from '../../src/services/workspaceFileService';
+import { kubernetesService } from '../../src/services/kubernetesService';
+import { ConflictError, NotFoundError, ValidationError } from '../../src/utils/errors';
+import { Workspace, WorkspaceStatus } from '../../src/types';
+
+jest.mock('../../src/services/kubernetesService', () => ({
+  kubernetesService: {
+    listPods: jest.fn(),
+    execIntoPod: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/workspaceService', () => ({
+  workspaceService: {
+    getK8sName: (id: string) => `workspace-${id.substring(3)}`,
+    getNamespace: jest.fn().mockResolvedValue('group-one'),
+  },
+}));
+jest.mock('../../src/config/logger');
+
+// Fake exec session that prints `output` and exits with `exitCode`; stdin is collected
+function mockExec(output: string | Buffer, exitCode: number = 0) {
+  const stdin = new PassThrough();
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const received: Buffer[] = [];
+  stdin.on('data', (chunk: Buffer) => received.push(chunk));
+
+  (kubernetesService.execIntoPod as jest.Mock).mockImplementationOnce(async () => {
+    setImmediate(() => {
+      stdout.end(output);
+      stderr.end();
+    });
+    return { stdin, stdout, stderr, exitCode: Promise.resolve(exitCode) };
+  });
+
+  return { received };
+}
+
+describe('WorkspaceFileService', () => {
+  const workspace: Workspace = {
+    id: 'ws_abc123',
+    name: 'Test Workspace',
+    groupId: 'grp_1',
+    groupName: 'Group One',
+    userId: 'usr_1',
+    status: WorkspaceStatus.RUNNING,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-06-30T00:00:00Z',
+    password: 'secret',
+    resources: { cpu: '1', memory: '2Gi', storage: '20Gi' },
+    image: 'codercom/code-server:latest',
+    replicas: 1,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (kubernetesService.listPods as jest.Mock).mockResolvedValue([{ name: 'workspace-abc123-0' }]);
+  });
+
+  it('should keep paths relative to the project volume', () => {
+    expect(workspaceFileService.normalizePath('')).toBe('');
+    expect(workspaceFileService.normalizePath('/src/app/')).toBe('src/app');
+    expect(workspaceFileService.normalizePath('../../etc/passwd')).toBe('etc/passwd');
+    expect(workspaceFileService.normalizePath('src/../../..')).toBe('');
+  });
+
+  it('should list a directory with directories first', async () => {
+    mockExec('f\t12\t1719748800.5\tREADME.md\0d\t4096\t1719748800\tsrc\0l\t9\t1719748800\tlink\0');
+
+    const listing = await workspaceFileService.list(workspace, 'project/');
+
+    expect(kubernetesService.execIntoPod).toHaveBeenCalledWith(
+      'group-one',
+      'workspace-abc123-0',
+      ['sh', '-c', expect.any(String), 'sh', FILES_ROOT, `${FILES_ROOT}/project`],
+      undefined,
+      { tty: false }
+    );
+    expect(listing.path).toBe('project');
+    expect(listing.entries.map(entry => [entry.name, entry.type])).toEqual([
+      ['src', 'directory'],
+      ['link', 'symlink'],
+      ['README.md', 'file'],
+    ]);
+    expect(listing.entries[2]).toEqual(expect.objectContaining({ size: 12, modifiedAt: '2024-06-30T12:00:00.500Z' }));
+  });
+
+  it('should map script exit codes to errors', async () => {
+    mockExec('', 2);
+    await expect(workspaceFileService.list(workspace, 'missing')).rejects.toThrow(NotFoundError);
+
+    mockExec('', 3);
+    await expect(workspaceFileService.list(workspace, 'escaping-link')).rejects.toThrow(ValidationError);
+  });
+
+  it('should only access the files of a running workspace', async () => {
+    await expect(
+      workspaceFileService.list({ ...workspace, status: WorkspaceStatus.STOPPED })
+    ).rejects.toThrow(ConflictError);
+    expect(kubernetesService.execIntoPod).not.toHaveBeenCalled();
+  });
+
+  it('should archive directories and refuse downloads over the size limit', async () => {
+    mockExec('directory\t2048\n');
+    mockExec('archive');
+
+    const download = await workspaceFileService.download(workspace, 'src');
+
+    expect(download).toEqual(expect.objectContaining({ filename: 'src.tar.gz', format: 'tar', size: 2048 }));
+    expect((kubernetesService.execIntoPod as jest.Mock).mock.calls[1][2]).toEqual(
+      ['sh', '-c', expect.any(String), 'sh', FILES_ROOT, `${FILES_ROOT}/src`, 'tar']
+    );
+    download.stream.resume();
+    await expect(download.exitCode).resolves.toBe(0);
+
+    mockExec(`file\t${600 * 1024 * 1024}\n`);
+    await expect(workspaceFileService.download(workspace, 'big.iso')).rejects.toThrow('larger than the 500 MB download limit');
+  });
+
+  it('should store symlinks in zip archives instead of following them out of the files root', async () => {
+    mockExec('directory\t2048\n');
+    mockExec('archive');
+
+    const download = await workspaceFileService.download(workspace, 'src', 'zip');
+
+    const [, , command] = (kubernetesService.execIntoPod as jest.Mock).mock.calls[1];
+    expect(command[2]).toContain('zip) exec zip -qry - "$name" ;;');
+    expect(command[2]).toContain('tar) exec tar -czf - "$name" ;;');
+    expect(command.slice(4)).toEqual([FILES_ROOT, `${FILES_ROOT}/src`, 'zip']);
+    download.stream.resume();
+    await expect(download.exitCode).resolves.toBe(0);
+  });
+
+  it('should write uploads through stdin and only overwrite when asked to', async () => {
+    const { received } = mockExec('');
+
+    await workspaceFileService.upload(workspace, 'notes/todo.txt', Buffer.from('hello'));
+
+    expect(Buffer.concat(received).toString()).toBe('hello');
+    expect((kubernetesService.execIntoPod as jest.Mock).mock.calls[0][2].slice(4)).toEqual(
+      [FILES_ROOT, `${FILES_ROOT}/notes/todo.txt`, '']
+    );
+
+    mockExec('', 6);
+    await expect(workspaceFileService.upload(workspace, 'notes/todo.txt', Buffer.from('again'))).rejects.toThrow(ConflictError);
+  });
+});
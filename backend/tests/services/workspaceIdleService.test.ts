@@ -0,0 +1,137 @@
+import { workspaceIdleService, resolveIdleTimeoutMinutes } from '../../src/services/workspaceIdleService';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { workspaceService } from '../../src/services/workspaceService';
+import { Group, Workspace, WorkspaceStatus } from '../../src/types';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    listAllWorkspaces: jest.fn(),
+    getGroup: jest.fn(),
+    updateWorkspace: jest.fn(),
+    createAuditLog: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/workspaceService', () => ({
+  workspaceService: {
+    getK8sName: jest.fn((id: string) => `workspace-${id.substring(3)}`),
+    performAction: jest.fn(),
+  },
+}));
+jest.mock('../../src/config/logger');
+
+describe('WorkspaceIdleService', () => {
+  const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+
+  const group: Group = {
+    id: 'grp_1',
+    name: 'group-one',
+    displayName: 'Group One',
+    namespace: 'group-one',
+    memberCount: 1,
+    resourceQuota: { cpu: '50', memory: '100Gi', storage: '500Gi', pods: 100 },
+    idleTimeoutMinutes: 30,
+    createdAt: new Date().toISOString(),
+  };
+
+  const workspace: Workspace = {
+    id: 'ws_abc123',
+    name: 'Test Workspace',
+    groupId: 'grp_1',
+    groupName: 'Group One',
+    userId: 'usr_1',
+    status: WorkspaceStatus.RUNNING,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    lastAccessedAt: minutesAgo(120).toISOString(),
+    password: 'secret',
+    resources: { cpu: '1', memory: '2Gi', storage: '20Gi' },
+    image: 'codercom/code-server:latest',
+    replicas: 1,
+  };
+
+  const mockHeartbeat = (lastHeartbeat: Date | null) => {
+    (global as any).fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ status: 'alive', lastHeartbeat: lastHeartbeat ? lastHeartbeat.getTime() : 0 }),
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (dynamodbService.getGroup as jest.Mock).mockResolvedValue(group);
+    (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([workspace]);
+  });
+
+  describe('resolveIdleTimeoutMinutes', () => {
+    it('should prefer the workspace override over the group default', () => {
+      expect(resolveIdleTimeoutMinutes({ ...workspace, idleTimeoutMinutes: 90 }, group)).toBe(90);
+      expect(resolveIdleTimeoutMinutes(workspace, group)).toBe(30);
+    });
+
+    it('should fall back to the group default when the override is cleared', () => {
+      expect(resolveIdleTimeoutMinutes({ ...workspace, idleTimeoutMinutes: null }, group)).toBe(30);
+    });
+
+    it('should clamp overrides to the group bound', () => {
+      const boundedGroup = { ...group, maxIdleTimeoutMinutes: 60 };
+      expect(resolveIdleTimeoutMinutes({ ...workspace, idleTimeoutMinutes: 240 }, boundedGroup)).toBe(60);
+      expect(resolveIdleTimeoutMinutes({ ...workspace, idleTimeoutMinutes: 0 }, boundedGroup)).toBe(60);
+    });
+  });
+
+  describe('checkAll', () => {
+    it('should stop a workspace that has been idle past its timeout', async () => {
+      const heartbeat = minutesAgo(45);
+      mockHeartbeat(heartbeat);
+
+      await workspaceIdleService.checkAll();
+
+      expect(workspaceService.performAction).toHaveBeenCalledWith(workspace, 'stop', heartbeat.toISOString());
+      expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'workspace_idle_shutdown',
+        resource: 'workspace:ws_abc123',
+        success: true,
+      }));
+    });
+
+    it('should record recent activity instead of stopping an active workspace', async () => {
+      const heartbeat = minutesAgo(5);
+      mockHeartbeat(heartbeat);
+
+      await workspaceIdleService.checkAll();
+
+      expect(workspaceService.performAction).not.toHaveBeenCalled();
+      expect(dynamodbService.updateWorkspace).toHaveBeenCalledWith('ws_abc123', {
+        lastAccessedAt: heartbeat.toISOString(),
+      });
+    });
+
+    it('should leave the workspace running when code-server cannot be reached', async () => {
+      (global as any).fetch = jest.fn().mockRejectedValue(new Error('ECONNREFUSED'));
+
+      await workspaceIdleService.checkAll();
+
+      expect(workspaceService.performAction).not.toHaveBeenCalled();
+    });
+
+    it('should not stop a workspace with an open exec session', async () => {
+      mockHeartbeat(minutesAgo(45));
+      workspaceIdleService.execSessionStarted(workspace.id);
+
+      await workspaceIdleService.checkAll();
+      expect(workspaceService.performAction).not.toHaveBeenCalled();
+
+      workspaceIdleService.execSessionEnded(workspace.id);
+    });
+
+    it('should skip workspaces whose idle timeout is disabled', async () => {
+      mockHeartbeat(minutesAgo(600));
+      (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([{ ...workspace, idleTimeoutMinutes: 0 }]);
+
+      await workspaceIdleService.checkAll();
+
+      expect((global as any).fetch).not.toHaveBeenCalled();
+      expect(workspaceService.performAction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { workspaceReconciler } from '../../src/services/workspaceReconciler';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { kubernetesService } from '../../src/services/kubernetesService';
+import { workspaceEvents, WorkspaceEvent } from '../../src/services/workspaceEvents';
+import { Workspace, WorkspaceStatus } from '../../src/types';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    listAllWorkspaces: jest.fn(),
+    getWorkspace: jest.fn(),
+    getGroup: jest.fn(),
+    updateWorkspace: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/kubernetesService', () => ({
+  kubernetesService: {
+    getStatefulSetStatus: jest.fn(),
+    getStatefulSetDetails: jest.fn(),
+    getNamespaceMetrics: jest.fn(),
+    deriveStatefulSetStatus: jest.fn(),
+    watchManagedStatefulSets: jest.fn(),
+  },
+}));
+jest.mock('../../src/config/logger');
+
+describe('WorkspaceReconciler', () => {
+  const workspace: Workspace = {
+    id: 'ws_abc123',
+    name: 'Test Workspace',
+    groupId: 'grp_1',
+    groupName: 'Group 1',
+    userId: 'usr_1',
+    status: WorkspaceStatus.STARTING,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    password: 'secret',
+    resources: { cpu: '1', memory: '2Gi', storage: '20Gi' },
+    image: 'codercom/code-server:latest',
+    replicas: 1,
+  };
+
+  const usage = {
+    cpu: { used: '0.5', total: '50', percentage: 1 },
+    memory: { used: '1Gi', total: '100Gi', percentage: 1 },
+    storage: { used: '0', total: '500Gi', percentage: 0 },
+    pods: { used: 1, total: 100, percentage: 1 },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (dynamodbService.getGroup as jest.Mock).mockResolvedValue({ id: 'grp_1', namespace: 'group-one' });
+    (dynamodbService.updateWorkspace as jest.Mock).mockImplementation(async (id, updates) => ({ ...workspace, ...updates }));
+    (kubernetesService.getNamespaceMetrics as jest.Mock).mockResolvedValue(usage);
+  });
+
+  describe('resyncAll', () => {
+    it('should update status and usage for a workspace that finished starting', async () => {
+      (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([workspace]);
+      (kubernetesService.getStatefulSetStatus as jest.Mock).mockResolvedValue(WorkspaceStatus.RUNNING);
+      (kubernetesService.getStatefulSetDetails as jest.Mock).mockResolvedValue({
+        image: workspace.image,
+        replicas: 1,
+      });
+
+      await workspaceReconciler.resyncAll();
+
+      expect(kubernetesService.getStatefulSetStatus).toHaveBeenCalledWith('group-one', 'workspace-abc123');
+      expect(dynamodbService.updateWorkspace).toHaveBeenCalledWith('ws_abc123', {
+        status: WorkspaceStatus.RUNNING,
+        usage,
+      });
+    });
+
+    it('should not write when nothing changed for a stopped workspace', async () => {
+      const stopped = { ...workspace, status: WorkspaceStatus.STOPPED, replicas: 0 };
+      (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([stopped]);
+      (kubernetesService.getStatefulSetStatus as jest.Mock).mockResolvedValue(WorkspaceStatus.STOPPED);
+      (kubernetesService.getStatefulSetDetails as jest.Mock).mockResolvedValue({
+        image: workspace.image,
+        replicas: 0,
+      });
+
+      await workspaceReconciler.resyncAll();
+
+      expect(dynamodbService.updateWorkspace).not.toHaveBeenCalled();
+      expect(kubernetesService.getNamespaceMetrics).not.toHaveBeenCalled();
+    });
+
+    it('should pick up image changes made directly in Kubernetes', async () => {
+      const running = { ...workspace, status: WorkspaceStatus.RUNNING };
+      (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([running]);
+      (kubernetesService.getStatefulSetStatus as jest.Mock).mockResolvedValue(WorkspaceStatus.RUNNING);
+      (kubernetesService.getStatefulSetDetails as jest.Mock).mockResolvedValue({
+        image: 'codercom/code-server:4.20.0',
+        replicas: 1,
+      });
+
+      await workspaceReconciler.resyncAll();
+
+      expect(dynamodbService.updateWorkspace).toHaveBeenCalledWith('ws_abc123', {
+        image: 'codercom/code-server:4.20.0',
+        usage,
+      });
+    });
+
+    it('should continue past workspaces that fail to reconcile', async () => {
+      const other = { ...workspace, id: 'ws_def456' };
+      (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([workspace, other]);
+      (kubernetesService.getStatefulSetStatus as jest.Mock)
+        .mockRejectedValueOnce(new Error('boom'))
+        .mockResolvedValueOnce(WorkspaceStatus.STOPPED);
+      (kubernetesService.getStatefulSetDetails as jest.Mock).mockResolvedValue(null);
+
+      await workspaceReconciler.resyncAll();
+
+      expect(dynamodbService.updateWorkspace).toHaveBeenCalledTimes(1);
+      expect(dynamodbService.updateWorkspace).toHaveBeenCalledWith('ws_def456', {
+        status: WorkspaceStatus.STOPPED,
+        replicas: 0,
+      });
+    });
+  });
+
+  describe('events', () => {
+    let events: WorkspaceEvent[];
+    let unsubscribe: () => void;
+
+    beforeEach(() => {
+      events = [];
+      unsubscribe = workspaceEvents.subscribe(event => events.push(event));
+    });
+
+    afterEach(() => unsubscribe());
+
+    it('should publish status and metrics events when a workspace changes', async () => {
+      (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([workspace]);
+      (kubernetesService.getStatefulSetStatus as jest.Mock).mockResolvedValue(WorkspaceStatus.RUNNING);
+      (kubernetesService.getStatefulSetDetails as jest.Mock).mockResolvedValue({
+        image: workspace.image,
+        replicas: 1,
+      });
+
+      await workspaceReconciler.resyncAll();
+
+      expect(events.map(e => e.type)).toEqual(['status', 'metrics']);
+      expect(events[0]).toMatchObject({
+        type: 'status',
+        workspaceId: 'ws_abc123',
+        groupId: 'grp_1',
+        userId: 'usr_1',
+        status: WorkspaceStatus.RUNNING,
+      });
+    });
+
+    it('should not publish anything when nothing changed', async () => {
+      const stopped = { ...workspace, status: WorkspaceStatus.STOPPED, replicas: 0 };
+      (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([stopped]);
+      (kubernetesService.getStatefulSetStatus as jest.Mock).mockResolvedValue(WorkspaceStatus.STOPPED);
+      (kubernetesService.getStatefulSetDetails as jest.Mock).mockResolvedValue({
+        image: workspace.image,
+        replicas: 0,
+      });
+
+      await workspaceReconciler.resyncAll();
+
+      expect(events).toHaveLength(0);
+    });
+  });
+
+  describe('reconcileWorkspace', () => {
+    it('should return null for unknown workspaces', async () => {
+      (dynamodbService.getWorkspace as jest.Mock).mockResolvedValue(null);
+
+      const result = await workspaceReconciler.reconcileWorkspace('ws_missing');
+
+      expect(result).toBeNull();
+      expect(kubernetesService.getStatefulSetStatus).not.toHaveBeenCalled();
+    });
+  });
+});
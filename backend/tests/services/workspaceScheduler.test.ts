@@ -0,0 +1,187 @@
+import { workspaceScheduler } from '../../src/services/workspaceScheduler';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { kubernetesService } from '../../src/services/kubernetesService';
+import { workspaceService } from '../../src/services/workspaceService';
+import { workspaceSnapshotService } from '../../src/services/workspaceSnapshotService';
+import { Workspace, WorkspaceStatus } from '../../src/types';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    listAllWorkspaces: jest.fn(),
+    createAuditLog: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/kubernetesService', () => ({
+  kubernetesService: {
+    checkResourceQuotaHeadroom: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/workspaceService', () => ({
+  workspaceService: {
+    getNamespace: jest.fn(),
+    performAction: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/workspaceSnapshotService', () => ({
+  workspaceSnapshotService: {
+    create: jest.fn(),
+    prune: jest.fn(),
+  },
+}));
+jest.mock('../../src/config/logger');
+
+describe('WorkspaceScheduler', () => {
+  // Monday 2024-01-15 08:00 / 19:00 in New York
+  const startTime = new Date('2024-01-15T13:00:00Z');
+  const stopTime = new Date('2024-01-16T00:00:00Z');
+
+  const baseWorkspace: Workspace = {
+    id: 'ws_abc123',
+    name: 'Test Workspace',
+    groupId: 'grp_1',
+    groupName: 'Group 1',
+    userId: 'usr_1',
+    status: WorkspaceStatus.STOPPED,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    password: 'secret',
+    resources: { cpu: '1', memory: '2Gi', storage: '20Gi' },
+    image: 'codercom/code-server:latest',
+    replicas: 0,
+    schedule: {
+      enabled: true,
+      timezone: 'America/New_York',
+      startCron: '0 8 * * 1-5',
+      stopCron: '0 19 * * 1-5',
+    },
+  };
+
+  let workspaceCounter = 0;
+  // Use a fresh id per test so once-per-minute bookkeeping doesn't leak between tests
+  const makeWorkspace = (overrides: Partial<Workspace> = {}): Workspace => ({
+    ...baseWorkspace,
+    id: `ws_test${++workspaceCounter}`,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (workspaceService.getNamespace as jest.Mock).mockResolvedValue('group-one');
+    (kubernetesService.checkResourceQuotaHeadroom as jest.Mock).mockResolvedValue({ fits: true });
+  });
+
+  it('should start a stopped workspace when its start expression fires', async () => {
+    const workspace = makeWorkspace();
+    (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([workspace]);
+
+    await workspaceScheduler.runDueSchedules(startTime);
+
+    expect(workspaceService.performAction).toHaveBeenCalledWith(workspace, 'start');
+    expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'workspace_schedule_start',
+      success: true,
+    }));
+  });
+
+  it('should fire at most once per minute', async () => {
+    const workspace = makeWorkspace();
+    (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([workspace]);
+
+    await workspaceScheduler.runDueSchedules(startTime);
+    await workspaceScheduler.runDueSchedules(new Date(startTime.getTime() + 30000));
+
+    expect(workspaceService.performAction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop a running workspace when its stop expression fires', async () => {
+    const workspace = makeWorkspace({ status: WorkspaceStatus.RUNNING, replicas: 1 });
+    (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([workspace]);
+
+    await workspaceScheduler.runDueSchedules(stopTime);
+
+    expect(workspaceService.performAction).toHaveBeenCalledWith(workspace, 'stop');
+  });
+
+  it('should skip and audit a scheduled start that would exceed the namespace quota', async () => {
+    const workspace = makeWorkspace();
+    (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([workspace]);
+    (kubernetesService.checkResourceQuotaHeadroom as jest.Mock).mockResolvedValue({
+      fits: false,
+      reason: 'requests.cpu quota exceeded (used 50 of 50)',
+    });
+
+    await workspaceScheduler.runDueSchedules(startTime);
+
+    expect(workspaceService.performAction).not.toHaveBeenCalled();
+    expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'workspace_schedule_skipped',
+      resource: `workspace:${workspace.id}`,
+      success: false,
+      error: 'requests.cpu quota exceeded (used 50 of 50)',
+    }));
+  });
+
+  it('should ignore disabled schedules and non-matching times', async () => {
+    const disabled = makeWorkspace({ schedule: { ...baseWorkspace.schedule!, enabled: false } });
+    const enabled = makeWorkspace();
+    (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([disabled, enabled]);
+
+    await workspaceScheduler.runDueSchedules(startTime);
+    expect(workspaceService.performAction).toHaveBeenCalledTimes(1);
+    expect(workspaceService.performAction).toHaveBeenCalledWith(enabled, 'start');
+
+    jest.clearAllMocks();
+    await workspaceScheduler.runDueSchedules(new Date('2024-01-15T15:30:00Z'));
+    expect(workspaceService.performAction).not.toHaveBeenCalled();
+  });
+
+  describe('snapshot policies', () => {
+    const snapshotPolicy = { enabled: true, timezone: 'America/New_York', cron: '0 8 * * *', retain: 3 };
+
+    beforeEach(() => {
+      (workspaceSnapshotService.create as jest.Mock).mockResolvedValue({ name: 'workspace-test-snap' });
+      (workspaceSnapshotService.prune as jest.Mock).mockResolvedValue(['workspace-test-old']);
+    });
+
+    it('should take a scheduled snapshot once per minute and prune to the retention', async () => {
+      const workspace = makeWorkspace({ schedule: undefined, snapshotPolicy });
+      (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([workspace]);
+
+      await workspaceScheduler.runDueSchedules(startTime);
+      await workspaceScheduler.runDueSchedules(new Date(startTime.getTime() + 20000));
+
+      expect(workspaceSnapshotService.create).toHaveBeenCalledTimes(1);
+      expect(workspaceSnapshotService.create).toHaveBeenCalledWith(workspace, { trigger: 'scheduled', createdBy: 'system' });
+      expect(workspaceSnapshotService.prune).toHaveBeenCalledWith(workspace, 3);
+      expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'workspace_snapshot_scheduled',
+        details: expect.objectContaining({ snapshot: 'workspace-test-snap', pruned: ['workspace-test-old'] }),
+        success: true,
+      }));
+    });
+
+    it('should audit a failed scheduled snapshot', async () => {
+      const workspace = makeWorkspace({ schedule: undefined, snapshotPolicy });
+      (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([workspace]);
+      (workspaceSnapshotService.create as jest.Mock).mockRejectedValueOnce(new Error('snapshot class not found'));
+
+      await workspaceScheduler.runDueSchedules(startTime);
+
+      expect(workspaceSnapshotService.prune).not.toHaveBeenCalled();
+      expect(dynamodbService.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'workspace_snapshot_scheduled',
+        success: false,
+        error: 'snapshot class not found',
+      }));
+    });
+
+    it('should leave disabled policies alone', async () => {
+      const workspace = makeWorkspace({ schedule: undefined, snapshotPolicy: { ...snapshotPolicy, enabled: false } });
+      (dynamodbService.listAllWorkspaces as jest.Mock).mockResolvedValue([workspace]);
+
+      await workspaceScheduler.runDueSchedules(startTime);
+
+      expect(workspaceSnapshotService.create).not.toHaveBeenCalled();
+    });
+  });
+});
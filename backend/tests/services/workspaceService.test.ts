@@ -0,0 +1,168 @@
+import { workspaceService } from '../../src/services/workspaceService';
+import { dynamodbService } from '../../src/services/dynamodbService';
+import { kubernetesService } from '../../src/services/kubernetesService';
+import { ConflictError, ValidationError } from '../../src/utils/errors';
+import { Workspace, WorkspaceStatus } from '../../src/types';
+
+jest.mock('../../src/services/dynamodbService', () => ({
+  dynamodbService: {
+    getGroup: jest.fn(),
+    updateWorkspace: jest.fn(),
+    getWorkspace: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/kubernetesService', () => {
+  const actual = jest.requireActual('../../src/services/kubernetesService');
+  return {
+    kubernetesService: {
+      checkResourceQuotaHeadroom: jest.fn(),
+      expandPVC: jest.fn(),
+      createStatefulSetPVC: jest.fn(),
+      updateStatefulSetResources: jest.fn(),
+      getPVCStorage: jest.fn(),
+      scaleStatefulSet: jest.fn(),
+      parseKubernetesQuantity: (quantity: string, type: 'cpu' | 'memory') =>
+        actual.kubernetesService.parseKubernetesQuantity(quantity, type),
+    },
+  };
+});
+jest.mock('../../src/config/logger');
+
+describe('WorkspaceService.updateResources', () => {
+  const baseWorkspace: Workspace = {
+    id: 'ws_abc123',
+    name: 'Test Workspace',
+    groupId: 'grp_1',
+    groupName: 'Group 1',
+    userId: 'usr_1',
+    status: WorkspaceStatus.RUNNING,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    password: 'secret',
+    resources: { cpu: '1', memory: '2Gi', storage: '20Gi' },
+    image: 'codercom/code-server:latest',
+    replicas: 1,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (dynamodbService.getGroup as jest.Mock).mockResolvedValue({ id: 'grp_1', namespace: 'group-one' });
+    (dynamodbService.updateWorkspace as jest.Mock).mockImplementation(async (id, updates) => ({ ...baseWorkspace, ...updates }));
+    (kubernetesService.checkResourceQuotaHeadroom as jest.Mock).mockResolvedValue({ fits: true });
+    (kubernetesService.getPVCStorage as jest.Mock).mockResolvedValue({ requested: '40Gi', fileSystemResizePending: false });
+  });
+
+  it('should patch the StatefulSet and report the rolling restart for a running workspace', async () => {
+    const result = await workspaceService.updateResources(baseWorkspace, { cpu: '2', memory: '4Gi' });
+
+    expect(kubernetesService.checkResourceQuotaHeadroom).toHaveBeenCalledWith(
+      'group-one',
+      { cpu: '2', memory: '4Gi', storage: undefined },
+      { pods: 0, releasing: baseWorkspace.resources }
+    );
+    expect(kubernetesService.updateStatefulSetResources).toHaveBeenCalledWith('group-one', 'workspace-abc123', { cpu: '2', memory: '4Gi' });
+    expect(kubernetesService.expandPVC).not.toHaveBeenCalled();
+    expect(result.changed).toEqual(['cpu', 'memory']);
+    expect(result.restarting).toBe(true);
+    expect(result.workspace.resources).toEqual({ cpu: '2', memory: '4Gi', storage: '20Gi' });
+  });
+
+  it('should expand the PVC of a stopped workspace without a restart', async () => {
+    const workspace = { ...baseWorkspace, status: WorkspaceStatus.STOPPED, replicas: 0 };
+
+    const result = await workspaceService.updateResources(workspace, { storage: '40Gi' });
+
+    expect(kubernetesService.expandPVC).toHaveBeenCalledWith('workspace-storage-workspace-abc123-0', 'group-one', '40Gi');
+    expect(kubernetesService.updateStatefulSetResources).not.toHaveBeenCalled();
+    expect(result.restarting).toBe(false);
+    expect(result.restartRequired).toBe(false);
+  });
+
+  it('should create the PVC at the new size for a workspace that never started', async () => {
+    (kubernetesService.getPVCStorage as jest.Mock).mockResolvedValue(null);
+    const workspace = { ...baseWorkspace, status: WorkspaceStatus.STOPPED, replicas: 0 };
+
+    const result = await workspaceService.updateResources(workspace, { storage: '40Gi' });
+
+    expect(kubernetesService.createStatefulSetPVC).toHaveBeenCalledWith('group-one', 'workspace-abc123', '40Gi');
+    expect(kubernetesService.expandPVC).not.toHaveBeenCalled();
+    expect(result.workspace.resources.storage).toBe('40Gi');
+  });
+
+  it('should report a required restart when the filesystem resize waits for the pod', async () => {
+    (kubernetesService.getPVCStorage as jest.Mock).mockResolvedValue({ requested: '40Gi', fileSystemResizePending: true });
+
+    const result = await workspaceService.updateResources(baseWorkspace, { storage: '40Gi' });
+
+    expect(result.restarting).toBe(false);
+    expect(result.restartRequired).toBe(true);
+  });
+
+  it('should reject shrinking storage', async () => {
+    await expect(workspaceService.updateResources(baseWorkspace, { storage: '10Gi' })).rejects.toThrow(ValidationError);
+    expect(kubernetesService.expandPVC).not.toHaveBeenCalled();
+  });
+
+  it('should reject changes that exceed the group quota', async () => {
+    (kubernetesService.checkResourceQuotaHeadroom as jest.Mock).mockResolvedValue({
+      fits: false,
+      reason: 'requests.cpu quota exceeded (used 8 of 8)',
+    });
+
+    await expect(workspaceService.updateResources(baseWorkspace, { cpu: '4' })).rejects.toThrow(
+      'Resource change exceeds the group quota: requests.cpu quota exceeded (used 8 of 8)'
+    );
+    expect(kubernetesService.updateStatefulSetResources).not.toHaveBeenCalled();
+    expect(dynamodbService.updateWorkspace).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing when the resources are unchanged', async () => {
+    const result = await workspaceService.updateResources(baseWorkspace, { cpu: '1' });
+
+    expect(result.changed).toEqual([]);
+    expect(kubernetesService.checkResourceQuotaHeadroom).not.toHaveBeenCalled();
+    expect(dynamodbService.updateWorkspace).not.toHaveBeenCalled();
+  });
+
+  it('should refuse while the workspace is being provisioned', async () => {
+    const workspace = { ...baseWorkspace, status: WorkspaceStatus.PENDING };
+
+    await expect(workspaceService.updateResources(workspace, { cpu: '2' })).rejects.toThrow(ConflictError);
+  });
+});
+
+describe('WorkspaceService.performAction', () => {
+  const stoppedWorkspace = {
+    id: 'ws_abc123',
+    groupId: 'grp_1',
+    status: WorkspaceStatus.STOPPED,
+    resources: { cpu: '2', memory: '4Gi', storage: '20Gi' },
+    replicas: 0,
+  } as Workspace;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (dynamodbService.getGroup as jest.Mock).mockResolvedValue({ id: 'grp_1', namespace: 'group-one' });
+    (kubernetesService.checkResourceQuotaHeadroom as jest.Mock).mockResolvedValue({ fits: true });
+  });
+
+  it('should check the group quota before starting a stopped workspace', async () => {
+    await workspaceService.performAction(stoppedWorkspace, 'start');
+
+    expect(kubernetesService.checkResourceQuotaHeadroom).toHaveBeenCalledWith('group-one', { cpu: '2', memory: '4Gi' });
+    expect(kubernetesService.scaleStatefulSet).toHaveBeenCalledWith('group-one', 'workspace-abc123', 1);
+  });
+
+  it('should not start a workspace that exceeds the group quota', async () => {
+    (kubernetesService.checkResourceQuotaHeadroom as jest.Mock).mockResolvedValue({
+      fits: false,
+      reason: 'requests.memory quota exceeded (used 14Gi of 16Gi)',
+    });
+
+    await expect(workspaceService.performAction(stoppedWorkspace, 'start')).rejects.toThrow(
+      'Workspace exceeds the group quota: requests.memory quota exceeded (used 14Gi of 16Gi)'
+    );
+    expect(dynamodbService.updateWorkspace).not.toHaveBeenCalled();
+    expect(kubernetesService.scaleStatefulSet).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+import { workspaceSnapshotService } from '../../src/services/workspaceSnapshotService';
+import { kubernetesService } from '../../src/services/kubernetesService';
+import { workspaceService } from '../../src/services/workspaceService';
+import { ConflictError, NotFoundError } from '../../src/utils/errors';
+import { Workspace, WorkspaceStatus } from '../../src/types';
+
+jest.mock('../../src/services/kubernetesService', () => ({
+  kubernetesService: {
+    listVolumeSnapshots: jest.fn(),
+    getVolumeSnapshot: jest.fn(),
+    createVolumeSnapshot: jest.fn(),
+    deleteVolumeSnapshot: jest.fn(),
+    getPVCStorage: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/workspaceService', () => ({
+  workspaceService: {
+    getNamespace: jest.fn(),
+    getK8sName: (id: string) => `workspace-${id.substring(3)}`,
+  },
+}));
+jest.mock('../../src/config/logger');
+
+describe('WorkspaceSnapshotService', () => {
+  const workspace: Workspace = {
+    id: 'ws_abc123',
+    name: 'Test Workspace',
+    groupId: 'grp_1',
+    groupName: 'Group 1',
+    userId: 'usr_1',
+    status: WorkspaceStatus.STOPPED,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    password: 'secret',
+    resources: { cpu: '1', memory: '2Gi', storage: '20Gi' },
+    image: 'codercom/code-server:latest',
+    replicas: 0,
+  };
+
+  const volumeSnapshot = (name: string, createdAt: string, trigger = 'manual', workspaceId = workspace.id) => ({
+    metadata: {
+      name,
+      creationTimestamp: createdAt,
+      labels: { 'codex-platform/workspace-id': workspaceId, 'codex-platform/snapshot-trigger': trigger },
+      annotations: { 'codex-platform/description': `snapshot ${name}` },
+    },
+    status: { readyToUse: true, restoreSize: '20Gi' },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (workspaceService.getNamespace as jest.Mock).mockResolvedValue('group-one');
+    (kubernetesService.getPVCStorage as jest.Mock).mockResolvedValue({ requested: '20Gi', fileSystemResizePending: false });
+  });
+
+  it('should list the workspace snapshots newest first', async () => {
+    (kubernetesService.listVolumeSnapshots as jest.Mock).mockResolvedValue([
+      volumeSnapshot('older', '2024-01-01T00:00:00Z'),
+      volumeSnapshot('newer', '2024-01-02T00:00:00Z', 'scheduled'),
+    ]);
+
+    const snapshots = await workspaceSnapshotService.list(workspace);
+
+    expect(kubernetesService.listVolumeSnapshots).toHaveBeenCalledWith('group-one', 'codex-platform/workspace-id=ws_abc123');
+    expect(snapshots.map(snapshot => snapshot.name)).toEqual(['newer', 'older']);
+    expect(snapshots[0]).toMatchObject({ trigger: 'scheduled', readyToUse: true, restoreSize: '20Gi', description: 'snapshot newer' });
+  });
+
+  it('should snapshot the workspace PVC with the workspace label', async () => {
+    (kubernetesService.createVolumeSnapshot as jest.Mock).mockImplementation(async (namespace, name, pvc, labels, annotations) => ({
+      metadata: { name, labels, annotations, creationTimestamp: '2024-01-01T00:00:00Z' },
+    }));
+
+    const snapshot = await workspaceSnapshotService.create(workspace, { description: 'before upgrade', createdBy: 'usr_1' });
+
+    const [namespace, name, pvcName, labels] = (kubernetesService.createVolumeSnapshot as jest.Mock).mock.calls[0];
+    expect(namespace).toBe('group-one');
+    expect(name).toMatch(/^workspace-abc123-\d{14}-[0-9a-f]{4}$/);
+    expect(pvcName).toBe('workspace-storage-workspace-abc123-0');
+    expect(labels).toEqual({ 'codex-platform/workspace-id': 'ws_abc123', 'codex-platform/snapshot-trigger': 'manual' });
+    expect(snapshot).toMatchObject({ workspaceId: 'ws_abc123', description: 'before upgrade', createdBy: 'usr_1', readyToUse: false });
+  });
+
+  it('should refuse to snapshot a workspace that has never had storage', async () => {
+    (kubernetesService.getPVCStorage as jest.Mock).mockResolvedValue(null);
+
+    await expect(workspaceSnapshotService.create(workspace, { createdBy: 'usr_1' })).rejects.toThrow(ConflictError);
+    expect(kubernetesService.createVolumeSnapshot).not.toHaveBeenCalled();
+  });
+
+  it('should not expose snapshots belonging to another workspace', async () => {
+    (kubernetesService.getVolumeSnapshot as jest.Mock).mockResolvedValue(
+      volumeSnapshot('other', '2024-01-01T00:00:00Z', 'manual', 'ws_other')
+    );
+
+    await expect(workspaceSnapshotService.delete(workspace, 'other')).rejects.toThrow(NotFoundError);
+    expect(kubernetesService.deleteVolumeSnapshot).not.toHaveBeenCalled();
+  });
+
+  it('should prune only the oldest scheduled snapshots beyond the retention', async () => {
+    (kubernetesService.listVolumeSnapshots as jest.Mock).mockResolvedValue([
+      volumeSnapshot('scheduled-1', '2024-01-01T00:00:00Z', 'scheduled'),
+      volumeSnapshot('manual-1', '2024-01-01T12:00:00Z'),
+      volumeSnapshot('scheduled-2', '2024-01-02T00:00:00Z', 'scheduled'),
+      volumeSnapshot('scheduled-3', '2024-01-03T00:00:00Z', 'scheduled'),
+    ]);
+
+    const pruned = await workspaceSnapshotService.prune(workspace, 2);
+
+    expect(pruned).toEqual(['scheduled-1']);
+    expect(kubernetesService.deleteVolumeSnapshot).toHaveBeenCalledTimes(1);
+    expect(kubernetesService.deleteVolumeSnapshot).toHaveBeenCalledWith('group-one', 'scheduled-1');
+  });
+});
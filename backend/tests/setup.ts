@@ -4,6 +4,7 @@
 process.env.NODE_ENV = 'test';
 process.env.PORT = '3000';
 process.env.JWT_SECRET = 'test-secret-key';
+process.env.SECRETS_ENCRYPTION_KEY = 'test-secrets-key';
 process.env.COGNITO_REGION = 'us-east-1';
 process.env.COGNITO_USER_POOL_ID = 'test-pool-id';
 process.env.COGNITO_CLIENT_ID = 'test-client-id';
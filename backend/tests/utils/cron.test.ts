@@ -0,0 +1,57 @@
+import { parseCronExpression, isValidCronExpression, isValidTimeZone, cronMatches } from '../../src/utils/cron';
+
+describe('Cron Utilities', () => {
+  describe('parseCronExpression', () => {
+    it('should expand ranges, lists and steps', () => {
+      const cron = parseCronExpression('*/15 8-10 1,15 * mon-fri');
+
+      expect([...cron.minute.values]).toEqual([0, 15, 30, 45]);
+      expect([...cron.hour.values]).toEqual([8, 9, 10]);
+      expect([...cron.dayOfMonth.values]).toEqual([1, 15]);
+      expect(cron.month.values.size).toBe(12);
+      expect([...cron.dayOfWeek.values]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should treat 7 as Sunday', () => {
+      expect([...parseCronExpression('0 0 * * 7').dayOfWeek.values]).toEqual([0]);
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCronExpression('0 8 * *')).toThrow('5 fields');
+      expect(() => parseCronExpression('60 8 * * *')).toThrow('out of range');
+      expect(() => parseCronExpression('0 8 * * funday')).toThrow('Invalid cron value');
+      expect(isValidCronExpression('0 8 * * 1-5')).toBe(true);
+      expect(isValidCronExpression('not a cron')).toBe(false);
+    });
+  });
+
+  describe('isValidTimeZone', () => {
+    it('should accept IANA zones and reject unknown ones', () => {
+      expect(isValidTimeZone('Europe/London')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('cronMatches', () => {
+    // Monday 2024-01-15 08:00 in New York
+    const mondayMorning = new Date('2024-01-15T13:00:00Z');
+
+    it('should evaluate in the given time zone', () => {
+      expect(cronMatches('0 8 * * 1-5', mondayMorning, 'America/New_York')).toBe(true);
+      expect(cronMatches('0 8 * * 1-5', mondayMorning, 'UTC')).toBe(false);
+      expect(cronMatches('0 13 * * 1-5', mondayMorning, 'UTC')).toBe(true);
+    });
+
+    it('should not match on excluded weekdays', () => {
+      const saturdayMorning = new Date('2024-01-20T13:00:00Z');
+      expect(cronMatches('0 8 * * 1-5', saturdayMorning, 'America/New_York')).toBe(false);
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // The 15th is a Monday, so "1st of the month or Friday" should not match...
+      expect(cronMatches('0 8 1 * 5', mondayMorning, 'America/New_York')).toBe(false);
+      // ...but the 15th or Friday should
+      expect(cronMatches('0 8 15 * 5', mondayMorning, 'America/New_York')).toBe(true);
+    });
+  });
+});
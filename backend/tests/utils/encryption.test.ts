@@ -0,0 +1,51 @@
+import { encryptSecret, decryptSecret } from '../../src/utils/encryption';
+import { config } from '../../src/config';
+
+describe('Encryption Utilities', () => {
+  const originalKey = config.secretsEncryptionKey;
+
+  afterEach(() => {
+    config.secretsEncryptionKey = originalKey;
+  });
+
+  it('should round-trip a secret', () => {
+    const encrypted = encryptSecret('npm_abc123');
+
+    expect(encrypted).toMatch(/^v1:/);
+    expect(encrypted).not.toContain('npm_abc123');
+    expect(decryptSecret(encrypted)).toBe('npm_abc123');
+  });
+
+  it('should use a fresh IV for every value', () => {
+    expect(encryptSecret('same')).not.toBe(encryptSecret('same'));
+  });
+
+  it('should handle empty values', () => {
+    expect(decryptSecret(encryptSecret(''))).toBe('');
+  });
+
+  it('should reject tampered ciphertext', () => {
+    const [version, iv, tag, ciphertext] = encryptSecret('postgres://db').split(':');
+    const tampered = Buffer.from(ciphertext, 'base64');
+    tampered[0] ^= 0xff;
+
+    expect(() => decryptSecret([version, iv, tag, tampered.toString('base64')].join(':'))).toThrow();
+  });
+
+  it('should not decrypt with a different key', () => {
+    const encrypted = encryptSecret('postgres://db');
+    config.secretsEncryptionKey = 'another-key';
+
+    expect(() => decryptSecret(encrypted)).toThrow();
+  });
+
+  it('should reject values in an unknown format', () => {
+    expect(() => decryptSecret('plaintext')).toThrow('Unsupported encrypted secret format');
+  });
+
+  it('should refuse to encrypt without a configured key', () => {
+    config.secretsEncryptionKey = '';
+
+    expect(() => encryptSecret('npm_abc123')).toThrow('SECRETS_ENCRYPTION_KEY is not set');
+  });
+});
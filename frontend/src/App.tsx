@@ -8,6 +8,8 @@ import { WorkspacesPage } from './pages/WorkspacesPage';
 import { WorkspaceDetailsPage } from './pages/WorkspaceDetailsPage';
 import { AdminPage } from './pages/AdminPage';
 import { ProfilePage } from './pages/ProfilePage';
+import { TemplatesPage } from './pages/TemplatesPage';
+import { TrashPage } from './pages/TrashPage';
 import { AuthConfig } from './types';
 import './styles/index.css';
 
@@ -36,6 +38,8 @@ function App() {
               <Route path="/" element={<ProtectedRoute><DashboardPage /></ProtectedRoute>} />
               <Route path="/workspaces" element={<ProtectedRoute><WorkspacesPage /></ProtectedRoute>} />
               <Route path="/workspaces/:workspaceId" element={<ProtectedRoute><WorkspaceDetailsPage /></ProtectedRoute>} />
+              <Route path="/templates" element={<ProtectedRoute><TemplatesPage /></ProtectedRoute>} />
+              <Route path="/trash" element={<ProtectedRoute><TrashPage /></ProtectedRoute>} />
               <Route path="/profile" element={<ProtectedRoute><ProfilePage /></ProtectedRoute>} />
               <Route path="/admin" element={<ProtectedRoute requireAdmin><AdminPage /></ProtectedRoute>} />
               <Route path="*" element={<Navigate to="/" replace />} />
@@ -61,7 +61,7 @@ export const Badge = React.forwardRef<HTMLSpanElement, BadgeProps>(
 Badge.displayName = 'Badge';
 
 export interface StatusBadgeProps {
-  status: 'running' | 'stopped' | 'starting' | 'stopping' | 'error' | 'pending';
+  status: 'running' | 'stopped' | 'starting' | 'stopping' | 'error' | 'pending' | 'deleting' | 'archived' | 'trashed';
   children?: React.ReactNode;
   className?: string;
 }
@@ -74,6 +74,9 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({ status, children, clas
     stopping: { variant: 'warning' as const, dot: true },
     error: { variant: 'error' as const, dot: true },
     pending: { variant: 'default' as const, dot: true },
+    deleting: { variant: 'warning' as const, dot: true },
+    archived: { variant: 'default' as const, dot: false },
+    trashed: { variant: 'error' as const, dot: false },
   };
 
   const config = statusConfig[status];
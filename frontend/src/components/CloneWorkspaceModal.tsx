@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from './Button';
+import { Input, Select } from './Input';
+import { Modal, ModalFooter } from './Modal';
+import { OperationProgress } from './OperationProgress';
+import { Group, Operation, Workspace } from '../types';
+import { apiService } from '../services/api';
+import { isOperationFinished, watchOperation } from '../services/operations';
+import { getErrorMessage } from '../utils';
+
+interface CloneWorkspaceModalProps {
+  workspace: Workspace;
+  onClose: () => void;
+  onOpenClone: (workspaceId: string) => void;
+}
+
+export const CloneWorkspaceModal: React.FC<CloneWorkspaceModalProps> = ({ workspace, onClose, onOpenClone }) => {
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [name, setName] = useState(`${workspace.name} copy`.slice(0, 63));
+  const [groupId, setGroupId] = useState(workspace.groupId);
+  const [copyVolume, setCopyVolume] = useState(false);
+  const [operation, setOperation] = useState<Operation | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cancelWatchRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    apiService.getGroups()
+      .then(setGroups)
+      .catch(err => console.error('Failed to load groups:', err));
+    return () => cancelWatchRef.current?.();
+  }, []);
+
+  // Storage snapshots can't leave their namespace
+  const canCopyVolume = groupId === workspace.groupId;
+
+  const handleClone = async () => {
+    if (!name.trim()) {
+      setError('Enter a name');
+      return;
+    }
+
+    try {
+      setIsStarting(true);
+      setError(null);
+      const started = await apiService.cloneWorkspace(workspace.id, {
+        name: name.trim(),
+        groupId,
+        copyVolume: canCopyVolume && copyVolume,
+      });
+      setOperation(started);
+
+      cancelWatchRef.current = watchOperation(
+        started.id,
+        setOperation,
+        (err) => console.error('Failed to poll clone operation:', err)
+      );
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const groupOptions = (groups.length > 0 ? groups : [{ id: workspace.groupId, displayName: workspace.groupName }])
+    .map(group => ({ value: group.id, label: group.displayName }));
+
+  return (
+    <Modal isOpen onClose={onClose} title="Clone Workspace">
+      <div className="space-y-4">
+        {operation ? (
+          <>
+            <OperationProgress operation={operation} />
+            {operation.error && (
+              <p className="text-sm text-error-600 dark:text-error-400">{operation.error}</p>
+            )}
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Creates a new workspace with the image, resources and description of {workspace.name}.
+            </p>
+            <Input
+              label="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={63}
+            />
+            <Select
+              label="Group"
+              value={groupId}
+              onChange={(e) => setGroupId(e.target.value)}
+              options={groupOptions}
+            />
+            <label className="flex items-start space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={canCopyVolume && copyVolume}
+                disabled={!canCopyVolume}
+                onChange={(e) => setCopyVolume(e.target.checked)}
+                className="mt-0.5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span>
+                Copy files
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  {canCopyVolume
+                    ? 'Start from a snapshot of this workspace\'s home volume'
+                    : 'Files can only be copied within the same group'}
+                </span>
+              </span>
+            </label>
+          </>
+        )}
+        {error && (
+          <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+        )}
+      </div>
+
+      <ModalFooter>
+        {operation ? (
+          <>
+            <Button variant="secondary" onClick={onClose}>
+              {isOperationFinished(operation) ? 'Close' : 'Hide'}
+            </Button>
+            {operation.status === 'succeeded' && (
+              <Button onClick={() => onOpenClone(operation.workspaceId)}>
+                Open clone
+              </Button>
+            )}
+          </>
+        ) : (
+          <>
+            <Button variant="secondary" onClick={onClose} disabled={isStarting}>
+              Cancel
+            </Button>
+            <Button onClick={handleClone} isLoading={isStarting}>
+              Clone
+            </Button>
+          </>
+        )}
+      </ModalFooter>
+    </Modal>
+  );
+};
@@ -0,0 +1,267 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './Card';
+import { Button } from './Button';
+import { Badge } from './Badge';
+import { Input } from './Input';
+import { Modal, ModalFooter } from './Modal';
+import { EnvironmentVariable } from '../types';
+import { apiService } from '../services/api';
+import { formatRelativeTime, getErrorMessage } from '../utils';
+
+type EnvironmentScope = 'workspace' | 'group';
+
+interface EnvironmentVariablesEditorProps {
+  scope: EnvironmentScope;
+  scopeId: string;
+  canEdit?: boolean;
+}
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const RESTART_NOTICE = {
+  workspace: 'Changes restart the workspace if it is running.',
+  group: 'Changes restart every running workspace in the group.',
+};
+
+// Lists and edits the variables of a workspace or group. Secret values are write-only.
+export const EnvironmentVariablesEditor: React.FC<EnvironmentVariablesEditorProps> = ({ scope, scopeId, canEdit = true }) => {
+  const [variables, setVariables] = useState<EnvironmentVariable[]>([]);
+  const [groupVariables, setGroupVariables] = useState<EnvironmentVariable[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<EnvironmentVariable | 'new' | null>(null);
+  const [removingName, setRemovingName] = useState<string | null>(null);
+
+  const loadVariables = useCallback(async () => {
+    try {
+      setError(null);
+      if (scope === 'workspace') {
+        const environment = await apiService.getWorkspaceEnvironment(scopeId);
+        setVariables(environment.variables);
+        setGroupVariables(environment.groupVariables);
+      } else {
+        setVariables(await apiService.getGroupEnvironment(scopeId));
+      }
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [scope, scopeId]);
+
+  useEffect(() => {
+    loadVariables();
+  }, [loadVariables]);
+
+  const handleRemove = async (variable: EnvironmentVariable) => {
+    if (!window.confirm(`Remove ${variable.name}? ${RESTART_NOTICE[scope]}`)) return;
+
+    try {
+      setRemovingName(variable.name);
+      if (scope === 'workspace') {
+        await apiService.removeWorkspaceEnvironmentVariable(scopeId, variable.name);
+      } else {
+        await apiService.removeGroupEnvironmentVariable(scopeId, variable.name);
+      }
+      setVariables(prev => prev.filter(v => v.name !== variable.name));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setRemovingName(null);
+    }
+  };
+
+  const ownNames = new Set(variables.map(v => v.name));
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <div className="spinner w-5 h-5"></div>
+        </div>
+      ) : (
+        <>
+          {variables.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No environment variables.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {variables.map(variable => (
+                <li key={variable.name} className="py-2 first:pt-0 last:pb-0">
+                  <div className="flex items-center justify-between">
+                    <div className="min-w-0">
+                      <p className="text-sm font-mono font-medium text-gray-900 dark:text-gray-100 truncate">{variable.name}</p>
+                      <p className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate">
+                        {variable.secret ? '••••••••' : variable.value || '(empty)'}
+                      </p>
+                    </div>
+                    {variable.secret && <Badge variant="info" size="sm">Secret</Badge>}
+                  </div>
+                  <div className="mt-1 flex items-center justify-between">
+                    <span className="text-xs text-gray-400 dark:text-gray-500">Updated {formatRelativeTime(variable.updatedAt)}</span>
+                    {canEdit && (
+                      <div className="flex space-x-1">
+                        <Button variant="ghost" size="sm" onClick={() => setEditing(variable)}>
+                          Edit
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemove(variable)}
+                          isLoading={removingName === variable.name}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {groupVariables.length > 0 && (
+            <div className="pt-3 border-t border-gray-100 dark:border-gray-700">
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">From the group</p>
+              <ul className="space-y-1">
+                {groupVariables.map(variable => (
+                  <li key={variable.name} className="flex items-center justify-between text-xs font-mono">
+                    <span className={ownNames.has(variable.name) ? 'line-through text-gray-400 dark:text-gray-500' : 'text-gray-700 dark:text-gray-300'}>
+                      {variable.name}
+                    </span>
+                    <span className="text-gray-500 dark:text-gray-400 truncate ml-2">
+                      {variable.secret ? '••••••••' : variable.value}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {canEdit && (
+            <Button variant="secondary" size="sm" onClick={() => setEditing('new')}>
+              Add variable
+            </Button>
+          )}
+        </>
+      )}
+
+      {editing && (
+        <EnvironmentVariableModal
+          scope={scope}
+          scopeId={scopeId}
+          variable={editing === 'new' ? null : editing}
+          onClose={() => setEditing(null)}
+          onSaved={(saved) => {
+            setEditing(null);
+            setVariables(prev =>
+              [...prev.filter(v => v.name !== saved.name), saved].sort((a, b) => a.name.localeCompare(b.name))
+            );
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+interface EnvironmentVariablesCardProps {
+  workspaceId: string;
+}
+
+export const EnvironmentVariablesCard: React.FC<EnvironmentVariablesCardProps> = ({ workspaceId }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>Environment</CardTitle>
+    </CardHeader>
+    <CardContent>
+      <EnvironmentVariablesEditor scope="workspace" scopeId={workspaceId} />
+    </CardContent>
+  </Card>
+);
+
+interface EnvironmentVariableModalProps {
+  scope: EnvironmentScope;
+  scopeId: string;
+  variable: EnvironmentVariable | null;
+  onClose: () => void;
+  onSaved: (variable: EnvironmentVariable) => void;
+}
+
+const EnvironmentVariableModal: React.FC<EnvironmentVariableModalProps> = ({ scope, scopeId, variable, onClose, onSaved }) => {
+  const [name, setName] = useState(variable?.name || '');
+  const [value, setValue] = useState(variable?.value || '');
+  const [secret, setSecret] = useState(variable?.secret ?? false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const trimmedName = name.trim();
+    if (!NAME_PATTERN.test(trimmedName)) {
+      setError('Name must start with a letter or underscore and contain only letters, digits and underscores');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const saved = scope === 'workspace'
+        ? await apiService.setWorkspaceEnvironmentVariable(scopeId, trimmedName, value, secret)
+        : await apiService.setGroupEnvironmentVariable(scopeId, trimmedName, value, secret);
+      onSaved(saved);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={variable ? `Edit ${variable.name}` : 'Add Environment Variable'}>
+      <div className="space-y-4">
+        {!variable && (
+          <Input
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="DATABASE_URL"
+            className="font-mono"
+          />
+        )}
+        <Input
+          label="Value"
+          type={secret ? 'password' : 'text'}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={variable?.secret ? 'Enter a new value' : undefined}
+          autoComplete="off"
+          className="font-mono"
+        />
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={secret}
+            onChange={(e) => setSecret(e.target.checked)}
+            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span>Secret (stored encrypted, can't be viewed again)</span>
+        </label>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{RESTART_NOTICE[scope]}</p>
+        {error && (
+          <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+        )}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} isLoading={isSaving}>
+          Save
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
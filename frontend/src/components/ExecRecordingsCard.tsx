@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './Card';
+import { Button } from './Button';
+import { Badge } from './Badge';
+import { Input } from './Input';
+import { TerminalModal } from './TerminalModal';
+import { ExecRecording } from '../types';
+import { apiService } from '../services/api';
+import { formatBytes, formatDateTime, getErrorMessage } from '../utils';
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+// Recorded exec terminal sessions, newest first, replayable in the terminal. Admin only.
+export const ExecRecordingsCard: React.FC = () => {
+  const [recordings, setRecordings] = useState<ExecRecording[]>([]);
+  const [nextToken, setNextToken] = useState<string | undefined>();
+  const [workspaceId, setWorkspaceId] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [replaying, setReplaying] = useState<ExecRecording | null>(null);
+
+  useEffect(() => {
+    loadRecordings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const loadRecordings = async (token?: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const page = await apiService.listExecRecordings(workspaceId.trim() || undefined, token);
+      setRecordings(current => (token ? [...current, ...page.items] : page.items));
+      setNextToken(page.nextToken);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Terminal Session Recordings</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <form
+            className="flex items-end space-x-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              loadRecordings();
+            }}
+          >
+            <div className="flex-1">
+              <Input
+                label="Workspace ID"
+                placeholder="All workspaces"
+                value={workspaceId}
+                onChange={(e) => setWorkspaceId(e.target.value)}
+              />
+            </div>
+            <Button type="submit" variant="secondary" isLoading={isLoading && recordings.length === 0}>
+              Filter
+            </Button>
+          </form>
+
+          {error && (
+            <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+          )}
+
+          {recordings.length > 0 ? (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {recordings.map(recording => (
+                <li key={recording.id} className="py-3 flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                      {recording.workspaceName}
+                      <span className="ml-2 text-gray-500 dark:text-gray-400 font-normal">{recording.username}</span>
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatDateTime(recording.startedAt)}
+                      {' · '}
+                      {recording.durationMs !== undefined ? formatDuration(recording.durationMs) : 'in progress'}
+                      {' · '}
+                      {formatBytes(recording.bytes)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 ml-4">
+                    {recording.truncated && <Badge variant="warning">Truncated</Badge>}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setReplaying(recording)}
+                      disabled={recording.chunkCount === 0}
+                    >
+                      Replay
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : !isLoading && !error && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No terminal sessions have been recorded.</p>
+          )}
+
+          {nextToken && (
+            <Button size="sm" variant="ghost" onClick={() => loadRecordings(nextToken)} isLoading={isLoading}>
+              Load more
+            </Button>
+          )}
+        </div>
+      </CardContent>
+
+      {replaying && (
+        <TerminalModal
+          isOpen={true}
+          onClose={() => setReplaying(null)}
+          workspaceId={replaying.workspaceId}
+          workspaceName={replaying.workspaceName}
+          recordingId={replaying.id}
+        />
+      )}
+    </Card>
+  );
+};
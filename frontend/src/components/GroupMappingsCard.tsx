@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from './Card';
+import { Button } from './Button';
+import { Badge } from './Badge';
+import { Input } from './Input';
+import { Group, GroupMappingRule, GroupMappingSource, GroupRole } from '../types';
+import { apiService } from '../services/api';
+import { getErrorMessage } from '../utils';
+
+const SOURCES: { value: GroupMappingSource; label: string; placeholder: string }[] = [
+  { value: 'idpGroup', label: 'Identity provider group', placeholder: 'e.g. engineering' },
+  { value: 'emailDomain', label: 'Email domain', placeholder: 'e.g. example.com' },
+];
+
+const selectClassName = 'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm';
+
+// Rules that add users to groups at login, from their IdP groups or email domain
+export const GroupMappingsCard: React.FC = () => {
+  const [rules, setRules] = useState<GroupMappingRule[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [source, setSource] = useState<GroupMappingSource>('idpGroup');
+  const [value, setValue] = useState('');
+  const [groupId, setGroupId] = useState('');
+  const [role, setRole] = useState<GroupRole>(GroupRole.MEMBER);
+
+  useEffect(() => {
+    loadRules();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [loadedRules, loadedGroups] = await Promise.all([
+        apiService.listGroupMappings(),
+        apiService.getGroups(),
+      ]);
+      setRules(loadedRules);
+      setGroups(loadedGroups);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setSource('idpGroup');
+    setValue('');
+    setGroupId('');
+    setRole(GroupRole.MEMBER);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsLoading(true);
+      setError(null);
+      const rule = await apiService.createGroupMapping({ source, value: value.trim(), groupId, role });
+      setRules(current => [...current, rule]);
+      resetForm();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (rule: GroupMappingRule) => {
+    if (!window.confirm(`Delete the rule for "${rule.value}"? Members it added are removed at their next login.`)) {
+      return;
+    }
+    try {
+      setError(null);
+      await apiService.deleteGroupMapping(rule.id);
+      setRules(current => current.filter(r => r.id !== rule.id));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const groupName = (id: string) => groups.find(group => group.id === id)?.displayName || id;
+  const currentSource = SOURCES.find(s => s.value === source)!;
+
+  return (
+    <Card>
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+              Group Mappings
+            </h2>
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+              Add users to groups when they sign in, based on their identity provider groups or email domain.
+              Memberships added this way are removed again once no rule matches.
+            </p>
+          </div>
+          {!isCreating && (
+            <Button variant="secondary" size="sm" onClick={() => setIsCreating(true)}>
+              New Rule
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <p className="mb-4 text-sm text-error-600 dark:text-error-400">{error}</p>
+        )}
+
+        {isCreating && (
+          <form onSubmit={handleCreate} className="mb-6">
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="mappingSource" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Match On
+                </label>
+                <select
+                  id="mappingSource"
+                  value={source}
+                  onChange={(e) => setSource(e.target.value as GroupMappingSource)}
+                  className={selectClassName}
+                >
+                  {SOURCES.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <Input
+                label={currentSource.label}
+                type="text"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={currentSource.placeholder}
+              />
+              <div>
+                <label htmlFor="mappingGroup" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Group
+                </label>
+                <select
+                  id="mappingGroup"
+                  value={groupId}
+                  onChange={(e) => setGroupId(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Select a group</option>
+                  {groups.map(group => (
+                    <option key={group.id} value={group.id}>{group.displayName}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="mappingRole" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Role
+                </label>
+                <select
+                  id="mappingRole"
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as GroupRole)}
+                  className={selectClassName}
+                >
+                  <option value={GroupRole.MEMBER}>Member</option>
+                  <option value={GroupRole.ADMIN}>Admin</option>
+                </select>
+              </div>
+              <div className="flex justify-end space-x-3 pt-4">
+                <Button type="button" variant="secondary" onClick={resetForm} disabled={isLoading}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isLoading || !value.trim() || !groupId}>
+                  {isLoading ? 'Creating...' : 'Create Rule'}
+                </Button>
+              </div>
+            </div>
+          </form>
+        )}
+
+        {rules.length > 0 ? (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {rules.map(rule => (
+              <li key={rule.id} className="py-3 flex items-center justify-between">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900 dark:text-gray-100 truncate">
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {rule.source === 'idpGroup' ? 'IdP group' : 'Email domain'}
+                    </span>
+                    {' '}
+                    <span className="font-mono">{rule.value}</span>
+                    {' → '}
+                    <span className="font-medium">{groupName(rule.groupId)}</span>
+                    <Badge variant={rule.role === GroupRole.ADMIN ? 'warning' : 'default'} size="sm" className="ml-2">
+                      {rule.role}
+                    </Badge>
+                  </p>
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => handleDelete(rule)}>
+                  Delete
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : !isLoading && !isCreating && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No group mapping rules. Group membership is managed by hand.</p>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Operation, OperationStepStatus } from '../types';
+import { cn } from '../utils';
+
+interface OperationProgressProps {
+  operation: Operation;
+  className?: string;
+}
+
+const stepStyles: Record<OperationStepStatus, { icon: string; className: string }> = {
+  pending: { icon: '○', className: 'text-gray-400 dark:text-gray-500' },
+  running: { icon: '◐', className: 'text-warning-600 dark:text-warning-400' },
+  succeeded: { icon: '✓', className: 'text-success-600 dark:text-success-400' },
+  skipped: { icon: '–', className: 'text-gray-400 dark:text-gray-500' },
+  failed: { icon: '✕', className: 'text-error-600 dark:text-error-400' },
+  rolled_back: { icon: '↺', className: 'text-gray-500 dark:text-gray-400' },
+};
+
+const statusLabels: Record<Operation['status'], string> = {
+  pending: 'Queued',
+  running: 'In progress',
+  rolling_back: 'Rolling back',
+  succeeded: 'Completed',
+  failed: 'Failed',
+};
+
+export const OperationProgress: React.FC<OperationProgressProps> = ({ operation, className }) => {
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-700 dark:text-gray-300">{statusLabels[operation.status]}</span>
+        {(operation.status === 'pending' || operation.status === 'running' || operation.status === 'rolling_back') && (
+          <div className="spinner w-4 h-4"></div>
+        )}
+      </div>
+
+      <ol className="space-y-2">
+        {operation.steps.map((step) => {
+          const style = stepStyles[step.status];
+          return (
+            <li key={step.name} className="flex items-start text-sm">
+              <span className={cn('w-5 flex-shrink-0 font-medium', style.className)}>{style.icon}</span>
+              <div className="flex-1 min-w-0">
+                <span className={step.status === 'pending' || step.status === 'skipped'
+                  ? 'text-gray-500 dark:text-gray-400'
+                  : 'text-gray-900 dark:text-gray-100'}
+                >
+                  {step.description}
+                </span>
+                {step.status === 'rolled_back' && (
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(rolled back)</span>
+                )}
+                {step.error && (
+                  <p className="mt-1 text-xs text-error-600 dark:text-error-400 break-words">{step.error}</p>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from './Card';
+import { Button } from './Button';
+import { Badge } from './Badge';
+import { Input } from './Input';
+import { CreatedPersonalAccessToken, PersonalAccessToken, TokenScope } from '../types';
+import { apiService } from '../services/api';
+import { formatDateTime, getErrorMessage } from '../utils';
+
+const SCOPES: { value: TokenScope; description: string }[] = [
+  { value: 'workspaces:read', description: 'List and view workspaces, operations, groups and templates' },
+  { value: 'workspaces:control', description: 'Start, stop and restart workspaces' },
+  { value: 'workspaces:write', description: 'Create, change and delete workspaces' },
+  { value: 'workspaces:exec', description: 'Open terminals in workspaces' },
+];
+
+const EXPIRY_OPTIONS = [7, 30, 90, 365];
+
+// Tokens for calling the workspace API from scripts and CI jobs
+export const PersonalAccessTokensCard: React.FC = () => {
+  const [tokens, setTokens] = useState<PersonalAccessToken[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<TokenScope[]>(['workspaces:read']);
+  const [expiresInDays, setExpiresInDays] = useState(30);
+  const [created, setCreated] = useState<CreatedPersonalAccessToken | null>(null);
+
+  useEffect(() => {
+    loadTokens();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const loadTokens = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setTokens(await apiService.listPersonalAccessTokens());
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleScope = (scope: TokenScope) => {
+    setScopes(current => (current.includes(scope) ? current.filter(s => s !== scope) : [...current, scope]));
+  };
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setName('');
+    setScopes(['workspaces:read']);
+    setExpiresInDays(30);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsLoading(true);
+      setError(null);
+      const token = await apiService.createPersonalAccessToken({ name: name.trim(), scopes, expiresInDays });
+      setCreated(token);
+      resetForm();
+      await loadTokens();
+    } catch (err) {
+      setError(getErrorMessage(err));
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (token: PersonalAccessToken) => {
+    if (!window.confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) {
+      return;
+    }
+    try {
+      setError(null);
+      await apiService.revokePersonalAccessToken(token.id);
+      setTokens(current => current.filter(t => t.id !== token.id));
+      if (created?.id === token.id) {
+        setCreated(null);
+      }
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  return (
+    <Card>
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+              Personal Access Tokens
+            </h2>
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+              Let scripts and CI jobs call the workspace API as you
+            </p>
+          </div>
+          {!isCreating && (
+            <Button variant="secondary" size="sm" onClick={() => setIsCreating(true)}>
+              New Token
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <p className="mb-4 text-sm text-error-600 dark:text-error-400">{error}</p>
+        )}
+
+        {created && (
+          <div className="mb-6 p-4 rounded-md bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800">
+            <p className="text-sm font-medium text-green-800 dark:text-green-200">
+              Copy your new token now. It will not be shown again.
+            </p>
+            <div className="mt-2 flex items-center space-x-2">
+              <code className="flex-1 min-w-0 break-all text-xs font-mono text-gray-900 dark:text-gray-100">
+                {created.token}
+              </code>
+              <Button size="sm" variant="secondary" onClick={() => navigator.clipboard.writeText(created.token)}>
+                Copy
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setCreated(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isCreating && (
+          <form onSubmit={handleCreate} className="mb-6">
+            <div className="space-y-4">
+              <Input
+                label="Name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. nightly-ci"
+                helpText="What the token is for, so you recognise it later"
+              />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Scopes
+                </label>
+                <div className="space-y-2">
+                  {SCOPES.map(scope => (
+                    <label key={scope.value} className="flex items-start space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={scopes.includes(scope.value)}
+                        onChange={() => toggleScope(scope.value)}
+                        className="mt-0.5 h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                      />
+                      <span className="text-sm">
+                        <span className="font-mono text-gray-900 dark:text-gray-100">{scope.value}</span>
+                        <span className="block text-gray-500 dark:text-gray-400">{scope.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label htmlFor="tokenExpiry" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Expires After
+                </label>
+                <select
+                  id="tokenExpiry"
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                  className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
+                >
+                  {EXPIRY_OPTIONS.map(days => (
+                    <option key={days} value={days}>{days} days</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex justify-end space-x-3 pt-4">
+                <Button type="button" variant="secondary" onClick={resetForm} disabled={isLoading}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isLoading || !name.trim() || scopes.length === 0}>
+                  {isLoading ? 'Creating...' : 'Create Token'}
+                </Button>
+              </div>
+            </div>
+          </form>
+        )}
+
+        {tokens.length > 0 ? (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {tokens.map(token => {
+              const expired = new Date(token.expiresAt).getTime() <= Date.now();
+              return (
+                <li key={token.id} className="py-3 flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                      {token.name}
+                      {expired && <Badge variant="error" size="sm" className="ml-2">Expired</Badge>}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+                      {token.scopes.join(' ')}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {expired ? 'Expired' : 'Expires'} {formatDateTime(token.expiresAt)}
+                      {' · '}
+                      {token.lastUsedAt ? `Last used ${formatDateTime(token.lastUsedAt)}` : 'Never used'}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => handleRevoke(token)}>
+                    Revoke
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        ) : !isLoading && !isCreating && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">You have no personal access tokens.</p>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -4,21 +4,99 @@ import { FitAddon } from '@xterm/addon-fit';
 import { WebLinksAddon } from '@xterm/addon-web-links';
 import '@xterm/xterm/css/xterm.css';
 import { useAuth } from '../contexts/AuthContext';
+import { apiService } from '../services/api';
+import { getErrorMessage } from '../utils';
 
 interface TerminalProps {
   workspaceId: string;
+  // Connect through the admin exec route instead of the workspace's own
+  admin?: boolean;
+  // Replay this recorded session instead of connecting
+  recordingId?: string;
+  // Reattach to this session instead of opening a new shell; only read on mount
+  sessionId?: string;
+  // Name for a new session
+  name?: string;
+  // Hidden tabs stay connected; the visible one is fitted to its container
+  active?: boolean;
+  onSession?: (sessionId: string, name: string) => void;
+  onEnded?: () => void;
   onClose?: () => void;
 }
 
 const API_BASE_URL = process.env.REACT_APP_API_BASE_URL || 'http://localhost:3001/api';
 
-export const Terminal: React.FC<TerminalProps> = ({ workspaceId, onClose }) => {
+// Close codes the backend uses when a session has ended or was attached elsewhere
+const SESSION_ENDED_CLOSE_CODE = 4404;
+const SESSION_TAKEN_OVER_CLOSE_CODE = 4409;
+
+// Reattaching backs off up to this delay and gives up after this many attempts
+const MAX_RECONNECT_DELAY_MS = 10000;
+const MAX_RECONNECT_ATTEMPTS = 10;
+
+// Pauses in a replay are shortened to this many seconds
+const REPLAY_MAX_IDLE_SECONDS = 2;
+
+type CastEvent = [number, string, string];
+
+// Play an asciicast v2 recording into the terminal; returns a function that stops it
+const replayCast = (term: XTerm, cast: string, onFinished: () => void): (() => void) => {
+  const [headerLine, ...eventLines] = cast.split('\n').filter(Boolean);
+  const header = JSON.parse(headerLine);
+  const events: CastEvent[] = eventLines.map(line => JSON.parse(line));
+
+  term.reset();
+  term.resize(header.width, header.height);
+
+  let index = 0;
+  let timer: ReturnType<typeof setTimeout>;
+
+  const playNext = () => {
+    const [, type, data] = events[index];
+    if (type === 'o') {
+      term.write(data);
+    } else if (type === 'r') {
+      const [cols, rows] = data.split('x').map(Number);
+      term.resize(cols, rows);
+    }
+
+    index++;
+    if (index >= events.length) {
+      onFinished();
+      return;
+    }
+    const delay = Math.min(events[index][0] - events[index - 1][0], REPLAY_MAX_IDLE_SECONDS);
+    timer = setTimeout(playNext, delay * 1000);
+  };
+
+  if (events.length > 0) {
+    timer = setTimeout(playNext, Math.min(events[0][0], REPLAY_MAX_IDLE_SECONDS) * 1000);
+  } else {
+    onFinished();
+  }
+
+  return () => clearTimeout(timer);
+};
+
+export const Terminal: React.FC<TerminalProps> = ({
+  workspaceId,
+  admin = false,
+  recordingId,
+  sessionId,
+  name,
+  active = true,
+  onSession,
+  onEnded,
+  onClose,
+}) => {
   const { getAccessToken } = useAuth();
   const terminalRef = useRef<HTMLDivElement>(null);
   const xtermRef = useRef<XTerm | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
   const fitAddonRef = useRef<FitAddon | null>(null);
-  const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'disconnected' | 'error'>('connecting');
+  const [connectionStatus, setConnectionStatus] = useState<
+    'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'replaying' | 'finished' | 'error'
+  >('connecting');
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -52,6 +130,7 @@ export const Terminal: React.FC<TerminalProps> = ({ workspaceId, onClose }) => {
       },
       scrollback: 1000,
       convertEol: true,
+      disableStdin: !!recordingId,
     });
 
     // Add addons
@@ -66,6 +145,31 @@ export const Terminal: React.FC<TerminalProps> = ({ workspaceId, onClose }) => {
     xtermRef.current = term;
     fitAddonRef.current = fitAddon;
 
+    if (recordingId) {
+      let stopReplay: (() => void) | undefined;
+      let cancelled = false;
+
+      term.writeln('\r\nLoading recording...\r\n');
+      apiService.getExecRecordingCast(recordingId)
+        .then(cast => {
+          if (cancelled) return;
+          setConnectionStatus('replaying');
+          stopReplay = replayCast(term, cast, () => setConnectionStatus('finished'));
+        })
+        .catch(err => {
+          if (cancelled) return;
+          setConnectionStatus('error');
+          setError(getErrorMessage(err));
+          term.writeln('\r\n\x1b[1;31mFailed to load recording\x1b[0m\r\n');
+        });
+
+      return () => {
+        cancelled = true;
+        stopReplay?.();
+        term.dispose();
+      };
+    }
+
     // Connect to WebSocket - get token from AuthContext
     const token = getAccessToken();
     if (!token) {
@@ -78,56 +182,104 @@ export const Terminal: React.FC<TerminalProps> = ({ workspaceId, onClose }) => {
     // Create WebSocket URL (convert http to ws)
     const wsProtocol = API_BASE_URL.startsWith('https') ? 'wss' : 'ws';
     const wsBaseUrl = API_BASE_URL.replace(/^https?/, wsProtocol);
-    // Pass token as query parameter since WebSocket doesn't support Authorization header
-    const wsUrl = `${wsBaseUrl}/admin/workspaces/${workspaceId}/exec?token=${encodeURIComponent(token)}`;
+    const execPath = admin ? `/admin/workspaces/${workspaceId}/exec` : `/workspaces/${workspaceId}/exec`;
 
-    term.writeln('\r\nConnecting to workspace...\r\n');
+    // The session this terminal is attached to; reconnecting reattaches to its shell
+    let currentSessionId = sessionId;
+    let ws: WebSocket;
+    let reconnectAttempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let disposed = false;
 
-    const ws = new WebSocket(wsUrl);
-    wsRef.current = ws;
+    const connect = () => {
+      // Pass token as query parameter since WebSocket doesn't support Authorization header
+      const params = new URLSearchParams({ token: getAccessToken() || token });
+      if (currentSessionId) {
+        params.set('session', currentSessionId);
+      } else if (name) {
+        params.set('name', name);
+      }
 
-    ws.onopen = () => {
-      setConnectionStatus('connected');
-      term.writeln('\r\n\x1b[1;32mConnected!\x1b[0m\r\n');
+      ws = new WebSocket(`${wsBaseUrl}${execPath}?${params}`);
+      wsRef.current = ws;
 
-      // Send initial terminal size
-      const { cols, rows } = term;
-      ws.send(JSON.stringify({ type: 'resize', cols, rows }));
-    };
+      ws.onopen = () => {
+        reconnectAttempts = 0;
+        setConnectionStatus('connected');
+        setError(null);
 
-    ws.onmessage = async (event) => {
-      let data: string;
-
-      if (typeof event.data === 'string') {
-        data = event.data;
-      } else if (event.data instanceof Blob) {
-        // Convert Blob to text
-        data = await event.data.text();
-      } else if (event.data instanceof ArrayBuffer) {
-        // Convert ArrayBuffer to text
-        const decoder = new TextDecoder('utf-8');
-        data = decoder.decode(event.data);
-      } else {
-        console.warn('Unknown WebSocket data type:', typeof event.data);
-        return;
-      }
+        // Send initial terminal size
+        const { cols, rows } = term;
+        ws.send(JSON.stringify({ type: 'resize', cols, rows }));
+      };
 
-      term.write(data);
-    };
+      ws.onmessage = async (event) => {
+        let data: string;
 
-    ws.onerror = (event) => {
-      setConnectionStatus('error');
-      setError('WebSocket connection error');
-      term.writeln('\r\n\x1b[1;31mConnection error\x1b[0m\r\n');
-    };
+        if (typeof event.data === 'string') {
+          data = event.data;
+        } else if (event.data instanceof Blob) {
+          // Convert Blob to text
+          data = await event.data.text();
+        } else if (event.data instanceof ArrayBuffer) {
+          // Convert ArrayBuffer to text
+          const decoder = new TextDecoder('utf-8');
+          data = decoder.decode(event.data);
+        } else {
+          console.warn('Unknown WebSocket data type:', typeof event.data);
+          return;
+        }
 
-    ws.onclose = () => {
-      if (connectionStatus !== 'error') {
-        setConnectionStatus('disconnected');
-        term.writeln('\r\n\x1b[1;33mConnection closed\x1b[0m\r\n');
-      }
+        // Session messages are JSON text frames; shell output arrives as binary
+        if (typeof event.data === 'string' && data.startsWith('{"type":')) {
+          const message = JSON.parse(data);
+          if (message.type === 'session') {
+            currentSessionId = message.sessionId;
+            // The backend replays recent output after reattaching
+            if (message.reattached) {
+              term.reset();
+            }
+            onSession?.(message.sessionId, message.name);
+          } else if (message.type === 'ended') {
+            currentSessionId = undefined;
+            term.writeln(`\r\n\x1b[1;33mSession ended: ${message.reason}\x1b[0m\r\n`);
+            onEnded?.();
+          }
+          return;
+        }
+
+        term.write(data);
+      };
+
+      ws.onclose = (event) => {
+        if (disposed) return;
+
+        // Nothing to reattach to, or another window took the session over
+        if (!currentSessionId || event.code === SESSION_ENDED_CLOSE_CODE || event.code === SESSION_TAKEN_OVER_CLOSE_CODE) {
+          setConnectionStatus('disconnected');
+          term.writeln(event.code === SESSION_TAKEN_OVER_CLOSE_CODE
+            ? '\r\n\x1b[1;33mSession opened in another window\x1b[0m\r\n'
+            : '\r\n\x1b[1;33mConnection closed\x1b[0m\r\n');
+          return;
+        }
+
+        if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+          setConnectionStatus('error');
+          setError('Could not reconnect to the session');
+          term.writeln('\r\n\x1b[1;31mConnection lost\x1b[0m\r\n');
+          return;
+        }
+
+        // The shell is still running; reattach to it
+        setConnectionStatus('reconnecting');
+        reconnectTimer = setTimeout(connect, Math.min(1000 * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY_MS));
+        reconnectAttempts++;
+      };
     };
 
+    term.writeln('\r\nConnecting to workspace...\r\n');
+    connect();
+
     // Send terminal input to WebSocket
     const disposable = term.onData((data) => {
       if (ws.readyState === WebSocket.OPEN) {
@@ -136,29 +288,40 @@ export const Terminal: React.FC<TerminalProps> = ({ workspaceId, onClose }) => {
       }
     });
 
-    // Handle window resize
-    const handleResize = () => {
-      fitAddon.fit();
-      // Send new terminal size to backend
+    // Send new terminal size to backend whenever it changes
+    const resizeDisposable = term.onResize(({ cols, rows }) => {
       if (ws.readyState === WebSocket.OPEN) {
-        const { cols, rows } = term;
         ws.send(JSON.stringify({ type: 'resize', cols, rows }));
       }
-    };
+    });
+
+    // Handle window resize
+    const handleResize = () => fitAddon.fit();
 
     window.addEventListener('resize', handleResize);
 
-    // Cleanup
+    // Cleanup. Closing the socket only detaches; the shell waits to be reattached.
     return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
       disposable.dispose();
+      resizeDisposable.dispose();
       window.removeEventListener('resize', handleResize);
-      if (ws.readyState === WebSocket.OPEN) {
+      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
         ws.close();
       }
       term.dispose();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [workspaceId, getAccessToken]);
+  }, [workspaceId, admin, recordingId, getAccessToken]);
+
+  // Hidden terminals can't measure themselves, so fit when shown
+  useEffect(() => {
+    if (active && fitAddonRef.current && xtermRef.current) {
+      fitAddonRef.current.fit();
+      xtermRef.current.focus();
+    }
+  }, [active]);
 
   return (
     <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column' }}>
@@ -177,14 +340,17 @@ export const Terminal: React.FC<TerminalProps> = ({ workspaceId, onClose }) => {
             width: '8px',
             height: '8px',
             borderRadius: '50%',
-            backgroundColor: connectionStatus === 'connected' ? '#0dbc79' :
-              connectionStatus === 'connecting' ? '#e5e510' :
+            backgroundColor: connectionStatus === 'connected' || connectionStatus === 'replaying' ? '#0dbc79' :
+              connectionStatus === 'connecting' || connectionStatus === 'reconnecting' ? '#e5e510' :
               connectionStatus === 'error' ? '#cd3131' : '#666666',
           }} />
           <span style={{ fontSize: '14px' }}>
             {connectionStatus === 'connected' && 'Connected'}
             {connectionStatus === 'connecting' && 'Connecting...'}
+            {connectionStatus === 'reconnecting' && 'Reconnecting...'}
             {connectionStatus === 'disconnected' && 'Disconnected'}
+            {connectionStatus === 'replaying' && 'Replaying recording'}
+            {connectionStatus === 'finished' && 'End of recording'}
             {connectionStatus === 'error' && `Error: ${error}`}
           </span>
         </div>
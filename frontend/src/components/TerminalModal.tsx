@@ -1,11 +1,21 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Terminal } from './Terminal';
+import { apiService } from '../services/api';
 
 interface TerminalModalProps {
   isOpen: boolean;
   onClose: () => void;
   workspaceId: string;
   workspaceName: string;
+  admin?: boolean;
+  recordingId?: string;
+}
+
+interface TerminalTab {
+  key: string;
+  name: string;
+  sessionId?: string;
+  ended?: boolean;
 }
 
 export const TerminalModal: React.FC<TerminalModalProps> = ({
@@ -13,7 +23,67 @@ export const TerminalModal: React.FC<TerminalModalProps> = ({
   onClose,
   workspaceId,
   workspaceName,
+  admin,
+  recordingId,
 }) => {
+  const [tabs, setTabs] = useState<TerminalTab[]>([]);
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const tabCounter = useRef(0);
+
+  const newTab = (): TerminalTab => {
+    tabCounter.current += 1;
+    return { key: `new-${tabCounter.current}`, name: `Terminal ${tabCounter.current}` };
+  };
+
+  // Reattach to the sessions still open from last time, or start a fresh one
+  useEffect(() => {
+    if (!isOpen || recordingId) return;
+
+    let cancelled = false;
+    tabCounter.current = 0;
+    apiService.listExecSessions(workspaceId)
+      .then(sessions => sessions.map(session => ({ key: session.id, name: session.name, sessionId: session.id })))
+      .catch(() => [] as TerminalTab[])
+      .then(existing => {
+        if (cancelled) return;
+        tabCounter.current = existing.length;
+        const initial = existing.length > 0 ? existing : [newTab()];
+        setTabs(initial);
+        setActiveKey(initial[0].key);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, workspaceId, recordingId]);
+
+  const updateTab = (key: string, updates: Partial<TerminalTab>) => {
+    setTabs(current => current.map(tab => (tab.key === key ? { ...tab, ...updates } : tab)));
+  };
+
+  const addTab = () => {
+    const tab = newTab();
+    setTabs(current => [...current, tab]);
+    setActiveKey(tab.key);
+  };
+
+  // Closing a tab ends its shell; closing the window only detaches
+  const closeTab = (tab: TerminalTab) => {
+    if (tab.sessionId && !tab.ended) {
+      apiService.endExecSession(workspaceId, tab.sessionId).catch(() => undefined);
+    }
+
+    const remaining = tabs.filter(t => t.key !== tab.key);
+    if (remaining.length === 0) {
+      onClose();
+      return;
+    }
+    setTabs(remaining);
+    if (activeKey === tab.key) {
+      setActiveKey(remaining[Math.max(0, tabs.indexOf(tab) - 1)].key);
+    }
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -66,10 +136,10 @@ export const TerminalModal: React.FC<TerminalModalProps> = ({
         >
           <div>
             <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 600, color: '#cccccc' }}>
-              Terminal - {workspaceName}
+              {recordingId ? 'Recording' : 'Terminal'} - {workspaceName}
             </h2>
             <p style={{ margin: '4px 0 0 0', fontSize: '13px', color: '#888888' }}>
-              Workspace ID: {workspaceId}
+              Workspace ID: {workspaceId}{recordingId && ` · Recording ID: ${recordingId}`}
             </p>
           </div>
           <button
@@ -90,10 +160,92 @@ export const TerminalModal: React.FC<TerminalModalProps> = ({
           </button>
         </div>
 
+        {/* Tabs */}
+        {!recordingId && (
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'stretch',
+              backgroundColor: '#252526',
+              borderBottom: '1px solid #3e3e42',
+              overflowX: 'auto',
+            }}
+          >
+            {tabs.map(tab => (
+              <div
+                key={tab.key}
+                onClick={() => setActiveKey(tab.key)}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  padding: '6px 12px',
+                  cursor: 'pointer',
+                  fontSize: '13px',
+                  whiteSpace: 'nowrap',
+                  color: tab.key === activeKey ? '#ffffff' : '#999999',
+                  backgroundColor: tab.key === activeKey ? '#1e1e1e' : 'transparent',
+                  borderRight: '1px solid #3e3e42',
+                }}
+              >
+                <span>{tab.name}{tab.ended && ' (ended)'}</span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    closeTab(tab);
+                  }}
+                  title={tab.ended ? 'Close tab' : 'End this terminal session'}
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    color: 'inherit',
+                    cursor: 'pointer',
+                    fontSize: '14px',
+                    padding: 0,
+                  }}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={addTab}
+              title="New terminal"
+              style={{
+                background: 'none',
+                border: 'none',
+                color: '#cccccc',
+                cursor: 'pointer',
+                fontSize: '16px',
+                padding: '4px 12px',
+              }}
+            >
+              +
+            </button>
+          </div>
+        )}
+
         {/* Terminal */}
-        <div style={{ flex: 1, overflow: 'hidden' }}>
-          <Terminal workspaceId={workspaceId} />
-        </div>
+        {recordingId ? (
+          <div style={{ flex: 1, overflow: 'hidden' }}>
+            <Terminal workspaceId={workspaceId} recordingId={recordingId} />
+          </div>
+        ) : tabs.map(tab => (
+          <div
+            key={tab.key}
+            style={{ flex: 1, overflow: 'hidden', display: tab.key === activeKey ? 'block' : 'none' }}
+          >
+            <Terminal
+              workspaceId={workspaceId}
+              admin={admin}
+              sessionId={tab.sessionId}
+              name={tab.name}
+              active={tab.key === activeKey}
+              onSession={(sessionId, name) => updateTab(tab.key, { sessionId, name, ended: false })}
+              onEnded={() => updateTab(tab.key, { ended: true })}
+            />
+          </div>
+        ))}
 
         {/* Footer */}
         <div
@@ -108,7 +260,11 @@ export const TerminalModal: React.FC<TerminalModalProps> = ({
             alignItems: 'center',
           }}
         >
-          <span>Use Ctrl+C, Ctrl+D, or type 'exit' to end session</span>
+          <span>
+            {recordingId
+              ? 'Pauses longer than two seconds are shortened'
+              : 'Closing a tab ends its shell; closing this window keeps shells running for a few minutes'}
+          </span>
           <button
             onClick={onClose}
             style={{
@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './Card';
+import { Button } from './Button';
+import { Select } from './Input';
+import { Modal, ModalFooter } from './Modal';
+import { OperationProgress } from './OperationProgress';
+import { ArchiveMode, Operation, Workspace } from '../types';
+import { apiService } from '../services/api';
+import { isOperationFinished, watchOperation } from '../services/operations';
+import { formatDate, getErrorMessage } from '../utils';
+
+interface WorkspaceArchiveCardProps {
+  workspace: Workspace;
+  onChanged: () => void; // Called once an archive or unarchive finishes, to reload the workspace
+}
+
+// Archive a stopped workspace down to its data, or bring an archived one back. Only shown with owner access.
+export const WorkspaceArchiveCard: React.FC<WorkspaceArchiveCardProps> = ({ workspace, onChanged }) => {
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [isUnarchiving, setIsUnarchiving] = useState(false);
+
+  const isArchived = workspace.status === 'archived';
+  const canArchive = workspace.status === 'stopped' || workspace.status === 'error';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Archive</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {isArchived && workspace.archive ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Archived {formatDate(workspace.archive.archivedAt)}
+              {workspace.archive.mode === 'snapshot' ? ' to a snapshot' : ' with its volume'}
+              {workspace.archive.archivedBy === 'system' && ' after a period without access'}
+            </p>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Frees the workspace's compute and network resources and keeps only its files.
+            </p>
+          )}
+          {isArchived ? (
+            <Button variant="secondary" size="sm" onClick={() => setIsUnarchiving(true)}>
+              Unarchive
+            </Button>
+          ) : (
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setIsArchiving(true)}
+              disabled={!canArchive}
+              title={canArchive ? undefined : 'Stop the workspace before archiving it'}
+            >
+              Archive
+            </Button>
+          )}
+        </div>
+      </CardContent>
+
+      {(isArchiving || isUnarchiving) && (
+        <ArchiveWorkspaceModal
+          workspace={workspace}
+          unarchive={isUnarchiving}
+          onClose={() => {
+            setIsArchiving(false);
+            setIsUnarchiving(false);
+          }}
+          onFinished={onChanged}
+        />
+      )}
+    </Card>
+  );
+};
+
+interface ArchiveWorkspaceModalProps {
+  workspace: Workspace;
+  unarchive: boolean;
+  onClose: () => void;
+  onFinished: () => void;
+}
+
+const ArchiveWorkspaceModal: React.FC<ArchiveWorkspaceModalProps> = ({ workspace, unarchive, onClose, onFinished }) => {
+  const [mode, setMode] = useState<ArchiveMode>('volume');
+  const [operation, setOperation] = useState<Operation | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cancelWatchRef = useRef<(() => void) | null>(null);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => () => cancelWatchRef.current?.(), []);
+
+  const handleStart = async () => {
+    try {
+      setIsStarting(true);
+      setError(null);
+      const started = unarchive
+        ? await apiService.unarchiveWorkspace(workspace.id)
+        : await apiService.archiveWorkspace(workspace.id, mode);
+      setOperation(started);
+
+      cancelWatchRef.current = watchOperation(
+        started.id,
+        (updated) => {
+          setOperation(updated);
+          if (isOperationFinished(updated)) {
+            onFinishedRef.current();
+          }
+        },
+        (err) => console.error('Failed to poll archive operation:', err)
+      );
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={unarchive ? 'Unarchive Workspace' : 'Archive Workspace'}>
+      <div className="space-y-4">
+        {operation ? (
+          <>
+            <OperationProgress operation={operation} />
+            {operation.error && (
+              <p className="text-sm text-error-600 dark:text-error-400">{operation.error}</p>
+            )}
+          </>
+        ) : unarchive ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Recreates {workspace.name} with its files. It comes back stopped.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Deletes everything {workspace.name} runs on except its files. It can't be started until it is unarchived.
+            </p>
+            <Select
+              label="Keep files as"
+              value={mode}
+              onChange={(e) => setMode(e.target.value as ArchiveMode)}
+              options={[
+                { value: 'volume', label: 'Volume (quick to unarchive)' },
+                { value: 'snapshot', label: 'Snapshot (cheaper to keep)' },
+              ]}
+            />
+          </>
+        )}
+        {error && (
+          <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+        )}
+      </div>
+
+      <ModalFooter>
+        {operation ? (
+          <Button variant="secondary" onClick={onClose}>
+            {isOperationFinished(operation) ? 'Close' : 'Hide'}
+          </Button>
+        ) : (
+          <>
+            <Button variant="secondary" onClick={onClose} disabled={isStarting}>
+              Cancel
+            </Button>
+            <Button onClick={handleStart} isLoading={isStarting}>
+              {unarchive ? 'Unarchive' : 'Archive'}
+            </Button>
+          </>
+        )}
+      </ModalFooter>
+    </Modal>
+  );
+};
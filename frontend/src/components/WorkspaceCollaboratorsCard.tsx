@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './Card';
+import { Button } from './Button';
+import { Input, Select } from './Input';
+import { Modal, ModalFooter } from './Modal';
+import { CollaboratorRole, Workspace, WorkspaceCollaborator } from '../types';
+import { apiService } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { getErrorMessage, hasWorkspaceAccess, isValidEmail } from '../utils';
+
+interface WorkspaceCollaboratorsCardProps {
+  workspace: Workspace;
+  onLeft: () => void; // Called after the current user removed themselves
+}
+
+const ROLE_OPTIONS = [
+  { value: CollaboratorRole.VIEWER, label: 'Viewer - see status, logs and snapshots' },
+  { value: CollaboratorRole.OPERATOR, label: 'Operator - also start, stop and restart' },
+  { value: CollaboratorRole.EDITOR, label: 'Editor - also see the password and open the IDE' },
+];
+
+export const WorkspaceCollaboratorsCard: React.FC<WorkspaceCollaboratorsCardProps> = ({ workspace, onLeft }) => {
+  const { user } = useAuth();
+  const [collaborators, setCollaborators] = useState<WorkspaceCollaborator[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+
+  const canShare = hasWorkspaceAccess(workspace, 'owner');
+
+  const loadCollaborators = useCallback(async () => {
+    try {
+      setError(null);
+      setCollaborators(await apiService.getWorkspaceCollaborators(workspace.id));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspace.id]);
+
+  useEffect(() => {
+    loadCollaborators();
+  }, [loadCollaborators]);
+
+  const handleRoleChange = async (collaborator: WorkspaceCollaborator, role: CollaboratorRole) => {
+    try {
+      setBusyUserId(collaborator.userId);
+      setError(null);
+      const updated = await apiService.updateWorkspaceCollaborator(workspace.id, collaborator.userId, role);
+      setCollaborators(prev => prev.map(c => (c.userId === updated.userId ? updated : c)));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleRemove = async (collaborator: WorkspaceCollaborator) => {
+    const isSelf = collaborator.userId === user?.id;
+    const message = isSelf
+      ? `Leave ${workspace.name}? You will lose access unless it is shared with you again.`
+      : `Stop sharing ${workspace.name} with ${collaborator.email}?`;
+    if (!window.confirm(message)) return;
+
+    try {
+      setBusyUserId(collaborator.userId);
+      setError(null);
+      await apiService.removeWorkspaceCollaborator(workspace.id, collaborator.userId);
+      if (isSelf) {
+        onLeft();
+        return;
+      }
+      setCollaborators(prev => prev.filter(c => c.userId !== collaborator.userId));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Sharing</CardTitle>
+          {canShare && (
+            <Button variant="ghost" size="sm" onClick={() => setIsAdding(true)}>
+              Share
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {error && (
+            <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-2">
+              <div className="spinner w-5 h-5"></div>
+            </div>
+          ) : collaborators.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Not shared. Group members can view it; the owner and group admins can manage it.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {collaborators.map(collaborator => (
+                <li key={collaborator.userId} className="py-2 first:pt-0 last:pb-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {collaborator.name || collaborator.email}
+                  </p>
+                  {collaborator.name && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{collaborator.email}</p>
+                  )}
+                  <div className="mt-1 flex items-center justify-between space-x-2">
+                    {canShare ? (
+                      <select
+                        value={collaborator.role}
+                        onChange={(e) => handleRoleChange(collaborator, e.target.value as CollaboratorRole)}
+                        disabled={busyUserId === collaborator.userId}
+                        className="text-xs rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 py-1"
+                      >
+                        <option value={CollaboratorRole.VIEWER}>Viewer</option>
+                        <option value={CollaboratorRole.OPERATOR}>Operator</option>
+                        <option value={CollaboratorRole.EDITOR}>Editor</option>
+                      </select>
+                    ) : (
+                      <span className="text-xs text-gray-500 dark:text-gray-400 capitalize">{collaborator.role}</span>
+                    )}
+                    {(canShare || collaborator.userId === user?.id) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemove(collaborator)}
+                        isLoading={busyUserId === collaborator.userId}
+                      >
+                        {collaborator.userId === user?.id ? 'Leave' : 'Remove'}
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+
+      {isAdding && (
+        <ShareWorkspaceModal
+          workspace={workspace}
+          onClose={() => setIsAdding(false)}
+          onShared={(collaborator) => {
+            setIsAdding(false);
+            setCollaborators(prev =>
+              [...prev.filter(c => c.userId !== collaborator.userId), collaborator].sort((a, b) => a.email.localeCompare(b.email))
+            );
+          }}
+        />
+      )}
+    </Card>
+  );
+};
+
+interface ShareWorkspaceModalProps {
+  workspace: Workspace;
+  onClose: () => void;
+  onShared: (collaborator: WorkspaceCollaborator) => void;
+}
+
+const ShareWorkspaceModal: React.FC<ShareWorkspaceModalProps> = ({ workspace, onClose, onShared }) => {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<CollaboratorRole>(CollaboratorRole.VIEWER);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleShare = async () => {
+    if (!isValidEmail(email.trim())) {
+      setError('Enter the email address of a platform user');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      onShared(await apiService.addWorkspaceCollaborator(workspace.id, email.trim(), role));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={`Share ${workspace.name}`}>
+      <div className="space-y-4">
+        <Input
+          label="Email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="colleague@example.com"
+        />
+        <Select
+          label="Role"
+          value={role}
+          onChange={(e) => setRole(e.target.value as CollaboratorRole)}
+          options={ROLE_OPTIONS}
+        />
+        {error && (
+          <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+        )}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleShare} isLoading={isSaving}>
+          Share
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
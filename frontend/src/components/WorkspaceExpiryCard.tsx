@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './Card';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Workspace } from '../types';
+import { apiService } from '../services/api';
+import { formatDate, getErrorMessage, isWorkspaceExpired } from '../utils';
+
+interface WorkspaceExpiryCardProps {
+  workspace: Workspace;
+  onUpdated: (workspace: Workspace) => void;
+}
+
+// 'YYYY-MM-DD' for a date input, in local time
+const toDateInput = (date: string): string => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Set, extend or remove the date a time-boxed workspace expires. Only shown with owner access.
+export const WorkspaceExpiryCard: React.FC<WorkspaceExpiryCardProps> = ({ workspace, onUpdated }) => {
+  const [date, setDate] = useState(workspace.expiresAt ? toDateInput(workspace.expiresAt) : '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDate(workspace.expiresAt ? toDateInput(workspace.expiresAt) : '');
+  }, [workspace.expiresAt]);
+
+  const save = async (expiresAt: string | null) => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      onUpdated(await apiService.updateWorkspace(workspace.id, { expiresAt }));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // The workspace lasts until the end of the chosen day
+  const handleSave = () => save(new Date(`${date}T23:59:59`).toISOString());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Expiry</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {!workspace.expiresAt
+              ? 'This workspace does not expire.'
+              : isWorkspaceExpired(workspace)
+                ? `Expired ${formatDate(workspace.expiresAt)}. It is stopped and will be deleted unless its expiry is extended.`
+                : `Stops on ${formatDate(workspace.expiresAt)} and is deleted some days later.`}
+          </p>
+          <Input
+            type="date"
+            label="Expires on"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+          />
+          {error && (
+            <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+          )}
+          <div className="flex space-x-2">
+            <Button size="sm" variant="secondary" onClick={handleSave} disabled={!date} isLoading={isSaving}>
+              Save
+            </Button>
+            {workspace.expiresAt && (
+              <Button size="sm" variant="ghost" onClick={() => save(null)} disabled={isSaving}>
+                Never expire
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './Card';
+import { Button } from './Button';
+import { FileArchiveFormat, Workspace, WorkspaceFileEntry, WorkspaceFileListing } from '../types';
+import { apiService } from '../services/api';
+import { formatBytes, formatRelativeTime, getErrorMessage } from '../utils';
+
+interface WorkspaceFilesCardProps {
+  workspace: Workspace;
+}
+
+const joinPath = (dir: string, name: string) => (dir ? `${dir}/${name}` : name);
+
+// Save a downloaded blob under the given name
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Browse the project volume of a running workspace and move files in and out of it. Only shown to editors and above.
+export const WorkspaceFilesCard: React.FC<WorkspaceFilesCardProps> = ({ workspace }) => {
+  const [path, setPath] = useState('');
+  const [listing, setListing] = useState<WorkspaceFileListing | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isRunning = workspace.status === 'running';
+
+  useEffect(() => {
+    if (isRunning) {
+      loadListing(path);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workspace.id, isRunning, path]);
+
+  const loadListing = async (dir: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setListing(await apiService.listWorkspaceFiles(workspace.id, dir));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDownload = async (entry: WorkspaceFileEntry, format?: FileArchiveFormat) => {
+    const entryPath = joinPath(path, entry.name);
+    // Directories are always archived, as tar unless zip is asked for
+    const archive = format || (entry.type === 'directory' ? 'tar' : undefined);
+    const filename = archive === 'tar' ? `${entry.name}.tar.gz` : archive === 'zip' ? `${entry.name}.zip` : entry.name;
+
+    try {
+      setBusy(entryPath);
+      setError(null);
+      saveBlob(await apiService.downloadWorkspaceFile(workspace.id, entryPath, format), filename);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleUpload = async (files: FileList) => {
+    try {
+      setBusy('upload');
+      setError(null);
+
+      for (const file of Array.from(files)) {
+        const target = joinPath(path, file.name);
+        const exists = listing?.entries.some(entry => entry.name === file.name);
+        if (exists && !window.confirm(`Replace ${target}?`)) {
+          continue;
+        }
+        await apiService.uploadWorkspaceFile(workspace.id, target, file, exists);
+      }
+
+      await loadListing(path);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const segments = path ? path.split('/') : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Files</CardTitle>
+          {isRunning && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => e.target.files && e.target.files.length > 0 && handleUpload(e.target.files)}
+              />
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => fileInputRef.current?.click()}
+                isLoading={busy === 'upload'}
+              >
+                Upload
+              </Button>
+            </>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!isRunning ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Start the workspace to browse its files.</p>
+        ) : (
+          <div className="space-y-3">
+            {/* Breadcrumbs */}
+            <div className="flex flex-wrap items-center text-sm text-gray-600 dark:text-gray-400">
+              <button className="hover:text-primary-600" onClick={() => setPath('')}>
+                .codex-projects
+              </button>
+              {segments.map((segment, index) => (
+                <React.Fragment key={index}>
+                  <span className="mx-1">/</span>
+                  <button
+                    className="hover:text-primary-600"
+                    onClick={() => setPath(segments.slice(0, index + 1).join('/'))}
+                  >
+                    {segment}
+                  </button>
+                </React.Fragment>
+              ))}
+            </div>
+
+            {error && (
+              <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+            )}
+
+            {isLoading && !listing ? (
+              <div className="flex items-center justify-center py-6">
+                <div className="spinner w-6 h-6"></div>
+              </div>
+            ) : listing && listing.entries.length > 0 ? (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {listing.entries.map(entry => {
+                  const entryPath = joinPath(path, entry.name);
+                  return (
+                    <li key={entry.name} className="py-2 flex items-center justify-between">
+                      <div className="min-w-0">
+                        {entry.type === 'directory' ? (
+                          <button
+                            className="text-sm font-medium text-primary-600 hover:underline truncate"
+                            onClick={() => setPath(entryPath)}
+                          >
+                            {entry.name}/
+                          </button>
+                        ) : (
+                          <p className="text-sm text-gray-900 dark:text-gray-100 truncate">{entry.name}</p>
+                        )}
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {entry.type === 'file' && `${formatBytes(entry.size)} · `}
+                          modified {formatRelativeTime(entry.modifiedAt)}
+                        </p>
+                      </div>
+                      {(entry.type === 'file' || entry.type === 'directory') && (
+                        <div className="flex space-x-2 ml-4">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDownload(entry)}
+                            disabled={busy === entryPath}
+                          >
+                            {entry.type === 'directory' ? 'Download .tar.gz' : 'Download'}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDownload(entry, 'zip')}
+                            disabled={busy === entryPath}
+                          >
+                            .zip
+                          </Button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : listing && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">This directory is empty.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './Card';
+import { Button } from './Button';
+import { Input, Select } from './Input';
+import { Modal, ModalFooter } from './Modal';
+import { OperationProgress } from './OperationProgress';
+import { Group, Operation, Workspace } from '../types';
+import { apiService } from '../services/api';
+import { isOperationFinished, watchOperation } from '../services/operations';
+import { getErrorMessage, isValidEmail } from '../utils';
+
+interface WorkspaceOwnershipCardProps {
+  workspace: Workspace;
+  onChanged: () => void; // Called after a transfer or a finished move, to reload the workspace
+}
+
+// Transfer to another group member or move into another group. Only shown with owner access.
+export const WorkspaceOwnershipCard: React.FC<WorkspaceOwnershipCardProps> = ({ workspace, onChanged }) => {
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [isMoving, setIsMoving] = useState(false);
+
+  const canMove = workspace.status === 'stopped' || workspace.status === 'error';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Ownership</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            In <span className="font-medium text-gray-900 dark:text-gray-100">{workspace.groupName}</span>
+          </p>
+          <div className="flex space-x-2">
+            <Button variant="secondary" size="sm" onClick={() => setIsTransferring(true)}>
+              Transfer
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setIsMoving(true)}
+              disabled={!canMove}
+              title={canMove ? undefined : 'Stop the workspace before moving it'}
+            >
+              Move to group
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      {isTransferring && (
+        <TransferWorkspaceModal
+          workspace={workspace}
+          onClose={() => setIsTransferring(false)}
+          onTransferred={() => {
+            setIsTransferring(false);
+            onChanged();
+          }}
+        />
+      )}
+
+      {isMoving && (
+        <MoveWorkspaceModal
+          workspace={workspace}
+          onClose={() => setIsMoving(false)}
+          onFinished={onChanged}
+        />
+      )}
+    </Card>
+  );
+};
+
+interface TransferWorkspaceModalProps {
+  workspace: Workspace;
+  onClose: () => void;
+  onTransferred: () => void;
+}
+
+const TransferWorkspaceModal: React.FC<TransferWorkspaceModalProps> = ({ workspace, onClose, onTransferred }) => {
+  const [email, setEmail] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleTransfer = async () => {
+    if (!isValidEmail(email.trim())) {
+      setError('Enter the email address of a member of the group');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await apiService.transferWorkspace(workspace.id, email.trim());
+      onTransferred();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={`Transfer ${workspace.name}`}>
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          The new owner must be a member of {workspace.groupName}. The current owner keeps only what group membership gives them.
+        </p>
+        <Input
+          label="New owner's email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="colleague@example.com"
+        />
+        {error && (
+          <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+        )}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleTransfer} isLoading={isSaving}>
+          Transfer
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+interface MoveWorkspaceModalProps {
+  workspace: Workspace;
+  onClose: () => void;
+  onFinished: () => void;
+}
+
+const MoveWorkspaceModal: React.FC<MoveWorkspaceModalProps> = ({ workspace, onClose, onFinished }) => {
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [groupId, setGroupId] = useState('');
+  const [operation, setOperation] = useState<Operation | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cancelWatchRef = useRef<(() => void) | null>(null);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => {
+    apiService.getGroups()
+      .then(loaded => {
+        const others = loaded.filter(group => group.id !== workspace.groupId);
+        setGroups(others);
+        setGroupId(others[0]?.id || '');
+      })
+      .catch(err => setError(getErrorMessage(err)));
+    return () => cancelWatchRef.current?.();
+  }, [workspace.groupId]);
+
+  const handleMove = async () => {
+    if (!groupId) return;
+
+    try {
+      setIsStarting(true);
+      setError(null);
+      const started = await apiService.moveWorkspace(workspace.id, groupId);
+      setOperation(started);
+
+      cancelWatchRef.current = watchOperation(
+        started.id,
+        (updated) => {
+          setOperation(updated);
+          if (isOperationFinished(updated)) {
+            onFinishedRef.current();
+          }
+        },
+        (err) => console.error('Failed to poll move operation:', err)
+      );
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title="Move Workspace">
+      <div className="space-y-4">
+        {operation ? (
+          <>
+            <OperationProgress operation={operation} />
+            {operation.error && (
+              <p className="text-sm text-error-600 dark:text-error-400">{operation.error}</p>
+            )}
+          </>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            You are not a member of any other group.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Moves {workspace.name} and its files into another group. Its URL changes and its snapshots are deleted.
+            </p>
+            <Select
+              label="Group"
+              value={groupId}
+              onChange={(e) => setGroupId(e.target.value)}
+              options={groups.map(group => ({ value: group.id, label: group.displayName }))}
+            />
+          </>
+        )}
+        {error && (
+          <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+        )}
+      </div>
+
+      <ModalFooter>
+        {operation ? (
+          <Button variant="secondary" onClick={onClose}>
+            {isOperationFinished(operation) ? 'Close' : 'Hide'}
+          </Button>
+        ) : (
+          <>
+            <Button variant="secondary" onClick={onClose} disabled={isStarting}>
+              Cancel
+            </Button>
+            <Button onClick={handleMove} isLoading={isStarting} disabled={!groupId}>
+              Move
+            </Button>
+          </>
+        )}
+      </ModalFooter>
+    </Modal>
+  );
+};
@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './Card';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal, ModalFooter } from './Modal';
+import { Workspace, WorkspaceSchedule } from '../types';
+import { apiService } from '../services/api';
+import { getErrorMessage } from '../utils';
+
+interface WorkspaceScheduleCardProps {
+  workspace: Workspace;
+  onUpdated: (workspace: Workspace) => void;
+}
+
+const DAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+interface SimpleCron {
+  time: string; // HH:MM
+  days: number[];
+}
+
+// Parse the 'M H * * days' shape produced by the simple editor; anything else is treated as custom
+const parseSimpleCron = (cron?: string): SimpleCron | null => {
+  if (!cron) return null;
+  const match = cron.trim().match(/^(\d{1,2}) (\d{1,2}) \* \* ([\d,-]+|\*)$/);
+  if (!match) return null;
+
+  const days: number[] = [];
+  if (match[3] === '*') {
+    days.push(0, 1, 2, 3, 4, 5, 6);
+  } else {
+    for (const part of match[3].split(',')) {
+      const [from, to] = part.split('-').map(Number);
+      for (let day = from; day <= (to ?? from); day++) {
+        days.push(day % 7);
+      }
+    }
+  }
+
+  return {
+    time: `${match[2].padStart(2, '0')}:${match[1].padStart(2, '0')}`,
+    days,
+  };
+};
+
+const buildSimpleCron = ({ time, days }: SimpleCron): string => {
+  const [hour, minute] = time.split(':').map(Number);
+  const dayField = days.length === 7 ? '*' : [...days].sort((a, b) => a - b).join(',');
+  return `${minute} ${hour} * * ${dayField}`;
+};
+
+const describeCron = (cron?: string): string => {
+  if (!cron) return 'Not set';
+  const simple = parseSimpleCron(cron);
+  if (!simple) return cron;
+
+  const sortedDays = [...simple.days].sort((a, b) => a - b);
+  let dayLabel: string;
+  if (sortedDays.length === 7) {
+    dayLabel = 'every day';
+  } else if (sortedDays.join(',') === WEEKDAYS.join(',')) {
+    dayLabel = 'weekdays';
+  } else {
+    dayLabel = DAYS.filter(d => sortedDays.includes(d.value)).map(d => d.label).join(', ');
+  }
+  return `${simple.time}, ${dayLabel}`;
+};
+
+const getBrowserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+export const WorkspaceScheduleCard: React.FC<WorkspaceScheduleCardProps> = ({ workspace, onUpdated }) => {
+  const schedule = workspace.schedule;
+  const [isEditing, setIsEditing] = useState(false);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Schedule</CardTitle>
+          <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)}>
+            {schedule ? 'Edit' : 'Add'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {schedule ? (
+          <div className="space-y-3">
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600 dark:text-gray-400">Status</span>
+              <span className="font-medium text-gray-900 dark:text-gray-100">{schedule.enabled ? 'Enabled' : 'Paused'}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600 dark:text-gray-400">Start</span>
+              <span className="font-medium text-gray-900 dark:text-gray-100">{describeCron(schedule.startCron)}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600 dark:text-gray-400">Stop</span>
+              <span className="font-medium text-gray-900 dark:text-gray-100">{describeCron(schedule.stopCron)}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600 dark:text-gray-400">Time zone</span>
+              <span className="font-medium text-gray-900 dark:text-gray-100">{schedule.timezone}</span>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No schedule. Add one to start and stop this workspace automatically.
+          </p>
+        )}
+      </CardContent>
+
+      {isEditing && (
+        <ScheduleModal
+          workspace={workspace}
+          onClose={() => setIsEditing(false)}
+          onSaved={(updated) => {
+            setIsEditing(false);
+            onUpdated(updated);
+          }}
+        />
+      )}
+    </Card>
+  );
+};
+
+interface ScheduleModalProps {
+  workspace: Workspace;
+  onClose: () => void;
+  onSaved: (workspace: Workspace) => void;
+}
+
+const ScheduleModal: React.FC<ScheduleModalProps> = ({ workspace, onClose, onSaved }) => {
+  const existing = workspace.schedule;
+  const simpleStart = parseSimpleCron(existing?.startCron);
+  const simpleStop = parseSimpleCron(existing?.stopCron);
+  const canUseSimple = (!existing?.startCron || !!simpleStart) && (!existing?.stopCron || !!simpleStop);
+
+  const [advanced, setAdvanced] = useState(!canUseSimple);
+  const [enabled, setEnabled] = useState(existing?.enabled ?? true);
+  const [timezone, setTimezone] = useState(existing?.timezone || getBrowserTimeZone());
+  const [startTime, setStartTime] = useState(simpleStart?.time || '08:00');
+  const [stopTime, setStopTime] = useState(simpleStop?.time || '19:00');
+  const [days, setDays] = useState<number[]>(simpleStart?.days || simpleStop?.days || WEEKDAYS);
+  const [startCron, setStartCron] = useState(existing?.startCron || '');
+  const [stopCron, setStopCron] = useState(existing?.stopCron || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleDay = (day: number) => {
+    setDays(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]));
+  };
+
+  const handleSave = async () => {
+    let schedule: WorkspaceSchedule;
+    if (advanced) {
+      if (!startCron.trim() && !stopCron.trim()) {
+        setError('Enter a start or stop expression');
+        return;
+      }
+      schedule = {
+        enabled,
+        timezone,
+        ...(startCron.trim() ? { startCron: startCron.trim() } : {}),
+        ...(stopCron.trim() ? { stopCron: stopCron.trim() } : {}),
+      };
+    } else {
+      if (days.length === 0) {
+        setError('Select at least one day');
+        return;
+      }
+      schedule = {
+        enabled,
+        timezone,
+        startCron: buildSimpleCron({ time: startTime, days }),
+        stopCron: buildSimpleCron({ time: stopTime, days }),
+      };
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const updated = await apiService.setWorkspaceSchedule(workspace.id, schedule);
+      onSaved(updated);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const updated = await apiService.removeWorkspaceSchedule(workspace.id);
+      onSaved(updated);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title="Workspace Schedule" size="lg">
+      <div className="space-y-4">
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span>Enabled</span>
+        </label>
+
+        {advanced ? (
+          <>
+            <Input
+              label="Start (cron)"
+              value={startCron}
+              onChange={(e) => setStartCron(e.target.value)}
+              placeholder="0 8 * * 1-5"
+              helpText="minute hour day-of-month month day-of-week"
+            />
+            <Input
+              label="Stop (cron)"
+              value={stopCron}
+              onChange={(e) => setStopCron(e.target.value)}
+              placeholder="0 19 * * 1-5"
+            />
+          </>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <Input label="Start at" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+              <Input label="Stop at" type="time" value={stopTime} onChange={(e) => setStopTime(e.target.value)} />
+            </div>
+            <div>
+              <p className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Days</p>
+              <div className="flex flex-wrap gap-2">
+                {DAYS.map(day => (
+                  <button
+                    key={day.value}
+                    type="button"
+                    onClick={() => toggleDay(day.value)}
+                    className={`px-3 py-1 text-sm rounded-lg border transition-colors ${
+                      days.includes(day.value)
+                        ? 'bg-primary-600 border-primary-600 text-white'
+                        : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    {day.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        <Input
+          label="Time zone"
+          value={timezone}
+          onChange={(e) => setTimezone(e.target.value)}
+          helpText="IANA time zone, e.g. Europe/London"
+        />
+
+        <button
+          type="button"
+          onClick={() => setAdvanced(!advanced)}
+          className="text-sm text-primary-600 dark:text-primary-400 hover:underline"
+        >
+          {advanced ? 'Use simple editor' : 'Use cron expressions'}
+        </button>
+
+        {error && (
+          <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+        )}
+      </div>
+
+      <ModalFooter>
+        {existing && (
+          <Button variant="ghost" onClick={handleRemove} disabled={isSaving}>
+            Remove schedule
+          </Button>
+        )}
+        <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} isLoading={isSaving}>
+          Save
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
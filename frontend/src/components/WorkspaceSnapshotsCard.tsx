@@ -0,0 +1,457 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './Card';
+import { Button } from './Button';
+import { Badge } from './Badge';
+import { Input } from './Input';
+import { Modal, ModalFooter } from './Modal';
+import { OperationProgress } from './OperationProgress';
+import { Operation, Workspace, WorkspaceSnapshot, WorkspaceSnapshotPolicy } from '../types';
+import { apiService } from '../services/api';
+import { isOperationFinished, watchOperation } from '../services/operations';
+import { formatRelativeTime, getErrorMessage } from '../utils';
+
+interface WorkspaceSnapshotsCardProps {
+  workspace: Workspace;
+  onUpdated: (workspace: Workspace) => void;
+}
+
+// Re-check snapshots the CSI driver is still cutting
+const PENDING_REFRESH_MS = 5000;
+
+const getBrowserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+const snapshotState = (snapshot: WorkspaceSnapshot): { label: string; variant: 'success' | 'warning' | 'error' } => {
+  if (snapshot.error) return { label: 'Failed', variant: 'error' };
+  if (!snapshot.readyToUse) return { label: 'Creating', variant: 'warning' };
+  return { label: 'Ready', variant: 'success' };
+};
+
+export const WorkspaceSnapshotsCard: React.FC<WorkspaceSnapshotsCardProps> = ({ workspace, onUpdated }) => {
+  const [snapshots, setSnapshots] = useState<WorkspaceSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isEditingPolicy, setIsEditingPolicy] = useState(false);
+  const [restoreTarget, setRestoreTarget] = useState<WorkspaceSnapshot | null>(null);
+  const [deletingName, setDeletingName] = useState<string | null>(null);
+  const onUpdatedRef = useRef(onUpdated);
+  onUpdatedRef.current = onUpdated;
+
+  const canRestore = workspace.status === 'stopped' || workspace.status === 'error';
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      setError(null);
+      setSnapshots(await apiService.getWorkspaceSnapshots(workspace.id));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspace.id]);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [loadSnapshots]);
+
+  const hasPending = snapshots.some(snapshot => !snapshot.readyToUse && !snapshot.error);
+  useEffect(() => {
+    if (!hasPending) return;
+    const timer = setTimeout(loadSnapshots, PENDING_REFRESH_MS);
+    return () => clearTimeout(timer);
+  }, [hasPending, snapshots, loadSnapshots]);
+
+  const handleDelete = async (snapshot: WorkspaceSnapshot) => {
+    if (!window.confirm(`Delete snapshot ${snapshot.name}? This cannot be undone.`)) return;
+
+    try {
+      setDeletingName(snapshot.name);
+      await apiService.deleteWorkspaceSnapshot(workspace.id, snapshot.name);
+      setSnapshots(prev => prev.filter(s => s.name !== snapshot.name));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setDeletingName(null);
+    }
+  };
+
+  const policy = workspace.snapshotPolicy;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Snapshots</CardTitle>
+          <div className="flex space-x-1">
+            <Button variant="ghost" size="sm" onClick={() => setIsEditingPolicy(true)}>
+              {policy ? 'Policy' : 'Schedule'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setIsCreating(true)}>
+              Take
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {policy && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {policy.enabled ? 'Scheduled' : 'Paused'}: <span className="font-mono">{policy.cron}</span> ({policy.timezone}), keeping {policy.retain}
+            </p>
+          )}
+
+          {error && (
+            <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-2">
+              <div className="spinner w-5 h-5"></div>
+            </div>
+          ) : snapshots.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No snapshots. Take one to save the workspace's home volume.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {snapshots.map(snapshot => {
+                const state = snapshotState(snapshot);
+                return (
+                  <li key={snapshot.name} className="py-2 first:pt-0 last:pb-0">
+                    <div className="flex items-center justify-between">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                          {snapshot.description || formatRelativeTime(snapshot.createdAt)}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {snapshot.description ? `${formatRelativeTime(snapshot.createdAt)} · ` : ''}
+                          {snapshot.trigger === 'scheduled' ? 'Scheduled' : 'Manual'}
+                          {snapshot.restoreSize ? ` · ${snapshot.restoreSize}` : ''}
+                        </p>
+                      </div>
+                      <Badge variant={state.variant} size="sm">{state.label}</Badge>
+                    </div>
+                    {snapshot.error && (
+                      <p className="mt-1 text-xs text-error-600 dark:text-error-400 break-words">{snapshot.error}</p>
+                    )}
+                    <div className="mt-1 flex space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRestoreTarget(snapshot)}
+                        disabled={!snapshot.readyToUse || !canRestore}
+                        title={canRestore ? undefined : 'Stop the workspace to restore a snapshot'}
+                      >
+                        Restore
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(snapshot)}
+                        isLoading={deletingName === snapshot.name}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+
+      {isCreating && (
+        <CreateSnapshotModal
+          workspace={workspace}
+          onClose={() => setIsCreating(false)}
+          onCreated={(snapshot) => {
+            setIsCreating(false);
+            setSnapshots(prev => [snapshot, ...prev]);
+          }}
+        />
+      )}
+
+      {isEditingPolicy && (
+        <SnapshotPolicyModal
+          workspace={workspace}
+          onClose={() => setIsEditingPolicy(false)}
+          onSaved={(updated) => {
+            setIsEditingPolicy(false);
+            onUpdated(updated);
+          }}
+        />
+      )}
+
+      {restoreTarget && (
+        <RestoreSnapshotModal
+          workspace={workspace}
+          snapshot={restoreTarget}
+          onClose={() => setRestoreTarget(null)}
+          onFinished={async () => {
+            try {
+              onUpdatedRef.current(await apiService.getWorkspace(workspace.id));
+            } catch (err) {
+              console.error('Failed to refresh workspace after restore:', err);
+            }
+          }}
+        />
+      )}
+    </Card>
+  );
+};
+
+interface CreateSnapshotModalProps {
+  workspace: Workspace;
+  onClose: () => void;
+  onCreated: (snapshot: WorkspaceSnapshot) => void;
+}
+
+const CreateSnapshotModal: React.FC<CreateSnapshotModalProps> = ({ workspace, onClose, onCreated }) => {
+  const [description, setDescription] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const snapshot = await apiService.createWorkspaceSnapshot(workspace.id, description.trim() || undefined);
+      onCreated(snapshot);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title="Take Snapshot">
+      <div className="space-y-4">
+        <Input
+          label="Description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Before dependency upgrade"
+          maxLength={200}
+        />
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Snapshots capture the workspace's home volume. Files written while the snapshot is taken may not be included.
+        </p>
+        {error && (
+          <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+        )}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleCreate} isLoading={isSaving}>
+          Take snapshot
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+interface RestoreSnapshotModalProps {
+  workspace: Workspace;
+  snapshot: WorkspaceSnapshot;
+  onClose: () => void;
+  onFinished: () => void;
+}
+
+const RestoreSnapshotModal: React.FC<RestoreSnapshotModalProps> = ({ workspace, snapshot, onClose, onFinished }) => {
+  const [operation, setOperation] = useState<Operation | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cancelWatchRef = useRef<(() => void) | null>(null);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => () => cancelWatchRef.current?.(), []);
+
+  const handleRestore = async () => {
+    try {
+      setIsStarting(true);
+      setError(null);
+      const started = await apiService.restoreWorkspaceSnapshot(workspace.id, snapshot.name);
+      setOperation(started);
+
+      cancelWatchRef.current = watchOperation(
+        started.id,
+        (updated) => {
+          setOperation(updated);
+          if (isOperationFinished(updated)) {
+            onFinishedRef.current();
+          }
+        },
+        (err) => console.error('Failed to poll restore operation:', err)
+      );
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const isRunning = !!operation && !isOperationFinished(operation);
+
+  return (
+    <Modal isOpen onClose={onClose} title="Restore Snapshot">
+      <div className="space-y-4">
+        {operation ? (
+          <>
+            <OperationProgress operation={operation} />
+            {operation.status === 'succeeded' && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                The volume will be restored from the snapshot when the workspace next starts.
+              </p>
+            )}
+            {operation.error && (
+              <p className="text-sm text-error-600 dark:text-error-400">{operation.error}</p>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Replace the home volume of <span className="font-medium">{workspace.name}</span> with the snapshot
+            {' '}<span className="font-mono text-xs">{snapshot.name}</span>? Changes made since the snapshot was taken will be lost.
+          </p>
+        )}
+        {error && (
+          <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+        )}
+      </div>
+
+      <ModalFooter>
+        {operation ? (
+          <Button variant="secondary" onClick={onClose}>
+            {isRunning ? 'Hide' : 'Close'}
+          </Button>
+        ) : (
+          <>
+            <Button variant="secondary" onClick={onClose} disabled={isStarting}>
+              Cancel
+            </Button>
+            <Button variant="error" onClick={handleRestore} isLoading={isStarting}>
+              Restore
+            </Button>
+          </>
+        )}
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+interface SnapshotPolicyModalProps {
+  workspace: Workspace;
+  onClose: () => void;
+  onSaved: (workspace: Workspace) => void;
+}
+
+const SnapshotPolicyModal: React.FC<SnapshotPolicyModalProps> = ({ workspace, onClose, onSaved }) => {
+  const existing = workspace.snapshotPolicy;
+  const [enabled, setEnabled] = useState(existing?.enabled ?? true);
+  const [cron, setCron] = useState(existing?.cron || '0 2 * * *');
+  const [timezone, setTimezone] = useState(existing?.timezone || getBrowserTimeZone());
+  const [retain, setRetain] = useState(String(existing?.retain ?? 7));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const retainCount = Number(retain);
+    if (!Number.isInteger(retainCount) || retainCount < 1 || retainCount > 50) {
+      setError('Keep between 1 and 50 snapshots');
+      return;
+    }
+    if (!cron.trim()) {
+      setError('Enter a cron expression');
+      return;
+    }
+
+    const policy: WorkspaceSnapshotPolicy = { enabled, timezone, cron: cron.trim(), retain: retainCount };
+    try {
+      setIsSaving(true);
+      setError(null);
+      onSaved(await apiService.setWorkspaceSnapshotPolicy(workspace.id, policy));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      onSaved(await apiService.removeWorkspaceSnapshotPolicy(workspace.id));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title="Scheduled Snapshots">
+      <div className="space-y-4">
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span>Enabled</span>
+        </label>
+        <Input
+          label="Schedule (cron)"
+          value={cron}
+          onChange={(e) => setCron(e.target.value)}
+          placeholder="0 2 * * *"
+          helpText="minute hour day-of-month month day-of-week"
+        />
+        <Input
+          label="Time zone"
+          value={timezone}
+          onChange={(e) => setTimezone(e.target.value)}
+          helpText="IANA time zone, e.g. Europe/London"
+        />
+        <Input
+          label="Keep"
+          type="number"
+          min={1}
+          max={50}
+          value={retain}
+          onChange={(e) => setRetain(e.target.value)}
+          helpText="Older scheduled snapshots are deleted; manual snapshots are kept"
+        />
+        {error && (
+          <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+        )}
+      </div>
+
+      <ModalFooter>
+        {existing && (
+          <Button variant="ghost" onClick={handleRemove} disabled={isSaving}>
+            Remove policy
+          </Button>
+        )}
+        <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} isLoading={isSaving}>
+          Save
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
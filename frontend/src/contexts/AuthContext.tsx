@@ -1,13 +1,16 @@
 import { createContext, useContext, ReactNode, useState, useEffect } from 'react';
 import { AuthProvider as OidcAuthProvider, useAuth as useOidcAuth } from 'react-oidc-context';
-import { User, AuthConfig } from '../types';
-import { apiService } from '../services/api';
+import { User, AuthConfig, IdentityProvider, DevUser } from '../types';
+import { apiService, getDevToken, clearDevToken } from '../services/api';
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: () => Promise<void>;
+  providers: IdentityProvider[]; // Offered next to the default provider
+  login: (providerId?: string) => Promise<void>;
+  devUsers: DevUser[]; // Only while the backend has development sign-in enabled
+  devLogin: (email: string) => Promise<void>;
   logout: () => Promise<void>;
   getAccessToken: () => string | undefined;
 }
@@ -19,16 +22,48 @@ interface AuthProviderProps {
   config: AuthConfig;
 }
 
+// The provider signed in with is kept across the login redirect
+const PROVIDER_STORAGE_KEY = 'auth.provider';
+
+const loadSelectedProvider = (): IdentityProvider | null => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+interface AuthContextProviderProps {
+  children: ReactNode;
+  provider: IdentityProvider | null;
+  providers: IdentityProvider[];
+  devUsers: DevUser[];
+  pendingSignIn: boolean;
+  selectProvider: (provider: IdentityProvider | null) => void;
+  clearPendingSignIn: () => void;
+}
+
 // Inner component that uses OIDC hooks
-function AuthContextProvider({ children }: { children: ReactNode }) {
+function AuthContextProvider({
+  children,
+  provider,
+  providers,
+  devUsers,
+  pendingSignIn,
+  selectProvider,
+  clearPendingSignIn,
+}: AuthContextProviderProps) {
   const oidcAuth = useOidcAuth();
   const [backendUser, setBackendUser] = useState<User | null>(null);
   const [isFetchingUser, setIsFetchingUser] = useState(false);
+  const [devToken, setDevToken] = useState<string | null>(getDevToken);
+  const isAuthenticated = oidcAuth.isAuthenticated || !!devToken;
 
   // Fetch user from backend when authenticated
   useEffect(() => {
     const fetchUserFromBackend = async () => {
-      if (oidcAuth.isAuthenticated && oidcAuth.user && !isFetchingUser && !backendUser) {
+      if (isAuthenticated && !isFetchingUser && !backendUser) {
         try {
           setIsFetchingUser(true);
           // Call the backend to get the synced user object
@@ -36,19 +71,24 @@ function AuthContextProvider({ children }: { children: ReactNode }) {
           setBackendUser(response);
         } catch (error) {
           console.error('Failed to fetch user from backend:', error);
-          // Fallback to JWT user if backend call fails
+          // Fallback to JWT user if backend call fails; a development
+          // session has nothing to fall back to
           setBackendUser(null);
+          if (devToken) {
+            clearDevToken();
+            setDevToken(null);
+          }
         } finally {
           setIsFetchingUser(false);
         }
-      } else if (!oidcAuth.isAuthenticated) {
+      } else if (!isAuthenticated) {
         setBackendUser(null);
       }
     };
 
     fetchUserFromBackend();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [oidcAuth.isAuthenticated]);
+  }, [isAuthenticated]);
 
   // Use backend user if available, otherwise fall back to JWT user
   const user: User | null = backendUser || (oidcAuth.user
@@ -62,11 +102,50 @@ function AuthContextProvider({ children }: { children: ReactNode }) {
       }
     : null);
 
-  const login = async () => {
-    await oidcAuth.signinRedirect();
+  // Sign in once the OIDC client has been rebuilt for a newly chosen provider
+  useEffect(() => {
+    if (pendingSignIn && !oidcAuth.isLoading) {
+      clearPendingSignIn();
+      oidcAuth.signinRedirect();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pendingSignIn, oidcAuth.isLoading]);
+
+  // Without a provider id, sign in with the default provider
+  const login = async (providerId?: string) => {
+    const next = providerId ? providers.find(p => p.id === providerId) || null : null;
+    if ((next?.id || null) === (provider?.id || null)) {
+      await oidcAuth.signinRedirect();
+      return;
+    }
+    selectProvider(next);
+  };
+
+  const devLogin = async (email: string) => {
+    const signedIn = await apiService.devLogin(email);
+    setBackendUser(signedIn);
+    setDevToken(getDevToken());
   };
 
   const logout = async () => {
+    if (devToken) {
+      clearDevToken();
+      setDevToken(null);
+      window.location.href = '/login';
+      return;
+    }
+
+    if (provider) {
+      try {
+        await oidcAuth.signoutRedirect();
+      } catch (error) {
+        // The provider has no end-session endpoint; forget the session locally
+        await oidcAuth.removeUser();
+        window.location.href = '/login';
+      }
+      return;
+    }
+
     // For Cognito, we need to use custom logout URL
     const cognitoDomain = (window as any).__COGNITO_DOMAIN__;
     const clientId = oidcAuth.settings.client_id;
@@ -83,15 +162,22 @@ function AuthContextProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Access tokens of other providers are usually meant for their own APIs, not ours
   const getAccessToken = () => {
-    return oidcAuth.user?.access_token;
+    if (devToken) {
+      return devToken;
+    }
+    return provider ? oidcAuth.user?.id_token : oidcAuth.user?.access_token;
   };
 
   const value: AuthContextType = {
     user,
-    isLoading: oidcAuth.isLoading,
-    isAuthenticated: oidcAuth.isAuthenticated,
+    isLoading: devToken ? !backendUser : oidcAuth.isLoading,
+    isAuthenticated,
+    providers,
     login,
+    devUsers,
+    devLogin,
     logout,
     getAccessToken,
   };
@@ -106,18 +192,68 @@ export function AuthProvider({ children, config }: AuthProviderProps) {
     (window as any).__COGNITO_DOMAIN__ = config.cognitoDomain;
   }
 
-  const oidcConfig = {
-    authority: config.authority,
-    client_id: config.clientId,
-    redirect_uri: config.redirectUri,
-    post_logout_redirect_uri: config.logoutUri || config.redirectUri.replace('/auth/callback', ''),
-    response_type: 'code',
-    scope: config.scope || 'aws.cognito.signin.user.admin email openid profile',
+  const [provider, setProvider] = useState<IdentityProvider | null>(loadSelectedProvider);
+  const [providers, setProviders] = useState<IdentityProvider[]>([]);
+  const [devUsers, setDevUsers] = useState<DevUser[]>([]);
+  const [pendingSignIn, setPendingSignIn] = useState(false);
+
+  useEffect(() => {
+    apiService.getIdentityProviders()
+      .then(setProviders)
+      .catch(error => console.warn('Failed to load identity providers:', error));
+    // Fails unless the backend has development sign-in enabled
+    apiService.getDevUsers()
+      .then(setDevUsers)
+      .catch(() => setDevUsers([]));
+  }, []);
+
+  const selectProvider = (next: IdentityProvider | null) => {
+    // Drop the session stored for the previous provider so its token isn't picked up
+    Object.keys(sessionStorage)
+      .filter(key => key.startsWith('oidc.user:'))
+      .forEach(key => sessionStorage.removeItem(key));
+
+    if (next) {
+      localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(PROVIDER_STORAGE_KEY);
+    }
+    setProvider(next);
+    setPendingSignIn(true);
   };
 
+  const postLogoutRedirectUri = config.logoutUri || config.redirectUri.replace('/auth/callback', '');
+  const oidcConfig = provider
+    ? {
+        authority: provider.issuer,
+        client_id: provider.clientId,
+        redirect_uri: config.redirectUri,
+        post_logout_redirect_uri: postLogoutRedirectUri,
+        response_type: 'code',
+        scope: provider.scope,
+      }
+    : {
+        authority: config.authority,
+        client_id: config.clientId,
+        redirect_uri: config.redirectUri,
+        post_logout_redirect_uri: postLogoutRedirectUri,
+        response_type: 'code',
+        scope: config.scope || 'aws.cognito.signin.user.admin email openid profile',
+      };
+
+  // Keyed by provider so the OIDC client is rebuilt when another one is chosen
   return (
-    <OidcAuthProvider {...oidcConfig}>
-      <AuthContextProvider>{children}</AuthContextProvider>
+    <OidcAuthProvider key={provider?.id || 'default'} {...oidcConfig}>
+      <AuthContextProvider
+        provider={provider}
+        providers={providers}
+        devUsers={devUsers}
+        pendingSignIn={pendingSignIn}
+        selectProvider={selectProvider}
+        clearPendingSignIn={() => setPendingSignIn(false)}
+      >
+        {children}
+      </AuthContextProvider>
     </OidcAuthProvider>
   );
 }
@@ -3,10 +3,13 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { Layout } from '../components/Layout';
 import { UsersPage } from './UsersPage';
 import { GroupsPage } from './GroupsPage';
+import { TemplatesPage } from './TemplatesPage';
 import { Card, CardContent } from '../components/Card';
+import { ExecRecordingsCard } from '../components/ExecRecordingsCard';
+import { GroupMappingsCard } from '../components/GroupMappingsCard';
 import { cn } from '../utils';
 
-type AdminTab = 'users' | 'groups' | 'workspaces' | 'audit-logs' | 'settings' | 'monitoring';
+type AdminTab = 'users' | 'groups' | 'templates' | 'workspaces' | 'audit-logs' | 'settings' | 'monitoring';
 
 interface TabConfig {
   id: AdminTab;
@@ -33,6 +36,15 @@ const tabs: TabConfig[] = [
       </svg>
     ),
   },
+  {
+    id: 'templates',
+    name: 'Templates',
+    icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h14a1 1 0 011 1v2a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM4 13a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H5a1 1 0 01-1-1v-6zM16 13a1 1 0 011-1h2a1 1 0 011 1v6a1 1 0 01-1 1h-2a1 1 0 01-1-1v-6z" />
+      </svg>
+    ),
+  },
   {
     id: 'workspaces',
     name: 'Workspaces',
@@ -101,10 +113,17 @@ export const AdminPage: React.FC = () => {
         return <UsersTabContent />;
       case 'groups':
         return <GroupsTabContent />;
+      case 'templates':
+        return <TemplatesTabContent />;
       case 'workspaces':
         return <WorkspacesTabContent />;
       case 'audit-logs':
-        return <AuditLogsPlaceholder />;
+        return (
+          <div className="space-y-6">
+            <ExecRecordingsCard />
+            <AuditLogsPlaceholder />
+          </div>
+        );
       case 'settings':
         return <SettingsPlaceholder />;
       case 'monitoring':
@@ -166,7 +185,16 @@ const UsersTabContent: React.FC = () => {
 };
 
 const GroupsTabContent: React.FC = () => {
-  return <GroupsPage isEmbedded />;
+  return (
+    <div className="space-y-6">
+      <GroupsPage isEmbedded />
+      <GroupMappingsCard />
+    </div>
+  );
+};
+
+const TemplatesTabContent: React.FC = () => {
+  return <TemplatesPage isEmbedded />;
 };
 
 const WorkspacesTabContent: React.FC = () => {
@@ -196,19 +224,19 @@ const WorkspacesTabContent: React.FC = () => {
   };
 
   const handleDeleteWorkspace = async (workspaceId: string, workspaceName: string) => {
-    if (!window.confirm(`Are you sure you want to delete workspace "${workspaceName}"? This action cannot be undone.`)) {
+    if (!window.confirm(`Move workspace "${workspaceName}" to the trash? Its owner can restore it until it is purged.`)) {
       return;
     }
 
     try {
       setDeletingWorkspace(workspaceId);
-      await require('../services/api').apiService.adminDeleteWorkspace(workspaceId);
+      const trashed = await require('../services/api').apiService.adminDeleteWorkspace(workspaceId);
 
-      // Remove the workspace from the list
-      setWorkspaces(prev => prev.filter(ws => ws.id !== workspaceId));
+      // Trashed workspaces stay listed here until they are purged
+      setWorkspaces(prev => prev.map(ws => ws.id === workspaceId ? { ...ws, ...trashed } : ws));
 
       // Show success message (you could use a toast notification here)
-      console.log(`Workspace ${workspaceName} deleted successfully`);
+      console.log(`Workspace ${workspaceName} moved to the trash`);
     } catch (err: any) {
       console.error('Failed to delete workspace:', err);
       alert(`Failed to delete workspace: ${err?.message || 'Unknown error'}`);
@@ -285,7 +313,7 @@ const WorkspacesTabContent: React.FC = () => {
                         </h3>
                         <span className={`ml-3 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
                           workspace.status === 'running' ? 'bg-green-100 text-green-800' :
-                          workspace.status === 'stopped' ? 'bg-gray-100 text-gray-800' :
+                          workspace.status === 'stopped' || workspace.status === 'archived' ? 'bg-gray-100 text-gray-800' :
                           workspace.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
                           'bg-red-100 text-red-800'
                         }`}>
@@ -328,28 +356,30 @@ const WorkspacesTabContent: React.FC = () => {
                           Terminal
                         </button>
                       )}
-                      <button
-                        onClick={() => handleDeleteWorkspace(workspace.id, workspace.name)}
-                        disabled={deletingWorkspace === workspace.id}
-                        className="inline-flex items-center px-3 py-2 border border-red-300 dark:border-red-600 shadow-sm text-sm leading-4 font-medium rounded-md text-red-700 dark:text-red-400 bg-white dark:bg-gray-700 hover:bg-red-50 dark:hover:bg-red-900/20 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                      >
-                        {deletingWorkspace === workspace.id ? (
-                          <>
-                            <svg className="animate-spin w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24">
-                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                            </svg>
-                            Deleting...
-                          </>
-                        ) : (
-                          <>
-                            <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                            </svg>
-                            Delete
-                          </>
-                        )}
-                      </button>
+                      {workspace.status !== 'trashed' && (
+                        <button
+                          onClick={() => handleDeleteWorkspace(workspace.id, workspace.name)}
+                          disabled={deletingWorkspace === workspace.id}
+                          className="inline-flex items-center px-3 py-2 border border-red-300 dark:border-red-600 shadow-sm text-sm leading-4 font-medium rounded-md text-red-700 dark:text-red-400 bg-white dark:bg-gray-700 hover:bg-red-50 dark:hover:bg-red-900/20 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {deletingWorkspace === workspace.id ? (
+                            <>
+                              <svg className="animate-spin w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24">
+                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                              </svg>
+                              Deleting...
+                            </>
+                          ) : (
+                            <>
+                              <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                              </svg>
+                              Delete
+                            </>
+                          )}
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -370,6 +400,7 @@ const WorkspacesTabContent: React.FC = () => {
                 onClose={() => setTerminalWorkspace(null)}
                 workspaceId={terminalWorkspace.id}
                 workspaceName={terminalWorkspace.name}
+                admin
               />
             );
           })()}
@@ -478,6 +509,8 @@ const SettingsPlaceholder: React.FC = () => {
   const [error, setError] = React.useState<string | null>(null);
   const [successMessage, setSuccessMessage] = React.useState<string | null>(null);
   const [editedImage, setEditedImage] = React.useState('');
+  const [editedAutoArchiveDays, setEditedAutoArchiveDays] = React.useState('0');
+  const [editedAutoArchiveMode, setEditedAutoArchiveMode] = React.useState('volume');
 
   React.useEffect(() => {
     loadSettings();
@@ -492,6 +525,8 @@ const SettingsPlaceholder: React.FC = () => {
       console.log('System settings loaded:', data);
       setSettings(data);
       setEditedImage(data.defaultWorkspaceImage);
+      setEditedAutoArchiveDays(String(data.autoArchiveAfterDays || 0));
+      setEditedAutoArchiveMode(data.autoArchiveMode || 'volume');
     } catch (err: any) {
       console.error('Failed to load system settings:', err);
       const errorMessage = err?.message || err?.response?.data?.message || 'Failed to load system settings';
@@ -509,6 +544,8 @@ const SettingsPlaceholder: React.FC = () => {
 
       const updates = {
         defaultWorkspaceImage: editedImage,
+        autoArchiveAfterDays: parseInt(editedAutoArchiveDays, 10) || 0,
+        autoArchiveMode: editedAutoArchiveMode,
       };
 
       const updatedSettings = await require('../services/api').apiService.updateSystemSettings(updates);
@@ -528,12 +565,18 @@ const SettingsPlaceholder: React.FC = () => {
   const handleReset = () => {
     if (settings) {
       setEditedImage(settings.defaultWorkspaceImage);
+      setEditedAutoArchiveDays(String(settings.autoArchiveAfterDays || 0));
+      setEditedAutoArchiveMode(settings.autoArchiveMode || 'volume');
       setError(null);
       setSuccessMessage(null);
     }
   };
 
-  const hasChanges = settings && editedImage !== settings.defaultWorkspaceImage;
+  const hasChanges = settings && (
+    editedImage !== settings.defaultWorkspaceImage ||
+    editedAutoArchiveDays !== String(settings.autoArchiveAfterDays || 0) ||
+    editedAutoArchiveMode !== (settings.autoArchiveMode || 'volume')
+  );
 
   if (isLoading) {
     return (
@@ -634,6 +677,40 @@ const SettingsPlaceholder: React.FC = () => {
                 </p>
               )}
             </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="autoArchiveAfterDays" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Auto-archive After (days)
+                </label>
+                <input
+                  type="number"
+                  id="autoArchiveAfterDays"
+                  min={0}
+                  max={3650}
+                  value={editedAutoArchiveDays}
+                  onChange={(e) => setEditedAutoArchiveDays(e.target.value)}
+                  className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="autoArchiveMode" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Keep Archived Files As
+                </label>
+                <select
+                  id="autoArchiveMode"
+                  value={editedAutoArchiveMode}
+                  onChange={(e) => setEditedAutoArchiveMode(e.target.value)}
+                  className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
+                >
+                  <option value="volume">Volume</option>
+                  <option value="snapshot">Snapshot</option>
+                </select>
+              </div>
+            </div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Stopped workspaces nobody has accessed for this many days are archived automatically. 0 turns auto-archiving off.
+            </p>
           </div>
 
           <div className="mt-6 flex justify-end gap-3">
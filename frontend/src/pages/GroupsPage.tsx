@@ -2,9 +2,10 @@ import React, { useEffect, useState } from 'react';
 import { Layout } from '../components/Layout';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/Card';
 import { Button } from '../components/Button';
-import { Modal } from '../components/Modal';
+import { Modal, ModalFooter } from '../components/Modal';
 import { Input, TextArea } from '../components/Input';
-import { Group, ResourceQuota } from '../types';
+import { EnvironmentVariablesEditor } from '../components/EnvironmentVariablesCard';
+import { Group, GroupRole, ResourceQuota } from '../types';
 import { apiService } from '../services/api';
 import { formatCPU, formatMemory, getErrorMessage } from '../utils';
 import { useAuth } from '../contexts/AuthContext';
@@ -22,6 +23,9 @@ export const GroupsPage: React.FC<GroupsPageProps> = ({ isEmbedded = false }) =>
 
   const isAdmin = user?.isAdmin || false;
 
+  const isGroupAdmin = (groupId: string) =>
+    user?.groupMemberships?.some(m => m.groupId === groupId && m.role === GroupRole.ADMIN) || false;
+
   useEffect(() => {
     loadGroups();
   }, []);
@@ -126,6 +130,7 @@ export const GroupsPage: React.FC<GroupsPageProps> = ({ isEmbedded = false }) =>
                 key={group.id}
                 group={group}
                 isAdmin={isAdmin}
+                canManage={isAdmin || isGroupAdmin(group.id)}
                 onDelete={handleDeleteGroup}
               />
             ))}
@@ -171,12 +176,14 @@ export const GroupsPage: React.FC<GroupsPageProps> = ({ isEmbedded = false }) =>
 interface GroupCardProps {
   group: Group;
   isAdmin: boolean;
+  canManage: boolean; // Admin or group admin
   onDelete: (groupId: string) => void;
 }
 
-const GroupCard: React.FC<GroupCardProps> = ({ group, isAdmin, onDelete }) => {
+const GroupCard: React.FC<GroupCardProps> = ({ group, isAdmin, canManage, onDelete }) => {
   const [showMenu, setShowMenu] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [showEnvironment, setShowEnvironment] = useState(false);
 
   const handleDelete = async () => {
     // eslint-disable-next-line no-restricted-globals
@@ -203,7 +210,7 @@ const GroupCard: React.FC<GroupCardProps> = ({ group, isAdmin, onDelete }) => {
               <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">{group.description}</p>
             )}
           </div>
-          {isAdmin && (
+          {canManage && (
             <div className="relative">
               <Button
                 size="sm"
@@ -223,22 +230,33 @@ const GroupCard: React.FC<GroupCardProps> = ({ group, isAdmin, onDelete }) => {
                   />
                   <div className="absolute right-0 mt-2 w-48 bg-white dark:bg-gray-800 rounded-md shadow-lg z-20 border border-gray-200 dark:border-gray-700">
                     <button
-                      className="w-full text-left px-4 py-2 text-sm text-error-600 hover:bg-error-50 dark:hover:bg-error-900 rounded-md"
+                      className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-md"
                       onClick={() => {
-                        handleDelete();
+                        setShowEnvironment(true);
                         setShowMenu(false);
                       }}
-                      disabled={isDeleting}
                     >
-                      {isDeleting ? (
-                        <div className="flex items-center">
-                          <div className="spinner w-4 h-4 mr-2"></div>
-                          Deleting...
-                        </div>
-                      ) : (
-                        'Delete Group'
-                      )}
+                      Environment Variables
                     </button>
+                    {isAdmin && (
+                      <button
+                        className="w-full text-left px-4 py-2 text-sm text-error-600 hover:bg-error-50 dark:hover:bg-error-900 rounded-md"
+                        onClick={() => {
+                          handleDelete();
+                          setShowMenu(false);
+                        }}
+                        disabled={isDeleting}
+                      >
+                        {isDeleting ? (
+                          <div className="flex items-center">
+                            <div className="spinner w-4 h-4 mr-2"></div>
+                            Deleting...
+                          </div>
+                        ) : (
+                          'Delete Group'
+                        )}
+                      </button>
+                    )}
                   </div>
                 </>
               )}
@@ -286,6 +304,20 @@ const GroupCard: React.FC<GroupCardProps> = ({ group, isAdmin, onDelete }) => {
           </div>
         </div>
       </CardContent>
+
+      {showEnvironment && (
+        <Modal isOpen onClose={() => setShowEnvironment(false)} title={`${group.displayName} Environment`}>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Set on every workspace in the group. Workspace variables of the same name take precedence.
+          </p>
+          <EnvironmentVariablesEditor scope="group" scopeId={group.id} />
+          <ModalFooter>
+            <Button variant="secondary" onClick={() => setShowEnvironment(false)}>
+              Close
+            </Button>
+          </ModalFooter>
+        </Modal>
+      )}
     </Card>
   );
 };
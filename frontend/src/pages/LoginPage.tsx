@@ -3,9 +3,10 @@ import { Navigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { Button } from '../components/Button';
 import { Card } from '../components/Card';
+import { getErrorMessage } from '../utils';
 
 export const LoginPage: React.FC = () => {
-  const { login, isLoading, isAuthenticated } = useAuth();
+  const { login, providers, devUsers, devLogin, isLoading, isAuthenticated } = useAuth();
   const [error, setError] = useState<string | null>(null);
   const [searchParams] = useSearchParams();
 
@@ -19,16 +20,26 @@ export const LoginPage: React.FC = () => {
     }
   }, [searchParams]);
 
-  const handleLogin = async () => {
+  const handleLogin = async (providerId?: string) => {
     try {
       setError(null);
-      await login();
+      await login(providerId);
     } catch (error) {
       console.error('Login failed:', error);
       setError('Login failed. Please try again.');
     }
   };
 
+  const handleDevLogin = async (email: string) => {
+    try {
+      setError(null);
+      await devLogin(email);
+    } catch (error) {
+      console.error('Development sign-in failed:', error);
+      setError(getErrorMessage(error));
+    }
+  };
+
   // Redirect if already authenticated
   if (isAuthenticated) {
     return <Navigate to="/" replace />;
@@ -91,7 +102,7 @@ export const LoginPage: React.FC = () => {
             <div className="space-y-4">
               {/* AWS Cognito Login */}
               <Button
-                onClick={handleLogin}
+                onClick={() => handleLogin()}
                 isLoading={isLoading}
                 className="w-full"
                 size="lg"
@@ -104,6 +115,42 @@ export const LoginPage: React.FC = () => {
                 {isLoading ? 'Signing in...' : 'Continue with AWS Cognito'}
               </Button>
 
+              {/* Further OIDC providers configured on the backend */}
+              {providers.map(provider => (
+                <Button
+                  key={provider.id}
+                  onClick={() => handleLogin(provider.id)}
+                  variant="secondary"
+                  disabled={isLoading}
+                  className="w-full"
+                  size="lg"
+                >
+                  Continue with {provider.name}
+                </Button>
+              ))}
+
+              {/* Development sign-in, only offered while the backend has it enabled */}
+              {devUsers.length > 0 && (
+                <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+                  <p className="text-xs font-medium uppercase tracking-wide text-warning-600 dark:text-warning-400 text-center mb-3">
+                    Development sign-in
+                  </p>
+                  <div className="space-y-2">
+                    {devUsers.map(devUser => (
+                      <Button
+                        key={devUser.email}
+                        onClick={() => handleDevLogin(devUser.email)}
+                        variant="ghost"
+                        className="w-full justify-between"
+                      >
+                        <span>{devUser.name}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">{devUser.description}</span>
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Google OAuth Login */}
               {/* <Button
                 onClick={handleLogin}
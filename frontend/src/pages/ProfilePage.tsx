@@ -3,6 +3,7 @@ import { Layout } from '../components/Layout';
 import { Card } from '../components/Card';
 import { Input } from '../components/Input';
 import { Button } from '../components/Button';
+import { PersonalAccessTokensCard } from '../components/PersonalAccessTokensCard';
 import { useAuth } from '../contexts/AuthContext';
 import { apiService } from '../services/api';
 
@@ -350,6 +351,9 @@ export const ProfilePage: React.FC = () => {
               </div>
             </Card>
 
+            {/* Personal Access Tokens */}
+            <PersonalAccessTokensCard />
+
             {/* Account Information */}
             <Card>
               <div className="p-6">
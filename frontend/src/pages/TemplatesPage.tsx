@@ -0,0 +1,495 @@
+import React, { useEffect, useState } from 'react';
+import { Layout } from '../components/Layout';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/Card';
+import { Button } from '../components/Button';
+import { Badge } from '../components/Badge';
+import { Modal, ModalFooter } from '../components/Modal';
+import { Input, TextArea, Select } from '../components/Input';
+import { Group, GroupRole, ResourceTier, WorkspaceTemplate } from '../types';
+import { apiService } from '../services/api';
+import { getErrorMessage } from '../utils';
+import { useAuth } from '../contexts/AuthContext';
+
+interface TemplatesPageProps {
+  isEmbedded?: boolean;
+}
+
+export const TemplatesPage: React.FC<TemplatesPageProps> = ({ isEmbedded = false }) => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<WorkspaceTemplate[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<WorkspaceTemplate | 'new' | null>(null);
+
+  const isAdmin = user?.isAdmin || false;
+
+  const isGroupAdmin = (groupId: string) =>
+    user?.groupMemberships?.some(m => m.groupId === groupId && m.role === GroupRole.ADMIN) || false;
+
+  const canManage = (groupId?: string | null) => isAdmin || (!!groupId && isGroupAdmin(groupId));
+
+  // Groups the user can create templates for and restrict
+  const managedGroups = groups.filter(group => canManage(group.id));
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [templatesData, groupsData] = await Promise.all([
+        apiService.getTemplates(),
+        apiService.getGroups(),
+      ]);
+      setTemplates(templatesData);
+      setGroups(groupsData);
+    } catch (error) {
+      console.error('Failed to load templates:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaved = (saved: WorkspaceTemplate) => {
+    setTemplates(prev => {
+      const others = prev.filter(t => t.id !== saved.id);
+      return [...others, saved].sort((a, b) => a.name.localeCompare(b.name));
+    });
+    setEditing(null);
+  };
+
+  const handleDelete = async (template: WorkspaceTemplate) => {
+    if (!window.confirm(`Delete template "${template.name}"? Existing workspaces are not affected.`)) {
+      return;
+    }
+
+    try {
+      await apiService.deleteTemplate(template.id);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+    } catch (error) {
+      console.error('Failed to delete template:', error);
+      setError(getErrorMessage(error));
+    }
+  };
+
+  const groupName = (groupId?: string | null) =>
+    groups.find(group => group.id === groupId)?.displayName || groupId;
+
+  const loadingContent = (
+    <div className="flex items-center justify-center min-h-[400px]">
+      <div className="text-center">
+        <div className="spinner w-8 h-8 mx-auto mb-4"></div>
+        <p className="text-gray-500 dark:text-gray-400">Loading templates...</p>
+      </div>
+    </div>
+  );
+
+  if (isLoading) {
+    return isEmbedded ? loadingContent : <Layout>{loadingContent}</Layout>;
+  }
+
+  const pageContent = (
+    <div className={isEmbedded ? '' : 'px-4 sm:px-6 lg:px-8 py-8'}>
+      {/* Page header */}
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Templates</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Starting points for new workspaces: image, resources, environment, repository and extensions.
+          </p>
+        </div>
+        {(isAdmin || managedGroups.length > 0) && (
+          <Button onClick={() => setEditing('new')}>
+            Create Template
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-md bg-error-50 dark:bg-error-900/20 p-4 border border-error-200 dark:border-error-800 text-sm text-error-700 dark:text-error-300">
+          {error}
+        </div>
+      )}
+
+      {templates.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {templates.map((template) => (
+            <Card key={template.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <CardTitle className="text-lg">{template.name}</CardTitle>
+                    <div className="mt-1">
+                      <Badge variant={template.groupId ? 'default' : 'info'} size="sm">
+                        {template.groupId ? groupName(template.groupId) : 'Platform-wide'}
+                      </Badge>
+                    </div>
+                  </div>
+                  {canManage(template.groupId) && (
+                    <div className="flex space-x-1">
+                      <Button size="sm" variant="ghost" onClick={() => setEditing(template)}>
+                        Edit
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(template)}>
+                        Delete
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <TemplateSummary template={template} />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">No templates yet</h3>
+          <p className="text-gray-500 dark:text-gray-400 max-w-sm mx-auto">
+            {isAdmin || managedGroups.length > 0
+              ? 'Create a template to give new workspaces a ready-made setup.'
+              : 'Ask an administrator or group admin to add templates.'}
+          </p>
+        </div>
+      )}
+
+      {/* Group restrictions */}
+      {managedGroups.length > 0 && (
+        <div className="mt-10">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Group Restrictions</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 mb-4">
+            Restricted groups only allow new workspaces created from the selected templates.
+          </p>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {managedGroups.map((group) => (
+              <GroupTemplatePolicyCard
+                key={group.id}
+                group={group}
+                templates={templates.filter(t => !t.groupId || t.groupId === group.id)}
+                onSaved={(updated) => setGroups(prev => prev.map(g => (g.id === updated.id ? updated : g)))}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {editing && (
+        <TemplateModal
+          template={editing === 'new' ? null : editing}
+          groups={managedGroups}
+          allowPlatformWide={isAdmin}
+          onClose={() => setEditing(null)}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+
+  return isEmbedded ? pageContent : <Layout>{pageContent}</Layout>;
+};
+
+const TemplateSummary: React.FC<{ template: WorkspaceTemplate }> = ({ template }) => (
+  <div className="space-y-2 text-sm text-gray-600 dark:text-gray-400">
+    {template.description && <p>{template.description}</p>}
+    <p className="font-mono text-xs break-all">{template.image}</p>
+    {template.resources ? (
+      <p>{template.resources.cpu} CPU, {template.resources.memory} RAM, {template.resources.storage} storage</p>
+    ) : template.tier ? (
+      <p>Tier: {template.tier}</p>
+    ) : null}
+    {template.repository && (
+      <p className="break-all">
+        Repository: <span className="font-mono text-xs">{template.repository.url}</span>
+        {template.repository.branch && ` (${template.repository.branch})`}
+      </p>
+    )}
+    {template.env && Object.keys(template.env).length > 0 && (
+      <p>{Object.keys(template.env).length} environment variable(s)</p>
+    )}
+    {template.extensions && template.extensions.length > 0 && (
+      <p>Extensions: {template.extensions.join(', ')}</p>
+    )}
+  </div>
+);
+
+interface GroupTemplatePolicyCardProps {
+  group: Group;
+  templates: WorkspaceTemplate[];
+  onSaved: (group: Group) => void;
+}
+
+const GroupTemplatePolicyCard: React.FC<GroupTemplatePolicyCardProps> = ({ group, templates, onSaved }) => {
+  const [selected, setSelected] = useState<string[]>(group.allowedTemplateIds || []);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (templateId: string) => {
+    setSelected(prev => (prev.includes(templateId)
+      ? prev.filter(id => id !== templateId)
+      : [...prev, templateId]));
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      onSaved(await apiService.setGroupTemplatePolicy(group.id, selected.length > 0 ? selected : null));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">{group.displayName}</CardTitle>
+          <Badge variant={group.allowedTemplateIds?.length ? 'warning' : 'default'} size="sm">
+            {group.allowedTemplateIds?.length ? 'Restricted' : 'Any template or none'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {templates.length > 0 ? (
+          <div className="space-y-2">
+            {templates.map((template) => (
+              <label key={template.id} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(template.id)}
+                  onChange={() => toggle(template.id)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span>{template.name}</span>
+              </label>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No templates are available to this group.</p>
+        )}
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+          Leave everything unchecked to allow any template, or none.
+        </p>
+        {error && <p className="text-sm text-error-600 dark:text-error-400 mt-2">{error}</p>}
+        <div className="flex justify-end mt-4">
+          <Button size="sm" onClick={handleSave} isLoading={isSaving}>
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+interface TemplateModalProps {
+  template: WorkspaceTemplate | null;
+  groups: Group[];
+  allowPlatformWide: boolean;
+  onClose: () => void;
+  onSaved: (template: WorkspaceTemplate) => void;
+}
+
+// Environment variables are edited as KEY=value lines
+const formatEnv = (env?: Record<string, string>) =>
+  Object.entries(env || {}).map(([key, value]) => `${key}=${value}`).join('\n');
+
+const parseEnv = (text: string): Record<string, string> => {
+  const env: Record<string, string> = {};
+  for (const line of text.split('\n').map(l => l.trim()).filter(Boolean)) {
+    const separator = line.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid environment variable "${line}", expected KEY=value`);
+    }
+    env[line.slice(0, separator).trim()] = line.slice(separator + 1);
+  }
+  return env;
+};
+
+const TemplateModal: React.FC<TemplateModalProps> = ({ template, groups, allowPlatformWide, onClose, onSaved }) => {
+  const [name, setName] = useState(template?.name || '');
+  const [description, setDescription] = useState(template?.description || '');
+  const [groupId, setGroupId] = useState(template?.groupId || (allowPlatformWide ? '' : groups[0]?.id || ''));
+  const [image, setImage] = useState(template?.image || '');
+  const [tier, setTier] = useState<string>(template?.tier || '');
+  const [useCustomResources, setUseCustomResources] = useState(!!template?.resources);
+  const [cpu, setCpu] = useState(template?.resources?.cpu || '2');
+  const [memory, setMemory] = useState(template?.resources?.memory || '4Gi');
+  const [storage, setStorage] = useState(template?.resources?.storage || '20Gi');
+  const [env, setEnv] = useState(formatEnv(template?.env));
+  const [repositoryUrl, setRepositoryUrl] = useState(template?.repository?.url || '');
+  const [repositoryBranch, setRepositoryBranch] = useState(template?.repository?.branch || '');
+  const [credentialsSecret, setCredentialsSecret] = useState(template?.repository?.credentialsSecret || '');
+  const [extensions, setExtensions] = useState((template?.extensions || []).join('\n'));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!name.trim() || !image.trim()) {
+      setError('Name and image are required');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const fields = {
+        name: name.trim(),
+        description: description.trim(),
+        image: image.trim(),
+        tier: (tier || null) as ResourceTier | null,
+        resources: useCustomResources ? { cpu: cpu.trim(), memory: memory.trim(), storage: storage.trim() } : null,
+        env: parseEnv(env),
+        repository: repositoryUrl.trim()
+          ? {
+            url: repositoryUrl.trim(),
+            ...(repositoryBranch.trim() ? { branch: repositoryBranch.trim() } : {}),
+            ...(credentialsSecret.trim() ? { credentialsSecret: credentialsSecret.trim() } : {}),
+          }
+          : null,
+        extensions: extensions.split('\n').map(e => e.trim()).filter(Boolean),
+      };
+
+      if (template) {
+        onSaved(await apiService.updateTemplate(template.id, fields));
+      } else {
+        // Unset fields are left out rather than cleared on create
+        onSaved(await apiService.createTemplate({
+          ...fields,
+          groupId: groupId || null,
+          tier: fields.tier || undefined,
+          resources: fields.resources || undefined,
+          repository: fields.repository || undefined,
+        }));
+      }
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const scopeOptions = [
+    ...(allowPlatformWide ? [{ value: '', label: 'Platform-wide' }] : []),
+    ...groups.map(group => ({ value: group.id, label: group.displayName })),
+  ];
+
+  const tierOptions = [
+    { value: '', label: 'Default' },
+    { value: ResourceTier.SINGLE_USER, label: 'Single User - 1 CPU, 2GB RAM' },
+    { value: ResourceTier.SMALL_TEAM, label: 'Small Team - 2 CPU, 4GB RAM' },
+    { value: ResourceTier.ENTERPRISE, label: 'Enterprise' },
+  ];
+
+  return (
+    <Modal isOpen onClose={onClose} title={template ? 'Edit Template' : 'Create Template'} size="lg">
+      <div className="space-y-4">
+        <Input label="Name" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} />
+        <TextArea
+          label="Description (optional)"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={2}
+        />
+        {!template && (
+          <Select
+            label="Available to"
+            value={groupId}
+            onChange={(e) => setGroupId(e.target.value)}
+            options={scopeOptions}
+          />
+        )}
+        <Input
+          label="Image"
+          placeholder="e.g. ghcr.io/org/code-server:latest"
+          value={image}
+          onChange={(e) => setImage(e.target.value)}
+        />
+        <Select
+          label="Resource Tier"
+          value={tier}
+          onChange={(e) => setTier(e.target.value)}
+          options={tierOptions}
+          disabled={useCustomResources}
+        />
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={useCustomResources}
+            onChange={(e) => setUseCustomResources(e.target.checked)}
+            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span>Custom resources</span>
+        </label>
+        {useCustomResources && (
+          <div className="grid grid-cols-3 gap-3">
+            <Input label="CPU" value={cpu} onChange={(e) => setCpu(e.target.value)} />
+            <Input label="Memory" value={memory} onChange={(e) => setMemory(e.target.value)} />
+            <Input label="Storage" value={storage} onChange={(e) => setStorage(e.target.value)} />
+          </div>
+        )}
+        <TextArea
+          label="Environment variables"
+          placeholder={'NODE_ENV=development\nAPI_URL=https://api.example.com'}
+          value={env}
+          onChange={(e) => setEnv(e.target.value)}
+          rows={3}
+          className="font-mono text-sm"
+        />
+        <div className="grid grid-cols-3 gap-3">
+          <div className="col-span-2">
+            <Input
+              label="Repository"
+              placeholder="https://github.com/org/repo.git"
+              value={repositoryUrl}
+              onChange={(e) => setRepositoryUrl(e.target.value)}
+            />
+          </div>
+          <Input
+            label="Branch"
+            placeholder="main"
+            value={repositoryBranch}
+            onChange={(e) => setRepositoryBranch(e.target.value)}
+          />
+        </div>
+        {repositoryUrl.trim() && (
+          <Input
+            label="Credentials secret (optional)"
+            placeholder="github-deploy-key"
+            helpText="basic-auth or ssh-auth Secret that must exist, labeled for repository use, in each group namespace the template is used in"
+            value={credentialsSecret}
+            onChange={(e) => setCredentialsSecret(e.target.value)}
+          />
+        )}
+        <TextArea
+          label="Extensions (one per line)"
+          placeholder={'ms-python.python\nesbenp.prettier-vscode'}
+          value={extensions}
+          onChange={(e) => setExtensions(e.target.value)}
+          rows={3}
+          className="font-mono text-sm"
+        />
+        {error && (
+          <p className="text-sm text-error-600 dark:text-error-400">{error}</p>
+        )}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} isLoading={isSaving}>
+          {template ? 'Save' : 'Create'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
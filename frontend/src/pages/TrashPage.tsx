@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { Layout } from '../components/Layout';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/Card';
+import { Button } from '../components/Button';
+import { Group, Workspace } from '../types';
+import { apiService } from '../services/api';
+import { formatDate, formatRelativeTime, getErrorMessage } from '../utils';
+import { useAuth } from '../contexts/AuthContext';
+
+// Deleted workspaces (and, for admins, groups) until they are purged
+export const TrashPage: React.FC = () => {
+  const { user } = useAuth();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = user?.isAdmin || false;
+
+  useEffect(() => {
+    loadTrash();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isAdmin]);
+
+  const loadTrash = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [workspacesData, groupsData] = await Promise.all([
+        apiService.getTrashedWorkspaces(),
+        isAdmin ? apiService.getTrashedGroups() : Promise.resolve([]),
+      ]);
+      setWorkspaces(workspacesData);
+      setGroups(groupsData);
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    try {
+      setBusyId(id);
+      setError(null);
+      await action();
+    } catch (error) {
+      setError(getErrorMessage(error));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestoreWorkspace = (workspace: Workspace) => runAction(workspace.id, async () => {
+    await apiService.restoreWorkspace(workspace.id);
+    setWorkspaces(prev => prev.filter(w => w.id !== workspace.id));
+  });
+
+  const handlePurgeWorkspace = (workspace: Workspace) => {
+    if (!window.confirm(`Delete "${workspace.name}" and its files for good? This action cannot be undone.`)) {
+      return;
+    }
+
+    // The purge finishes in the background; the workspace is gone from the trash either way
+    runAction(workspace.id, async () => {
+      await apiService.purgeWorkspace(workspace.id);
+      setWorkspaces(prev => prev.filter(w => w.id !== workspace.id));
+    });
+  };
+
+  const handleRestoreGroup = (group: Group) => runAction(group.id, async () => {
+    await apiService.restoreGroup(group.id);
+    setGroups(prev => prev.filter(g => g.id !== group.id));
+  });
+
+  return (
+    <Layout>
+      <div className="px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Trash</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Deleted workspaces keep their files until they are purged. Restore them before then to pick up where you left off.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-md bg-error-50 dark:bg-error-900/20 p-4 border border-error-200 dark:border-error-800 text-sm text-error-700 dark:text-error-300">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[200px]">
+            <div className="spinner w-8 h-8"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Workspaces</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {workspaces.length > 0 ? (
+                  <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {workspaces.map(workspace => (
+                      <li key={workspace.id} className="py-3 flex items-center justify-between">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{workspace.name}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {workspace.groupName}
+                            {workspace.trash && ` · deleted ${formatRelativeTime(workspace.trash.deletedAt)} · purged ${formatDate(workspace.trash.purgeAt)}`}
+                          </p>
+                        </div>
+                        <div className="flex space-x-2 ml-4">
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            onClick={() => handleRestoreWorkspace(workspace)}
+                            disabled={busyId === workspace.id}
+                          >
+                            Restore
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handlePurgeWorkspace(workspace)}
+                            disabled={busyId === workspace.id}
+                          >
+                            Delete forever
+                          </Button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">The trash is empty.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {isAdmin && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Groups</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {groups.length > 0 ? (
+                    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {groups.map(group => (
+                        <li key={group.id} className="py-3 flex items-center justify-between">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{group.displayName}</p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              {group.namespace}
+                              {group.trash && ` · deleted ${formatRelativeTime(group.trash.deletedAt)} · purged ${formatDate(group.trash.purgeAt)}`}
+                            </p>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            onClick={() => handleRestoreGroup(group)}
+                            disabled={busyId === group.id}
+                          >
+                            Restore
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No groups in the trash.</p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
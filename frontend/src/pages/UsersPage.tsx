@@ -338,6 +338,11 @@ const UserRow: React.FC<UserRowProps> = ({ user, groups, onManageGroups, onToggl
             User
           </span>
         )}
+        {user.disabled && (
+          <span className="ml-1 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+            Disabled
+          </span>
+        )}
       </td>
       <td className="px-6 py-4">
         <div className="text-sm text-gray-900 dark:text-gray-100">
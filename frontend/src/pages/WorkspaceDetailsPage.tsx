@@ -1,16 +1,31 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Layout } from '../components/Layout';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/Card';
 import { Button } from '../components/Button';
 import { StatusBadge } from '../components/Badge';
-import { Workspace, ComponentHealthStatus } from '../types';
+import { WorkspaceScheduleCard } from '../components/WorkspaceScheduleCard';
+import { WorkspaceSnapshotsCard } from '../components/WorkspaceSnapshotsCard';
+import { EnvironmentVariablesCard } from '../components/EnvironmentVariablesCard';
+import { WorkspaceCollaboratorsCard } from '../components/WorkspaceCollaboratorsCard';
+import { WorkspaceOwnershipCard } from '../components/WorkspaceOwnershipCard';
+import { WorkspaceArchiveCard } from '../components/WorkspaceArchiveCard';
+import { WorkspaceExpiryCard } from '../components/WorkspaceExpiryCard';
+import { WorkspaceFilesCard } from '../components/WorkspaceFilesCard';
+import { CloneWorkspaceModal } from '../components/CloneWorkspaceModal';
+import { TerminalModal } from '../components/TerminalModal';
+import { Workspace, ComponentHealthStatus, CollaboratorRole } from '../types';
 import { apiService } from '../services/api';
-import { formatRelativeTime, formatCPU, formatMemory, getErrorMessage } from '../utils';
+import { subscribeToWorkspaceEvents, applyWorkspaceEvent } from '../services/workspaceEvents';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDate, formatRelativeTime, formatCPU, formatMemory, getErrorMessage, hasWorkspaceAccess, isWorkspaceExpired } from '../utils';
 
 export const WorkspaceDetailsPage: React.FC = () => {
   const { workspaceId } = useParams<{ workspaceId: string }>();
   const navigate = useNavigate();
+  const { getAccessToken } = useAuth();
+  const getAccessTokenRef = useRef(getAccessToken);
+  getAccessTokenRef.current = getAccessToken;
   const [workspace, setWorkspace] = useState<Workspace | null>(null);
   const [componentHealth, setComponentHealth] = useState<ComponentHealthStatus[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -19,6 +34,8 @@ export const WorkspaceDetailsPage: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [passwordCopied, setPasswordCopied] = useState(false);
   const [urlCopied, setUrlCopied] = useState(false);
+  const [showCloneModal, setShowCloneModal] = useState(false);
+  const [showTerminal, setShowTerminal] = useState(false);
 
   const handleCopyPassword = () => {
     if (workspace?.password) {
@@ -43,6 +60,25 @@ export const WorkspaceDetailsPage: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [workspaceId]);
 
+  // Update status, metrics and component health in place from the live status stream
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    return subscribeToWorkspaceEvents(
+      () => getAccessTokenRef.current(),
+      (event) => {
+        if (event.workspaceId !== workspaceId) return;
+
+        setWorkspace(prev => (prev ? applyWorkspaceEvent(prev, event) : prev));
+        if (event.type === 'status' || event.type === 'pod') {
+          apiService.getWorkspaceComponentHealth(workspaceId)
+            .then(setComponentHealth)
+            .catch(error => console.error('Failed to refresh component health:', error));
+        }
+      }
+    );
+  }, [workspaceId]);
+
   const loadData = async () => {
     if (!workspaceId) return;
 
@@ -96,14 +132,12 @@ export const WorkspaceDetailsPage: React.FC = () => {
     if (!workspaceId) return;
 
     try {
-      await apiService.performWorkspaceAction({
+      const updatedWorkspace = await apiService.performWorkspaceAction({
         type: action,
         workspaceId
       });
-      // Wait a moment and refresh to show updated status
-      setTimeout(() => {
-        loadData();
-      }, 2000);
+      // Further transitions arrive over the live status stream
+      setWorkspace(updatedWorkspace);
     } catch (error) {
       console.error(`Failed to ${action} workspace:`, error);
     }
@@ -153,6 +187,10 @@ export const WorkspaceDetailsPage: React.FC = () => {
   }
 
   const overallHealthy = componentHealth.every(c => c.healthy);
+  const canOperate = hasWorkspaceAccess(workspace, CollaboratorRole.OPERATOR);
+  const canOpen = hasWorkspaceAccess(workspace, CollaboratorRole.EDITOR);
+  const canManage = hasWorkspaceAccess(workspace, 'owner');
+  const isExpired = isWorkspaceExpired(workspace);
 
   return (
     <Layout>
@@ -208,12 +246,14 @@ export const WorkspaceDetailsPage: React.FC = () => {
           <div className="flex space-x-3">
             {workspace.status === 'running' ? (
               <>
-                <Button
-                  onClick={() => workspace.url && window.open(workspace.url, '_blank')}
-                  disabled={!workspace.url}
-                >
-                  Open Codex
-                </Button>
+                {canOpen && (
+                  <Button
+                    onClick={() => workspace.url && window.open(workspace.url, '_blank')}
+                    disabled={!workspace.url}
+                  >
+                    Open Codex
+                  </Button>
+                )}
                 <Button
                   variant="ghost"
                   onClick={handleCopyUrl}
@@ -236,33 +276,82 @@ export const WorkspaceDetailsPage: React.FC = () => {
                     </>
                   )}
                 </Button>
-                <Button
-                  variant="secondary"
-                  onClick={() => handleWorkspaceAction('stop')}
-                >
-                  Stop Workspace
-                </Button>
+                {canOpen && (
+                  <Button
+                    variant="secondary"
+                    onClick={() => setShowTerminal(true)}
+                  >
+                    Terminal
+                  </Button>
+                )}
+                {canOperate && (
+                  <Button
+                    variant="secondary"
+                    onClick={() => handleWorkspaceAction('stop')}
+                  >
+                    Stop Workspace
+                  </Button>
+                )}
               </>
-            ) : (
+            ) : canOperate && workspace.status !== 'archived' && (
               <Button
                 onClick={() => handleWorkspaceAction('start')}
-                disabled={workspace.status === 'starting'}
+                disabled={workspace.status === 'starting' || isExpired}
+                title={isExpired ? 'Extend the expiry to start the workspace' : undefined}
               >
                 {workspace.status === 'starting' ? 'Starting...' : 'Start Workspace'}
               </Button>
             )}
+            {canOperate && workspace.status !== 'archived' && (
+              <Button
+                variant="secondary"
+                onClick={() => handleWorkspaceAction('restart')}
+                disabled={isExpired}
+              >
+                Restart
+              </Button>
+            )}
             <Button
-              variant="secondary"
-              onClick={() => handleWorkspaceAction('restart')}
+              variant="ghost"
+              onClick={() => setShowCloneModal(true)}
+              disabled={workspace.status === 'pending' || workspace.status === 'deleting'}
             >
-              Restart
+              Clone
             </Button>
           </div>
         </div>
 
+        {workspace.expiresAt && (isExpired || workspace.expiryWarnedAt) && (
+          <div className="mb-6 rounded-md bg-warning-50 dark:bg-gray-800 p-4 border border-warning-500 text-sm text-warning-600">
+            {isExpired
+              ? `This workspace expired ${formatDate(workspace.expiresAt)} and has been stopped. It will be deleted unless its expiry is extended.`
+              : `This workspace expires ${formatRelativeTime(workspace.expiresAt)}. It will be stopped then and deleted some days later.`}
+          </div>
+        )}
+
+        {showCloneModal && (
+          <CloneWorkspaceModal
+            workspace={workspace}
+            onClose={() => setShowCloneModal(false)}
+            onOpenClone={(cloneId) => {
+              setShowCloneModal(false);
+              navigate(`/workspaces/${cloneId}`);
+            }}
+          />
+        )}
+
+        {showTerminal && (
+          <TerminalModal
+            isOpen={true}
+            onClose={() => setShowTerminal(false)}
+            workspaceId={workspace.id}
+            workspaceName={workspace.name}
+          />
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Component Health Status */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-6">
             <Card>
               <CardHeader>
                 <div className="flex items-center justify-between">
@@ -294,6 +383,8 @@ export const WorkspaceDetailsPage: React.FC = () => {
                 </div>
               </CardContent>
             </Card>
+
+            {canOpen && <WorkspaceFilesCard workspace={workspace} />}
           </div>
 
           {/* Workspace Info Sidebar */}
@@ -304,53 +395,55 @@ export const WorkspaceDetailsPage: React.FC = () => {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {/* Password Field */}
-                  <div className="flex items-start space-x-3">
-                    <div className="flex-shrink-0 text-gray-400 dark:text-gray-500">
-                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
-                      </svg>
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-xs text-gray-500 dark:text-gray-400">Password</p>
-                      <div className="flex items-center space-x-2 mt-0.5">
-                        <p className="text-sm font-mono text-gray-900 dark:text-gray-100 break-all">
-                          {showPassword ? workspace.password : '••••••••••••••••••••••••'}
-                        </p>
-                        <button
-                          onClick={() => setShowPassword(!showPassword)}
-                          className="flex-shrink-0 text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300"
-                          title={showPassword ? 'Hide password' : 'Show password'}
-                        >
-                          {showPassword ? (
-                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
-                            </svg>
-                          ) : (
-                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                            </svg>
-                          )}
-                        </button>
-                        <button
-                          onClick={handleCopyPassword}
-                          className="flex-shrink-0 text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300"
-                          title="Copy password"
-                        >
-                          {passwordCopied ? (
-                            <svg className="w-4 h-4 text-success-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                            </svg>
-                          ) : (
-                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                            </svg>
-                          )}
-                        </button>
+                  {/* Password Field (editors and above) */}
+                  {workspace.password && (
+                    <div className="flex items-start space-x-3">
+                      <div className="flex-shrink-0 text-gray-400 dark:text-gray-500">
+                        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+                        </svg>
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Password</p>
+                        <div className="flex items-center space-x-2 mt-0.5">
+                          <p className="text-sm font-mono text-gray-900 dark:text-gray-100 break-all">
+                            {showPassword ? workspace.password : '••••••••••••••••••••••••'}
+                          </p>
+                          <button
+                            onClick={() => setShowPassword(!showPassword)}
+                            className="flex-shrink-0 text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300"
+                            title={showPassword ? 'Hide password' : 'Show password'}
+                          >
+                            {showPassword ? (
+                              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                              </svg>
+                            ) : (
+                              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                              </svg>
+                            )}
+                          </button>
+                          <button
+                            onClick={handleCopyPassword}
+                            className="flex-shrink-0 text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300"
+                            title="Copy password"
+                          >
+                            {passwordCopied ? (
+                              <svg className="w-4 h-4 text-success-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                              </svg>
+                            ) : (
+                              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                              </svg>
+                            )}
+                          </button>
+                        </div>
                       </div>
                     </div>
-                  </div>
+                  )}
                   <InfoItem
                     label="Group"
                     value={workspace.groupName}
@@ -388,10 +481,43 @@ export const WorkspaceDetailsPage: React.FC = () => {
                       </svg>
                     }
                   />
+                  <InfoItem
+                    label="Idle Timeout"
+                    value={
+                      workspace.idleTimeoutMinutes === undefined || workspace.idleTimeoutMinutes === null
+                        ? 'Group default'
+                        : workspace.idleTimeoutMinutes === 0
+                          ? 'Never'
+                          : `${workspace.idleTimeoutMinutes} minutes`
+                    }
+                    icon={
+                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
+                      </svg>
+                    }
+                  />
                 </div>
               </CardContent>
             </Card>
 
+            {canManage && (
+              <>
+                <WorkspaceScheduleCard workspace={workspace} onUpdated={setWorkspace} />
+
+                <WorkspaceSnapshotsCard workspace={workspace} onUpdated={setWorkspace} />
+
+                <EnvironmentVariablesCard workspaceId={workspace.id} />
+
+                <WorkspaceArchiveCard workspace={workspace} onChanged={loadData} />
+
+                <WorkspaceExpiryCard workspace={workspace} onUpdated={setWorkspace} />
+
+                <WorkspaceOwnershipCard workspace={workspace} onChanged={loadData} />
+              </>
+            )}
+
+            <WorkspaceCollaboratorsCard workspace={workspace} onLeft={() => navigate('/workspaces')} />
+
             <Card>
               <CardHeader>
                 <CardTitle>Resources</CardTitle>
@@ -461,6 +587,12 @@ const ComponentHealthCard: React.FC<ComponentHealthCardProps> = ({ component })
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
           </svg>
         );
+      case 'repository':
+        return (
+          <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+          </svg>
+        );
     }
   };
 
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Layout } from '../components/Layout';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/Card';
@@ -8,14 +8,19 @@ import { Modal } from '../components/Modal';
 import { Input, TextArea, Select } from '../components/Input';
 import { Progress } from '../components/Progress';
 import { TerminalModal } from '../components/TerminalModal';
-import { Workspace, Group, CreateWorkspaceRequest, ResourceTier } from '../types';
+import { OperationProgress } from '../components/OperationProgress';
+import { Workspace, Group, CreateWorkspaceRequest, ResourceTier, Operation, WorkspaceTemplate, CollaboratorRole } from '../types';
 import { apiService } from '../services/api';
-import { formatRelativeTime, formatCPU, formatMemory, getErrorMessage } from '../utils';
+import { subscribeToWorkspaceEvents, applyWorkspaceEvent } from '../services/workspaceEvents';
+import { watchOperation } from '../services/operations';
+import { cn, formatDate, formatRelativeTime, formatCPU, formatMemory, getErrorMessage, hasWorkspaceAccess, isWorkspaceExpired } from '../utils';
 import { useAuth } from '../contexts/AuthContext';
 
 export const WorkspacesPage: React.FC = () => {
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { getAccessToken } = useAuth();
+  const getAccessTokenRef = useRef(getAccessToken);
+  getAccessTokenRef.current = getAccessToken;
   const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
   const [groups, setGroups] = useState<Group[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -27,6 +32,14 @@ export const WorkspacesPage: React.FC = () => {
     loadData();
   }, []);
 
+  // Keep workspace cards current from the live status stream
+  useEffect(() => {
+    return subscribeToWorkspaceEvents(
+      () => getAccessTokenRef.current(),
+      (event) => setWorkspaces(prev => prev.map(w => applyWorkspaceEvent(w, event)))
+    );
+  }, []);
+
   const loadData = async () => {
     try {
       setIsLoading(true);
@@ -47,19 +60,36 @@ export const WorkspacesPage: React.FC = () => {
     }
   };
 
-  const handleCreateWorkspace = async (workspace: CreateWorkspaceRequest) => {
+  const refreshWorkspace = async (workspaceId: string) => {
     try {
-      const newWorkspace = await apiService.createWorkspace(workspace);
-      setWorkspaces(prev => [newWorkspace, ...prev]);
-      setShowCreateModal(false);
+      const workspace = await apiService.getWorkspace(workspaceId);
+      setWorkspaces(prev => [workspace, ...prev.filter(w => w.id !== workspaceId)]);
     } catch (error) {
-      throw error;
+      console.error('Failed to load workspace:', error);
+    }
+  };
+
+  const handleCreateWorkspace = async (workspace: CreateWorkspaceRequest): Promise<Operation> => {
+    const operation = await apiService.createWorkspace(workspace);
+    // Show the pending workspace straight away; the live stream moves it along
+    refreshWorkspace(operation.workspaceId);
+    return operation;
+  };
+
+  const handleCreateFinished = (operation: Operation) => {
+    if (operation.status === 'succeeded') {
+      refreshWorkspace(operation.workspaceId);
+      setShowCreateModal(false);
+    } else {
+      // Failed provisioning is rolled back and the workspace record removed
+      setWorkspaces(prev => prev.filter(w => w.id !== operation.workspaceId));
     }
   };
 
   const handleWorkspaceAction = async (workspaceId: string, action: 'start' | 'stop' | 'restart' | 'delete') => {
     try {
       if (action === 'delete') {
+        // Deleted workspaces go to the trash, which has its own page
         await apiService.deleteWorkspace(workspaceId);
         setWorkspaces(prev => prev.filter(w => w.id !== workspaceId));
       } else {
@@ -126,9 +156,14 @@ export const WorkspacesPage: React.FC = () => {
               Manage your development environments and collaborate with your team.
             </p>
           </div>
-          <Button onClick={() => setShowCreateModal(true)}>
-            Create Workspace
-          </Button>
+          <div className="flex space-x-3">
+            <Button variant="ghost" onClick={() => navigate('/trash')}>
+              Trash
+            </Button>
+            <Button onClick={() => setShowCreateModal(true)}>
+              Create Workspace
+            </Button>
+          </div>
         </div>
 
         {/* Workspaces grid */}
@@ -140,7 +175,7 @@ export const WorkspacesPage: React.FC = () => {
                 workspace={workspace}
                 onAction={handleWorkspaceAction}
                 onNavigate={() => navigate(`/workspaces/${workspace.id}`)}
-                onExec={user?.isAdmin ? () => setTerminalWorkspace(workspace) : undefined}
+                onExec={() => setTerminalWorkspace(workspace)}
               />
             ))}
           </div>
@@ -166,6 +201,7 @@ export const WorkspacesPage: React.FC = () => {
           isOpen={showCreateModal}
           onClose={() => setShowCreateModal(false)}
           onSubmit={handleCreateWorkspace}
+          onFinished={handleCreateFinished}
           groups={groups}
         />
 
@@ -194,10 +230,14 @@ const WorkspaceCard: React.FC<WorkspaceCardProps> = ({ workspace, onAction, onNa
   const [isActionLoading, setIsActionLoading] = useState<string | null>(null);
   const [urlCopied, setUrlCopied] = useState(false);
 
+  const canOperate = hasWorkspaceAccess(workspace, CollaboratorRole.OPERATOR);
+  const canOpen = hasWorkspaceAccess(workspace, CollaboratorRole.EDITOR);
+  const canDelete = hasWorkspaceAccess(workspace, 'owner');
+
   const handleAction = async (action: 'start' | 'stop' | 'restart' | 'delete') => {
     if (action === 'delete') {
       // eslint-disable-next-line no-restricted-globals
-      if (!confirm(`Are you sure you want to delete "${workspace.name}"? This action cannot be undone.`)) {
+      if (!confirm(`Move "${workspace.name}" to the trash? It can be restored until it is purged.`)) {
         return;
       }
     }
@@ -286,17 +326,36 @@ const WorkspaceCard: React.FC<WorkspaceCardProps> = ({ workspace, onAction, onNa
             }
           </div>
 
+          {workspace.expiresAt && (
+            <div className={cn(
+              'text-xs',
+              workspace.expiryWarnedAt || isWorkspaceExpired(workspace)
+                ? 'text-warning-600'
+                : 'text-gray-500 dark:text-gray-400'
+            )}>
+              {isWorkspaceExpired(workspace) ? 'Expired' : 'Expires'}: {formatDate(workspace.expiresAt)}
+            </div>
+          )}
+
           {/* Actions */}
+          {workspace.status === 'pending' || workspace.status === 'deleting' ? (
+            <div className="flex items-center pt-4 border-t border-gray-100 dark:border-gray-700 text-sm text-gray-500 dark:text-gray-400">
+              <div className="spinner w-4 h-4 mr-2"></div>
+              {workspace.status === 'pending' ? 'Provisioning...' : 'Deleting...'}
+            </div>
+          ) : (
           <div className="flex space-x-2 pt-4 border-t border-gray-100 dark:border-gray-700">
             {workspace.status === 'running' ? (
               <>
-                <Button
-                  size="sm"
-                  onClick={openWorkspace}
-                  className="flex-1"
-                >
-                  Open Codex
-                </Button>
+                {canOpen && (
+                  <Button
+                    size="sm"
+                    onClick={openWorkspace}
+                    className="flex-1"
+                  >
+                    Open Codex
+                  </Button>
+                )}
                 <Button
                   size="sm"
                   variant="ghost"
@@ -314,16 +373,20 @@ const WorkspaceCard: React.FC<WorkspaceCardProps> = ({ workspace, onAction, onNa
                     </svg>
                   )}
                 </Button>
-                <Button
-                  size="sm"
-                  variant="secondary"
-                  onClick={() => handleAction('stop')}
-                  isLoading={isActionLoading === 'stop'}
-                >
-                  Stop
-                </Button>
+                {canOperate && (
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => handleAction('stop')}
+                    isLoading={isActionLoading === 'stop'}
+                  >
+                    Stop
+                  </Button>
+                )}
               </>
-            ) : (
+            ) : workspace.status === 'archived' ? (
+              <span className="flex-1 text-sm text-gray-500 dark:text-gray-400 self-center">Unarchive to start</span>
+            ) : canOperate ? (
               <Button
                 size="sm"
                 onClick={() => handleAction('start')}
@@ -332,8 +395,11 @@ const WorkspaceCard: React.FC<WorkspaceCardProps> = ({ workspace, onAction, onNa
               >
                 Start
               </Button>
+            ) : (
+              <span className="flex-1 text-sm text-gray-500 dark:text-gray-400 self-center">View only</span>
             )}
             
+            {canOperate && (
             <DropdownMenu
               trigger={
                 <Button size="sm" variant="ghost">
@@ -343,25 +409,27 @@ const WorkspaceCard: React.FC<WorkspaceCardProps> = ({ workspace, onAction, onNa
                 </Button>
               }
               items={[
-                ...(onExec && workspace.status === 'running' ? [{
+                ...(onExec && canOpen && workspace.status === 'running' ? [{
                   label: 'Open Terminal',
                   onClick: onExec,
                   loading: false,
                 }] : []),
-                {
+                ...(workspace.status !== 'archived' ? [{
                   label: 'Restart',
                   onClick: () => handleAction('restart'),
                   loading: isActionLoading === 'restart',
-                },
-                {
+                }] : []),
+                ...(canDelete ? [{
                   label: 'Delete',
                   onClick: () => handleAction('delete'),
                   loading: isActionLoading === 'delete',
                   destructive: true,
-                },
+                }] : []),
               ]}
             />
+            )}
           </div>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -371,7 +439,8 @@ const WorkspaceCard: React.FC<WorkspaceCardProps> = ({ workspace, onAction, onNa
 interface CreateWorkspaceModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (workspace: CreateWorkspaceRequest) => Promise<void>;
+  onSubmit: (workspace: CreateWorkspaceRequest) => Promise<Operation>;
+  onFinished: (operation: Operation) => void;
   groups: Group[];
 }
 
@@ -379,6 +448,7 @@ const CreateWorkspaceModal: React.FC<CreateWorkspaceModalProps> = ({
   isOpen,
   onClose,
   onSubmit,
+  onFinished,
   groups,
 }) => {
   const [formData, setFormData] = useState<CreateWorkspaceRequest>({
@@ -390,6 +460,63 @@ const CreateWorkspaceModal: React.FC<CreateWorkspaceModalProps> = ({
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [operation, setOperation] = useState<Operation | null>(null);
+  const [templates, setTemplates] = useState<WorkspaceTemplate[]>([]);
+  const [repository, setRepository] = useState({ url: '', branch: '', credentialsSecret: '' });
+  const [expiresOn, setExpiresOn] = useState('');
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  const operationId = operation?.id;
+  const selectedGroup = groups.find(group => group.id === formData.groupId);
+  const isRestricted = !!selectedGroup?.allowedTemplateIds?.length;
+  const selectedTemplate = templates.find(template => template.id === formData.templateId);
+
+  // Offer the templates the selected group allows; restricted groups must use one
+  useEffect(() => {
+    setTemplates([]);
+    setFormData(prev => ({ ...prev, templateId: undefined }));
+    if (!formData.groupId) return;
+
+    let cancelled = false;
+    apiService.getTemplates(formData.groupId)
+      .then((groupTemplates) => {
+        if (cancelled) return;
+        setTemplates(groupTemplates);
+        if (isRestricted && groupTemplates.length > 0) {
+          setFormData(prev => ({ ...prev, templateId: groupTemplates[0].id, tier: undefined }));
+        }
+      })
+      .catch(err => console.error('Failed to load templates:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.groupId, isRestricted]);
+
+  // Follow provisioning until it finishes
+  useEffect(() => {
+    if (!operationId) return;
+    return watchOperation(operationId, (updated) => {
+      setOperation(updated);
+      if (updated.status === 'succeeded' || updated.status === 'failed') {
+        onFinishedRef.current(updated);
+      }
+    });
+  }, [operationId]);
+
+  // Start over once the modal has been closed; the form is kept so a failed attempt can be retried
+  useEffect(() => {
+    if (!isOpen) {
+      setOperation(null);
+      setRepository({ url: '', branch: '', credentialsSecret: '' });
+      setFormData({
+        name: '',
+        description: '',
+        groupId: '',
+        tier: ResourceTier.SMALL_TEAM,
+      });
+    }
+  }, [isOpen]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -404,18 +531,27 @@ const CreateWorkspaceModal: React.FC<CreateWorkspaceModalProps> = ({
       return;
     }
 
+    if (isRestricted && !formData.templateId) {
+      setError('This group only allows workspaces created from a template');
+      return;
+    }
+
     setIsSubmitting(true);
     setError(null);
 
     try {
-      await onSubmit(formData);
-      // Reset form
-      setFormData({
-        name: '',
-        description: '',
-        groupId: '',
-        tier: ResourceTier.SMALL_TEAM,
-      });
+      // Leave unset fields to the template
+      setOperation(await onSubmit({
+        ...formData,
+        description: formData.templateId && !formData.description ? undefined : formData.description,
+        repository: repository.url.trim() ? {
+          url: repository.url.trim(),
+          ...(repository.branch.trim() ? { branch: repository.branch.trim() } : {}),
+          ...(repository.credentialsSecret.trim() ? { credentialsSecret: repository.credentialsSecret.trim() } : {}),
+        } : undefined,
+        // Lasts until the end of the chosen day
+        expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+      }));
     } catch (error) {
       setError(getErrorMessage(error));
     } finally {
@@ -428,6 +564,24 @@ const CreateWorkspaceModal: React.FC<CreateWorkspaceModalProps> = ({
     label: group.displayName,
   }));
 
+  const templateOptions = [
+    ...(isRestricted ? [] : [{ value: '', label: 'No template' }]),
+    ...templates.map(template => ({
+      value: template.id,
+      label: template.groupId ? template.name : `${template.name} (platform)`,
+    })),
+  ];
+
+  const handleTemplateChange = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    setFormData(prev => ({
+      ...prev,
+      templateId: template?.id,
+      // The template's resources apply unless a tier is picked
+      tier: template && (template.tier || template.resources) ? undefined : prev.tier || ResourceTier.SMALL_TEAM,
+    }));
+  };
+
   const tierOptions = [
     {
       value: ResourceTier.SINGLE_USER,
@@ -453,6 +607,32 @@ const CreateWorkspaceModal: React.FC<CreateWorkspaceModalProps> = ({
       title="Create New Workspace"
       size="lg"
     >
+      {operation ? (
+        <div className="space-y-6">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {operation.status === 'failed'
+              ? 'The workspace could not be created. Any resources that were created have been cleaned up.'
+              : 'Setting up your workspace. You can close this dialog; provisioning continues in the background.'}
+          </p>
+
+          <OperationProgress operation={operation} />
+
+          {operation.status === 'failed' && operation.error && (
+            <p className="text-sm text-error-600 dark:text-error-400">{operation.error}</p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-6 border-t">
+            {operation.status === 'failed' && (
+              <Button type="button" variant="secondary" onClick={() => setOperation(null)}>
+                Try again
+              </Button>
+            )}
+            <Button type="button" variant={operation.status === 'failed' ? 'primary' : 'secondary'} onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        </div>
+      ) : (
       <form onSubmit={handleSubmit} className="space-y-6">
         {error && (
           <div className="rounded-md bg-error-50 dark:bg-error-900/20 p-4 border border-error-200 dark:border-error-800">
@@ -495,10 +675,51 @@ const CreateWorkspaceModal: React.FC<CreateWorkspaceModalProps> = ({
           required
         />
 
+        {formData.groupId && (templates.length > 0 || isRestricted) && (
+          <div className="space-y-2">
+            <Select
+              label="Template"
+              options={templateOptions}
+              value={formData.templateId || ''}
+              onChange={(e) => handleTemplateChange(e.target.value)}
+            />
+            {isRestricted && templates.length === 0 && (
+              <p className="text-sm text-warning-600 dark:text-warning-400">
+                This group only allows templates, but none are available. Ask a group admin to add one.
+              </p>
+            )}
+            {selectedTemplate && (
+              <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+                {selectedTemplate.description && <p>{selectedTemplate.description}</p>}
+                <p>Image: <span className="font-mono">{selectedTemplate.image}</span></p>
+                {selectedTemplate.resources ? (
+                  <p>
+                    Resources: {selectedTemplate.resources.cpu} CPU, {selectedTemplate.resources.memory} RAM,{' '}
+                    {selectedTemplate.resources.storage} storage
+                  </p>
+                ) : selectedTemplate.tier && (
+                  <p>Resource tier: {selectedTemplate.tier}</p>
+                )}
+                {selectedTemplate.repository && (
+                  <p>Repository: <span className="font-mono">{selectedTemplate.repository.url}</span></p>
+                )}
+                {selectedTemplate.extensions && selectedTemplate.extensions.length > 0 && (
+                  <p>Extensions: {selectedTemplate.extensions.join(', ')}</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="space-y-3">
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
             Resource Tier
           </label>
+          {selectedTemplate && !formData.tier && (selectedTemplate.tier || selectedTemplate.resources) && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Using the template's resources. Pick a tier to override them.
+            </p>
+          )}
           <div className="space-y-3">
             {tierOptions.map((tier) => (
               <label
@@ -535,6 +756,51 @@ const CreateWorkspaceModal: React.FC<CreateWorkspaceModalProps> = ({
           </div>
         </div>
 
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Git Repository (optional)
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {selectedTemplate?.repository && !repository.url
+                ? `The template clones ${selectedTemplate.repository.url}. Enter a URL to clone something else.`
+                : 'Cloned into the workspace the first time it starts.'}
+            </p>
+          </div>
+          <Input
+            placeholder="https://github.com/org/repo.git"
+            value={repository.url}
+            onChange={(e) => setRepository(prev => ({ ...prev, url: e.target.value }))}
+          />
+          {repository.url && (
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                label="Branch"
+                placeholder="Default branch"
+                value={repository.branch}
+                onChange={(e) => setRepository(prev => ({ ...prev, branch: e.target.value }))}
+              />
+              <Input
+                label="Credentials secret"
+                placeholder="For private repositories"
+                helpText="basic-auth or ssh-auth Secret in the group's namespace, labeled for repository use by a group admin"
+                value={repository.credentialsSecret}
+                onChange={(e) => setRepository(prev => ({ ...prev, credentialsSecret: e.target.value }))}
+              />
+            </div>
+          )}
+        </div>
+
+        <Input
+          type="date"
+          label="Expires on (optional)"
+          value={expiresOn}
+          onChange={(e) => setExpiresOn(e.target.value)}
+          helpText={selectedGroup?.maxLifetimeDays
+            ? `Workspaces in this group expire within ${selectedGroup.maxLifetimeDays} days, and after that long if left empty.`
+            : 'Stopped on this date and deleted some days later.'}
+        />
+
         <div className="flex justify-end space-x-3 pt-6 border-t">
           <Button type="button" variant="secondary" onClick={onClose}>
             Cancel
@@ -544,6 +810,7 @@ const CreateWorkspaceModal: React.FC<CreateWorkspaceModalProps> = ({
           </Button>
         </div>
       </form>
+      )}
     </Modal>
   );
 };
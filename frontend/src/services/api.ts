@@ -4,18 +4,68 @@ import {
   Group,
   Workspace,
   CreateWorkspaceRequest,
+  CloneWorkspaceRequest,
+  ArchiveMode,
   WorkspaceAction,
   DashboardStats,
   ResourceUsage,
   PaginatedResponse,
   AuditLog,
+  ExecRecording,
+  ExecSession,
+  PersonalAccessToken,
+  CreatedPersonalAccessToken,
+  TokenScope,
   ApiError,
+  IdentityProvider,
+  DevUser,
   ComponentHealthStatus,
-  GroupRole
+  GroupRole,
+  GroupMappingRule,
+  GroupMappingSource,
+  WorkspaceSchedule,
+  WorkspaceSnapshot,
+  WorkspaceSnapshotPolicy,
+  WorkspaceTemplate,
+  EnvironmentVariable,
+  WorkspaceEnvironment,
+  WorkspaceCollaborator,
+  CollaboratorRole,
+  Operation,
+  WorkspaceFileListing,
+  FileArchiveFormat
 } from '../types';
 
+// Token from development sign-in (POST /auth/login), kept for the browser session
+const DEV_TOKEN_KEY = 'auth.devToken';
+
+export const getDevToken = (): string | null => {
+  try {
+    const stored = sessionStorage.getItem(DEV_TOKEN_KEY);
+    if (stored) {
+      const { token, expiresAt } = JSON.parse(stored);
+      if (Date.now() < expiresAt) {
+        return token;
+      }
+      sessionStorage.removeItem(DEV_TOKEN_KEY);
+    }
+  } catch (error) {
+    console.warn('Failed to read development token from storage:', error);
+  }
+  return null;
+};
+
+export const clearDevToken = (): void => {
+  sessionStorage.removeItem(DEV_TOKEN_KEY);
+};
+
 // Helper to get ID token from OIDC storage
 const getAccessToken = (): string | null => {
+  const devToken = getDevToken();
+  if (devToken) {
+    return devToken;
+  }
+
   try {
     // react-oidc-context stores the user in session storage with a key starting with 'oidc.user:'
     const keys = Object.keys(sessionStorage).filter(key => key.startsWith('oidc.user:'));
@@ -54,20 +104,30 @@ class ApiService {
     this.client.interceptors.response.use(
       (response) => response,
       async (error: AxiosError) => {
-        if (error.response?.status === 401) {
+        if (error.response?.status === 401 && error.config?.url !== '/auth/login') {
           // Token expired or invalid, redirect to login
+          clearDevToken();
           window.location.href = '/login';
         }
-        return Promise.reject(this.handleApiError(error));
+        return Promise.reject(await this.handleApiError(error));
       }
     );
   }
 
-  private handleApiError(error: AxiosError): ApiError {
+  private async handleApiError(error: AxiosError): Promise<ApiError> {
+    // Errors of blob requests (file downloads) arrive as a blob too
+    if (error.response?.data instanceof Blob) {
+      try {
+        error.response.data = JSON.parse(await error.response.data.text());
+      } catch {
+        // Not JSON; fall back to the generic message
+      }
+    }
+
     if (error.response?.data && typeof error.response.data === 'object') {
       const data = error.response.data as any;
       return {
-        message: data.message || 'An error occurred',
+        message: data.message || data.error || 'An error occurred',
         code: data.code,
         details: data.details,
       };
@@ -83,6 +143,24 @@ class ApiService {
     return response.data.user;
   }
 
+  // Development sign-in (only while the backend has it enabled)
+  async getDevUsers(): Promise<DevUser[]> {
+    const response = await this.client.get('/auth/dev-users');
+    return response.data.users;
+  }
+
+  async devLogin(email: string): Promise<User> {
+    const response = await this.client.post('/auth/login', { email });
+    const { token, expiresIn, user } = response.data;
+    sessionStorage.setItem(DEV_TOKEN_KEY, JSON.stringify({ token, expiresAt: Date.now() + expiresIn * 1000 }));
+    return user;
+  }
+
+  async getIdentityProviders(): Promise<IdentityProvider[]> {
+    const response = await this.client.get('/auth/providers');
+    return response.data.providers;
+  }
+
   async updateProfile(updates: { name?: string; email?: string }): Promise<User> {
     const response = await this.client.patch('/auth/profile', updates);
     return response.data.user;
@@ -96,6 +174,25 @@ class ApiService {
     return response.data;
   }
 
+  // Personal access tokens
+  async listPersonalAccessTokens(): Promise<PersonalAccessToken[]> {
+    const response = await this.client.get('/tokens');
+    return response.data;
+  }
+
+  async createPersonalAccessToken(data: {
+    name: string;
+    scopes: TokenScope[];
+    expiresInDays: number;
+  }): Promise<CreatedPersonalAccessToken> {
+    const response = await this.client.post('/tokens', data);
+    return response.data;
+  }
+
+  async revokePersonalAccessToken(tokenId: string): Promise<void> {
+    await this.client.delete(`/tokens/${tokenId}`);
+  }
+
   // Dashboard
   async getDashboardStats(): Promise<DashboardStats> {
     const response = await this.client.get('/dashboard/stats');
@@ -123,10 +220,41 @@ class ApiService {
     return response.data;
   }
 
+  async updateGroupIdlePolicy(
+    groupId: string,
+    policy: { idleTimeoutMinutes?: number | null; maxIdleTimeoutMinutes?: number | null }
+  ): Promise<Group> {
+    const response = await this.client.patch(`/groups/${groupId}/idle-policy`, policy);
+    return response.data;
+  }
+
+  // null lifts the limit
+  async updateGroupLifetimePolicy(groupId: string, maxLifetimeDays: number | null): Promise<Group> {
+    const response = await this.client.patch(`/groups/${groupId}/lifetime-policy`, { maxLifetimeDays });
+    return response.data;
+  }
+
+  // An empty list or null lifts the restriction
+  async setGroupTemplatePolicy(groupId: string, allowedTemplateIds: string[] | null): Promise<Group> {
+    const response = await this.client.put(`/groups/${groupId}/template-policy`, { allowedTemplateIds });
+    return response.data;
+  }
+
+  // Groups go to the trash; their workspaces must be in the trash already
   async deleteGroup(groupId: string): Promise<void> {
     await this.client.delete(`/groups/${groupId}`);
   }
 
+  async getTrashedGroups(): Promise<Group[]> {
+    const response = await this.client.get('/groups/trash');
+    return response.data;
+  }
+
+  async restoreGroup(groupId: string): Promise<Group> {
+    const response = await this.client.post(`/groups/${groupId}/restore`);
+    return response.data;
+  }
+
   async getGroupMembers(groupId: string): Promise<User[]> {
     const response = await this.client.get(`/groups/${groupId}/members`);
     return response.data;
@@ -145,6 +273,53 @@ class ApiService {
     return response.data;
   }
 
+  async getGroupEnvironment(groupId: string): Promise<EnvironmentVariable[]> {
+    const response = await this.client.get(`/groups/${groupId}/environment`);
+    return response.data.variables;
+  }
+
+  // Running workspaces in the group restart to pick up the change
+  async setGroupEnvironmentVariable(groupId: string, name: string, value: string, secret: boolean): Promise<EnvironmentVariable> {
+    const response = await this.client.put(`/groups/${groupId}/environment/${name}`, { value, secret });
+    return response.data;
+  }
+
+  async removeGroupEnvironmentVariable(groupId: string, name: string): Promise<void> {
+    await this.client.delete(`/groups/${groupId}/environment/${name}`);
+  }
+
+  // Templates
+  // With a groupId, only the templates a new workspace in that group may use
+  async getTemplates(groupId?: string): Promise<WorkspaceTemplate[]> {
+    const params = groupId ? { groupId } : {};
+    const response = await this.client.get('/templates', { params });
+    return response.data;
+  }
+
+  async getTemplate(templateId: string): Promise<WorkspaceTemplate> {
+    const response = await this.client.get(`/templates/${templateId}`);
+    return response.data;
+  }
+
+  async createTemplate(
+    template: Omit<WorkspaceTemplate, 'id' | 'createdBy' | 'createdAt' | 'updatedAt'>
+  ): Promise<WorkspaceTemplate> {
+    const response = await this.client.post('/templates', template);
+    return response.data;
+  }
+
+  async updateTemplate(
+    templateId: string,
+    updates: Partial<Omit<WorkspaceTemplate, 'id' | 'groupId' | 'createdBy' | 'createdAt' | 'updatedAt'>>
+  ): Promise<WorkspaceTemplate> {
+    const response = await this.client.patch(`/templates/${templateId}`, updates);
+    return response.data;
+  }
+
+  async deleteTemplate(templateId: string): Promise<void> {
+    await this.client.delete(`/templates/${templateId}`);
+  }
+
   // Workspaces
   async getWorkspaces(groupId?: string): Promise<Workspace[]> {
     const params = groupId ? { groupId } : {};
@@ -157,18 +332,141 @@ class ApiService {
     return response.data;
   }
 
-  async createWorkspace(workspace: CreateWorkspaceRequest): Promise<Workspace> {
+  // Provisioning runs in the background; poll the returned operation with getOperation
+  async createWorkspace(workspace: CreateWorkspaceRequest): Promise<Operation> {
     const response = await this.client.post('/workspaces', workspace);
     return response.data;
   }
 
+  async cloneWorkspace(workspaceId: string, request: CloneWorkspaceRequest): Promise<Operation> {
+    const response = await this.client.post(`/workspaces/${workspaceId}/clone`, request);
+    return response.data;
+  }
+
   async updateWorkspace(workspaceId: string, updates: Partial<Workspace>): Promise<Workspace> {
     const response = await this.client.patch(`/workspaces/${workspaceId}`, updates);
     return response.data;
   }
 
-  async deleteWorkspace(workspaceId: string): Promise<void> {
-    await this.client.delete(`/workspaces/${workspaceId}`);
+  async setWorkspaceSchedule(workspaceId: string, schedule: WorkspaceSchedule): Promise<Workspace> {
+    const response = await this.client.put(`/workspaces/${workspaceId}/schedule`, schedule);
+    return response.data;
+  }
+
+  async removeWorkspaceSchedule(workspaceId: string): Promise<Workspace> {
+    const response = await this.client.delete(`/workspaces/${workspaceId}/schedule`);
+    return response.data;
+  }
+
+  async getWorkspaceSnapshots(workspaceId: string): Promise<WorkspaceSnapshot[]> {
+    const response = await this.client.get(`/workspaces/${workspaceId}/snapshots`);
+    return response.data;
+  }
+
+  async createWorkspaceSnapshot(workspaceId: string, description?: string): Promise<WorkspaceSnapshot> {
+    const response = await this.client.post(`/workspaces/${workspaceId}/snapshots`, { description });
+    return response.data;
+  }
+
+  async deleteWorkspaceSnapshot(workspaceId: string, snapshotName: string): Promise<void> {
+    await this.client.delete(`/workspaces/${workspaceId}/snapshots/${snapshotName}`);
+  }
+
+  // The restore runs in the background; poll the returned operation with getOperation
+  async restoreWorkspaceSnapshot(workspaceId: string, snapshotName: string): Promise<Operation> {
+    const response = await this.client.post(`/workspaces/${workspaceId}/snapshots/${snapshotName}/restore`);
+    return response.data;
+  }
+
+  async setWorkspaceSnapshotPolicy(workspaceId: string, policy: WorkspaceSnapshotPolicy): Promise<Workspace> {
+    const response = await this.client.put(`/workspaces/${workspaceId}/snapshot-policy`, policy);
+    return response.data;
+  }
+
+  async removeWorkspaceSnapshotPolicy(workspaceId: string): Promise<Workspace> {
+    const response = await this.client.delete(`/workspaces/${workspaceId}/snapshot-policy`);
+    return response.data;
+  }
+
+  async getWorkspaceEnvironment(workspaceId: string): Promise<WorkspaceEnvironment> {
+    const response = await this.client.get(`/workspaces/${workspaceId}/environment`);
+    return response.data;
+  }
+
+  // A running workspace restarts to pick up the change
+  async setWorkspaceEnvironmentVariable(workspaceId: string, name: string, value: string, secret: boolean): Promise<EnvironmentVariable> {
+    const response = await this.client.put(`/workspaces/${workspaceId}/environment/${name}`, { value, secret });
+    return response.data;
+  }
+
+  async removeWorkspaceEnvironmentVariable(workspaceId: string, name: string): Promise<void> {
+    await this.client.delete(`/workspaces/${workspaceId}/environment/${name}`);
+  }
+
+  async getWorkspaceCollaborators(workspaceId: string): Promise<WorkspaceCollaborator[]> {
+    const response = await this.client.get(`/workspaces/${workspaceId}/collaborators`);
+    return response.data;
+  }
+
+  // Sharing with someone who already has access changes their role
+  async addWorkspaceCollaborator(workspaceId: string, email: string, role: CollaboratorRole): Promise<WorkspaceCollaborator> {
+    const response = await this.client.post(`/workspaces/${workspaceId}/collaborators`, { email, role });
+    return response.data;
+  }
+
+  async updateWorkspaceCollaborator(workspaceId: string, userId: string, role: CollaboratorRole): Promise<WorkspaceCollaborator> {
+    const response = await this.client.put(`/workspaces/${workspaceId}/collaborators/${userId}`, { role });
+    return response.data;
+  }
+
+  async removeWorkspaceCollaborator(workspaceId: string, userId: string): Promise<void> {
+    await this.client.delete(`/workspaces/${workspaceId}/collaborators/${userId}`);
+  }
+
+  async transferWorkspace(workspaceId: string, email: string): Promise<void> {
+    await this.client.post(`/workspaces/${workspaceId}/transfer`, { email });
+  }
+
+  // The move runs in the background; poll the returned operation with getOperation
+  async moveWorkspace(workspaceId: string, groupId: string): Promise<Operation> {
+    const response = await this.client.post(`/workspaces/${workspaceId}/move`, { groupId });
+    return response.data;
+  }
+
+  async archiveWorkspace(workspaceId: string, mode: ArchiveMode): Promise<Operation> {
+    const response = await this.client.post(`/workspaces/${workspaceId}/archive`, { mode });
+    return response.data;
+  }
+
+  async unarchiveWorkspace(workspaceId: string): Promise<Operation> {
+    const response = await this.client.post(`/workspaces/${workspaceId}/unarchive`);
+    return response.data;
+  }
+
+  // Moves the workspace to the trash; purgeWorkspace deletes it for good
+  async deleteWorkspace(workspaceId: string): Promise<Workspace> {
+    const response = await this.client.delete(`/workspaces/${workspaceId}`);
+    return response.data;
+  }
+
+  async getTrashedWorkspaces(groupId?: string): Promise<Workspace[]> {
+    const response = await this.client.get('/workspaces/trash', { params: groupId ? { groupId } : undefined });
+    return response.data;
+  }
+
+  async restoreWorkspace(workspaceId: string): Promise<Workspace> {
+    const response = await this.client.post(`/workspaces/${workspaceId}/restore`);
+    return response.data;
+  }
+
+  async purgeWorkspace(workspaceId: string): Promise<Operation> {
+    const response = await this.client.post(`/workspaces/${workspaceId}/purge`);
+    return response.data;
+  }
+
+  async getOperation(operationId: string): Promise<Operation> {
+    const response = await this.client.get(`/operations/${operationId}`);
+    return response.data;
   }
 
   async performWorkspaceAction(action: WorkspaceAction): Promise<Workspace> {
@@ -188,6 +486,30 @@ class ApiService {
     return response.data;
   }
 
+  async listWorkspaceFiles(workspaceId: string, path: string = ''): Promise<WorkspaceFileListing> {
+    const response = await this.client.get(`/workspaces/${workspaceId}/files`, { params: { path } });
+    return response.data;
+  }
+
+  // Transfers can take longer than the default timeout
+  async downloadWorkspaceFile(workspaceId: string, path: string, format?: FileArchiveFormat): Promise<Blob> {
+    const response = await this.client.get(`/workspaces/${workspaceId}/files/download`, {
+      params: { path, format },
+      responseType: 'blob',
+      timeout: 0,
+    });
+    return response.data;
+  }
+
+  async uploadWorkspaceFile(workspaceId: string, path: string, file: Blob, overwrite: boolean = false): Promise<{ path: string; size: number }> {
+    const response = await this.client.put(`/workspaces/${workspaceId}/files`, file, {
+      params: { path, overwrite },
+      headers: { 'Content-Type': 'application/octet-stream' },
+      timeout: 0,
+    });
+    return response.data;
+  }
+
   async getWorkspaceLogs(workspaceId: string, lines: number = 100): Promise<string> {
     const response = await this.client.get(`/workspaces/${workspaceId}/logs`, {
       params: { lines },
@@ -283,6 +605,26 @@ class ApiService {
     return response.data;
   }
 
+  // Group mapping rules (admin only)
+  async listGroupMappings(): Promise<GroupMappingRule[]> {
+    const response = await this.client.get('/admin/group-mappings');
+    return response.data;
+  }
+
+  async createGroupMapping(data: {
+    source: GroupMappingSource;
+    value: string;
+    groupId: string;
+    role: GroupRole;
+  }): Promise<GroupMappingRule> {
+    const response = await this.client.post('/admin/group-mappings', data);
+    return response.data;
+  }
+
+  async deleteGroupMapping(ruleId: string): Promise<void> {
+    await this.client.delete(`/admin/group-mappings/${ruleId}`);
+  }
+
   // Audit logs (admin only)
   async getAuditLogs(
     startDate?: string,
@@ -295,15 +637,41 @@ class ApiService {
     return response.data;
   }
 
+  // The caller's open terminal sessions in a workspace
+  async listExecSessions(workspaceId: string): Promise<ExecSession[]> {
+    const response = await this.client.get(`/workspaces/${workspaceId}/exec-sessions`);
+    return response.data;
+  }
+
+  async endExecSession(workspaceId: string, sessionId: string): Promise<void> {
+    await this.client.delete(`/workspaces/${workspaceId}/exec-sessions/${sessionId}`);
+  }
+
+  // Exec session recordings (admin only)
+  async listExecRecordings(workspaceId?: string, nextToken?: string): Promise<PaginatedResponse<ExecRecording>> {
+    const response = await this.client.get('/admin/exec-recordings', { params: { workspaceId, nextToken } });
+    return response.data;
+  }
+
+  // The recording as an asciicast v2 file
+  async getExecRecordingCast(recordingId: string): Promise<string> {
+    const response = await this.client.get(`/admin/exec-recordings/${recordingId}/cast`, {
+      responseType: 'text',
+      timeout: 0,
+    });
+    return response.data;
+  }
+
   // Admin: Get all workspaces across all users
   async adminGetAllWorkspaces(): Promise<any[]> {
     const response = await this.client.get('/admin/workspaces');
     return response.data;
   }
 
-  // Admin: Delete any workspace (admin override)
-  async adminDeleteWorkspace(workspaceId: string): Promise<void> {
-    await this.client.delete(`/admin/workspaces/${workspaceId}`);
+  // Admin: Delete any workspace (admin override); it goes to the trash
+  async adminDeleteWorkspace(workspaceId: string): Promise<Workspace> {
+    const response = await this.client.delete(`/admin/workspaces/${workspaceId}`);
+    return response.data;
   }
 
   // Admin: Get system settings
@@ -0,0 +1,43 @@
+import { Operation } from '../types';
+import { apiService } from './api';
+
+const POLL_INTERVAL_MS = 1500;
+
+export const isOperationFinished = (operation: Operation): boolean =>
+  operation.status === 'succeeded' || operation.status === 'failed';
+
+/**
+ * Poll an operation until it succeeds or fails, reporting every update.
+ * Polling stops early when the returned function is called.
+ */
+export const watchOperation = (
+  operationId: string,
+  onUpdate: (operation: Operation) => void,
+  onError?: (error: unknown) => void
+): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const poll = async () => {
+    try {
+      const operation = await apiService.getOperation(operationId);
+      if (stopped) return;
+      onUpdate(operation);
+      if (isOperationFinished(operation)) return;
+    } catch (error) {
+      if (stopped) return;
+      onError?.(error);
+    }
+    timer = setTimeout(poll, POLL_INTERVAL_MS);
+  };
+
+  poll();
+
+  return () => {
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+};
@@ -0,0 +1,100 @@
+import { Workspace, WorkspaceEvent } from '../types';
+
+const API_BASE_URL = process.env.REACT_APP_API_BASE_URL || 'http://localhost:3001/api';
+
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Subscribe to the live workspace status stream. Reconnects with backoff until
+ * the returned function is called.
+ */
+export const subscribeToWorkspaceEvents = (
+  getToken: () => string | undefined | null,
+  onEvent: (event: WorkspaceEvent) => void
+): (() => void) => {
+  let ws: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectDelay = MIN_RECONNECT_DELAY_MS;
+  let closed = false;
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer) return;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  };
+
+  const connect = () => {
+    const token = getToken();
+    if (!token) {
+      scheduleReconnect();
+      return;
+    }
+
+    const wsProtocol = API_BASE_URL.startsWith('https') ? 'wss' : 'ws';
+    const wsBaseUrl = API_BASE_URL.replace(/^https?/, wsProtocol);
+    // Pass token as query parameter since WebSocket doesn't support Authorization header
+    ws = new WebSocket(`${wsBaseUrl}/workspaces/events?token=${encodeURIComponent(token)}`);
+
+    ws.onopen = () => {
+      reconnectDelay = MIN_RECONNECT_DELAY_MS;
+    };
+
+    ws.onmessage = (message) => {
+      try {
+        const event = JSON.parse(message.data);
+        if (event.type === 'status' || event.type === 'pod' || event.type === 'metrics' || event.type === 'expiry') {
+          onEvent(event as WorkspaceEvent);
+        }
+      } catch (error) {
+        console.warn('Ignoring malformed workspace event:', error);
+      }
+    };
+
+    ws.onclose = () => {
+      ws = null;
+      scheduleReconnect();
+    };
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+    }
+    if (ws) {
+      ws.onclose = null;
+      ws.close();
+    }
+  };
+};
+
+/**
+ * Apply a status, metrics or expiry event to a workspace. Pod events don't
+ * change the workspace record and are returned unchanged.
+ */
+export const applyWorkspaceEvent = (workspace: Workspace, event: WorkspaceEvent): Workspace => {
+  if (workspace.id !== event.workspaceId) return workspace;
+
+  switch (event.type) {
+    case 'status':
+      return {
+        ...workspace,
+        status: event.status,
+        replicas: event.replicas,
+        image: event.image || workspace.image,
+        lastAccessedAt: event.lastAccessedAt || workspace.lastAccessedAt,
+      };
+    case 'metrics':
+      return { ...workspace, usage: event.usage };
+    case 'expiry':
+      return { ...workspace, expiresAt: event.expiresAt, expiryWarnedAt: event.timestamp };
+    default:
+      return workspace;
+  }
+};
@@ -6,6 +6,7 @@ export enum GroupRole {
 export interface GroupMembership {
   groupId: string;
   role: GroupRole;
+  managed?: boolean; // Granted by a group mapping rule
 }
 
 export interface User {
@@ -16,6 +17,7 @@ export interface User {
   groups: string[];
   groupMemberships?: GroupMembership[];
   isAdmin: boolean;
+  disabled?: boolean;
 }
 
 export interface Group {
@@ -26,6 +28,11 @@ export interface Group {
   description?: string;
   memberCount: number;
   resourceQuota: ResourceQuota;
+  idleTimeoutMinutes?: number;
+  maxIdleTimeoutMinutes?: number;
+  maxLifetimeDays?: number | null; // Longest a workspace may live before it expires
+  allowedTemplateIds?: string[] | null;
+  trash?: TrashRecord | null; // Set while the group is in the trash
   createdAt: string;
 }
 
@@ -77,7 +84,7 @@ export interface Workspace {
   updatedAt: string;
   lastAccessedAt?: string;
   url?: string;
-  password: string;
+  password?: string; // Only returned to editors and above
   resources: {
     cpu: string;
     memory: string;
@@ -86,9 +93,222 @@ export interface Workspace {
   usage?: ResourceUsage;
   image: string;
   replicas: number;
+  idleTimeoutMinutes?: number | null;
+  schedule?: WorkspaceSchedule | null;
+  snapshotPolicy?: WorkspaceSnapshotPolicy | null;
+  clonedFrom?: string;
+  templateId?: string;
+  env?: Record<string, string>;
+  extensions?: string[];
+  repository?: WorkspaceRepository;
+  archive?: WorkspaceArchive | null; // Set while the workspace is archived
+  trash?: TrashRecord | null; // Set while the workspace is in the trash
+  expiresAt?: string | null; // Stopped at this time, deleted after a grace period
+  expiryWarnedAt?: string | null; // When the owner was warned of the coming expiry
+  access?: WorkspaceAccess; // What the current user may do with the workspace
 }
 
-export type WorkspaceStatus = 'running' | 'stopped' | 'starting' | 'stopping' | 'error' | 'pending';
+// 'volume' keeps the PVC; 'snapshot' keeps only a snapshot of it
+export type ArchiveMode = 'volume' | 'snapshot';
+
+// Deleted workspaces and groups are purged for good once purgeAt has passed
+export interface TrashRecord {
+  deletedAt: string;
+  deletedBy: string;
+  purgeAt: string;
+}
+
+export interface WorkspaceArchive {
+  mode: ArchiveMode;
+  snapshotName?: string;
+  archivedAt: string;
+  archivedBy: string;
+}
+
+// An entry of a directory on the workspace's project volume
+export interface WorkspaceFileEntry {
+  name: string;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number;
+  modifiedAt: string;
+}
+
+export interface WorkspaceFileListing {
+  path: string; // Relative to the project volume, '' for its root
+  entries: WorkspaceFileEntry[];
+}
+
+export type FileArchiveFormat = 'tar' | 'zip';
+
+// Roles a workspace can be shared with; each includes the ones before it
+export enum CollaboratorRole {
+  VIEWER = 'viewer',
+  OPERATOR = 'operator',
+  EDITOR = 'editor',
+}
+
+// 'owner' covers the owner, group admins and platform admins
+export type WorkspaceAccess = CollaboratorRole | 'owner';
+
+export interface WorkspaceCollaborator {
+  workspaceId: string;
+  userId: string;
+  email: string;
+  name?: string;
+  role: CollaboratorRole;
+  addedBy: string;
+  addedAt: string;
+}
+
+export interface WorkspaceRepository {
+  url: string;
+  branch?: string;
+  credentialsSecret?: string; // basic-auth or ssh-auth Secret in the group's namespace
+}
+
+export interface WorkspaceTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  groupId?: string | null; // null for platform-wide templates
+  image: string;
+  tier?: ResourceTier | null;
+  resources?: {
+    cpu: string;
+    memory: string;
+    storage: string;
+  } | null; // Takes precedence over the tier
+  env?: Record<string, string>;
+  repository?: WorkspaceRepository | null;
+  extensions?: string[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkspaceSchedule {
+  enabled: boolean;
+  timezone: string;
+  startCron?: string;
+  stopCron?: string;
+}
+
+export interface WorkspaceSnapshotPolicy {
+  enabled: boolean;
+  timezone: string;
+  cron: string;
+  retain: number;
+}
+
+export interface WorkspaceSnapshot {
+  name: string;
+  workspaceId: string;
+  description?: string;
+  trigger: 'manual' | 'scheduled';
+  readyToUse: boolean;
+  restoreSize?: string;
+  error?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+// Set on a workspace or on every workspace of a group; secret values are never returned
+export interface EnvironmentVariable {
+  name: string;
+  secret: boolean;
+  value?: string;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface WorkspaceEnvironment {
+  variables: EnvironmentVariable[];
+  groupVariables: EnvironmentVariable[];
+}
+
+export type WorkspaceStatus = 'running' | 'stopped' | 'starting' | 'stopping' | 'error' | 'pending' | 'deleting' | 'archived' | 'trashed';
+
+// Asynchronous provisioning (see /api/operations/:id)
+export type OperationStatus = 'pending' | 'running' | 'rolling_back' | 'succeeded' | 'failed';
+
+export type OperationStepStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped' | 'rolled_back';
+
+export interface OperationStep {
+  name: string;
+  description: string;
+  status: OperationStepStatus;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+}
+
+export interface Operation {
+  id: string;
+  type:
+    | 'workspace.create'
+    | 'workspace.clone'
+    | 'workspace.delete'
+    | 'workspace.restore'
+    | 'workspace.move'
+    | 'workspace.archive'
+    | 'workspace.unarchive';
+  status: OperationStatus;
+  resource: string;
+  workspaceId: string;
+  groupId: string;
+  userId: string;
+  steps: OperationStep[];
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+// Live status stream events (see /api/workspaces/events)
+interface WorkspaceEventBase {
+  workspaceId: string;
+  groupId: string;
+  userId: string;
+  timestamp: string;
+}
+
+export interface WorkspaceStatusEvent extends WorkspaceEventBase {
+  type: 'status';
+  status: WorkspaceStatus;
+  replicas: number;
+  image?: string;
+  lastAccessedAt?: string;
+}
+
+export interface WorkspacePodEvent extends WorkspaceEventBase {
+  type: 'pod';
+  podName: string;
+  phase: string;
+  ready: boolean;
+  restartCount: number;
+  restarted: boolean;
+  reason?: string;
+}
+
+export interface WorkspaceMetricsEvent extends WorkspaceEventBase {
+  type: 'metrics';
+  usage: ResourceUsage;
+}
+
+// Sent once, a few days before the workspace expires
+export interface WorkspaceExpiryEvent extends WorkspaceEventBase {
+  type: 'expiry';
+  expiresAt: string;
+  deleteAt: string;
+}
+
+export type WorkspaceEvent = WorkspaceStatusEvent | WorkspacePodEvent | WorkspaceMetricsEvent | WorkspaceExpiryEvent;
+
+export interface CloneWorkspaceRequest {
+  name: string;
+  groupId?: string;
+  copyVolume?: boolean;
+}
 
 export interface CreateWorkspaceRequest {
   name: string;
@@ -101,6 +321,9 @@ export interface CreateWorkspaceRequest {
     memory: string;
     storage: string;
   };
+  templateId?: string;
+  repository?: WorkspaceRepository;
+  expiresAt?: string;
 }
 
 export interface WorkspaceAction {
@@ -117,6 +340,23 @@ export interface AuthConfig {
   cognitoDomain?: string; // for logout (e.g., 'your-domain.auth.region.amazoncognito.com')
 }
 
+// A seeded user offered on the login page while development sign-in is enabled
+export interface DevUser {
+  email: string;
+  name: string;
+  description: string;
+  isAdmin: boolean;
+}
+
+// A further OIDC identity provider configured on the backend, offered on the login page
+export interface IdentityProvider {
+  id: string;
+  name: string;
+  issuer: string; // Used as the OIDC authority
+  clientId: string;
+  scope: string;
+}
+
 export interface ApiError {
   message: string;
   code?: string;
@@ -137,6 +377,64 @@ export interface DashboardStats {
   resourceUsage: ResourceUsage;
 }
 
+// An open terminal session: a shell in the workspace pod a terminal can reattach to
+export interface ExecSession {
+  id: string;
+  name: string;
+  workspaceId: string;
+  createdAt: string;
+  lastActivityAt: string;
+  attached: boolean;
+}
+
+// A recorded exec terminal session (asciicast v2)
+export interface ExecRecording {
+  id: string;
+  workspaceId: string;
+  workspaceName: string;
+  userId: string;
+  username: string;
+  podName: string;
+  namespace: string;
+  cols: number;
+  rows: number;
+  startedAt: string;
+  endedAt?: string;
+  durationMs?: number;
+  chunkCount: number;
+  bytes: number;
+  truncated?: boolean;
+}
+
+export type GroupMappingSource = 'idpGroup' | 'emailDomain';
+
+// Grants group membership at login to users with a matching IdP group or email domain
+export interface GroupMappingRule {
+  id: string;
+  source: GroupMappingSource;
+  value: string;
+  groupId: string;
+  role: GroupRole;
+  createdAt: string;
+  createdBy: string;
+}
+
+export type TokenScope = 'workspaces:read' | 'workspaces:control' | 'workspaces:write' | 'workspaces:exec';
+
+// A personal access token for scripts and CI; the secret is only shown when created
+export interface PersonalAccessToken {
+  id: string;
+  name: string;
+  scopes: TokenScope[];
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+}
+
+export interface CreatedPersonalAccessToken extends PersonalAccessToken {
+  token: string;
+}
+
 export interface AuditLog {
   id: string;
   userId: string;
@@ -165,7 +463,7 @@ export interface UserPreferences {
 
 export interface ComponentHealthStatus {
   name: string;
-  type: 'deployment' | 'statefulset' | 'service' | 'pvc' | 'pod';
+  type: 'deployment' | 'statefulset' | 'service' | 'pvc' | 'pod' | 'repository';
   healthy: boolean;
   status: string;
   reason: string;
@@ -175,6 +473,8 @@ export interface ComponentHealthStatus {
 export interface SystemSettings {
   id: string;
   defaultWorkspaceImage: string;
+  autoArchiveAfterDays?: number; // Archive stopped workspaces not accessed for this many days; 0 or unset = never
+  autoArchiveMode?: ArchiveMode;
   updatedAt: string;
   updatedBy: string;
 }
@@ -1,5 +1,5 @@
 import { format, formatDistanceToNow, parseISO } from 'date-fns';
-import { WorkspaceStatus } from '../types';
+import { Workspace, WorkspaceAccess, WorkspaceStatus } from '../types';
 
 // Date formatting
 export function formatDate(date: string | Date): string {
@@ -88,6 +88,7 @@ export function getStatusColor(status: WorkspaceStatus): string {
       return 'text-gray-500';
     case 'starting':
     case 'stopping':
+    case 'deleting':
       return 'text-warning-600';
     case 'error':
       return 'text-error-600';
@@ -108,6 +109,7 @@ export function getStatusBadgeClass(status: WorkspaceStatus): string {
       return `${baseClass} bg-gray-100 text-gray-800`;
     case 'starting':
     case 'stopping':
+    case 'deleting':
       return `${baseClass} bg-warning-100 text-warning-800`;
     case 'error':
       return `${baseClass} bg-error-100 text-error-800`;
@@ -126,6 +128,7 @@ export function getStatusIcon(status: WorkspaceStatus): string {
       return '○'; // Empty circle
     case 'starting':
     case 'stopping':
+    case 'deleting':
       return '◐'; // Half circle
     case 'error':
       return '⚠'; // Warning
@@ -136,6 +139,25 @@ export function getStatusIcon(status: WorkspaceStatus): string {
   }
 }
 
+// Workspace access helpers
+const WORKSPACE_ACCESS_LEVELS: Record<WorkspaceAccess, number> = {
+  viewer: 1,
+  operator: 2,
+  editor: 3,
+  owner: 4,
+};
+
+export function hasWorkspaceAccess(workspace: Workspace, required: WorkspaceAccess): boolean {
+  // The backend enforces access; workspaces without it (e.g. admin listings) get the full controls
+  const access = workspace.access || 'owner';
+  return WORKSPACE_ACCESS_LEVELS[access] >= WORKSPACE_ACCESS_LEVELS[required];
+}
+
+// Expired workspaces are stopped and can't be started until their expiry is extended
+export function isWorkspaceExpired(workspace: Workspace): boolean {
+  return !!workspace.expiresAt && new Date(workspace.expiresAt) <= new Date();
+}
+
 // Percentage helpers
 export function calculatePercentage(used: number, total: number): number {
   if (total === 0) return 0;